@@ -38,7 +38,7 @@ export interface SeedStep14Result {
   submissionId: string
   /** Email used for the session */
   email: string
-  /** Direct URL to Step 14 */
+  /** URL to Step 14, signing the browser into the session on the way */
   url: string
   /** Zustand store JSON for localStorage injection */
   zustandStore: string
@@ -103,7 +103,7 @@ export async function seedStep14TestSession(
   for (let attempt = 0; attempt < 10; attempt++) {
     try {
       const check = await fetch(verificationUrl, {
-        headers: getHeaders()
+        headers: getHeaders({ Cookie: data.sessionCookie })
       })
       if (attempt === 9 && !check.ok) {
         console.warn('Submission not yet available after seeding', {
@@ -76,8 +76,8 @@ async function seedSessionThroughStep10(page: Page): Promise<string> {
     localStorage.setItem('wb-onboarding-store', store)
   }, JSON.stringify(zustandStore))
 
-  // Navigate to Step 11
-  await page.goto(`${baseUrl}/onboarding/step/11`)
+  // Navigate to Step 11, through the test sign-in so uploads are authorized
+  await page.goto(`${baseUrl}${data.url}`)
   await page.waitForLoadState('load')
 
   // Wait for the step heading to appear - "Website Structure" is the main page title
@@ -0,0 +1,124 @@
+/**
+ * Fake Supabase client for service unit tests
+ *
+ * from() returns a chainable, thenable query builder. Every call is recorded,
+ * and the query runs once it is awaited or ends in single()/maybeSingle().
+ * Its result comes from the resolver the test passes in, so one fake serves
+ * both canned result queues and small in-memory tables.
+ */
+
+export type QueryOperation = 'select' | 'insert' | 'upsert' | 'update' | 'delete'
+
+export interface QueryResult {
+  data?: any
+  error?: any
+  count?: number | null
+}
+
+export interface RecordedQuery {
+  table: string
+  operation: QueryOperation
+  /** Row(s) passed to insert/upsert/update */
+  values: any
+  /** Columns passed to select(), including a select() after a mutation */
+  columns: string | null
+  /** Filter calls in order, e.g. ['eq', 'id', 'sub_1'] */
+  filters: Array<[string, ...any[]]>
+  single: boolean
+}
+
+/** Returns the result of a query; undefined resolves to { data: null, error: null } */
+export type QueryResolver = (query: RecordedQuery) => QueryResult | undefined | void
+
+const FILTER_METHODS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'like', 'ilike', 'is', 'in', 'not', 'or', 'match', 'contains', 'filter']
+const MODIFIER_METHODS = ['order', 'limit', 'range']
+
+/**
+ * One query on a table; `queries` collects it when it runs
+ */
+export function createQueryBuilder(table: string, resolve: QueryResolver, queries: RecordedQuery[] = []): any {
+  const query: RecordedQuery = { table, operation: 'select', values: null, columns: null, filters: [], single: false }
+  const execute = () => {
+    queries.push(query)
+    return Promise.resolve(resolve(query) || { data: null, error: null })
+  }
+
+  const builder: any = {}
+  const mutation = (operation: QueryOperation) => jest.fn((values?: any) => {
+    query.operation = operation
+    query.values = values ?? null
+    return builder
+  })
+
+  builder.select = jest.fn((columns?: string) => {
+    query.columns = columns ?? '*'
+    return builder
+  })
+  builder.insert = mutation('insert')
+  builder.upsert = mutation('upsert')
+  builder.update = mutation('update')
+  builder.delete = mutation('delete')
+  for (const method of FILTER_METHODS) {
+    builder[method] = jest.fn((...args: any[]) => {
+      query.filters.push([method, ...args])
+      return builder
+    })
+  }
+  for (const method of MODIFIER_METHODS) {
+    builder[method] = jest.fn(() => builder)
+  }
+  builder.single = jest.fn(() => {
+    query.single = true
+    return execute()
+  })
+  builder.maybeSingle = builder.single
+  builder.then = (onFulfilled: any, onRejected: any) => execute().then(onFulfilled, onRejected)
+  return builder
+}
+
+/**
+ * Client whose from() builds a fresh query per call; `queries` lists every
+ * query that ran, in order
+ */
+export function createSupabaseFake(resolve: QueryResolver = () => undefined) {
+  const queries: RecordedQuery[] = []
+  const client: any = {
+    from: jest.fn((table: string) => createQueryBuilder(table, resolve, queries))
+  }
+  return { client, queries }
+}
+
+/**
+ * Resolver that hands out the next canned result queued for the table
+ */
+export function cannedResults(results: () => Record<string, QueryResult[]>): QueryResolver {
+  return query => (results()[query.table] || []).shift()
+}
+
+/**
+ * Whether a row passes the eq/neq/is/gt/gte/lt/lte/in filters of a query
+ * (enough for in-memory tables; other filters are ignored)
+ */
+export function matchesFilters(row: Record<string, any>, query: RecordedQuery): boolean {
+  return query.filters.every(([method, column, value]) => {
+    switch (method) {
+      case 'eq':
+      case 'is':
+        return row[column] === value
+      case 'neq':
+        return row[column] !== value
+      case 'gt':
+        return row[column] > value
+      case 'gte':
+        return row[column] >= value
+      case 'lt':
+        return row[column] < value
+      case 'lte':
+        return row[column] <= value
+      case 'in':
+        return value.includes(row[column])
+      default:
+        return true
+    }
+  })
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import {
+  ADMIN_SESSION_TTL,
+  createAdminSessionToken,
+  verifyAdminPassword,
+  verifyAdminSessionToken
+} from '@/lib/admin-auth'
+
+describe('admin-auth', () => {
+  const originalPassword = process.env.ADMIN_PASSWORD
+
+  beforeEach(() => {
+    process.env.ADMIN_PASSWORD = 'correct-horse'
+  })
+
+  afterEach(() => {
+    process.env.ADMIN_PASSWORD = originalPassword
+  })
+
+  describe('verifyAdminPassword', () => {
+    it('accepts the configured password', () => {
+      expect(verifyAdminPassword('correct-horse')).toBe(true)
+    })
+
+    it('rejects a wrong password', () => {
+      expect(verifyAdminPassword('wrong-horse')).toBe(false)
+      expect(verifyAdminPassword('')).toBe(false)
+    })
+
+    it('rejects everything when ADMIN_PASSWORD is not configured', () => {
+      delete process.env.ADMIN_PASSWORD
+      expect(verifyAdminPassword('correct-horse')).toBe(false)
+    })
+  })
+
+  describe('admin session token', () => {
+    it('validates a freshly issued token', () => {
+      const { token } = createAdminSessionToken()
+      expect(verifyAdminSessionToken(token)).toBe(true)
+    })
+
+    it('rejects an expired token', () => {
+      const issuedAt = Date.now()
+      const { token } = createAdminSessionToken(issuedAt)
+      expect(verifyAdminSessionToken(token, issuedAt + ADMIN_SESSION_TTL + 1)).toBe(false)
+    })
+
+    it('rejects a tampered token', () => {
+      const { token, expiresAt } = createAdminSessionToken()
+      const decoded = Buffer.from(token, 'base64').toString('utf-8')
+      const signature = decoded.split('.')[1]
+      const forged = Buffer.from(`admin|${expiresAt + ADMIN_SESSION_TTL}.${signature}`).toString('base64')
+
+      expect(verifyAdminSessionToken(forged)).toBe(false)
+    })
+
+    it('rejects missing or malformed tokens', () => {
+      expect(verifyAdminSessionToken(undefined)).toBe(false)
+      expect(verifyAdminSessionToken('not-a-token')).toBe(false)
+    })
+  })
+})
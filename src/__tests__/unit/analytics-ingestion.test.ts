@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals'
+import { MAX_ANALYTICS_BATCH_SIZE, normalizeBatchEvent, parseAnalyticsBatch } from '@/lib/analytics-ingestion'
+
+const NOW = new Date('2025-12-15T12:00:00Z').getTime()
+const SESSION_ID = '7b0c2a3e-5f1d-4c8e-9a6b-1d2e3f4a5b6c'
+
+const event = (overrides: Record<string, unknown> = {}) => ({
+  id: 'evt-1',
+  sessionId: SESSION_ID,
+  eventType: 'step_view',
+  stepNumber: 3,
+  metadata: { locale: 'it' },
+  timestamp: NOW - 60000,
+  ...overrides
+})
+
+describe('analytics-ingestion', () => {
+  it('normalizes a valid event into an insertable row', () => {
+    expect(normalizeBatchEvent(event({ durationMs: 1234.6 }), NOW)).toEqual({
+      client_event_id: 'evt-1',
+      session_id: SESSION_ID,
+      event_type: 'step_view',
+      step_number: 3,
+      field_name: null,
+      metadata: { locale: 'it' },
+      category: 'user_action',
+      duration_ms: 1235,
+      created_at: new Date(NOW - 60000).toISOString()
+    })
+  })
+
+  it('rejects unknown event types, categories and out-of-range steps', () => {
+    expect(normalizeBatchEvent(event({ eventType: 'page_hack' }), NOW)).toBeNull()
+    expect(normalizeBatchEvent(event({ category: 'marketing' }), NOW)).toBeNull()
+    expect(normalizeBatchEvent(event({ stepNumber: 15 }), NOW)).toBeNull()
+    expect(normalizeBatchEvent(event({ sessionId: 'not-a-session' }), NOW)).toBeNull()
+    expect(normalizeBatchEvent(event({ metadata: { blob: 'x'.repeat(5000) } }), NOW)).toBeNull()
+  })
+
+  it('falls back to the server time for implausible timestamps', () => {
+    const future = normalizeBatchEvent(event({ timestamp: NOW + 3600000 }), NOW)
+    const stale = normalizeBatchEvent(event({ timestamp: NOW - 2 * 24 * 3600000 }), NOW)
+
+    expect(future?.created_at).toBe(new Date(NOW).toISOString())
+    expect(stale?.created_at).toBe(new Date(NOW).toISOString())
+  })
+
+  it('drops invalid events individually and collapses duplicate ids', () => {
+    const batch = parseAnalyticsBatch({
+      events: [event(), event(), event({ id: 'evt-2', eventType: 'bogus' }), event({ id: 'evt-3' })]
+    }, NOW)
+
+    expect(batch?.events.map(row => row.client_event_id)).toEqual(['evt-1', 'evt-3'])
+    expect(batch?.rejected).toBe(1)
+  })
+
+  it('keeps the same id from different sessions', () => {
+    const batch = parseAnalyticsBatch({
+      events: [event(), event({ sessionId: '7d0f3c5e-2b1a-4c8d-9e6f-1a2b3c4d5e6f' })]
+    }, NOW)
+
+    expect(batch?.events).toHaveLength(2)
+  })
+
+  it('rejects malformed, empty and oversized batches', () => {
+    expect(parseAnalyticsBatch(null, NOW)).toBeNull()
+    expect(parseAnalyticsBatch({ events: [] }, NOW)).toBeNull()
+    expect(parseAnalyticsBatch([event()], NOW)).toBeNull()
+    expect(parseAnalyticsBatch({
+      events: Array.from({ length: MAX_ANALYTICS_BATCH_SIZE + 1 }, (_, i) => event({ id: `evt-${i}` }))
+    }, NOW)).toBeNull()
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals'
+import { anonymizeIp, applyAnalyticsPrivacy, AnalyticsRequestContext } from '@/lib/analytics-privacy'
+import { parseConsentCookie } from '@/lib/cookie-consent'
+
+jest.mock('next/server', () => ({ NextResponse: { json: jest.fn() } }))
+
+const IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Mobile/15E148'
+
+const context = (overrides: Partial<AnalyticsRequestContext> = {}): AnalyticsRequestContext => ({
+  analyticsConsent: false,
+  ipAddress: '203.0.113.57',
+  userAgent: IPHONE,
+  ...overrides
+})
+
+describe('analytics-privacy', () => {
+  it('truncates IPv4 to /24 and IPv6 to /48', () => {
+    expect(anonymizeIp('203.0.113.57')).toBe('203.0.113.0')
+    expect(anonymizeIp('2001:db8:85a3:8d3:1319:8a2e:370:7348')).toBe('2001:db8:85a3::')
+    expect(anonymizeIp('2001:db8::1')).toBe('2001:db8:0::')
+    expect(anonymizeIp('unknown')).toBe('unknown')
+  })
+
+  it('keeps the full context when analytics consent was given', () => {
+    expect(applyAnalyticsPrivacy({ step: 3 }, context({ analyticsConsent: true }))).toEqual({
+      step: 3,
+      ip_address: '203.0.113.57',
+      user_agent: IPHONE,
+      analytics_consent: true
+    })
+  })
+
+  it('anonymizes the IP and drops user agent detail without consent', () => {
+    const metadata = applyAnalyticsPrivacy({ issue: 'no webp', user_agent: IPHONE }, context())
+
+    expect(metadata).toEqual({
+      issue: 'no webp',
+      is_mobile: true,
+      ip_address: '203.0.113.0',
+      analytics_consent: false
+    })
+  })
+
+  it('keeps a device class the client already reported', () => {
+    expect(applyAnalyticsPrivacy({ is_mobile: false }, context()).is_mobile).toBe(false)
+  })
+
+  it('treats a missing or malformed consent cookie as no consent', () => {
+    expect(parseConsentCookie(undefined)).toEqual({ analytics: false, marketing: false })
+    expect(parseConsentCookie('analytics')).toEqual({ analytics: true, marketing: false })
+    expect(parseConsentCookie('analytics,marketing')).toEqual({ analytics: true, marketing: true })
+    expect(parseConsentCookie('{"analytics":true}')).toEqual({ analytics: false, marketing: false })
+  })
+})
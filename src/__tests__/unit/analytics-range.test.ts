@@ -0,0 +1,29 @@
+import { describe, it, expect } from '@jest/globals'
+import { parseAnalyticsRange, resolveAnalyticsRange } from '@/lib/analytics-range'
+
+const parse = (query: string) => parseAnalyticsRange(new URLSearchParams(query), new Date('2025-12-15T00:00:00Z'))
+
+describe('analytics-range', () => {
+  it('includes the whole day of a bare `to` date', () => {
+    const { filters } = parse('from=2025-11-01&to=2025-11-30&locale=it')
+
+    expect(filters).toEqual({
+      from: new Date('2025-11-01T00:00:00Z'),
+      to: new Date('2025-12-01T00:00:00Z'),
+      locale: 'it'
+    })
+  })
+
+  it('rejects invalid and oversized ranges', () => {
+    expect(parse('from=yesterday').error).toBe('from and to must be ISO dates')
+    expect(parse('from=2025-11-30&to=2025-11-01').error).toBe('from must be before to')
+    expect(parse('from=2024-01-01').error).toMatch(/cannot exceed 366 days/)
+    expect(parse('locale=de').error).toMatch(/Invalid locale/)
+  })
+
+  it('defaults to the last 30 days', () => {
+    const to = new Date('2025-12-15T00:00:00Z')
+
+    expect(resolveAnalyticsRange({ to })).toEqual({ from: new Date('2025-11-15T00:00:00Z'), to })
+  })
+})
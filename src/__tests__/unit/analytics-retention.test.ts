@@ -0,0 +1,64 @@
+import { describe, it, expect, afterEach } from '@jest/globals'
+import { AnalyticsRetentionService, getAnalyticsRetentionDays } from '@/services/analytics-retention'
+
+const supabaseReturning = (...counts: number[]) => {
+  const rpc: jest.Mock<any> = jest.fn()
+  counts.forEach(count => rpc.mockResolvedValueOnce({ data: count, error: null }))
+  return { client: { rpc } as any, rpc }
+}
+
+describe('analytics-retention', () => {
+  const now = new Date('2025-12-16T05:00:00Z')
+
+  afterEach(() => {
+    delete process.env.ANALYTICS_RETENTION_DAYS
+  })
+
+  it('reads the retention window from the environment', () => {
+    expect(getAnalyticsRetentionDays()).toBe(395)
+
+    process.env.ANALYTICS_RETENTION_DAYS = '90'
+    expect(getAnalyticsRetentionDays()).toBe(90)
+
+    process.env.ANALYTICS_RETENTION_DAYS = '-1'
+    expect(getAnalyticsRetentionDays()).toBe(395)
+  })
+
+  it('deletes in batches until a batch comes back short', async () => {
+    const { client, rpc } = supabaseReturning(10000, 10000, 12)
+
+    const report = await new AnalyticsRetentionService().run(client, { retentionDays: 30, now })
+
+    expect(rpc).toHaveBeenCalledTimes(3)
+    expect(rpc).toHaveBeenCalledWith('purge_onboarding_analytics', {
+      p_before: '2025-11-16T05:00:00.000Z',
+      p_limit: 10000,
+      p_dry_run: false
+    })
+    expect(report).toEqual({
+      dryRun: false,
+      retentionDays: 30,
+      cutoff: '2025-11-16T05:00:00.000Z',
+      purged: 20012,
+      truncated: false
+    })
+  })
+
+  it('only counts on a dry run', async () => {
+    const { client, rpc } = supabaseReturning(25000)
+
+    const report = await new AnalyticsRetentionService().run(client, { dryRun: true, retentionDays: 30, now })
+
+    expect(rpc).toHaveBeenCalledTimes(1)
+    expect(report.purged).toBe(25000)
+    expect(report.truncated).toBe(false)
+  })
+
+  it('surfaces database errors', async () => {
+    const rpc: jest.Mock<any> = jest.fn()
+    rpc.mockResolvedValueOnce({ data: null, error: { message: 'permission denied' } })
+
+    await expect(new AnalyticsRetentionService().run({ rpc } as any, { now }))
+      .rejects.toThrow('Failed to purge analytics events: permission denied')
+  })
+})
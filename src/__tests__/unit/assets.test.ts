@@ -0,0 +1,99 @@
+import { describe, it, expect } from '@jest/globals'
+import { getAssetPath, getAssetThumbnailUrl, getAssetUrl, isValidAssetPath } from '@/lib/assets'
+import { createAssetToken, getSignedAssetUrl, verifyAssetToken } from '@/lib/asset-signing'
+
+const SIGNED_URL =
+  'https://abc.supabase.co/storage/v1/object/sign/onboarding-uploads/logo/logo-1733-x1y2.png?token=eyJhbGciOi'
+
+describe('assets', () => {
+  describe('isValidAssetPath', () => {
+    it('accepts paths in the upload folders', () => {
+      expect(isValidAssetPath('logo/logo-1733-x1y2.png')).toBe(true)
+      expect(isValidAssetPath('business-asset/business-asset-1733-ab.jpg')).toBe(true)
+      expect(isValidAssetPath('product-photo/photo.webp')).toBe(true)
+    })
+
+    it('rejects traversal, nesting and unknown folders', () => {
+      expect(isValidAssetPath('logo/../secrets.png')).toBe(false)
+      expect(isValidAssetPath('logo/nested/file.png')).toBe(false)
+      expect(isValidAssetPath('/logo/file.png')).toBe(false)
+      expect(isValidAssetPath('invoices/file.pdf')).toBe(false)
+      expect(isValidAssetPath('')).toBe(false)
+      expect(isValidAssetPath(undefined)).toBe(false)
+    })
+  })
+
+  describe('getAssetPath', () => {
+    it('prefers the stored path', () => {
+      expect(getAssetPath({ path: 'logo/a.png', url: SIGNED_URL })).toBe('logo/a.png')
+    })
+
+    it('recovers the path from a legacy signed URL', () => {
+      expect(getAssetPath({ url: SIGNED_URL })).toBe('logo/logo-1733-x1y2.png')
+    })
+
+    it('returns null for URLs outside the bucket', () => {
+      expect(getAssetPath({ url: 'https://example.com/logo.png' })).toBeNull()
+      expect(getAssetPath(null)).toBeNull()
+    })
+  })
+
+  describe('getAssetUrl', () => {
+    it('points at the asset route', () => {
+      expect(getAssetUrl({ path: 'logo/a.png' })).toBe('/api/assets/logo/a.png')
+      expect(getAssetUrl({ url: SIGNED_URL })).toBe('/api/assets/logo/logo-1733-x1y2.png')
+    })
+
+    it('keeps external URLs as saved', () => {
+      expect(getAssetUrl({ url: 'https://example.com/logo.png' })).toBe('https://example.com/logo.png')
+      expect(getAssetUrl({})).toBe('')
+    })
+  })
+
+  describe('getAssetThumbnailUrl', () => {
+    const file = {
+      path: 'logo/a.png',
+      derivatives: [
+        { path: 'logo/a-w640.webp', width: 640, height: 480, format: 'webp' as const, size: 900 },
+        { path: 'logo/a-w160.webp', width: 160, height: 120, format: 'webp' as const, size: 100 },
+        { path: 'logo/a-w160.avif', width: 160, height: 120, format: 'avif' as const, size: 80 }
+      ]
+    }
+
+    it('picks the smallest derivative wide enough', () => {
+      expect(getAssetThumbnailUrl(file, 80)).toBe('/api/assets/logo/a-w160.webp')
+      expect(getAssetThumbnailUrl(file, 200)).toBe('/api/assets/logo/a-w640.webp')
+      expect(getAssetThumbnailUrl(file, 80, 'avif')).toBe('/api/assets/logo/a-w160.avif')
+    })
+
+    it('uses the largest derivative when none is wide enough', () => {
+      expect(getAssetThumbnailUrl(file, 2000)).toBe('/api/assets/logo/a-w640.webp')
+    })
+
+    it('falls back to the original for uploads without derivatives', () => {
+      expect(getAssetThumbnailUrl({ path: 'logo/a.png' }, 80)).toBe('/api/assets/logo/a.png')
+    })
+  })
+
+    describe('signed asset links', () => {
+    it('verifies a token only for the path it was created for', () => {
+      const token = createAssetToken('logo/a.png')
+
+      expect(verifyAssetToken('logo/a.png', token)).toBe(true)
+      expect(verifyAssetToken('logo/b.png', token)).toBe(false)
+      expect(verifyAssetToken('logo/a.png', 'forged')).toBe(false)
+      expect(verifyAssetToken('logo/a.png', null)).toBe(false)
+    })
+
+    it('builds absolute links that carry a valid token', () => {
+      const url = new URL(getSignedAssetUrl({ url: SIGNED_URL }))
+
+      expect(url.pathname).toBe('/api/assets/logo/logo-1733-x1y2.png')
+      expect(verifyAssetToken('logo/logo-1733-x1y2.png', url.searchParams.get('token'))).toBe(true)
+    })
+
+    it('returns nothing for files without a storage path', () => {
+      expect(getSignedAssetUrl({ url: 'https://example.com/logo.png' })).toBe('')
+    })
+  })
+})
@@ -5,6 +5,7 @@ import {
   isCategoryAllowed,
   acceptAllCookies,
   acceptEssentialOnly,
+  CONSENT_COOKIE_NAME,
   type CookieConsent,
 } from '@/lib/cookie-consent'
 
@@ -103,6 +104,15 @@ describe('cookie-consent', () => {
       expect(event.detail.analytics).toBe(false)
       expect(event.detail.marketing).toBe(false)
     })
+
+    it('should mirror the granted categories to a cookie the server can read', () => {
+      setCookieConsent({ essential: true, analytics: true, marketing: false })
+      expect(document.cookie).toContain(`${CONSENT_COOKIE_NAME}=analytics`)
+
+      setCookieConsent({ essential: true, analytics: false, marketing: false })
+      expect(document.cookie).toContain(`${CONSENT_COOKIE_NAME}=`)
+      expect(document.cookie).not.toContain('analytics')
+    })
   })
 
   describe('hasGivenConsent', () => {
@@ -0,0 +1,157 @@
+import { describe, it, expect, afterEach } from '@jest/globals'
+import {
+  CSRF_COOKIE_NAME,
+  CSRF_HEADER_NAME,
+  CSRF_TOKEN_TTL,
+  generateCSRFToken,
+  isCSRFProtectedRequest,
+  shouldRefreshCSRFToken,
+  validateCSRFRequest,
+  verifyCSRFToken
+} from '@/lib/csrf'
+
+jest.mock('next/server', () => ({ NextResponse: { json: jest.fn() } }))
+
+const buildRequest = ({
+  method = 'POST',
+  pathname = '/api/stripe/create-checkout-session',
+  header,
+  cookie,
+  testMode = false
+}: {
+  method?: string
+  pathname?: string
+  header?: string
+  cookie?: string
+  testMode?: boolean
+}) => {
+  const headers: Record<string, string> = {}
+  if (header) headers[CSRF_HEADER_NAME.toLowerCase()] = header
+  if (testMode) headers['x-test-mode'] = 'true'
+
+  return {
+    method,
+    nextUrl: { pathname },
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    cookies: { get: (name: string) => (name === CSRF_COOKIE_NAME && cookie ? { value: cookie } : undefined) }
+  } as any
+}
+
+describe('csrf', () => {
+  const now = 1_700_000_000_000
+
+  afterEach(() => {
+    delete process.env.CSRF_SECRET
+    delete process.env.CSRF_SECRET_PREVIOUS
+  })
+
+  describe('verifyCSRFToken', () => {
+    it('accepts a fresh token and rejects it once expired', () => {
+      const { token, expiresAt } = generateCSRFToken(now)
+
+      expect(expiresAt).toBe(now + CSRF_TOKEN_TTL)
+      expect(verifyCSRFToken(token, now + 1000)).toEqual(expect.objectContaining({ issuedAt: now, rotated: false }))
+      expect(verifyCSRFToken(token, now + CSRF_TOKEN_TTL + 1)).toBeNull()
+    })
+
+    it('rejects tampered tokens', () => {
+      const { token } = generateCSRFToken(now)
+      const [keyId, , nonce, signature] = token.split('.')
+
+      // Extending the lifetime by rewriting the timestamp breaks the signature
+      expect(verifyCSRFToken(`${keyId}.${(now + 1000).toString(36)}.${nonce}.${signature}`, now)).toBeNull()
+      expect(verifyCSRFToken(`${token}x`, now)).toBeNull()
+      expect(verifyCSRFToken('not-a-token', now)).toBeNull()
+    })
+
+    it('keeps accepting tokens signed with the previous key after rotation', () => {
+      process.env.CSRF_SECRET = 'old-secret'
+      const { token } = generateCSRFToken(now)
+
+      process.env.CSRF_SECRET = 'new-secret'
+      process.env.CSRF_SECRET_PREVIOUS = 'old-secret'
+      expect(verifyCSRFToken(token, now)).toEqual(expect.objectContaining({ rotated: true }))
+      expect(shouldRefreshCSRFToken(token, now)).toBe(true)
+
+      // Once the old key is retired its tokens are no longer valid
+      delete process.env.CSRF_SECRET_PREVIOUS
+      expect(verifyCSRFToken(token, now)).toBeNull()
+    })
+  })
+
+  describe('shouldRefreshCSRFToken', () => {
+    it('refreshes missing tokens and tokens past half their lifetime', () => {
+      const { token } = generateCSRFToken(now)
+
+      expect(shouldRefreshCSRFToken(undefined, now)).toBe(true)
+      expect(shouldRefreshCSRFToken(token, now + 1000)).toBe(false)
+      expect(shouldRefreshCSRFToken(token, now + CSRF_TOKEN_TTL / 2 + 1)).toBe(true)
+    })
+  })
+
+  describe('isCSRFProtectedRequest', () => {
+    it('covers mutating onboarding and Stripe calls except the webhook and beacon endpoints', () => {
+      expect(isCSRFProtectedRequest(buildRequest({ pathname: '/api/onboarding/submit' }))).toBe(true)
+      expect(isCSRFProtectedRequest(buildRequest({ method: 'DELETE', pathname: '/api/onboarding/upload' }))).toBe(true)
+      expect(isCSRFProtectedRequest(buildRequest({ method: 'GET', pathname: '/api/onboarding/status' }))).toBe(false)
+      expect(isCSRFProtectedRequest(buildRequest({ pathname: '/api/stripe/webhook' }))).toBe(false)
+      expect(isCSRFProtectedRequest(buildRequest({ pathname: '/api/onboarding/analytics/batch' }))).toBe(false)
+      expect(isCSRFProtectedRequest(buildRequest({ pathname: '/api/onboarding/analytics/track' }))).toBe(true)
+      expect(isCSRFProtectedRequest(buildRequest({ pathname: '/api/contact' }))).toBe(false)
+    })
+  })
+
+  describe('validateCSRFRequest', () => {
+    it('accepts a header matching the cookie', () => {
+      const { token } = generateCSRFToken(now)
+
+      expect(validateCSRFRequest(buildRequest({ header: token, cookie: token }), now)).toEqual({ valid: true })
+    })
+
+    it('rejects requests without the header or the cookie', () => {
+      const { token } = generateCSRFToken(now)
+
+      expect(validateCSRFRequest(buildRequest({ cookie: token }), now).valid).toBe(false)
+      expect(validateCSRFRequest(buildRequest({ header: token }), now).valid).toBe(false)
+    })
+
+    it('rejects a header that does not match the cookie', () => {
+      const cookie = generateCSRFToken(now)
+      const other = generateCSRFToken(now)
+
+      // Both tokens are validly signed, but the header must echo this browser's cookie
+      expect(validateCSRFRequest(buildRequest({ header: other.token, cookie: cookie.token }), now).valid).toBe(false)
+    })
+
+    it('accepts the same token repeatedly until it expires', () => {
+      const { token } = generateCSRFToken(now)
+
+      // Not one-time-use (see the trade-off in csrf.ts): a token read from the
+      // cookie stays valid for every request within its lifetime
+      expect(validateCSRFRequest(buildRequest({ header: token, cookie: token }), now).valid).toBe(true)
+      expect(validateCSRFRequest(buildRequest({ header: token, cookie: token }), now + CSRF_TOKEN_TTL - 1).valid).toBe(true)
+    })
+
+    it('rejects a replayed token after it expires', () => {
+      const { token } = generateCSRFToken(now)
+      const replayAt = now + CSRF_TOKEN_TTL + 1
+
+      expect(validateCSRFRequest(buildRequest({ header: token, cookie: token }), replayAt)).toEqual({
+        valid: false,
+        error: expect.stringContaining('expired')
+      })
+    })
+
+    it('rejects a forged token even when header and cookie match', () => {
+      process.env.CSRF_SECRET = 'attacker-guess'
+      const { token } = generateCSRFToken(now)
+      delete process.env.CSRF_SECRET
+
+      expect(validateCSRFRequest(buildRequest({ header: token, cookie: token }), now).valid).toBe(false)
+    })
+
+    it('lets integration tests bypass the check outside production', () => {
+      expect(validateCSRFRequest(buildRequest({ testMode: true }), now).valid).toBe(true)
+    })
+  })
+})
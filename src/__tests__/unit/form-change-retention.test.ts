@@ -0,0 +1,71 @@
+import { describe, it, expect, afterEach } from '@jest/globals'
+import { FormChangeRetentionService, getFormChangeRetentionDays } from '@/services/form-change-retention'
+
+const supabaseReturning = (...counts: number[]) => {
+  const rpc: jest.Mock<any> = jest.fn()
+  counts.forEach(count => rpc.mockResolvedValueOnce({ data: count, error: null }))
+  return { client: { rpc } as any, rpc }
+}
+
+describe('form-change-retention', () => {
+  const now = new Date('2025-12-22T05:15:00Z')
+
+  afterEach(() => {
+    delete process.env.FORM_CHANGE_RETENTION_DAYS
+  })
+
+  it('reads the retention window from the environment', () => {
+    expect(getFormChangeRetentionDays()).toBe(730)
+
+    process.env.FORM_CHANGE_RETENTION_DAYS = '365'
+    expect(getFormChangeRetentionDays()).toBe(365)
+
+    process.env.FORM_CHANGE_RETENTION_DAYS = 'forever'
+    expect(getFormChangeRetentionDays()).toBe(730)
+  })
+
+  it('deletes in batches until a batch comes back short', async () => {
+    const { client, rpc } = supabaseReturning(10000, 7)
+
+    const report = await new FormChangeRetentionService().run(client, { retentionDays: 30, now })
+
+    expect(rpc).toHaveBeenCalledTimes(2)
+    expect(rpc).toHaveBeenCalledWith('purge_onboarding_form_changes', {
+      p_before: '2025-11-22T05:15:00.000Z',
+      p_limit: 10000,
+      p_dry_run: false
+    })
+    expect(report).toEqual({
+      dryRun: false,
+      retentionDays: 30,
+      cutoff: '2025-11-22T05:15:00.000Z',
+      purged: 10007,
+      truncated: false
+    })
+  })
+
+  it('only counts on a dry run', async () => {
+    const { client, rpc } = supabaseReturning(42000)
+
+    const report = await new FormChangeRetentionService().run(client, { dryRun: true, now })
+
+    expect(rpc).toHaveBeenCalledTimes(1)
+    expect(report.purged).toBe(42000)
+    expect(report.truncated).toBe(false)
+  })
+
+  it('purges the history of one session', async () => {
+    const { client, rpc } = supabaseReturning(12)
+
+    await expect(new FormChangeRetentionService().purgeSession(client, 'session-1')).resolves.toBe(12)
+    expect(rpc).toHaveBeenCalledWith('purge_session_form_changes', { p_session_id: 'session-1' })
+  })
+
+  it('surfaces database errors', async () => {
+    const rpc: jest.Mock<any> = jest.fn()
+    rpc.mockResolvedValueOnce({ data: null, error: { message: 'permission denied' } })
+
+    await expect(new FormChangeRetentionService().run({ rpc } as any, { now }))
+      .rejects.toThrow('Failed to purge form changes: permission denied')
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect } from '@jest/globals'
+import sharp from 'sharp'
+import {
+  describeDerivatives,
+  getDerivativePath,
+  getDerivativeWidths,
+  processImage
+} from '@/lib/image-processing'
+
+describe('image-processing', () => {
+  describe('getDerivativePath', () => {
+    it('places derivatives next to the original', () => {
+      expect(getDerivativePath('logo/logo-1733-ab.png', 160, 'webp')).toBe('logo/logo-1733-ab-w160.webp')
+      expect(getDerivativePath('business-asset/b-1.jpg', 1280, 'avif')).toBe('business-asset/b-1-w1280.avif')
+    })
+  })
+
+  describe('getDerivativeWidths', () => {
+    it('never upscales', () => {
+      expect(getDerivativeWidths(4000)).toEqual([160, 640, 1280])
+      expect(getDerivativeWidths(800)).toEqual([160, 640])
+      expect(getDerivativeWidths(100)).toEqual([100])
+    })
+  })
+
+  describe('processImage', () => {
+    it('strips EXIF metadata and applies the orientation to the pixels', async () => {
+      const input = await sharp({ create: { width: 60, height: 20, channels: 3, background: '#c00' } })
+        .jpeg()
+        .withMetadata({ orientation: 6 })
+        .withExif({ IFD0: { Make: 'Camera', Model: 'Phone' } })
+        .toBuffer()
+
+      const { original } = await processImage(input, 'image/jpeg')
+      const metadata = await sharp(original.buffer).metadata()
+
+      expect(metadata.exif).toBeUndefined()
+      expect(metadata.orientation).toBeUndefined()
+      expect(metadata.format).toBe('jpeg')
+      expect({ width: original.width, height: original.height }).toEqual({ width: 20, height: 60 })
+    })
+
+    it('renders WebP and AVIF derivatives at each width', async () => {
+      const input = await sharp({ create: { width: 700, height: 350, channels: 3, background: '#09c' } })
+        .png()
+        .toBuffer()
+
+      const { derivatives } = await processImage(input, 'image/png')
+
+      expect(derivatives.map(d => `${d.format}@${d.width}x${d.height}`)).toEqual([
+        'webp@160x80',
+        'avif@160x80',
+        'webp@640x320',
+        'avif@640x320'
+      ])
+      expect((await sharp(derivatives[1].buffer).metadata()).format).toBe('heif')
+
+      expect(describeDerivatives('business-asset/a.png', derivatives)[0]).toEqual({
+        path: 'business-asset/a-w160.webp',
+        width: 160,
+        height: 80,
+        format: 'webp',
+        size: derivatives[0].buffer.length
+      })
+    })
+  })
+})
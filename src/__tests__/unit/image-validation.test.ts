@@ -0,0 +1,67 @@
+import { describe, it, expect } from '@jest/globals'
+import sharp from 'sharp'
+import { inspectImage, sniffImageType } from '@/lib/image-validation'
+
+const createImage = (format: 'png' | 'jpeg' | 'webp', width = 40, height = 30) =>
+  sharp({ create: { width, height, channels: 3, background: '#336699' } })[format]().toBuffer()
+
+describe('image-validation', () => {
+  describe('sniffImageType', () => {
+    it('identifies images by their signature', async () => {
+      expect(sniffImageType(await createImage('png'))).toBe('image/png')
+      expect(sniffImageType(await createImage('jpeg'))).toBe('image/jpeg')
+      expect(sniffImageType(await createImage('webp'))).toBe('image/webp')
+    })
+
+    it('rejects other content', () => {
+      expect(sniffImageType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"></svg>'))).toBeNull()
+      expect(sniffImageType(Buffer.from('%PDF-1.7'))).toBeNull()
+      expect(sniffImageType(Buffer.alloc(0))).toBeNull()
+    })
+  })
+
+  describe('inspectImage', () => {
+    it('returns the detected type, extension and dimensions', async () => {
+      const result = await inspectImage(await createImage('jpeg', 64, 48), 'image/jpeg')
+
+      expect(result).toEqual({ valid: true, mimeType: 'image/jpeg', extension: 'jpg', width: 64, height: 48 })
+    })
+
+    it('reports the displayed size of rotated JPEGs', async () => {
+      const rotated = await sharp({ create: { width: 60, height: 20, channels: 3, background: '#000' } })
+        .jpeg()
+        .withMetadata({ orientation: 6 })
+        .toBuffer()
+
+      const result = await inspectImage(rotated)
+
+      expect(result).toMatchObject({ valid: true, width: 20, height: 60 })
+    })
+
+    it('rejects content that does not match the declared type', async () => {
+      const result = await inspectImage(await createImage('png'), 'image/jpeg')
+
+      expect(result).toEqual({ valid: false, error: 'File content does not match its declared type' })
+    })
+
+    it('accepts image/jpg as a declared JPEG type', async () => {
+      const result = await inspectImage(await createImage('jpeg'), 'image/jpg')
+
+      expect(result.valid).toBe(true)
+    })
+
+    it('rejects files disguised with an image extension', async () => {
+      const result = await inspectImage(Buffer.from('MZ\x90\x00 not an image'), 'image/png')
+
+      expect(result).toEqual({ valid: false, error: 'File content is not a PNG, JPEG or WebP image' })
+    })
+
+    it('rejects truncated images that fail to decode', async () => {
+      const png = await createImage('png')
+
+      const result = await inspectImage(png.subarray(0, png.length - 20), 'image/png')
+
+      expect(result).toEqual({ valid: false, error: 'File could not be read as an image' })
+    })
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import {
+  OfflineOperation,
+  OfflineQueue,
+  OfflineQueueStorage,
+  QueuedOperation,
+  claimQueuedUpload,
+  isNetworkError,
+  settleQueuedUpload
+} from '@/lib/offline-queue'
+
+const createMemoryStorage = (): OfflineQueueStorage & { entries: QueuedOperation[] } => {
+  let nextId = 1
+  const storage = {
+    entries: [] as QueuedOperation[],
+    add: async (operation: OfflineOperation) => {
+      const id = nextId++
+      storage.entries.push({ ...operation, id } as QueuedOperation)
+      return id
+    },
+    list: async () => [...storage.entries],
+    remove: async (id: number) => {
+      storage.entries = storage.entries.filter(entry => entry.id !== id)
+    }
+  }
+  return storage
+}
+
+const file = new File(['logo'], 'logo.png', { type: 'image/png' })
+
+describe('offline-queue', () => {
+  let storage: ReturnType<typeof createMemoryStorage>
+  let queue: OfflineQueue
+
+  beforeEach(() => {
+    storage = createMemoryStorage()
+    queue = new OfflineQueue(storage)
+  })
+
+  it('keeps only the latest save of a session', async () => {
+    await queue.enqueueSave({ sessionId: 's1', formData: { businessName: 'A' }, currentStep: 3 })
+    await queue.enqueueUpload({ sessionId: 's1', uploadType: 'logo', file, target: { field: 'logoUpload' } })
+    await queue.enqueueSave({ sessionId: 's1', formData: { businessName: 'B' }, currentStep: 4 })
+    await queue.enqueueSave({ sessionId: 's2', formData: {}, currentStep: 1 })
+
+    expect(storage.entries.map(entry => [entry.kind, entry.sessionId])).toEqual([
+      ['upload', 's1'],
+      ['save', 's1'],
+      ['save', 's2']
+    ])
+  })
+
+  it('replays in order and empties the queue', async () => {
+    await queue.enqueueUpload({ sessionId: 's1', uploadType: 'logo', file })
+    await queue.enqueueSave({ sessionId: 's1', formData: {}, currentStep: 12 })
+
+    const replayed: string[] = []
+    const result = await queue.replay(async (operation) => {
+      replayed.push(operation.kind)
+    })
+
+    expect(replayed).toEqual(['upload', 'save'])
+    expect(result).toEqual({ replayed: 2, remaining: 0 })
+  })
+
+  it('stops at a network failure and keeps the rest queued', async () => {
+    await queue.enqueueUpload({ sessionId: 's1', uploadType: 'logo', file })
+    await queue.enqueueSave({ sessionId: 's1', formData: {}, currentStep: 12 })
+
+    const result = await queue.replay(async () => {
+      throw new TypeError('Failed to fetch')
+    })
+
+    expect(result).toEqual({ replayed: 0, remaining: 2 })
+  })
+
+  it('drops operations the server rejects', async () => {
+    await queue.enqueueUpload({ sessionId: 's1', uploadType: 'logo', file })
+    await queue.enqueueSave({ sessionId: 's1', formData: {}, currentStep: 12 })
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    const result = await queue.replay(async (operation) => {
+      if (operation.kind === 'upload') throw new Error('File type not allowed')
+    })
+
+    expect(result).toEqual({ replayed: 1, remaining: 0 })
+    consoleError.mockRestore()
+  })
+
+  it('tells network failures from rejections', () => {
+    expect(isNetworkError(new Error('Failed to save progress: TypeError: Failed to fetch'))).toBe(true)
+    expect(isNetworkError(new Error('Failed to save progress: permission denied'))).toBe(false)
+    expect(isNetworkError(new DOMException('Upload aborted', 'AbortError'))).toBe(false)
+  })
+
+  it('hands replayed uploads to the field that claimed them', () => {
+    const received: unknown[] = []
+    const release = claimQueuedUpload(7, settlement => received.push(settlement))
+
+    expect(settleQueuedUpload(7, { data: { url: '/api/assets/logo.png' } })).toBe(true)
+    expect(received).toEqual([{ data: { url: '/api/assets/logo.png' } }])
+    expect(settleQueuedUpload(7, { data: { url: '/api/assets/logo.png' } })).toBe(false)
+
+    claimQueuedUpload(8, () => {})
+    release()
+    expect(settleQueuedUpload(8, { error: new Error('gone') })).toBe(true)
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  ONBOARDING_SESSION_COOKIE,
+  ONBOARDING_SESSION_TTL,
+  createOnboardingSessionToken,
+  requireOnboardingSession,
+  verifyOnboardingSessionToken
+} from '@/lib/onboarding-auth'
+
+jest.mock('next/server', () => ({ NextResponse: { json: jest.fn() } }))
+
+const buildRequest = ({ cookie, testMode = false }: { cookie?: string; testMode?: boolean }) => ({
+  headers: { get: (name: string) => (testMode && name === 'X-Test-Mode' ? 'true' : null) },
+  cookies: { get: (name: string) => (name === ONBOARDING_SESSION_COOKIE && cookie ? { value: cookie } : undefined) }
+}) as any
+
+describe('onboarding-auth', () => {
+  it('round-trips the session id', () => {
+    const { token } = createOnboardingSessionToken('session-1')
+    expect(verifyOnboardingSessionToken(token)).toBe('session-1')
+  })
+
+  it('rejects expired tokens', () => {
+    const now = Date.now()
+    const { token } = createOnboardingSessionToken('session-1', now)
+
+    expect(verifyOnboardingSessionToken(token, now + ONBOARDING_SESSION_TTL - 1)).toBe('session-1')
+    expect(verifyOnboardingSessionToken(token, now + ONBOARDING_SESSION_TTL)).toBeNull()
+  })
+
+  it('rejects tokens whose session was swapped', () => {
+    const { token } = createOnboardingSessionToken('session-1')
+    const decoded = Buffer.from(token, 'base64').toString('utf-8')
+    const forged = Buffer.from(decoded.replace('session-1', 'session-2')).toString('base64')
+
+    expect(verifyOnboardingSessionToken(forged)).toBeNull()
+    expect(verifyOnboardingSessionToken('not-a-token')).toBeNull()
+    expect(verifyOnboardingSessionToken(undefined)).toBeNull()
+  })
+
+  describe('requireOnboardingSession', () => {
+    const { token } = createOnboardingSessionToken('session-1')
+
+    it('accepts only the session of the cookie', () => {
+      expect(requireOnboardingSession(buildRequest({ cookie: token }), 'session-1'))
+        .toEqual({ authorized: true, sessionId: 'session-1' })
+      expect(requireOnboardingSession(buildRequest({ cookie: token }), 'session-2').authorized).toBe(false)
+    })
+
+    it('resolves the session from the cookie when none is named', () => {
+      expect(requireOnboardingSession(buildRequest({ cookie: token })))
+        .toEqual({ authorized: true, sessionId: 'session-1' })
+      expect(requireOnboardingSession(buildRequest({})).authorized).toBe(false)
+    })
+
+    it('rejects a bare session id', () => {
+      expect(requireOnboardingSession(buildRequest({}), 'session-1').authorized).toBe(false)
+    })
+
+    it('lets integration tests name the session outside production', () => {
+      expect(requireOnboardingSession(buildRequest({ testMode: true }), 'session-1'))
+        .toEqual({ authorized: true, sessionId: 'session-1' })
+    })
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { useOnboardingStore } from '@/stores/onboarding'
+import { OnboardingClientService } from '@/services/onboarding-client'
+import { broadcastSessionSaved, subscribeToSessionSync, SessionSyncMessage } from '@/lib/session-sync'
+
+jest.mock('@/services/onboarding-client', () => ({
+  OnboardingClientService: { saveProgress: jest.fn() }
+}))
+jest.mock('@/lib/session-sync', () => ({
+  ...jest.requireActual('@/lib/session-sync'),
+  broadcastSessionSaved: jest.fn(),
+  subscribeToSessionSync: jest.fn(() => () => {})
+}))
+
+const mockSaveProgress = OnboardingClientService.saveProgress as jest.Mock<any>
+// The store subscribes once, when it is created
+const onSyncMessage = (subscribeToSessionSync as jest.Mock).mock.calls[0][0] as (message: SessionSyncMessage) => void
+const initialState = useOnboardingStore.getState()
+
+describe('onboarding store', () => {
+  const synced = { ...initialState.formData, businessName: 'Rossi', industry: 'food' }
+
+  const serverSession = (version: number, formData: Record<string, unknown>) => ({
+    id: 'session-1',
+    version,
+    currentStep: 3,
+    formData: { ...synced, ...formData }
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    useOnboardingStore.setState({
+      ...initialState,
+      sessionId: 'session-1',
+      currentStep: 3,
+      sessionVersion: 3,
+      syncedFormData: synced,
+      formData: { ...synced, businessName: 'Rossi & Figli' },
+      isDirty: true,
+      saveConflict: null
+    }, true)
+  })
+
+  describe('saving over a newer server copy', () => {
+    it('merges edits to other fields and saves again on the new version', async () => {
+      mockSaveProgress
+        .mockResolvedValueOnce({ status: 'conflict', session: serverSession(4, { industry: 'retail' }) })
+        .mockResolvedValueOnce({ status: 'saved', session: serverSession(5, {}) })
+
+      await useOnboardingStore.getState().saveProgress()
+
+      expect(mockSaveProgress).toHaveBeenCalledTimes(2)
+      expect(mockSaveProgress).toHaveBeenLastCalledWith(
+        'session-1',
+        expect.objectContaining({ businessName: 'Rossi & Figli', industry: 'retail' }),
+        3,
+        4
+      )
+      expect(useOnboardingStore.getState()).toMatchObject({ sessionVersion: 5, isDirty: false, saveConflict: null })
+      expect(broadcastSessionSaved).toHaveBeenCalledWith(expect.objectContaining({ sessionId: 'session-1', version: 5 }))
+    })
+
+    it('holds back edits to the same field until the user picks a side', async () => {
+      mockSaveProgress.mockResolvedValueOnce({ status: 'conflict', session: serverSession(4, { businessName: 'Rossi SRL' }) })
+
+      await useOnboardingStore.getState().saveProgress()
+
+      const state = useOnboardingStore.getState()
+      expect(state.saveConflict).toMatchObject({ fields: ['businessName'], serverVersion: 4, serverStep: 3 })
+      expect(state.formData.businessName).toBe('Rossi & Figli')
+      expect(state.sessionVersion).toBe(3)
+
+      // No save may overwrite the server copy while the conflict is open
+      await state.saveProgress()
+      expect(mockSaveProgress).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('saves announced by other tabs', () => {
+    const message = (overrides: Partial<SessionSyncMessage>): SessionSyncMessage => ({
+      type: 'saved',
+      sessionId: 'session-1',
+      version: 4,
+      currentStep: 3,
+      formData: { ...synced, industry: 'retail' },
+      ...overrides
+    })
+
+    it('ignores versions this tab already has and other sessions', () => {
+      const before = useOnboardingStore.getState()
+
+      onSyncMessage(message({ version: 3 }))
+      onSyncMessage(message({ version: 2, formData: { businessName: 'Stale' } }))
+      onSyncMessage(message({ sessionId: 'session-2', version: 9 }))
+
+      const after = useOnboardingStore.getState()
+      expect(after.formData).toBe(before.formData)
+      expect(after.sessionVersion).toBe(3)
+      expect(after.saveConflict).toBeNull()
+    })
+
+    it('takes in a newer version when nothing is unsaved', () => {
+      useOnboardingStore.setState({ formData: synced, isDirty: false })
+
+      onSyncMessage(message({ version: 4 }))
+
+      expect(useOnboardingStore.getState()).toMatchObject({
+        sessionVersion: 4,
+        formData: expect.objectContaining({ businessName: 'Rossi', industry: 'retail' })
+      })
+    })
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  PORTAL_SESSION_TTL,
+  createPortalSessionToken,
+  verifyPortalSessionToken
+} from '@/lib/portal-auth'
+
+describe('portal-auth', () => {
+  it('round-trips the normalized email', () => {
+    const { token } = createPortalSessionToken(' Owner@Example.com')
+    expect(verifyPortalSessionToken(token)).toBe('owner@example.com')
+  })
+
+  it('rejects expired tokens', () => {
+    const now = Date.now()
+    const { token } = createPortalSessionToken('owner@example.com', now)
+
+    expect(verifyPortalSessionToken(token, now + PORTAL_SESSION_TTL - 1)).toBe('owner@example.com')
+    expect(verifyPortalSessionToken(token, now + PORTAL_SESSION_TTL)).toBeNull()
+  })
+
+  it('rejects tokens whose email was swapped', () => {
+    const { token } = createPortalSessionToken('owner@example.com')
+    const decoded = Buffer.from(token, 'base64').toString('utf-8')
+    const forged = Buffer.from(decoded.replace('owner@', 'other@')).toString('base64')
+
+    expect(verifyPortalSessionToken(forged)).toBeNull()
+    expect(verifyPortalSessionToken('not-a-token')).toBeNull()
+    expect(verifyPortalSessionToken(undefined)).toBeNull()
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { hashPortalCode, PortalSignInService } from '@/services/portal-sign-in'
+import { createSupabaseFake, RecordedQuery } from '../helpers/supabase'
+
+describe('portal-sign-in', () => {
+  const now = new Date('2025-12-19T12:00:00Z')
+  let rows: Map<string, any>
+  let mockSupabase: any
+  let service: PortalSignInService
+
+  // In-memory portal_sign_in_codes keyed by email
+  const resolveQuery = (query: RecordedQuery) => {
+    if (query.operation === 'upsert') {
+      rows.set(query.values.email, { locked_until: null, ...rows.get(query.values.email), ...query.values })
+      return { error: null }
+    }
+
+    const email = query.filters.find(([method]) => method === 'eq')?.[2]
+    const row = email ? rows.get(email) : undefined
+    if (query.operation === 'update' && row) Object.assign(row, query.values)
+    if (query.operation === 'delete' && email) rows.delete(email)
+    return { data: query.operation === 'select' && row ? { ...row } : null, error: null }
+  }
+
+  beforeEach(() => {
+    rows = new Map()
+    mockSupabase = createSupabaseFake(resolveQuery).client
+    service = new PortalSignInService()
+  })
+
+  it('stores a hashed code per email and uses it up on sign-in', async () => {
+    const code = await service.createCode(mockSupabase, 'Owner@Example.com', { now })
+
+    expect(code).toMatch(/^\d{6}$/)
+    expect(mockSupabase.from).toHaveBeenCalledWith('portal_sign_in_codes')
+    expect(rows.get('owner@example.com').code_hash).toBe(hashPortalCode('owner@example.com', code))
+
+    await expect(service.verifyCode(mockSupabase, 'owner@example.com', code, { now })).resolves.toEqual({ success: true })
+    await expect(service.verifyCode(mockSupabase, 'owner@example.com', code, { now }))
+      .resolves.toEqual({ success: false, error: 'Invalid verification code' })
+  })
+
+  it('has no test bypass code', async () => {
+    await service.createCode(mockSupabase, 'owner@example.com', { now })
+
+    const results = await Promise.all(['DEV123', '123456'].map(code =>
+      service.verifyCode(mockSupabase, 'owner@example.com', code, { now })
+    ))
+
+    expect(results.every(result => !result.success)).toBe(true)
+  })
+
+  it('rejects expired codes', async () => {
+    const code = await service.createCode(mockSupabase, 'owner@example.com', { now })
+    const later = new Date(now.getTime() + 16 * 60 * 1000)
+
+    const result = await service.verifyCode(mockSupabase, 'owner@example.com', code, { now: later })
+
+    expect(result.success).toBe(false)
+  })
+
+  it('locks the email after five wrong codes, even for a newly requested code', async () => {
+    await service.createCode(mockSupabase, 'owner@example.com', { now })
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await service.verifyCode(mockSupabase, 'owner@example.com', 'wrong', { now })
+    }
+    const code = await service.createCode(mockSupabase, 'owner@example.com', { now })
+
+    await expect(service.verifyCode(mockSupabase, 'owner@example.com', code, { now })).resolves.toEqual({
+      success: false,
+      error: 'Too many failed attempts. Please try again later.'
+    })
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import {
+  MemoryRateLimitStore,
+  RATE_LIMITS,
+  checkRateLimit,
+  getClientIdentifier,
+  getRateLimitHeaders,
+  setRateLimitStore
+} from '@/lib/rate-limit'
+
+jest.mock('next/server', () => ({ NextResponse: { json: jest.fn() } }))
+
+describe('rate-limit', () => {
+  let store: MemoryRateLimitStore
+  const now = 1_700_000_000_000
+  const { limit, windowMs } = RATE_LIMITS.checkout
+
+  beforeEach(() => {
+    store = new MemoryRateLimitStore()
+    setRateLimitStore(store)
+  })
+
+  afterEach(() => {
+    setRateLimitStore(null)
+  })
+
+  describe('checkRateLimit', () => {
+    it('allows requests under the limit and counts down remaining', async () => {
+      const first = await checkRateLimit('checkout', 'session_123', now)
+      const second = await checkRateLimit('checkout', 'session_123', now + 1000)
+
+      expect(first).toEqual(expect.objectContaining({ allowed: true, limit, remaining: limit - 1 }))
+      expect(second.remaining).toBe(limit - 2)
+    })
+
+    it('blocks once the limit is reached until the oldest hit leaves the window', async () => {
+      for (let i = 0; i < limit; i++) {
+        await checkRateLimit('checkout', 'session_123', now + i * 1000)
+      }
+
+      const blocked = await checkRateLimit('checkout', 'session_123', now + limit * 1000)
+      expect(blocked.allowed).toBe(false)
+      expect(blocked.remaining).toBe(0)
+      expect(blocked.resetAt).toBe(now + windowMs)
+      expect(blocked.retryAfterSeconds).toBe((windowMs - limit * 1000) / 1000)
+
+      // Sliding window: only the first hit has expired, so exactly one slot frees up
+      const afterFirstExpires = await checkRateLimit('checkout', 'session_123', now + windowMs + 1)
+      expect(afterFirstExpires.allowed).toBe(true)
+      expect((await checkRateLimit('checkout', 'session_123', now + windowMs + 2)).allowed).toBe(false)
+    })
+
+    it('does not record rejected requests', async () => {
+      for (let i = 0; i < limit + 3; i++) {
+        await checkRateLimit('checkout', 'session_123', now)
+      }
+
+      expect((await checkRateLimit('checkout', 'session_123', now + windowMs + 1)).remaining).toBe(limit - 1)
+    })
+
+    it('keeps identifiers and limit names independent', async () => {
+      for (let i = 0; i < limit; i++) {
+        await checkRateLimit('checkout', 'session_123', now)
+      }
+
+      expect((await checkRateLimit('checkout', 'session_456', now)).allowed).toBe(true)
+      expect((await checkRateLimit('stripe', 'session_123', now)).allowed).toBe(true)
+    })
+
+    it('fails open when the store is unavailable', async () => {
+      setRateLimitStore({ hit: () => Promise.reject(new Error('connection refused')) })
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await checkRateLimit('checkout', 'session_123', now)
+
+      expect(result).toEqual(expect.objectContaining({ allowed: true, remaining: limit }))
+      consoleSpy.mockRestore()
+    })
+  })
+
+  describe('getRateLimitHeaders', () => {
+    it('adds Retry-After only to rejected requests', () => {
+      const allowed = { allowed: true, limit: 5, remaining: 4, resetAt: now + 60000, retryAfterSeconds: 0 }
+
+      expect(getRateLimitHeaders(allowed)).toEqual({
+        'X-RateLimit-Limit': '5',
+        'X-RateLimit-Remaining': '4',
+        'X-RateLimit-Reset': String((now + 60000) / 1000)
+      })
+      expect(getRateLimitHeaders({ ...allowed, allowed: false, remaining: 0, retryAfterSeconds: 42 }))
+        .toEqual(expect.objectContaining({ 'Retry-After': '42' }))
+    })
+  })
+
+  describe('getClientIdentifier', () => {
+    it('uses the first forwarded address', () => {
+      const headers: Record<string, string> = { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }
+      const request = { headers: { get: (name: string) => headers[name] ?? null } } as any
+
+      expect(getClientIdentifier(request)).toBe('203.0.113.7')
+    })
+  })
+})
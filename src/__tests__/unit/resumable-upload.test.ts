@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { CHUNK_BUCKET, ResumableUploadService } from '@/services/resumable-upload'
+import { storeImageUpload } from '@/services/image-upload'
+import { getUploadFingerprint } from '@/lib/resumable-upload'
+import { createSupabaseFake, matchesFilters, RecordedQuery } from '../helpers/supabase'
+
+jest.mock('@/services/image-upload', () => ({
+  ...jest.requireActual('@/services/image-upload'),
+  storeImageUpload: jest.fn()
+}))
+
+const mockStoreImageUpload = storeImageUpload as jest.MockedFunction<typeof storeImageUpload>
+
+describe('resumable-upload', () => {
+  const now = new Date('2025-12-09T12:00:00Z')
+  const uploadId = '6f1c2b1e-8d7a-4c3b-9a51-0f1e2d3c4b5a'
+  let rows: any[]
+  let chunks: Map<string, Buffer>
+  let storage: any
+  let mockSupabase: any
+  let service: ResumableUploadService
+
+  // Minimal in-memory onboarding_upload_sessions table
+  const resolveQuery = (query: RecordedQuery) => {
+    if (query.operation === 'insert') {
+      const row = {
+        id: uploadId,
+        received_bytes: 0,
+        status: 'uploading',
+        result: null,
+        error_message: null,
+        updated_at: now.toISOString(),
+        ...query.values
+      }
+      rows.push(row)
+      return { data: row, error: null }
+    }
+
+    const matched = rows.filter(row => matchesFilters(row, query))
+    if (query.operation === 'update') {
+      matched.forEach(row => Object.assign(row, query.values))
+    } else if (query.operation === 'delete') {
+      rows = rows.filter(row => !matched.includes(row))
+    }
+    return { data: query.single ? matched[0] || null : matched.map(row => ({ ...row })), error: null }
+  }
+
+  const createUpload = (overrides: Record<string, unknown> = {}) => {
+    rows.push({
+      id: uploadId,
+      session_id: 'session-1',
+      upload_type: 'business-asset',
+      file_name: 'shop.jpg',
+      mime_type: 'image/jpeg',
+      file_size: 10,
+      chunk_size: 4,
+      received_bytes: 0,
+      status: 'uploading',
+      result: null,
+      error_message: null,
+      expires_at: '2025-12-10T12:00:00Z',
+      updated_at: now.toISOString(),
+      ...overrides
+    })
+  }
+
+  const storedUpload = {
+    id: 'object-1',
+    path: 'business-asset/business-asset-1-a.jpg',
+    url: '/api/assets/business-asset%2Fbusiness-asset-1-a.jpg?sessionId=session-1',
+    fileName: 'shop.jpg',
+    fileSize: 10,
+    mimeType: 'image/jpeg' as const,
+    width: 100,
+    height: 80,
+    derivatives: [],
+    fullPath: 'onboarding-uploads/business-asset/business-asset-1-a.jpg'
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    rows = []
+    chunks = new Map()
+    storage = {
+      upload: jest.fn(async (path: string, data: Buffer) => {
+        chunks.set(path, data)
+        return { data: { path }, error: null }
+      }),
+      download: jest.fn(async (path: string) => {
+        const data = chunks.get(path)
+        return data
+          ? { data: { arrayBuffer: async () => data.buffer.slice(data.byteOffset, data.byteOffset + data.length) }, error: null }
+          : { data: null, error: { message: 'Object not found' } }
+      }),
+      remove: jest.fn(async (paths: string[]) => {
+        const removed = paths.filter(path => chunks.delete(path))
+        return { data: removed.map(name => ({ name })), error: null }
+      })
+    }
+    mockSupabase = {
+      ...createSupabaseFake(resolveQuery).client,
+      storage: { from: jest.fn(() => storage) }
+    }
+    mockStoreImageUpload.mockResolvedValue({ success: true, data: storedUpload })
+    service = new ResumableUploadService()
+  })
+
+  it('rejects disallowed uploads before creating them', async () => {
+    const oversized = await service.createUpload(mockSupabase, {
+      sessionId: 'session-1',
+      type: 'business-asset',
+      fileName: 'huge.jpg',
+      fileSize: 11 * 1024 * 1024,
+      mimeType: 'image/jpeg'
+    }, now)
+    const svg = await service.createUpload(mockSupabase, {
+      sessionId: 'session-1',
+      type: 'logo',
+      fileName: 'logo.svg',
+      fileSize: 100,
+      mimeType: 'image/svg+xml'
+    }, now)
+
+    expect(oversized).toMatchObject({ success: false, status: 400, error: 'File size exceeds 10MB limit' })
+    expect(svg).toMatchObject({ success: false, status: 400 })
+    expect(rows).toEqual([])
+  })
+
+  it('creates an upload that expires after a day', async () => {
+    const result = await service.createUpload(mockSupabase, {
+      sessionId: 'session-1',
+      type: 'business-asset',
+      fileName: 'shop.jpg',
+      fileSize: 5 * 1024 * 1024,
+      mimeType: 'image/jpeg'
+    }, now)
+
+    expect(result).toMatchObject({
+      success: true,
+      upload: { uploadId, offset: 0, chunkSize: 1024 * 1024, expiresAt: '2025-12-10T12:00:00.000Z' }
+    })
+  })
+
+  it('stores chunks at the upload offset and reports the current offset on a mismatch', async () => {
+    createUpload()
+
+    const first = await service.appendChunk(mockSupabase, uploadId, 'session-1', 0, Buffer.from('abcd'), now)
+    expect(first).toMatchObject({ success: true, upload: { offset: 4, status: 'uploading' } })
+    expect(mockSupabase.storage.from).toHaveBeenCalledWith(CHUNK_BUCKET)
+    expect(chunks.get(`${uploadId}/0`)?.toString()).toBe('abcd')
+
+    // Resent after the response was lost
+    const repeated = await service.appendChunk(mockSupabase, uploadId, 'session-1', 0, Buffer.from('abcd'), now)
+    expect(repeated).toMatchObject({ success: false, status: 409, upload: { offset: 4 } })
+  })
+
+  it('rejects chunks of the wrong size', async () => {
+    createUpload()
+
+    const result = await service.appendChunk(mockSupabase, uploadId, 'session-1', 0, Buffer.from('ab'), now)
+
+    expect(result).toMatchObject({ success: false, status: 400, error: 'Chunk must be 4 bytes' })
+    expect(storage.upload).not.toHaveBeenCalled()
+  })
+
+  it('assembles the chunks in order on the final chunk and keeps the result', async () => {
+    createUpload()
+
+    await service.appendChunk(mockSupabase, uploadId, 'session-1', 0, Buffer.from('abcd'), now)
+    await service.appendChunk(mockSupabase, uploadId, 'session-1', 4, Buffer.from('efgh'), now)
+    const final = await service.appendChunk(mockSupabase, uploadId, 'session-1', 8, Buffer.from('ij'), now)
+
+    expect(final).toMatchObject({ success: true, upload: { status: 'completed', offset: 10, data: storedUpload } })
+    expect(mockStoreImageUpload).toHaveBeenCalledWith(mockSupabase, {
+      buffer: Buffer.from('abcdefghij'),
+      declaredType: 'image/jpeg',
+      fileName: 'shop.jpg',
+      type: 'business-asset',
+      sessionId: 'session-1'
+    })
+    expect(chunks.size).toBe(0)
+
+    // A client that lost the final response gets the stored upload back
+    const again = await service.appendChunk(mockSupabase, uploadId, 'session-1', 8, Buffer.from('ij'), now)
+    expect(again).toMatchObject({ success: true, upload: { data: storedUpload } })
+    expect(mockStoreImageUpload).toHaveBeenCalledTimes(1)
+  })
+
+  it('fails the upload when the assembled file is rejected', async () => {
+    createUpload({ file_size: 4 })
+    mockStoreImageUpload.mockResolvedValue({ success: false, error: 'File content is not a supported image', status: 400 })
+
+    const result = await service.appendChunk(mockSupabase, uploadId, 'session-1', 0, Buffer.from('abcd'), now)
+
+    expect(result).toMatchObject({ success: false, status: 400, upload: { status: 'failed' } })
+    expect(rows[0]).toMatchObject({ status: 'failed', error_message: 'File content is not a supported image' })
+    expect(chunks.size).toBe(0)
+  })
+
+  it('releases the upload when storing the assembled file fails, so the final chunk can be retried', async () => {
+    createUpload({ file_size: 4 })
+    mockStoreImageUpload.mockResolvedValue({ success: false, error: 'Failed to upload file to storage', status: 500 })
+
+    const result = await service.appendChunk(mockSupabase, uploadId, 'session-1', 0, Buffer.from('abcd'), now)
+
+    expect(result).toMatchObject({ success: false, status: 500 })
+    expect(rows[0]).toMatchObject({ status: 'uploading', received_bytes: 0 })
+    expect(chunks.has(`${uploadId}/0`)).toBe(true)
+  })
+
+  it('treats expired uploads as unknown', async () => {
+    createUpload({ expires_at: '2025-12-09T11:00:00Z' })
+
+    expect(await service.getUpload(mockSupabase, uploadId, 'session-1', now)).toBeNull()
+    expect(await service.appendChunk(mockSupabase, uploadId, 'session-1', 0, Buffer.from('abcd'), now))
+      .toMatchObject({ success: false, status: 404 })
+  })
+
+  it('hides uploads from other sessions', async () => {
+    createUpload()
+
+    expect(await service.getUpload(mockSupabase, uploadId, 'session-2', now)).toBeNull()
+    expect(await service.appendChunk(mockSupabase, uploadId, 'session-2', 0, Buffer.from('abcd'), now))
+      .toMatchObject({ success: false, status: 404 })
+    expect(await service.abortUpload(mockSupabase, uploadId, 'session-2')).toBe(false)
+    expect(rows).toHaveLength(1)
+  })
+
+  it('purges expired uploads with their chunks', async () => {
+    createUpload({ expires_at: '2025-12-09T11:00:00Z', received_bytes: 4 })
+    chunks.set(`${uploadId}/0`, Buffer.from('abcd'))
+
+    const dryRun = await service.purgeExpired(mockSupabase, { dryRun: true, now })
+    expect(dryRun).toMatchObject({ expired: 1, chunksRemoved: 0 })
+    expect(rows).toHaveLength(1)
+
+    const result = await service.purgeExpired(mockSupabase, { now })
+    expect(result).toEqual({ dryRun: false, expired: 1, chunksRemoved: 1, errors: [] })
+    expect(rows).toEqual([])
+  })
+
+  it('fingerprints files by session, type, name, size and modification time', () => {
+    const file = { name: 'shop.jpg', size: 10, lastModified: 1700000000000 }
+
+    expect(getUploadFingerprint(file, 'session-1', 'business-asset'))
+      .toBe('session-1:business-asset:shop.jpg:10:1700000000000')
+  })
+})
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { AbandonmentRecoveryService } from '@/services/abandonment-recovery'
+import { EmailService } from '@/services/resend'
+import { createServiceClient } from '@/lib/supabase'
+import { createSupabaseFake, RecordedQuery } from '../../helpers/supabase'
+
+jest.mock('@/lib/supabase', () => ({ createServiceClient: jest.fn() }))
+jest.mock('@/services/resend', () => ({ EmailService: { sendAbandonmentRecovery: jest.fn() } }))
+jest.mock('@/services/onboarding-server', () => ({ OnboardingServerService: { trackEvent: jest.fn() } }))
+
+const HOUR = 3600000
+
+describe('AbandonmentRecoveryService', () => {
+  const now = new Date('2025-12-01T12:00:00Z')
+  let tableResults: Record<string, { data: any; error: any }>
+  let inserts: Array<{ table: string; row: any }>
+  let rpc: jest.Mock<any>
+
+  // Each query resolves to the canned result for its table; inserts are recorded
+  const resolveQuery = (query: RecordedQuery) => {
+    if (query.operation === 'insert') {
+      inserts.push({ table: query.table, row: query.values })
+      return { error: null }
+    }
+    return tableResults[query.table] || { data: [], error: null }
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    delete process.env.RECOVERY_EMAIL_THRESHOLDS_HOURS
+    tableResults = {}
+    inserts = []
+    rpc = jest.fn(() => Promise.resolve(tableResults.get_recovery_candidates || { data: [], error: null }))
+    ;(createServiceClient as jest.Mock).mockReturnValue({ ...createSupabaseFake(resolveQuery).client, rpc })
+    ;(EmailService.sendAbandonmentRecovery as jest.Mock<any>).mockResolvedValue(true)
+  })
+
+  afterEach(() => {
+    delete process.env.RECOVERY_EMAIL_THRESHOLDS_HOURS
+  })
+
+  describe('getThresholdsHours', () => {
+    it('defaults to 24h and 72h', () => {
+      expect(AbandonmentRecoveryService.getThresholdsHours()).toEqual([24, 72])
+    })
+
+    it('parses and sorts configured thresholds, ignoring junk', () => {
+      process.env.RECOVERY_EMAIL_THRESHOLDS_HOURS = '168, 6,abc,-1'
+      expect(AbandonmentRecoveryService.getThresholdsHours()).toEqual([6, 168])
+    })
+  })
+
+  describe('getDueStage', () => {
+    it('returns the highest threshold passed', () => {
+      const thresholds = [24, 72]
+      expect(AbandonmentRecoveryService.getDueStage(new Date(now.getTime() - 2 * HOUR), now, thresholds)).toBe(0)
+      expect(AbandonmentRecoveryService.getDueStage(new Date(now.getTime() - 30 * HOUR), now, thresholds)).toBe(1)
+      expect(AbandonmentRecoveryService.getDueStage(new Date(now.getTime() - 80 * HOUR), now, thresholds)).toBe(2)
+    })
+  })
+
+  describe('unsubscribe tokens', () => {
+    it('only accepts the token issued for the same session', () => {
+      const token = AbandonmentRecoveryService.createUnsubscribeToken('session-a')
+      expect(AbandonmentRecoveryService.verifyUnsubscribeToken('session-a', token)).toBe(true)
+      expect(AbandonmentRecoveryService.verifyUnsubscribeToken('session-b', token)).toBe(false)
+      expect(AbandonmentRecoveryService.verifyUnsubscribeToken('session-a', '')).toBe(false)
+    })
+  })
+
+  describe('run', () => {
+    beforeEach(() => {
+      // Submitted sessions and stages already sent are filtered by the RPC
+      tableResults.get_recovery_candidates = {
+        data: [
+          {
+            id: 'session-stage-two',
+            email: 'idle@example.com',
+            current_step: 5,
+            form_data: { firstName: 'Ada' },
+            last_activity: new Date(now.getTime() - 80 * HOUR).toISOString(),
+            locale: 'it'
+          }
+        ],
+        error: null
+      }
+    })
+
+    it('asks the database for due, unsubmitted sessions only', async () => {
+      await AbandonmentRecoveryService.run({ now, dryRun: true })
+
+      expect(rpc).toHaveBeenCalledWith('get_recovery_candidates', {
+        p_now: now.toISOString(),
+        p_thresholds_hours: [24, 72],
+        p_max_inactive_days: 14,
+        p_limit: 200
+      })
+    })
+
+    it('sends the due stage', async () => {
+      const result = await AbandonmentRecoveryService.run({ now })
+
+      expect(result.sent).toBe(1)
+      expect(result.details).toEqual([{ sessionId: 'session-stage-two', stage: 2, outcome: 'sent' }])
+      expect(inserts).toEqual([
+        expect.objectContaining({
+          table: 'onboarding_recovery_emails',
+          row: expect.objectContaining({ session_id: 'session-stage-two', stage: 2, locale: 'it' })
+        })
+      ])
+      expect(EmailService.sendAbandonmentRecovery).toHaveBeenCalledWith(
+        'idle@example.com',
+        'Ada',
+        'session-stage-two',
+        5,
+        'it',
+        expect.stringContaining('/it/onboarding/unsubscribe?sessionId=session-stage-two&token=')
+      )
+    })
+
+    it('does not send or record anything in dry-run mode', async () => {
+      const result = await AbandonmentRecoveryService.run({ now, dryRun: true })
+
+      expect(result.candidates).toBe(1)
+      expect(result.details[0].outcome).toBe('would_send')
+      expect(inserts).toHaveLength(0)
+      expect(EmailService.sendAbandonmentRecovery).not.toHaveBeenCalled()
+    })
+
+    it('reports a failed send', async () => {
+      ;(EmailService.sendAbandonmentRecovery as jest.Mock<any>).mockResolvedValue(false)
+
+      const result = await AbandonmentRecoveryService.run({ now })
+
+      expect(result.sent).toBe(0)
+      expect(result.failed).toBe(1)
+    })
+  })
+})
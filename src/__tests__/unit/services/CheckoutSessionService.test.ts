@@ -110,44 +110,6 @@ describe('CheckoutSessionService', () => {
     })
   })
 
-  describe('checkRateLimit', () => {
-    it('should allow request when under limit', async () => {
-      mockSupabase.select.mockReturnThis()
-      mockSupabase.eq.mockReturnThis()
-      mockSupabase.gte.mockReturnThis()
-      ;(mockSupabase as any).count = 3
-
-      const result = await service.checkRateLimit('session_123', mockSupabase)
-
-      expect(result.allowed).toBe(true)
-      expect(result.attemptsRemaining).toBe(2)
-    })
-
-    it('should block request when at limit', async () => {
-      mockSupabase.select.mockReturnThis()
-      mockSupabase.eq.mockReturnThis()
-      mockSupabase.gte.mockReturnThis()
-      ;(mockSupabase as any).count = 5
-
-      const result = await service.checkRateLimit('session_123', mockSupabase)
-
-      expect(result.allowed).toBe(false)
-      expect(result.attemptsRemaining).toBe(0)
-    })
-
-    it('should allow request for new session with no attempts', async () => {
-      mockSupabase.select.mockReturnThis()
-      mockSupabase.eq.mockReturnThis()
-      mockSupabase.gte.mockReturnThis()
-      ;(mockSupabase as any).count = 0
-
-      const result = await service.checkRateLimit('session_new', mockSupabase)
-
-      expect(result.allowed).toBe(true)
-      expect(result.attemptsRemaining).toBe(5)
-    })
-  })
-
   describe('extractCustomerInfo', () => {
     it('should extract email from form_data.email', () => {
       const submission = {
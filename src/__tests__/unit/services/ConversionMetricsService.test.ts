@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { ConversionMetricsService, RawConversionMetrics } from '@/services/conversion-metrics'
+import { createServiceClient } from '@/lib/supabase'
+
+jest.mock('@/lib/supabase', () => ({ createServiceClient: jest.fn() }))
+
+const raw: RawConversionMetrics = {
+  sessions: 40,
+  submitted: 10,
+  paid: 6,
+  abandoned: 20,
+  avg_completion_seconds: 1534.6,
+  median_completion_seconds: 1320,
+  steps: [
+    { step: 1, reached: 40, completed: 30, dropped: 8, median_seconds: 64.5, timed_samples: 25 },
+    { step: 3, reached: 28, completed: 21, dropped: 12, median_seconds: null, timed_samples: 0 },
+    { step: 13, reached: 12, completed: 10, dropped: 0, median_seconds: 40, timed_samples: 9 },
+    { step: 14, reached: 10, completed: 6, dropped: 0, median_seconds: null, timed_samples: 0 }
+  ],
+  devices: [
+    { device: 'desktop', sessions: 25, submitted: 8, paid: 5 },
+    { device: 'mobile', sessions: 15, submitted: 2, paid: 1 }
+  ]
+}
+
+const range = { from: '2025-11-01T00:00:00.000Z', to: '2025-12-01T00:00:00.000Z', locale: null }
+
+describe('ConversionMetricsService', () => {
+  describe('buildMetrics', () => {
+    it('computes the step 13-14 summary the client reads', () => {
+      const metrics = ConversionMetricsService.buildMetrics(raw, range)
+
+      expect(metrics).toEqual(expect.objectContaining({
+        step13CompletionRate: 83.3,
+        step14CompletionRate: 60,
+        avgTimeToComplete: 1535,
+        mobileCompletionRate: 6.7,
+        dropOffRate: 50
+      }))
+    })
+
+    it('lists every step, with zeros where no session got that far', () => {
+      const { steps } = ConversionMetricsService.buildMetrics(raw, range)
+
+      expect(steps).toHaveLength(14)
+      expect(steps[0]).toEqual({
+        step: 1,
+        title: 'Welcome',
+        reached: 40,
+        completed: 30,
+        completionRate: 75,
+        droppedOff: 8,
+        medianSeconds: 65,
+        timedSessions: 25
+      })
+      expect(steps[1]).toEqual(expect.objectContaining({ step: 2, reached: 0, completionRate: 0, medianSeconds: null }))
+    })
+
+    it('spreads drop-off over the steps sessions stopped at', () => {
+      const { dropOff } = ConversionMetricsService.buildMetrics(raw, range)
+
+      expect(dropOff).toEqual([
+        { step: 1, sessions: 8, share: 40 },
+        { step: 3, sessions: 12, share: 60 }
+      ])
+    })
+  })
+
+  describe('getConversionMetrics', () => {
+    let rpc: jest.Mock<any>
+
+    beforeEach(() => {
+      rpc = jest.fn(() => Promise.resolve({ data: raw, error: null }))
+      ;(createServiceClient as jest.Mock).mockReturnValue({ rpc })
+    })
+
+    it('passes the date range and locale to the database', async () => {
+      const from = new Date('2025-11-01T00:00:00Z')
+      const to = new Date('2025-12-01T00:00:00Z')
+
+      const metrics = await ConversionMetricsService.getConversionMetrics({ from, to, locale: 'it' })
+
+      expect(rpc).toHaveBeenCalledWith('get_conversion_metrics', expect.objectContaining({
+        p_from: from.toISOString(),
+        p_to: to.toISOString(),
+        p_locale: 'it'
+      }))
+      expect(metrics.range).toEqual({ from: from.toISOString(), to: to.toISOString(), locale: 'it' })
+    })
+
+    it('defaults to the last 30 days', async () => {
+      await ConversionMetricsService.getConversionMetrics()
+
+      const { p_from, p_to } = rpc.mock.calls[0][1] as { p_from: string; p_to: string }
+      expect(new Date(p_to).getTime() - new Date(p_from).getTime()).toBe(30 * 24 * 3600000)
+    })
+
+    it('throws when the aggregation fails', async () => {
+      rpc.mockResolvedValueOnce({ data: null, error: { message: 'function does not exist' } })
+
+      await expect(ConversionMetricsService.getConversionMetrics()).rejects.toThrow('function does not exist')
+    })
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import {
+  ConversionTrackingService,
+  RecordingConversionSender,
+  buildPurchaseConversion,
+  getConversionInvoiceMetadata,
+  parseGaClientId
+} from '@/services/conversion-tracking'
+import { createSupabaseFake } from '../../helpers/supabase'
+
+const submission = { id: 'sub_123', session_id: 'sess_456' }
+
+const invoice = (overrides: Record<string, any> = {}): any => ({
+  id: 'in_1',
+  amount_paid: 18500,
+  currency: 'eur',
+  billing_reason: 'subscription_create',
+  status_transitions: { paid_at: 1765800000 },
+  metadata: { submission_id: 'sub_123', marketing_consent: 'granted', ga_client_id: '1234567890.1700000000' },
+  lines: {
+    data: [
+      { amount: 3500, quantity: 1, description: 'WhiteBoar Base Package', metadata: {} },
+      { amount: 7500, quantity: 1, description: 'German Language Add-on', metadata: { language_code: 'de' } },
+      { amount: 7500, quantity: 1, description: 'French Language Add-on', metadata: { language_code: 'fr' } }
+    ]
+  },
+  ...overrides
+})
+
+describe('ConversionTrackingService', () => {
+  let sender: RecordingConversionSender
+  let claimResult: { data: any; error: any }
+  let updates: any[]
+  let mockSupabase: any
+
+  beforeEach(() => {
+    sender = new RecordingConversionSender()
+    claimResult = { data: [{ id: 'sub_123' }], error: null }
+    updates = []
+
+    // The claim reads back the claimed row; the release returns nothing
+    mockSupabase = createSupabaseFake(query => {
+      updates.push(query.values)
+      return query.columns ? claimResult : undefined
+    }).client
+  })
+
+  it('builds a purchase with the base package and language add-ons', () => {
+    expect(buildPurchaseConversion(invoice(), submission, 'WELCOME10')).toEqual({
+      clientId: '1234567890.1700000000',
+      transactionId: 'sub_123',
+      value: 185,
+      currency: 'EUR',
+      coupon: 'WELCOME10',
+      items: [
+        { item_id: 'fast_simple', item_name: 'Fast & Simple', item_category: 'package', price: 35, quantity: 1 },
+        { item_id: 'language_addon_de', item_name: 'German Language Add-on', item_category: 'language_addon', price: 75, quantity: 1 },
+        { item_id: 'language_addon_fr', item_name: 'French Language Add-on', item_category: 'language_addon', price: 75, quantity: 1 }
+      ],
+      timestampMicros: 1765800000 * 1_000_000
+    })
+  })
+
+  it('sends the first paid invoice once marketing consent was given', async () => {
+    const service = new ConversionTrackingService(sender)
+
+    const result = await service.trackInvoicePurchase(invoice(), submission, mockSupabase)
+
+    expect(result).toEqual({ status: 'sent', sender: 'local', transactionId: 'sub_123' })
+    expect(sender.sent).toHaveLength(1)
+    expect(updates[0].conversion_tracked_at).toBeDefined()
+  })
+
+  it('skips when another invoice event already claimed the conversion', async () => {
+    claimResult = { data: [], error: null }
+
+    const result = await new ConversionTrackingService(sender).trackInvoicePurchase(invoice(), submission, mockSupabase)
+
+    expect(result).toEqual({ status: 'skipped', reason: 'already_tracked' })
+    expect(sender.sent).toHaveLength(0)
+  })
+
+  it('respects missing marketing consent and skips renewals', async () => {
+    const service = new ConversionTrackingService(sender)
+
+    await expect(service.trackInvoicePurchase(
+      invoice({ metadata: { marketing_consent: 'denied' } }), submission, mockSupabase
+    )).resolves.toEqual({ status: 'skipped', reason: 'no_consent' })
+    await expect(service.trackInvoicePurchase(
+      invoice({ billing_reason: 'subscription_cycle' }), submission, mockSupabase
+    )).resolves.toEqual({ status: 'skipped', reason: 'renewal' })
+
+    expect(mockSupabase.from).not.toHaveBeenCalled()
+    expect(sender.sent).toHaveLength(0)
+  })
+
+  it('releases the claim when sending fails', async () => {
+    const failing = { name: 'ga4', sendPurchase: jest.fn(() => Promise.reject(new Error('timeout'))) }
+
+    const result = await new ConversionTrackingService(failing).trackInvoicePurchase(invoice(), submission, mockSupabase)
+
+    expect(result).toEqual({ status: 'failed', error: 'timeout' })
+    expect(updates[1]).toEqual({ conversion_tracked_at: null })
+  })
+
+  it('is disabled without a configured sender', async () => {
+    await expect(new ConversionTrackingService(null).trackInvoicePurchase(invoice(), submission, mockSupabase))
+      .resolves.toEqual({ status: 'skipped', reason: 'disabled' })
+  })
+
+  it('reads the GA client id and stores consent on the invoice', () => {
+    expect(parseGaClientId('GA1.1.1234567890.1700000000')).toBe('1234567890.1700000000')
+    expect(parseGaClientId('garbage')).toBeNull()
+    expect(getConversionInvoiceMetadata({ gaClientId: null, marketingConsent: false })).toEqual({ marketing_consent: 'denied' })
+    expect(getConversionInvoiceMetadata(undefined)).toEqual({})
+  })
+})
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { CustomerPortalService } from '@/services/payment/CustomerPortalService'
+import { cannedResults, createSupabaseFake } from '../../helpers/supabase'
+
+jest.mock('@/services/preview-delivery', () => ({
+  PreviewDeliveryService: { getTrackingUrl: jest.fn((id: string) => `https://whiteboar.it/preview/${id}`) }
+}))
+jest.mock('@/services/payment/StripePaymentService')
+jest.mock('@/services/resend', () => ({ EmailService: {} }))
+
+describe('CustomerPortalService', () => {
+  let service: CustomerPortalService
+  let mockStripeService: any
+  let tableResults: Record<string, Array<{ data: any; error: any }>>
+
+  // Each query pops the next canned result for its table
+  const supabase: any = createSupabaseFake(cannedResults(() => tableResults)).client
+
+  const paidSubmission = {
+    id: 'sub_paid',
+    session_id: 'session_123',
+    email: 'owner@example.com',
+    business_name: 'Pizzeria Roma',
+    status: 'paid',
+    created_at: '2025-11-01T10:00:00Z',
+    payment_completed_at: '2025-11-02T10:00:00Z',
+    preview_url: null,
+    form_data: { additionalLanguages: ['de', 'fr'] },
+    stripe_customer_id: 'cus_123',
+    stripe_subscription_schedule_id: 'sub_sched_123'
+  }
+
+  const draftSubmission = {
+    ...paidSubmission,
+    id: 'sub_draft',
+    email: 'form-email@example.com',
+    status: 'submitted',
+    created_at: '2025-12-01T10:00:00Z',
+    payment_completed_at: null,
+    form_data: {},
+    stripe_customer_id: null,
+    stripe_subscription_schedule_id: null
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockStripeService = {
+      retrieveSubscriptionSchedule: jest.fn(),
+      listInvoices: jest.fn(),
+      createBillingPortalSession: jest.fn()
+    }
+    service = new CustomerPortalService(mockStripeService)
+    tableResults = {
+      onboarding_sessions: [{ data: { id: 'session_123', locale: 'en', form_data: {} }, error: null }],
+      onboarding_submissions: [
+        { data: [paidSubmission], error: null },
+        { data: [paidSubmission, draftSubmission], error: null }
+      ]
+    }
+  })
+
+  describe('getCustomerSubmissions', () => {
+    it('merges email and session matches without duplicates, newest first', async () => {
+      const submissions = await service.getCustomerSubmissions('Owner@Example.com ', supabase)
+
+      expect(submissions.map(s => s.id)).toEqual(['sub_draft', 'sub_paid'])
+    })
+
+    it('only matches on email when the customer has no session', async () => {
+      tableResults.onboarding_sessions = [{ data: null, error: null }]
+
+      const submissions = await service.getCustomerSubmissions('owner@example.com', supabase)
+
+      expect(submissions.map(s => s.id)).toEqual(['sub_paid'])
+    })
+  })
+
+  describe('getOverview', () => {
+    it('summarizes schedule state, languages and invoices', async () => {
+      mockStripeService.retrieveSubscriptionSchedule.mockResolvedValue({
+        status: 'active',
+        end_behavior: 'release',
+        current_phase: { end_date: 1767225600 },
+        phases: [{ end_date: 1767225600 }, { end_date: 1793491200 }]
+      })
+      mockStripeService.listInvoices.mockResolvedValue([
+        {
+          id: 'in_1',
+          number: 'WB-0001',
+          status: 'paid',
+          total: 3500,
+          currency: 'eur',
+          created: 1762077600,
+          hosted_invoice_url: 'https://invoice.stripe.com/i/1',
+          invoice_pdf: null
+        }
+      ])
+
+      const overview = await service.getOverview('owner@example.com', 'en', supabase)
+      const paid = overview.submissions.find(s => s.id === 'sub_paid')
+
+      expect(paid).toEqual(expect.objectContaining({
+        hasBillingAccount: true,
+        languages: [{ code: 'de', name: 'German' }, { code: 'fr', name: 'French' }],
+        schedule: {
+          status: 'active',
+          currentPhaseEnd: 1767225600,
+          commitmentEndsAt: 1793491200,
+          endBehavior: 'release'
+        }
+      }))
+      expect(overview.submissions.find(s => s.id === 'sub_draft')?.schedule).toBeNull()
+      expect(mockStripeService.listInvoices).toHaveBeenCalledTimes(1)
+      expect(overview.invoices).toEqual([expect.objectContaining({ id: 'in_1', total: 3500 })])
+    })
+
+    it('still returns submissions when Stripe is unavailable', async () => {
+      mockStripeService.retrieveSubscriptionSchedule.mockRejectedValue(new Error('Stripe down'))
+      mockStripeService.listInvoices.mockRejectedValue(new Error('Stripe down'))
+
+      const overview = await service.getOverview('owner@example.com', 'en', supabase)
+
+      expect(overview.submissions).toHaveLength(2)
+      expect(overview.invoices).toEqual([])
+    })
+  })
+
+  describe('createBillingPortalUrl', () => {
+    it('opens the portal for the paid submission', async () => {
+      mockStripeService.createBillingPortalSession.mockResolvedValue({ url: 'https://billing.stripe.com/p/session' })
+
+      const url = await service.createBillingPortalUrl('owner@example.com', 'https://whiteboar.it/portal', 'en', supabase)
+
+      expect(url).toBe('https://billing.stripe.com/p/session')
+      expect(mockStripeService.createBillingPortalSession).toHaveBeenCalledWith('cus_123', 'https://whiteboar.it/portal', 'en')
+    })
+
+    it('returns null when the requested submission has no billing account', async () => {
+      const url = await service.createBillingPortalUrl('owner@example.com', 'https://whiteboar.it/portal', 'en', supabase, 'sub_draft')
+
+      expect(url).toBeNull()
+      expect(mockStripeService.createBillingPortalSession).not.toHaveBeenCalled()
+    })
+  })
+})
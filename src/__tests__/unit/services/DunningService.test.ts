@@ -0,0 +1,307 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import {
+  DunningService,
+  createCardUpdateToken,
+  getDueDunningNotices,
+  getDunningResetFields,
+  verifyCardUpdateToken
+} from '@/services/payment/DunningService'
+import { EmailService } from '@/services/resend'
+import { cannedResults, createSupabaseFake, RecordedQuery } from '../../helpers/supabase'
+
+jest.mock('@/services/resend', () => ({
+  EmailService: {
+    sendPaymentFailedReminder: jest.fn(),
+    sendDunningCancellationWarning: jest.fn()
+  }
+}))
+
+const DAY = 24 * 60 * 60 * 1000
+
+describe('DunningService', () => {
+  const now = new Date('2025-12-05T08:00:00Z')
+  let results: Record<string, any[]>
+  let updates: Array<{ table: string; values: any }>
+  let inserts: Array<{ table: string; row: any }>
+  let deletes: string[]
+  let mockStripe: any
+  let mockStripeService: any
+  let mockSupabase: any
+  let service: DunningService
+
+  // Each query consumes the next canned result for its table; writes are recorded
+  const nextResult = cannedResults(() => results)
+  const resolveQuery = (query: RecordedQuery) => {
+    if (query.operation === 'update') updates.push({ table: query.table, values: query.values })
+    if (query.operation === 'insert') inserts.push({ table: query.table, row: query.values })
+    if (query.operation === 'delete') deletes.push(query.table)
+    return nextResult(query)
+  }
+
+  const submission = (overrides: Record<string, unknown> = {}) => ({
+    id: 'submission_1',
+    session_id: 'session_1',
+    email: 'owner@example.com',
+    business_name: 'Pizzeria Roma',
+    status: 'completed',
+    payment_completed_at: '2025-10-01T10:00:00Z',
+    stripe_subscription_schedule_id: 'sub_sched_1',
+    payment_failure_count: 0,
+    dunning_started_at: null,
+    dunning_invoice_id: null,
+    last_failed_invoice_id: null,
+    ...overrides
+  })
+
+  const invoice = (overrides: Record<string, unknown> = {}) => ({
+    id: 'in_1',
+    object: 'invoice',
+    status: 'open',
+    amount_due: 3500,
+    currency: 'eur',
+    customer: 'cus_1',
+    metadata: {},
+    parent: { subscription_details: { subscription: 'sub_1' } },
+    ...overrides
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    results = {}
+    updates = []
+    inserts = []
+    deletes = []
+    mockStripe = { invoices: { retrieve: jest.fn().mockResolvedValue(invoice()) } }
+    mockStripeService = {
+      getStripeInstance: () => mockStripe,
+      createBillingPortalSession: jest.fn().mockResolvedValue({ url: 'https://billing.stripe.com/p/session_1' })
+    }
+    mockSupabase = createSupabaseFake(resolveQuery).client
+    ;(EmailService.sendPaymentFailedReminder as jest.Mock).mockResolvedValue(true)
+    ;(EmailService.sendDunningCancellationWarning as jest.Mock).mockResolvedValue(true)
+    service = new DunningService(mockStripeService)
+  })
+
+  describe('getDueDunningNotices', () => {
+    const start = new Date(now.getTime())
+
+    it('picks the latest reminder that is due', () => {
+      expect(getDueDunningNotices(start, now, 14).reminder).toBe('day_0')
+      expect(getDueDunningNotices(start, new Date(now.getTime() + 3.5 * DAY), 14).reminder).toBe('day_3')
+      expect(getDueDunningNotices(start, new Date(now.getTime() + 9 * DAY), 14).reminder).toBe('day_7')
+    })
+
+    it('warns the admin a few days before cancellation', () => {
+      expect(getDueDunningNotices(start, new Date(now.getTime() + 10 * DAY), 14).adminWarning).toBe(false)
+      expect(getDueDunningNotices(start, new Date(now.getTime() + 11 * DAY), 14).adminWarning).toBe(true)
+    })
+  })
+
+  describe('getDunningResetFields', () => {
+    it('restores the status from before the dunning period', () => {
+      expect(getDunningResetFields({ status: 'past_due', payment_failure_count: 2, status_before_past_due: 'completed' }))
+        .toMatchObject({ status: 'completed', payment_failure_count: 0, dunning_started_at: null })
+    })
+
+    it('changes nothing outside a dunning period', () => {
+      expect(getDunningResetFields({ status: 'paid', payment_failure_count: 0 })).toEqual({})
+    })
+  })
+
+  describe('card update token', () => {
+    it('is bound to the submission and the invoice that opened dunning', () => {
+      const token = createCardUpdateToken('submission_1', 'in_1')
+
+      expect(verifyCardUpdateToken('submission_1', 'in_1', token)).toBe(true)
+      expect(verifyCardUpdateToken('submission_1', 'in_2', token)).toBe(false)
+      expect(verifyCardUpdateToken('submission_2', 'in_1', token)).toBe(false)
+    })
+  })
+
+  describe('recordPaymentFailure', () => {
+    it('moves the submission to past_due and sends the day-0 reminder', async () => {
+      results.onboarding_submissions = [{ data: submission(), error: null }]
+      results.onboarding_sessions = [{ data: { locale: 'it' }, error: null }]
+
+      const result = await service.recordPaymentFailure(invoice() as any, mockSupabase, now)
+
+      expect(result).toEqual({ submissionId: 'submission_1', failureCount: 1, startedDunning: true })
+      expect(updates[0].values).toMatchObject({
+        status: 'past_due',
+        status_before_past_due: 'completed',
+        payment_failure_count: 1,
+        dunning_started_at: now.toISOString(),
+        dunning_invoice_id: 'in_1',
+        last_failed_invoice_id: 'in_1'
+      })
+      expect(inserts[0]).toMatchObject({ table: 'payment_dunning_notices', row: { notice: 'day_0', invoice_id: 'in_1', locale: 'it' } })
+
+      const [email, , day, amount, currency, cardUpdateUrl, locale] = (EmailService.sendPaymentFailedReminder as jest.Mock).mock.calls[0] as any[]
+      expect([email, day, amount, currency, locale]).toEqual(['owner@example.com', 0, 3500, 'EUR', 'it'])
+      expect(cardUpdateUrl).toContain(`token=${createCardUpdateToken('submission_1', 'in_1')}`)
+    })
+
+    it('does not count or email again when Stripe retries the same invoice', async () => {
+      results.onboarding_submissions = [{
+        data: submission({ status: 'past_due', payment_failure_count: 1, dunning_invoice_id: 'in_1', last_failed_invoice_id: 'in_1' }),
+        error: null
+      }]
+
+      const result = await service.recordPaymentFailure(invoice() as any, mockSupabase, now)
+
+      expect(result).toEqual({ submissionId: 'submission_1', failureCount: 1, startedDunning: false })
+      expect(updates[0].values.status).toBeUndefined()
+      expect(EmailService.sendPaymentFailedReminder).not.toHaveBeenCalled()
+    })
+
+    it('counts a new failed invoice during an open dunning period', async () => {
+      results.onboarding_submissions = [{
+        data: submission({ status: 'past_due', payment_failure_count: 1, dunning_invoice_id: 'in_1', last_failed_invoice_id: 'in_1' }),
+        error: null
+      }]
+
+      const result = await service.recordPaymentFailure(invoice({ id: 'in_2' }) as any, mockSupabase, now)
+
+      expect(result?.failureCount).toBe(2)
+      expect(updates[0].values).toMatchObject({ payment_failure_count: 2, last_failed_invoice_id: 'in_2' })
+      expect(updates[0].values.dunning_invoice_id).toBeUndefined()
+    })
+
+    it('ignores add-on invoices and submissions that never paid', async () => {
+      expect(await service.recordPaymentFailure(invoice({ metadata: { purpose: 'language_addon' } }) as any, mockSupabase, now)).toBeNull()
+
+      results.onboarding_submissions = [{ data: submission({ status: 'submitted', payment_completed_at: null }), error: null }]
+      expect(await service.recordPaymentFailure(invoice() as any, mockSupabase, now)).toBeNull()
+      expect(updates).toEqual([])
+    })
+  })
+
+  describe('sendDueNotices', () => {
+    const pastDue = (daysAgo: number) => submission({
+      status: 'past_due',
+      payment_failure_count: 1,
+      dunning_started_at: new Date(now.getTime() - daysAgo * DAY).toISOString(),
+      dunning_invoice_id: 'in_1',
+      last_failed_invoice_id: 'in_1'
+    })
+
+    it('sends the day-3 reminder once day 0 was sent', async () => {
+      results.onboarding_submissions = [{ data: [pastDue(3.2)], error: null }]
+      results.payment_dunning_notices = [{ data: [{ submission_id: 'submission_1', invoice_id: 'in_1', notice: 'day_0' }], error: null }]
+
+      const result = await service.sendDueNotices(mockSupabase, { now })
+
+      expect(result).toMatchObject({ candidates: 1, sent: 1, failed: 0 })
+      expect(result.details).toEqual([{ submissionId: 'submission_1', notice: 'day_3', outcome: 'sent' }])
+      expect((EmailService.sendPaymentFailedReminder as jest.Mock).mock.calls[0][2]).toBe(3)
+    })
+
+    it('skips submissions whose due reminder was already sent', async () => {
+      results.onboarding_submissions = [{ data: [pastDue(4)], error: null }]
+      results.payment_dunning_notices = [{ data: [{ submission_id: 'submission_1', invoice_id: 'in_1', notice: 'day_3' }], error: null }]
+
+      const result = await service.sendDueNotices(mockSupabase, { now })
+
+      expect(result.candidates).toBe(0)
+      expect(mockStripe.invoices.retrieve).not.toHaveBeenCalled()
+    })
+
+    it('warns the admin before the subscription is cancelled', async () => {
+      results.onboarding_submissions = [{ data: [pastDue(11)], error: null }]
+      results.payment_dunning_notices = [{ data: [{ submission_id: 'submission_1', invoice_id: 'in_1', notice: 'day_7' }], error: null }]
+
+      const result = await service.sendDueNotices(mockSupabase, { now })
+
+      expect(result.details).toEqual([{ submissionId: 'submission_1', notice: 'admin_cancellation_warning', outcome: 'sent' }])
+      expect(EmailService.sendDunningCancellationWarning).toHaveBeenCalledWith(expect.objectContaining({
+        submissionId: 'submission_1',
+        scheduleId: 'sub_sched_1',
+        expectedCancellationAt: new Date(now.getTime() + 3 * DAY).toISOString()
+      }))
+    })
+
+    it('stops chasing once the invoice was paid', async () => {
+      results.onboarding_submissions = [{ data: [pastDue(3.2)], error: null }]
+      results.payment_dunning_notices = [{ data: [], error: null }]
+      mockStripe.invoices.retrieve.mockResolvedValue(invoice({ status: 'paid' }))
+
+      const result = await service.sendDueNotices(mockSupabase, { now })
+
+      expect(result.skipped).toBe(1)
+      expect(result.details[0].outcome).toBe('invoice_settled')
+      expect(EmailService.sendPaymentFailedReminder).not.toHaveBeenCalled()
+    })
+
+    it('carries on with other submissions when an invoice cannot be retrieved', async () => {
+      results.onboarding_submissions = [{
+        data: [pastDue(3.2), { ...pastDue(3.2), id: 'submission_2', dunning_invoice_id: 'in_2', last_failed_invoice_id: 'in_2' }],
+        error: null
+      }]
+      results.payment_dunning_notices = [{ data: [], error: null }]
+      mockStripe.invoices.retrieve
+        .mockRejectedValueOnce(new Error('Stripe is unavailable'))
+        .mockResolvedValueOnce(invoice({ id: 'in_2' }))
+
+      const result = await service.sendDueNotices(mockSupabase, { now })
+
+      expect(result).toMatchObject({ candidates: 2, sent: 1, failed: 1 })
+      expect(result.details).toEqual([
+        { submissionId: 'submission_1', notice: 'day_3', outcome: 'failed', error: 'Stripe is unavailable' },
+        { submissionId: 'submission_2', notice: 'day_3', outcome: 'sent' }
+      ])
+      expect(inserts).toHaveLength(1)
+    })
+
+    it('releases the claim when sending fails', async () => {
+      results.onboarding_submissions = [{ data: [pastDue(3.2)], error: null }]
+      results.payment_dunning_notices = [{ data: [], error: null }]
+      ;(EmailService.sendPaymentFailedReminder as jest.Mock).mockResolvedValue(false)
+
+      const result = await service.sendDueNotices(mockSupabase, { now })
+
+      expect(result.failed).toBe(1)
+      expect(deletes).toEqual(['payment_dunning_notices'])
+    })
+
+    it('only reports due notices in dry-run mode', async () => {
+      results.onboarding_submissions = [{ data: [pastDue(8)], error: null }]
+      results.payment_dunning_notices = [{ data: [], error: null }]
+
+      const result = await service.sendDueNotices(mockSupabase, { dryRun: true, now })
+
+      expect(result.details).toEqual([{ submissionId: 'submission_1', notice: 'day_7', outcome: 'would_send' }])
+      expect(inserts).toEqual([])
+    })
+  })
+
+  describe('createCardUpdateUrl', () => {
+    it('opens the payment method update flow for a valid link', async () => {
+      results.onboarding_submissions = [{
+        data: { id: 'submission_1', status: 'past_due', stripe_customer_id: 'cus_1', dunning_invoice_id: 'in_1' },
+        error: null
+      }]
+
+      const url = await service.createCardUpdateUrl('submission_1', createCardUpdateToken('submission_1', 'in_1'), 'en', mockSupabase)
+
+      expect(url).toBe('https://billing.stripe.com/p/session_1')
+      expect(mockStripeService.createBillingPortalSession).toHaveBeenCalledWith(
+        'cus_1',
+        expect.stringContaining('/portal'),
+        'en',
+        expect.objectContaining({ type: 'payment_method_update' })
+      )
+    })
+
+    it('rejects links once the payment was recovered', async () => {
+      results.onboarding_submissions = [{
+        data: { id: 'submission_1', status: 'completed', stripe_customer_id: 'cus_1', dunning_invoice_id: null },
+        error: null
+      }]
+
+      const url = await service.createCardUpdateUrl('submission_1', createCardUpdateToken('submission_1', 'in_1'), 'en', mockSupabase)
+
+      expect(url).toBeNull()
+      expect(mockStripeService.createBillingPortalSession).not.toHaveBeenCalled()
+    })
+  })
+})
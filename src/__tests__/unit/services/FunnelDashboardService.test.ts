@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { FunnelDashboardService, FunnelSessionRow } from '@/services/funnel-dashboard'
+import { ConversionMetricsService } from '@/services/conversion-metrics'
+import { createServiceClient } from '@/lib/supabase'
+import { createSupabaseFake, RecordedQuery } from '../../helpers/supabase'
+
+jest.mock('@/lib/supabase', () => ({ createServiceClient: jest.fn() }))
+jest.mock('@/services/conversion-metrics', () => ({
+  ConversionMetricsService: { getConversionMetrics: jest.fn() }
+}))
+
+const row = (overrides: Partial<FunnelSessionRow>): FunnelSessionRow => ({
+  locale: 'en',
+  device: 'desktop',
+  furthest_step: 3,
+  submitted: false,
+  paid: false,
+  business_profile: null,
+  ...overrides
+})
+
+describe('FunnelDashboardService', () => {
+  describe('buildCohorts', () => {
+    const rows = [
+      row({ locale: 'it', device: 'mobile', furthest_step: 14, submitted: true, paid: true, business_profile: { industry: 'Restaurant' } }),
+      row({ locale: 'it', device: 'mobile', furthest_step: 5, business_profile: { offeringType: 'products' } }),
+      row({ locale: 'en', furthest_step: 14, submitted: true, business_profile: { industry: 'restaurant & food' } }),
+      row({ locale: 'en', furthest_step: 2 })
+    ]
+
+    it('compares conversion by locale and device', () => {
+      const cohorts = FunnelDashboardService.buildCohorts(rows)
+
+      expect(cohorts.locale).toEqual([
+        { cohort: 'it', sessions: 2, submitted: 1, paid: 1, submissionRate: 50, conversionRate: 50, averageFurthestStep: 9.5 },
+        { cohort: 'en', sessions: 2, submitted: 1, paid: 0, submissionRate: 50, conversionRate: 0, averageFurthestStep: 8 }
+      ])
+      expect(cohorts.device.map(cohort => [cohort.cohort, cohort.sessions])).toEqual([
+        ['mobile', 2],
+        ['desktop', 2]
+      ])
+    })
+
+    it('groups by the business type the app detects from the answers', () => {
+      const { businessType } = FunnelDashboardService.buildCohorts(rows)
+
+      expect(businessType.map(cohort => [cohort.cohort, cohort.sessions])).toEqual([
+        ['restaurant', 2],
+        ['ecommerce', 1],
+        ['general', 1]
+      ])
+    })
+  })
+
+  describe('getDashboard', () => {
+    let rpc: jest.Mock<any>
+    let queries: RecordedQuery[]
+
+    beforeEach(() => {
+      rpc = jest.fn((name: string) => Promise.resolve(name === 'get_field_error_heatmap'
+        ? { data: [{ step_number: 3, field_name: 'vatNumber', errors: 7, sessions: 4 }], error: null }
+        : { data: [{ operation: 'save_progress', calls: 40, failures: 2, p50_ms: 120.4, p90_ms: 480, p95_ms: 900.6, p99_ms: null }], error: null }))
+      const supabase = createSupabaseFake(() => ({ data: [row({})], count: 3, error: null }))
+      queries = supabase.queries
+      ;(createServiceClient as jest.Mock).mockReturnValue({ ...supabase.client, rpc })
+      ;(ConversionMetricsService.getConversionMetrics as jest.Mock<any>).mockResolvedValue({ steps: [] })
+    })
+
+    it('combines the funnel with heatmap, latency and cohorts for one range', async () => {
+      const from = new Date('2025-11-01T00:00:00Z')
+      const to = new Date('2025-12-01T00:00:00Z')
+
+      const dashboard = await FunnelDashboardService.getDashboard({ from, to, locale: 'it' })
+
+      expect(rpc).toHaveBeenCalledWith('get_field_error_heatmap', {
+        p_from: from.toISOString(),
+        p_to: to.toISOString(),
+        p_locale: 'it'
+      })
+      expect(queries[0].filters).toContainEqual(['eq', 'locale', 'it'])
+      expect(dashboard.fieldErrors).toEqual([{ step: 3, field: 'vatNumber', errors: 7, sessions: 4 }])
+      expect(dashboard.apiLatency).toEqual([{
+        operation: 'save_progress', calls: 40, failures: 2, p50Ms: 120, p90Ms: 480, p95Ms: 901, p99Ms: null
+      }])
+      expect(dashboard.cohortsTruncated).toBe(true)
+    })
+  })
+})
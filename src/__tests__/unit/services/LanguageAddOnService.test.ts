@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import {
+  LANGUAGE_ADDON_INVOICE_PURPOSE,
+  LanguageAddOnService,
+  applyLanguageChange
+} from '@/services/payment/LanguageAddOnService'
+import { EmailService } from '@/services/resend'
+import { createSupabaseFake } from '../../helpers/supabase'
+
+jest.mock('@/services/payment/StripePaymentService')
+jest.mock('@/services/resend', () => ({ EmailService: { sendLanguageChangeNotification: jest.fn() } }))
+
+describe('LanguageAddOnService', () => {
+  let service: LanguageAddOnService
+  let mockStripe: any
+  let mockStripeService: any
+  let mockSupabase: any
+  let updates: any[]
+  let claimResult: { data: any; error: any }
+  let paidInvoices: any[]
+
+  const submission = {
+    id: 'sub_123',
+    session_id: 'session_123',
+    email: 'owner@example.com',
+    business_name: 'Pizzeria Roma',
+    status: 'paid',
+    stripe_customer_id: 'cus_123',
+    stripe_subscription_id: 'sub_stripe_123',
+    form_data: { step13: { additionalLanguages: ['de'] }, additionalLanguages: ['de'] }
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    process.env.STRIPE_BASE_PACKAGE_PRICE_ID = 'price_base'
+    // German was bought at checkout with a 20% discount
+    paidInvoices = [{
+      id: 'in_checkout',
+      created: 1765800000,
+      metadata: { submission_id: 'sub_123' },
+      lines: {
+        has_more: false,
+        data: [
+          { amount: 3500, metadata: {}, discount_amounts: [{ amount: 700 }] },
+          { amount: 7500, metadata: { language_code: 'de' }, discount_amounts: [{ amount: 1500 }] }
+        ]
+      }
+    }]
+    mockStripe = {
+      invoices: {
+        list: jest.fn(({ status }: any) => Promise.resolve({ data: status === 'paid' ? paidInvoices : [] })),
+        listLineItems: jest.fn(),
+        create: jest.fn().mockResolvedValue({ id: 'in_addon' }),
+        finalizeInvoice: jest.fn().mockResolvedValue({ id: 'in_addon', hosted_invoice_url: 'https://invoice.stripe.com/i/addon' }),
+        pay: jest.fn().mockResolvedValue({ id: 'in_addon', status: 'paid' })
+      },
+      customers: {
+        createBalanceTransaction: jest.fn().mockResolvedValue({ id: 'cbtxn_1' })
+      }
+    }
+    mockStripeService = {
+      getStripeInstance: jest.fn(() => mockStripe),
+      getLanguageAddOnPrice: jest.fn().mockResolvedValue({ id: 'price_addon', unit_amount: 7500, currency: 'eur' }),
+      previewInvoiceWithDiscount: jest.fn().mockResolvedValue({
+        lineItems: [
+          { id: 'li_base', amount: 3500, isRecurring: true },
+          { id: 'li_fr', amount: 7500, isRecurring: false },
+          { id: 'li_es', amount: 7500, isRecurring: false }
+        ]
+      }),
+      createLanguageAddOnItems: jest.fn().mockResolvedValue([]),
+      retrieveSubscription: jest.fn().mockResolvedValue({ default_payment_method: 'pm_card' })
+    }
+    claimResult = { data: [{ id: 'sub_123', form_data: submission.form_data }], error: null }
+    updates = []
+    // The claim reads back the claimed row; other updates return nothing
+    mockSupabase = createSupabaseFake(query => {
+      updates.push(query.values)
+      return query.columns ? claimResult : undefined
+    }).client
+    service = new LanguageAddOnService(mockStripeService)
+  })
+
+  afterEach(() => {
+    delete process.env.STRIPE_BASE_PACKAGE_PRICE_ID
+  })
+
+  describe('applyLanguageChange', () => {
+    it('updates both the flat and step13 language lists', () => {
+      const formData = applyLanguageChange(submission.form_data, ['fr'], ['de'])
+
+      expect(formData.additionalLanguages).toEqual(['fr'])
+      expect(formData.step13.additionalLanguages).toEqual(['fr'])
+    })
+  })
+
+  describe('previewChange', () => {
+    it('rejects changes before the first payment', async () => {
+      const result = await service.previewChange({ ...submission, status: 'submitted' }, ['fr'], [])
+
+      expect(result.error?.code).toBe('NOT_PAID')
+    })
+
+    it('rejects unknown, duplicate and missing languages', async () => {
+      expect((await service.previewChange(submission, ['xx'], [])).error?.code).toBe('INVALID_LANGUAGE_CODE')
+      expect((await service.previewChange(submission, ['de'], [])).error?.code).toBe('LANGUAGE_ALREADY_ADDED')
+      expect((await service.previewChange(submission, [], ['fr'])).error?.code).toBe('LANGUAGE_NOT_ADDED')
+      expect((await service.previewChange(submission, [], [])).error?.code).toBe('NO_CHANGES')
+    })
+
+    it('rejects languages already awaiting payment on an open add-on invoice', async () => {
+      mockStripe.invoices.list.mockResolvedValueOnce({
+        data: [{
+          id: 'in_open',
+          metadata: { purpose: LANGUAGE_ADDON_INVOICE_PURPOSE, submission_id: 'sub_123', language_codes: 'fr' }
+        }]
+      })
+
+      const result = await service.applyChange(submission, ['fr'], [], mockSupabase)
+
+      expect(mockStripe.invoices.list).toHaveBeenCalledWith({ customer: 'cus_123', status: 'open', limit: 100 })
+      expect(result.error?.code).toBe('LANGUAGE_PAYMENT_PENDING')
+      expect(mockStripe.invoices.create).not.toHaveBeenCalled()
+      expect((await service.previewChange(submission, ['es'], [])).success).toBe(true)
+    })
+
+    it('prices additions through the Stripe preview and credits removals', async () => {
+      const result = await service.previewChange(submission, ['fr', 'es'], ['de'])
+
+      expect(mockStripeService.previewInvoiceWithDiscount).toHaveBeenCalledWith('cus_123', 'price_base', null, 2)
+      expect(result.preview).toEqual(expect.objectContaining({
+        resultingLanguages: ['fr', 'es'],
+        chargeAmount: 15000,
+        creditAmount: 6000,
+        currency: 'eur',
+        lineItems: [
+          { languageCode: 'fr', amount: 7500 },
+          { languageCode: 'es', amount: 7500 },
+          { languageCode: 'de', amount: -6000 }
+        ]
+      }))
+    })
+  })
+
+  describe('applyChange', () => {
+    it('charges the subscription card and syncs form data once paid', async () => {
+      const result = await service.applyChange(submission, ['fr'], [], mockSupabase)
+
+      expect(mockStripe.invoices.create).toHaveBeenCalledWith(expect.objectContaining({
+        customer: 'cus_123',
+        metadata: expect.objectContaining({ purpose: LANGUAGE_ADDON_INVOICE_PURPOSE, language_codes: 'fr' })
+      }))
+      expect(mockStripeService.createLanguageAddOnItems).toHaveBeenCalledWith('cus_123', 'in_addon', ['fr'], expect.any(Object))
+      expect(mockStripe.invoices.pay).toHaveBeenCalledWith('in_addon', { payment_method: 'pm_card' })
+      expect(result).toEqual(expect.objectContaining({ success: true, paymentRequired: false, languages: ['de', 'fr'] }))
+      expect(updates).toContainEqual(expect.objectContaining({
+        form_data: expect.objectContaining({ additionalLanguages: ['de', 'fr'] })
+      }))
+      expect(EmailService.sendLanguageChangeNotification).toHaveBeenCalled()
+    })
+
+    it('leaves additions to the webhook when the payment needs customer action', async () => {
+      mockStripe.invoices.pay.mockRejectedValue(new Error('authentication_required'))
+
+      const result = await service.applyChange(submission, ['fr'], [], mockSupabase)
+
+      expect(result).toEqual(expect.objectContaining({
+        success: true,
+        paymentRequired: true,
+        hostedInvoiceUrl: 'https://invoice.stripe.com/i/addon',
+        languages: ['de']
+      }))
+      expect(EmailService.sendLanguageChangeNotification).not.toHaveBeenCalled()
+    })
+
+    it('credits removed languages without creating an invoice', async () => {
+      const result = await service.applyChange(submission, [], ['de'], mockSupabase)
+
+      expect(mockStripe.invoices.create).not.toHaveBeenCalled()
+      expect(mockStripe.customers.createBalanceTransaction).toHaveBeenCalledWith('cus_123', expect.objectContaining({
+        amount: -6000,
+        currency: 'eur'
+      }))
+      expect(result.languages).toEqual([])
+    })
+
+    it('credits nothing for a language that was never paid for', async () => {
+      paidInvoices[0].lines.data[1].discount_amounts = [{ amount: 7500 }]
+
+      const result = await service.applyChange(submission, [], ['de'], mockSupabase)
+
+      expect(result.preview?.creditAmount).toBe(0)
+      expect(mockStripe.customers.createBalanceTransaction).not.toHaveBeenCalled()
+    })
+
+    it('rejects a change while another one holds the submission', async () => {
+      claimResult = { data: [], error: null }
+
+      const result = await service.applyChange(submission, ['fr'], [], mockSupabase)
+
+      expect(result.error?.code).toBe('LANGUAGE_CHANGE_IN_PROGRESS')
+      expect(mockStripe.invoices.create).not.toHaveBeenCalled()
+    })
+
+    it('releases the claim when the change fails', async () => {
+      mockStripe.invoices.create.mockRejectedValue(new Error('stripe down'))
+
+      await expect(service.applyChange(submission, ['fr'], [], mockSupabase)).rejects.toThrow('stripe down')
+      expect(updates.at(-1)).toEqual({ language_change_started_at: null })
+    })
+  })
+})
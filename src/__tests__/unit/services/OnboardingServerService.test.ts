@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { OnboardingServerService } from '@/services/onboarding-server'
+import { createServiceClient } from '@/lib/supabase'
+import { createSupabaseFake } from '../../helpers/supabase'
+
+jest.mock('@/lib/supabase', () => ({ createServiceClient: jest.fn() }))
+
+describe('OnboardingServerService form change history', () => {
+  let rpc: jest.Mock<any>
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    rpc = jest.fn(() => Promise.resolve({ data: 1, error: null }))
+  })
+
+  describe('submitOnboarding', () => {
+    const session = {
+      id: 'session_123',
+      email: 'owner@example.com',
+      email_verified: true,
+      current_step: 13,
+      form_data: { businessName: 'Rossi', industry: 'food' }
+    }
+
+    beforeEach(() => {
+      const { client } = createSupabaseFake(query =>
+        query.operation === 'insert' ? { data: { id: 'sub_123' }, error: null } : { data: session, error: null }
+      )
+      ;(createServiceClient as jest.Mock).mockReturnValue({ ...client, rpc })
+      jest.spyOn(OnboardingServerService, 'trackEvent').mockResolvedValue()
+    })
+
+    it('logs the submitted payload against the last saved form data', async () => {
+      const formData = { businessName: 'Rossi & Figli', industry: 'food' } as any
+
+      await OnboardingServerService.submitOnboarding('session_123', formData, 600)
+
+      expect(rpc).toHaveBeenCalledWith('record_form_changes', {
+        p_session_id: 'session_123',
+        p_old: session.form_data,
+        p_new: formData,
+        p_step: 13,
+        p_actor: 'customer',
+        p_source: 'submit',
+        p_submission_id: 'sub_123'
+      })
+    })
+
+    it('keeps the submission when the history cannot be written', async () => {
+      rpc.mockResolvedValueOnce({ data: null, error: { message: 'permission denied' } })
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      const submission = await OnboardingServerService.submitOnboarding('session_123', {} as any)
+
+      expect(submission).toEqual({ id: 'sub_123' })
+      consoleError.mockRestore()
+    })
+  })
+
+  describe('revertFormChange', () => {
+    beforeEach(() => {
+      ;(createServiceClient as jest.Mock).mockReturnValue({ rpc })
+    })
+
+    it('returns the logged revert', async () => {
+      const reverted = { id: 'change_2', field_path: 'customerProfile.budget', actor: 'admin', source: 'revert' }
+      rpc.mockResolvedValueOnce({ data: reverted, error: null })
+
+      await expect(OnboardingServerService.revertFormChange('sub_123', 'change_1')).resolves.toEqual(reverted)
+      expect(rpc).toHaveBeenCalledWith('revert_onboarding_form_change', {
+        p_change_id: 'change_1',
+        p_submission_id: 'sub_123'
+      })
+    })
+
+    it('returns null for a change that belongs to another submission', async () => {
+      rpc.mockResolvedValueOnce({ data: null, error: { message: 'Form change not found' } })
+
+      await expect(OnboardingServerService.revertFormChange('sub_123', 'change_9')).resolves.toBeNull()
+    })
+  })
+})
+
+describe('OnboardingServerService session access', () => {
+  const stored = {
+    id: 'session_123',
+    current_step: 3,
+    form_data: { businessName: 'Rossi' },
+    expires_at: '2999-01-01T00:00:00Z',
+    version: 4
+  }
+  let submission: any
+  let selects: string[]
+  let sessionFilters: Array<[string, any]>
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    submission = null
+    selects = []
+    sessionFilters = []
+
+    // A versioned save only matches while the stored version is unchanged
+    const { client } = createSupabaseFake(query => {
+      if (query.table === 'onboarding_submissions') {
+        return { data: submission, error: null }
+      }
+
+      if (query.columns) selects.push(query.columns)
+      const filters = query.filters.filter(([method]) => method === 'eq').map(([, column, value]) => [column, value] as [string, any])
+      sessionFilters.push(...filters)
+      if (query.single) {
+        return { data: stored, error: null }
+      }
+
+      const versionFilter = filters.find(([column]) => column === 'version')
+      const matched = !versionFilter || versionFilter[1] === stored.version
+      return { data: matched ? [stored] : [], error: null }
+    })
+    ;(createServiceClient as jest.Mock).mockReturnValue(client)
+  })
+
+  it('never returns the verification code to the browser', async () => {
+    await OnboardingServerService.getSession('session_123')
+
+    expect(selects[0]).not.toContain('verification_code')
+    expect(selects[0]).toContain('version')
+  })
+
+  it('saves against the base version', async () => {
+    const result = await OnboardingServerService.saveProgress('session_123', {}, 3, 4)
+
+    expect(result).toEqual({ status: 'saved', session: stored })
+    expect(sessionFilters).toContainEqual(['version', 4])
+  })
+
+  it('returns the server copy when another save overtook this one', async () => {
+    const result = await OnboardingServerService.saveProgress('session_123', {}, 3, 2)
+
+    expect(result).toEqual({ status: 'conflict', session: stored })
+  })
+
+  it('does not write sessions that were already submitted', async () => {
+    submission = { id: 'sub_123' }
+
+    await expect(OnboardingServerService.saveProgress('session_123', {}, 3)).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { PreviewDeliveryService } from '@/services/preview-delivery'
+import { EmailService } from '@/services/resend'
+import { OnboardingServerService } from '@/services/onboarding-server'
+import { createServiceClient } from '@/lib/supabase'
+import { createSupabaseFake } from '../../helpers/supabase'
+
+jest.mock('@/lib/supabase', () => ({ createServiceClient: jest.fn() }))
+jest.mock('@/services/resend', () => ({ EmailService: { sendPreviewNotification: jest.fn() } }))
+jest.mock('@/services/onboarding-server', () => ({
+  OnboardingServerService: { getSubmissionById: jest.fn(), trackEvent: jest.fn() }
+}))
+
+describe('PreviewDeliveryService', () => {
+  let updates: any[]
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    updates = []
+    ;(createServiceClient as jest.Mock).mockReturnValue(createSupabaseFake(query => {
+      if (query.operation === 'update') updates.push(query.values)
+    }).client)
+    ;(EmailService.sendPreviewNotification as jest.Mock<any>).mockResolvedValue(true)
+  })
+
+  describe('tracking tokens', () => {
+    it('round-trips the submission ID', () => {
+      const token = PreviewDeliveryService.createTrackingToken('sub_123')
+      expect(PreviewDeliveryService.verifyTrackingToken(token)).toBe('sub_123')
+    })
+
+    it('rejects a token whose ID was swapped', () => {
+      const token = PreviewDeliveryService.createTrackingToken('sub_123')
+      const signature = token.split('.')[1]
+      const forged = `${Buffer.from('sub_456').toString('base64url')}.${signature}`
+
+      expect(PreviewDeliveryService.verifyTrackingToken(forged)).toBeNull()
+      expect(PreviewDeliveryService.verifyTrackingToken('garbage')).toBeNull()
+    })
+  })
+
+  describe('sendPreview', () => {
+    const submission = {
+      id: 'sub_123',
+      session_id: 'session_123',
+      email: 'owner@example.com',
+      business_name: 'Pizzeria Roma',
+      status: 'submitted',
+      onboarding_sessions: { locale: 'it' }
+    }
+
+    it('rejects non-URL input', async () => {
+      const result = await PreviewDeliveryService.sendPreview('sub_123', 'javascript:alert(1)')
+      expect(result.success).toBe(false)
+      expect(EmailService.sendPreviewNotification).not.toHaveBeenCalled()
+    })
+
+    it('emails a tracked link and moves submitted to preview_sent', async () => {
+      ;(OnboardingServerService.getSubmissionById as jest.Mock<any>).mockResolvedValue(submission)
+
+      const result = await PreviewDeliveryService.sendPreview('sub_123', 'https://preview.example.com/roma')
+
+      expect(result).toEqual(expect.objectContaining({ success: true, statusChanged: true }))
+      expect(EmailService.sendPreviewNotification).toHaveBeenCalledWith(
+        'owner@example.com',
+        'Pizzeria Roma',
+        expect.stringMatching(/\/preview\/[^/]+$/),
+        'it'
+      )
+      expect(updates).toEqual([expect.objectContaining({
+        preview_url: 'https://preview.example.com/roma',
+        preview_sent_at: expect.any(String),
+        status: 'preview_sent'
+      })])
+    })
+
+    it('keeps later statuses untouched when resending', async () => {
+      ;(OnboardingServerService.getSubmissionById as jest.Mock<any>).mockResolvedValue({ ...submission, status: 'paid' })
+
+      const result = await PreviewDeliveryService.sendPreview('sub_123', 'https://preview.example.com/roma')
+
+      expect(result.statusChanged).toBe(false)
+      expect(updates).toEqual([expect.not.objectContaining({ status: expect.anything() })])
+    })
+
+    it('does not record delivery when the email fails', async () => {
+      ;(OnboardingServerService.getSubmissionById as jest.Mock<any>).mockResolvedValue(submission)
+      ;(EmailService.sendPreviewNotification as jest.Mock<any>).mockResolvedValue(false)
+
+      const result = await PreviewDeliveryService.sendPreview('sub_123', 'https://preview.example.com/roma')
+
+      expect(result.success).toBe(false)
+      expect(updates).toEqual([])
+    })
+  })
+
+  describe('recordView', () => {
+    const BROWSER = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/605.1.15 Version/17.0 Safari/605.1.15'
+
+    beforeEach(() => {
+      ;(createServiceClient as jest.Mock).mockReturnValue(createSupabaseFake(query => {
+        if (query.operation === 'update') {
+          updates.push(query.values)
+          return { error: null }
+        }
+        return {
+          data: { id: 'sub_123', session_id: 'session_123', preview_url: 'https://preview.example.com/roma', preview_viewed_at: null },
+          error: null
+        }
+      }).client)
+    })
+
+    it('stamps the first view from a browser', async () => {
+      const token = PreviewDeliveryService.createTrackingToken('sub_123')
+
+      await expect(PreviewDeliveryService.recordView(token, BROWSER)).resolves.toBe(true)
+      expect(updates).toEqual([{ preview_viewed_at: expect.any(String) }])
+      expect(OnboardingServerService.trackEvent).toHaveBeenCalledWith(
+        'session_123', 'preview_viewed', { submission_id: 'sub_123' }, undefined, undefined, 'user_action'
+      )
+    })
+
+    it('ignores mail scanners and requests without a user agent', async () => {
+      const token = PreviewDeliveryService.createTrackingToken('sub_123')
+
+      await expect(PreviewDeliveryService.recordView(token, 'Mozilla/5.0 (compatible; Proofpoint URL Defense)')).resolves.toBe(false)
+      await expect(PreviewDeliveryService.recordView(token, null)).resolves.toBe(false)
+      expect(updates).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { ReconciliationService } from '@/services/payment/ReconciliationService'
+import { createSupabaseFake, RecordedQuery } from '../../helpers/supabase'
+
+jest.mock('@/services/payment/WebhookService', () => ({ WebhookService: jest.fn() }))
+
+describe('ReconciliationService', () => {
+  const now = new Date('2025-12-05T12:00:00Z')
+  let submissions: any[]
+  let mockStripe: any
+  let mockWebhookService: any
+  let mockSupabase: any
+  let service: ReconciliationService
+
+  const submission = (overrides: Record<string, unknown> = {}) => ({
+    id: 'sub_row_1',
+    status: 'paid',
+    payment_completed_at: '2025-11-01T10:00:00Z',
+    refunded_at: null,
+    stripe_customer_id: 'cus_1',
+    stripe_subscription_id: 'sub_1',
+    stripe_subscription_schedule_id: 'sub_sched_1',
+    stripe_payment_id: 'pi_1',
+    ...overrides
+  })
+
+  // Lookups of a single submission find nothing; lists return the submissions
+  const resolveQuery = (query: RecordedQuery) => ({ data: query.single ? null : submissions, error: null })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    submissions = [submission()]
+    mockStripe = {
+      subscriptions: {
+        list: jest.fn(({ status }: any) =>
+          status === 'active' ? [{ id: 'sub_1', status: 'active', customer: 'cus_1', schedule: 'sub_sched_1', metadata: {} }] : []
+        )
+      },
+      subscriptionSchedules: {
+        list: jest.fn(() => [{ id: 'sub_sched_1', status: 'active', subscription: 'sub_1', customer: 'cus_1', metadata: {} }])
+      },
+      refunds: { list: jest.fn(() => []) },
+      customers: { list: jest.fn(() => [{ id: 'cus_1', email: 'owner@example.com' }]) },
+      invoices: {
+        list: jest.fn().mockResolvedValue({ data: [{ id: 'in_renewal' }, { id: 'in_first' }] }),
+        retrieve: jest.fn(async (id: string) => ({ id, object: 'invoice', livemode: false }))
+      },
+      charges: {
+        retrieve: jest.fn(async (id: string) => ({ id, refunded: true, customer: 'cus_1', livemode: false }))
+      }
+    }
+    mockWebhookService = {
+      handleInvoicePaid: jest.fn().mockResolvedValue({ success: true }),
+      handleChargeRefunded: jest.fn().mockResolvedValue({ success: true })
+    }
+    mockSupabase = createSupabaseFake(resolveQuery).client
+    service = new ReconciliationService(mockStripe, mockWebhookService)
+  })
+
+  it('reports nothing when Stripe and the database agree', async () => {
+    const report = await service.run(mockSupabase, { now })
+
+    expect(report.issues).toEqual([])
+    expect(report.checked).toEqual({ subscriptions: 1, schedules: 1, refunds: 0, customers: 1 })
+    expect(mockStripe.invoices.list).not.toHaveBeenCalled()
+  })
+
+  it('reports a paid subscription whose submission has no payment, using the first paid invoice', async () => {
+    submissions = [submission({ status: 'submitted', payment_completed_at: null })]
+
+    const report = await service.run(mockSupabase, { now })
+
+    expect(report.summary.paid_not_recorded).toBe(1)
+    expect(report.issues[0]).toMatchObject({
+      type: 'paid_not_recorded',
+      stripeId: 'in_first',
+      submissionId: 'sub_row_1',
+      repairable: true
+    })
+    expect(mockWebhookService.handleInvoicePaid).not.toHaveBeenCalled()
+  })
+
+  it('reports a fully refunded charge the submission has not flagged', async () => {
+    mockStripe.refunds.list.mockReturnValue([
+      { id: 're_1', status: 'succeeded', charge: 'ch_1', payment_intent: 'pi_1' },
+      { id: 're_2', status: 'succeeded', charge: 'ch_1', payment_intent: 'pi_1' }
+    ])
+
+    const report = await service.run(mockSupabase, { now })
+
+    expect(report.summary.refund_not_flagged).toBe(1)
+    expect(report.issues[0]).toMatchObject({ type: 'refund_not_flagged', stripeId: 'ch_1' })
+    expect(mockStripe.charges.retrieve).toHaveBeenCalledTimes(1)
+  })
+
+  it('ignores refunds already flagged on the submission', async () => {
+    submissions = [submission({ refunded_at: '2025-11-20T10:00:00Z' })]
+    mockStripe.refunds.list.mockReturnValue([
+      { id: 're_1', status: 'succeeded', charge: 'ch_1', payment_intent: 'pi_1' }
+    ])
+
+    const report = await service.run(mockSupabase, { now })
+
+    expect(report.issues).toEqual([])
+    expect(mockStripe.charges.retrieve).not.toHaveBeenCalled()
+  })
+
+  it('reports orphaned customers and subscriptions without a submission as not repairable', async () => {
+    submissions = []
+
+    const report = await service.run(mockSupabase, { now, repair: true })
+
+    expect(report.summary).toEqual({
+      paid_not_recorded: 0,
+      refund_not_flagged: 0,
+      orphaned_customer: 1,
+      subscription_without_submission: 1
+    })
+    expect(report.issues.every(issue => !issue.repairable)).toBe(true)
+    expect(report.repaired).toBe(0)
+  })
+
+  it('repairs through the webhook handlers with a synthetic event', async () => {
+    submissions = [submission({ status: 'submitted', payment_completed_at: null })]
+    mockStripe.refunds.list.mockReturnValue([
+      { id: 're_1', status: 'succeeded', charge: 'ch_1', payment_intent: 'pi_1' }
+    ])
+
+    const report = await service.run(mockSupabase, { now, repair: true })
+
+    expect(report.repaired).toBe(2)
+    expect(report.issues.every(issue => issue.repaired)).toBe(true)
+
+    const invoiceEvent = mockWebhookService.handleInvoicePaid.mock.calls[0][0]
+    expect(invoiceEvent).toMatchObject({ id: 'reconcile_in_first', type: 'invoice.paid' })
+    expect(invoiceEvent.data.object.id).toBe('in_first')
+
+    const refundEvent = mockWebhookService.handleChargeRefunded.mock.calls[0][0]
+    expect(refundEvent).toMatchObject({ type: 'charge.refunded', data: { object: { id: 'ch_1' } } })
+  })
+
+  it('records handler failures without aborting the run', async () => {
+    submissions = [submission({ status: 'submitted', payment_completed_at: null })]
+    mockWebhookService.handleInvoicePaid.mockResolvedValue({ success: false, error: 'Submission not found' })
+
+    const report = await service.run(mockSupabase, { now, repair: true })
+
+    expect(report.repairFailed).toBe(1)
+    expect(report.issues[0]).toMatchObject({ repaired: false, repairError: 'Submission not found' })
+  })
+})
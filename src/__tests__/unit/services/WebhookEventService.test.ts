@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import {
+  MAX_AUTO_RETRIES,
+  STUCK_PROCESSING_MS,
+  WebhookEventService,
+  getNextRetryAt
+} from '@/services/payment/WebhookEventService'
+import { EmailService } from '@/services/resend'
+import { createSupabaseFake, RecordedQuery } from '../../helpers/supabase'
+
+jest.mock('@/services/payment/WebhookService', () => ({ WebhookService: jest.fn() }))
+jest.mock('@/services/resend', () => ({ EmailService: { sendWebhookDeadLetterNotification: jest.fn() } }))
+
+const MINUTE = 60000
+
+describe('WebhookEventService', () => {
+  const now = new Date('2025-12-04T12:00:00Z')
+  let results: any[]
+  let updates: any[]
+  let mockStripe: any
+  let mockWebhookService: any
+  let mockSupabase: any
+  let service: WebhookEventService
+
+  // Each query consumes the next canned result; updates are recorded
+  const resolveQuery = (query: RecordedQuery) => {
+    if (query.operation === 'update') updates.push(query.values)
+    return results.shift()
+  }
+
+  const record = (overrides: Record<string, unknown> = {}) => ({
+    id: 'row_1',
+    event_id: 'evt_123',
+    event_type: 'invoice.paid',
+    status: 'failed',
+    processed_at: new Date(now.getTime() - 60 * MINUTE).toISOString(),
+    completed_at: null,
+    error_message: 'Resend timeout',
+    retry_count: 0,
+    next_retry_at: now.toISOString(),
+    last_retry_at: null,
+    created_at: new Date(now.getTime() - 60 * MINUTE).toISOString(),
+    ...overrides
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    results = []
+    updates = []
+    mockStripe = {
+      events: { retrieve: jest.fn().mockResolvedValue({ id: 'evt_123', type: 'invoice.paid' }) }
+    }
+    mockWebhookService = { dispatchEvent: jest.fn().mockResolvedValue({ success: true }) }
+    mockSupabase = createSupabaseFake(resolveQuery).client
+    service = new WebhookEventService(mockStripe, mockWebhookService)
+  })
+
+  describe('getNextRetryAt', () => {
+    it('backs off exponentially and stops after the retry budget', () => {
+      expect(getNextRetryAt(0, now)?.getTime()).toBe(now.getTime() + 5 * MINUTE)
+      expect(getNextRetryAt(1, now)?.getTime()).toBe(now.getTime() + 10 * MINUTE)
+      expect(getNextRetryAt(3, now)?.getTime()).toBe(now.getTime() + 40 * MINUTE)
+      expect(getNextRetryAt(MAX_AUTO_RETRIES, now)).toBeNull()
+    })
+  })
+
+  describe('processEvent', () => {
+    it('marks handled events as completed', async () => {
+      const result = await service.processEvent({ id: 'evt_123' } as any, mockSupabase, 0, now)
+
+      expect(result).toEqual({ success: true, status: 'completed', nextRetryAt: null })
+      expect(updates[0]).toEqual(expect.objectContaining({ status: 'completed', error_message: null, next_retry_at: null }))
+    })
+
+    it('schedules a retry when the handler fails', async () => {
+      mockWebhookService.dispatchEvent.mockResolvedValue({ success: false, error: 'Supabase unavailable' })
+
+      const result = await service.processEvent({ id: 'evt_123' } as any, mockSupabase, 0, now)
+
+      expect(result.success).toBe(false)
+      expect(result.nextRetryAt).toBe(new Date(now.getTime() + 5 * MINUTE).toISOString())
+      expect(updates[0]).toEqual(expect.objectContaining({
+        status: 'failed',
+        error_message: 'Supabase unavailable',
+        next_retry_at: result.nextRetryAt
+      }))
+    })
+  })
+
+  describe('replayEvent', () => {
+    it('re-fetches the event from Stripe and processes it again', async () => {
+      results = [
+        { data: record({ retry_count: 2 }), error: null },
+        { data: [{ event_id: 'evt_123' }], error: null }
+      ]
+
+      const result = await service.replayEvent('evt_123', mockSupabase, now)
+
+      expect(result.success).toBe(true)
+      expect(updates[0]).toEqual(expect.objectContaining({ status: 'processing', retry_count: 3 }))
+      expect(mockStripe.events.retrieve).toHaveBeenCalledWith('evt_123')
+      expect(mockWebhookService.dispatchEvent).toHaveBeenCalledWith({ id: 'evt_123', type: 'invoice.paid' }, mockSupabase)
+    })
+
+    it('refuses completed, unknown and actively processing events', async () => {
+      results = [{ data: null, error: null }]
+      expect((await service.replayEvent('evt_123', mockSupabase, now)).error?.status).toBe(404)
+
+      results = [{ data: record({ status: 'completed' }), error: null }]
+      expect((await service.replayEvent('evt_123', mockSupabase, now)).error?.code).toBe('EVENT_ALREADY_COMPLETED')
+
+      results = [{ data: record({ status: 'processing', processed_at: now.toISOString() }), error: null }]
+      expect((await service.replayEvent('evt_123', mockSupabase, now)).error?.code).toBe('EVENT_IN_PROGRESS')
+
+      expect(mockStripe.events.retrieve).not.toHaveBeenCalled()
+    })
+
+    it('does not run when a concurrent replay claimed the event first', async () => {
+      results = [
+        { data: record(), error: null },
+        { data: [], error: null }
+      ]
+
+      const result = await service.replayEvent('evt_123', mockSupabase, now)
+
+      expect(result.error?.code).toBe('EVENT_IN_PROGRESS')
+      expect(mockWebhookService.dispatchEvent).not.toHaveBeenCalled()
+    })
+
+    it('replays events stuck in processing', async () => {
+      results = [
+        { data: record({ status: 'processing', processed_at: new Date(now.getTime() - STUCK_PROCESSING_MS - 1).toISOString() }), error: null },
+        { data: [{ event_id: 'evt_123' }], error: null }
+      ]
+
+      expect((await service.replayEvent('evt_123', mockSupabase, now)).success).toBe(true)
+    })
+  })
+
+  describe('retryDueEvents', () => {
+    it('dead-letters events that fail their last retry and alerts the admin', async () => {
+      mockWebhookService.dispatchEvent.mockResolvedValue({ success: false, error: 'Resend timeout' })
+      const exhausted = record({ retry_count: MAX_AUTO_RETRIES - 1 })
+      results = [
+        { data: [exhausted], error: null },
+        { data: [], error: null },
+        { data: exhausted, error: null },
+        { data: [{ event_id: 'evt_123' }], error: null }
+      ]
+
+      const result = await service.retryDueEvents(mockSupabase, { now })
+
+      expect(result).toEqual(expect.objectContaining({ due: 1, deadLettered: 1, completed: 0 }))
+      expect(updates.at(-1)).toEqual(expect.objectContaining({ status: 'failed', next_retry_at: null }))
+      expect(EmailService.sendWebhookDeadLetterNotification).toHaveBeenCalledWith([
+        expect.objectContaining({ eventId: 'evt_123', retryCount: MAX_AUTO_RETRIES, error: 'Resend timeout' })
+      ])
+    })
+
+    it('only lists due events in a dry run', async () => {
+      results = [
+        { data: [record()], error: null },
+        { data: [], error: null }
+      ]
+
+      const result = await service.retryDueEvents(mockSupabase, { now, dryRun: true })
+
+      expect(result.details).toEqual([{ eventId: 'evt_123', eventType: 'invoice.paid', outcome: 'would_retry' }])
+      expect(mockStripe.events.retrieve).not.toHaveBeenCalled()
+    })
+  })
+})
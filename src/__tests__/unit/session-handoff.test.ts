@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { getHandoffUrl, hashHandoffToken, SessionHandoffService } from '@/services/session-handoff'
+import { EmailService } from '@/services/resend'
+import { createSupabaseFake, matchesFilters, RecordedQuery } from '../helpers/supabase'
+
+jest.mock('qrcode', () => ({ toDataURL: jest.fn(async () => 'data:image/png;base64,qr') }))
+jest.mock('@/services/resend', () => ({
+  EmailService: { sendSessionHandoff: jest.fn().mockResolvedValue(true) }
+}))
+
+const mockSendSessionHandoff = EmailService.sendSessionHandoff as jest.Mock
+
+describe('session-handoff', () => {
+  const now = new Date('2025-12-10T12:00:00Z')
+  let tables: Record<string, any[]>
+  let mockSupabase: any
+  let service: SessionHandoffService
+
+  // Minimal in-memory tables supporting the filters the service uses
+  const resolveQuery = (query: RecordedQuery) => {
+    const rows = tables[query.table]
+    if (query.operation === 'insert') {
+      const row = { id: `handoff-${rows.length + 1}`, redeemed_at: null, ...query.values }
+      rows.push(row)
+      return { data: row, error: null }
+    }
+
+    const matched = rows.filter(row => matchesFilters(row, query))
+    if (query.operation === 'update') {
+      matched.forEach(row => Object.assign(row, query.values))
+    }
+    return { data: query.single ? matched[0] || null : matched.map(row => ({ ...row })), error: null }
+  }
+
+  const addSession = (overrides: Record<string, unknown> = {}) => {
+    tables.onboarding_sessions.push({
+      id: 'session-1',
+      email: 'owner@example.com',
+      email_verified: true,
+      locale: 'it',
+      current_step: 12,
+      expires_at: '2025-12-17T12:00:00Z',
+      first_name: 'Mario',
+      ...overrides
+    })
+  }
+
+  const tokenFromUrl = (url: string) => new URL(url).searchParams.get('token')!
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    tables = { onboarding_sessions: [], onboarding_handoff_tokens: [] }
+    mockSupabase = createSupabaseFake(resolveQuery).client
+    service = new SessionHandoffService()
+  })
+
+  it('builds localized links, without a prefix for the default locale', () => {
+    expect(getHandoffUrl('abc', 'en')).toBe('https://whiteboar.it/onboarding/continue?token=abc')
+    expect(getHandoffUrl('abc', 'pl')).toBe('https://whiteboar.it/pl/onboarding/continue?token=abc')
+  })
+
+  it('stores only the token hash and emails the verified address', async () => {
+    addSession()
+
+    const handoff = await service.createHandoff(mockSupabase, 'session-1', { now })
+
+    expect(handoff).toMatchObject({
+      handoffId: 'handoff-1',
+      qrCode: 'data:image/png;base64,qr',
+      expiresAt: '2025-12-10T12:15:00.000Z',
+      emailed: true
+    })
+    const token = tokenFromUrl(handoff!.url)
+    expect(handoff!.url).toContain('/it/onboarding/continue?token=')
+    expect(tables.onboarding_handoff_tokens[0].token_hash).toBe(hashHandoffToken(token))
+    expect(JSON.stringify(tables.onboarding_handoff_tokens)).not.toContain(token)
+    expect(mockSendSessionHandoff).toHaveBeenCalledWith('owner@example.com', 'Mario', handoff!.url, 15, 'it')
+  })
+
+  it('does not email unverified addresses', async () => {
+    addSession({ email_verified: false })
+
+    const handoff = await service.createHandoff(mockSupabase, 'session-1', { now })
+
+    expect(handoff?.emailed).toBe(false)
+    expect(mockSendSessionHandoff).not.toHaveBeenCalled()
+  })
+
+  it('returns null for unknown or expired sessions', async () => {
+    addSession({ expires_at: '2025-12-10T11:00:00Z' })
+
+    expect(await service.createHandoff(mockSupabase, 'session-1', { now })).toBeNull()
+    expect(await service.createHandoff(mockSupabase, 'missing', { now })).toBeNull()
+  })
+
+  it('redeems a token once and reports it to the originating device', async () => {
+    addSession()
+    const handoff = await service.createHandoff(mockSupabase, 'session-1', { now })
+    const token = tokenFromUrl(handoff!.url)
+    const later = new Date('2025-12-10T12:05:00Z')
+
+    expect(await service.getHandoffStatus(mockSupabase, handoff!.handoffId, 'session-1', later))
+      .toEqual({ status: 'pending', redeemedAt: null })
+
+    const first = await service.redeemHandoff(mockSupabase, token, { userAgent: 'Phone', now: later })
+    expect(first).toEqual({ success: true, sessionId: 'session-1', currentStep: 12, locale: 'it' })
+
+    const second = await service.redeemHandoff(mockSupabase, token, { now: later })
+    expect(second.success).toBe(false)
+
+    expect(await service.getHandoffStatus(mockSupabase, handoff!.handoffId, 'session-1', later))
+      .toEqual({ status: 'redeemed', redeemedAt: later.toISOString() })
+    // Another session cannot read the status
+    expect(await service.getHandoffStatus(mockSupabase, handoff!.handoffId, 'session-2', later)).toBeNull()
+  })
+
+  it('rejects expired tokens and tokens replaced by a newer link', async () => {
+    addSession()
+    const first = await service.createHandoff(mockSupabase, 'session-1', { now })
+    const second = await service.createHandoff(mockSupabase, 'session-1', { now: new Date('2025-12-10T12:01:00Z') })
+
+    const replaced = await service.redeemHandoff(mockSupabase, tokenFromUrl(first!.url), {
+      now: new Date('2025-12-10T12:02:00Z')
+    })
+    const expired = await service.redeemHandoff(mockSupabase, tokenFromUrl(second!.url), {
+      now: new Date('2025-12-10T12:30:00Z')
+    })
+
+    expect(replaced.success).toBe(false)
+    expect(expired.success).toBe(false)
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals'
+import { isSameValue, mergeFormData } from '@/lib/session-sync'
+
+describe('session-sync', () => {
+  describe('isSameValue', () => {
+    it('ignores key order and undefined fields, as JSONB does', () => {
+      expect(isSameValue(
+        { budget: 50, style: 70, extra: undefined },
+        { style: 70, budget: 50 }
+      )).toBe(true)
+      expect(isSameValue(['a', 'b'], ['b', 'a'])).toBe(false)
+      expect(isSameValue({ budget: 50 }, { budget: 60 })).toBe(false)
+    })
+  })
+
+  describe('mergeFormData', () => {
+    const base = { businessName: 'Rossi', industry: 'food', businessCity: 'Rome' }
+
+    it('combines edits to different fields', () => {
+      const local = { ...base, businessName: 'Rossi & Figli' }
+      const server = { ...base, industry: 'retail' }
+
+      expect(mergeFormData(base, local, server)).toEqual({
+        merged: { businessName: 'Rossi & Figli', industry: 'retail', businessCity: 'Rome' },
+        conflicts: []
+      })
+    })
+
+    it('reports fields both sides changed differently', () => {
+      const local = { ...base, businessName: 'Rossi & Figli', businessCity: 'Milan' }
+      const server = { ...base, businessName: 'Rossi SRL', businessCity: 'Milan' }
+
+      const { merged, conflicts } = mergeFormData(base, local, server)
+      expect(conflicts).toEqual(['businessName'])
+      expect(merged.businessName).toBe('Rossi & Figli')
+      expect(merged.businessCity).toBe('Milan')
+    })
+
+    it('picks up fields only the server has', () => {
+      const { merged, conflicts } = mergeFormData(base, base, { ...base, vatNumber: 'IT123' })
+      expect(conflicts).toEqual([])
+      expect(merged.vatNumber).toBe('IT123')
+    })
+
+    it('treats every difference as a conflict without a base', () => {
+      const { conflicts } = mergeFormData(null, { ...base, industry: 'retail' }, base)
+      expect(conflicts).toEqual(['industry'])
+    })
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { UploadCleanupService, collectReferencedPaths } from '@/services/upload-cleanup'
+import { createSupabaseFake, RecordedQuery } from '../helpers/supabase'
+
+describe('upload-cleanup', () => {
+  describe('collectReferencedPaths', () => {
+    it('collects logo, business photos and product photos with their derivatives', () => {
+      const paths = collectReferencedPaths({
+        logo: { path: 'logo/a.png', derivatives: [{ path: 'logo/a-w160.webp', width: 160, height: 80, format: 'webp', size: 1 }] },
+        photos: [{ url: 'https://x.supabase.co/storage/v1/object/sign/onboarding-uploads/business-asset/b.jpg?token=t' }],
+        products: [{ photos: [{ path: 'business-asset/c.webp' }] }, { photos: null }]
+      })
+
+      expect([...paths].sort()).toEqual([
+        'business-asset/b.jpg',
+        'business-asset/c.webp',
+        'logo/a-w160.webp',
+        'logo/a.png'
+      ])
+    })
+
+    it('ignores malformed form data', () => {
+      expect(collectReferencedPaths({ logo: null, photos: 'oops' as any, products: [null as any] }).size).toBe(0)
+    })
+  })
+
+  describe('UploadCleanupService', () => {
+    const now = new Date('2025-12-20T12:00:00Z')
+    const old = '2025-11-01T00:00:00Z'
+    const recent = '2025-12-19T00:00:00Z'
+
+    let sessions: any[]
+    let submissions: any[]
+    let uploads: any[]
+    let objects: Record<string, any[]>
+    let storage: any
+    let deletedRows: string[][]
+    let mockSupabase: any
+    let service: UploadCleanupService
+
+    const resolveQuery = (query: RecordedQuery) => {
+      if (query.operation === 'delete') {
+        deletedRows.push(query.filters.find(([method]) => method === 'in')![2])
+        return { data: null, error: null }
+      }
+      const rows =
+        query.table === 'onboarding_sessions' ? sessions : query.table === 'onboarding_submissions' ? submissions : uploads
+      return { data: rows, error: null }
+    }
+
+    const object = (name: string, created_at: string, size = 100) => ({ id: `id-${name}`, name, created_at, metadata: { size } })
+
+    beforeEach(() => {
+      sessions = [{ logo: { path: 'logo/kept.png' }, photos: null, products: null }]
+      submissions = [{ logo: null, photos: [{ path: 'business-asset/submitted.jpg' }], products: null }]
+      uploads = [
+        { file_path: 'logo/kept.png', session_id: 's1', derivatives: [] },
+        { file_path: 'business-asset/removed.jpg', session_id: 's1', derivatives: [{ path: 'business-asset/removed-w160.webp' }] },
+        { file_path: 'business-asset/gone.jpg', session_id: null, derivatives: [] },
+        { file_path: 'logo/missing.png', session_id: 's2', derivatives: [] }
+      ]
+      objects = {
+        'logo': [object('kept.png', old), object('kept-w160.webp', old), object('fresh.png', recent)],
+        'business-asset': [
+          object('submitted.jpg', old),
+          object('removed.jpg', old, 400),
+          object('removed-w160.webp', old, 20),
+          object('gone.jpg', old, 300),
+          object('stray.png', old, 50)
+        ],
+        'product-photo': []
+      }
+      deletedRows = []
+      storage = {
+        list: jest.fn(async (folder: string) => ({ data: objects[folder], error: null })),
+        remove: jest.fn().mockResolvedValue({ data: [], error: null })
+      }
+      mockSupabase = {
+        ...createSupabaseFake(resolveQuery).client,
+        storage: { from: jest.fn(() => storage) }
+      }
+      service = new UploadCleanupService()
+    })
+
+    it('reports unreferenced uploads past the grace period in a dry run', async () => {
+      const report = await service.run(mockSupabase, { dryRun: true, graceDays: 14, now })
+
+      expect(report.orphaned.map(orphan => [orphan.path, orphan.reason])).toEqual([
+        ['business-asset/removed.jpg', 'unreferenced'],
+        ['business-asset/removed-w160.webp', 'unreferenced'],
+        ['business-asset/gone.jpg', 'session_deleted'],
+        ['business-asset/stray.png', 'untracked']
+      ])
+      expect(report).toMatchObject({ scanned: 8, referenced: 3, withinGracePeriod: 1, deleted: 0 })
+      expect(report.missingObjects).toEqual(['logo/missing.png'])
+      expect(storage.remove).not.toHaveBeenCalled()
+    })
+
+    it('deletes orphaned objects and their upload records', async () => {
+      const report = await service.run(mockSupabase, { graceDays: 14, now })
+
+      expect(storage.remove).toHaveBeenCalledWith([
+        'business-asset/removed.jpg',
+        'business-asset/removed-w160.webp',
+        'business-asset/gone.jpg',
+        'business-asset/stray.png'
+      ])
+      expect(deletedRows).toHaveLength(1)
+      expect(report).toMatchObject({ deleted: 4, bytesFreed: 770, errors: [] })
+    })
+
+    it('keeps everything when the grace period covers all uploads', async () => {
+      const report = await service.run(mockSupabase, { graceDays: 365, now })
+
+      expect(report.orphaned).toEqual([])
+      expect(storage.remove).not.toHaveBeenCalled()
+    })
+
+    it('reports storage delete failures without throwing', async () => {
+      storage.remove.mockResolvedValue({ data: null, error: { message: 'Storage unavailable' } })
+
+      const report = await service.run(mockSupabase, { graceDays: 14, now })
+
+      expect(report.deleted).toBe(0)
+      expect(report.errors).toEqual(['Failed to delete 4 objects: Storage unavailable'])
+      expect(deletedRows).toHaveLength(0)
+    })
+
+    it('refuses to run when form data cannot be read', async () => {
+      mockSupabase.from = createSupabaseFake(query =>
+        query.table === 'onboarding_submissions' ? { data: null, error: { message: 'timeout' } } : resolveQuery(query)
+      ).client.from
+
+      await expect(service.run(mockSupabase, { now })).rejects.toThrow('Failed to load onboarding_submissions form data')
+      expect(storage.remove).not.toHaveBeenCalled()
+    })
+  })
+})
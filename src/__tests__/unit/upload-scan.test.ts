@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import {
+  QUARANTINE_BUCKET,
+  UploadScanService,
+  VirusScanner,
+  parseClamdResponse
+} from '@/services/upload-scan'
+import { createSupabaseFake, RecordedQuery } from '../helpers/supabase'
+
+describe('upload-scan', () => {
+  describe('parseClamdResponse', () => {
+    it('reads clean and infected replies', () => {
+      expect(parseClamdResponse('stream: OK\0')).toEqual({ infected: false })
+      expect(parseClamdResponse('stream: Eicar-Test-Signature FOUND\0')).toEqual({
+        infected: true,
+        signature: 'Eicar-Test-Signature'
+      })
+    })
+
+    it('throws on errors so the scan is retried', () => {
+      expect(() => parseClamdResponse('INSTREAM size limit exceeded. ERROR\0')).toThrow('Unexpected clamd response')
+      expect(() => parseClamdResponse('')).toThrow()
+    })
+  })
+
+  describe('UploadScanService', () => {
+    const now = new Date('2025-12-07T12:00:00Z')
+    let pendingUploads: any[]
+    let updates: Array<{ values: any; path: string }>
+    let storage: any
+    let mockSupabase: any
+    let scanner: VirusScanner & { scan: jest.Mock }
+
+    const resolveQuery = (query: RecordedQuery) => {
+      if (query.operation === 'update') {
+        updates.push({ values: query.values, path: query.filters.find(([method]) => method === 'eq')![2] })
+        return { data: null, error: null }
+      }
+      return { data: pendingUploads, error: null }
+    }
+
+    beforeEach(() => {
+      pendingUploads = []
+      updates = []
+      storage = {
+        download: jest.fn().mockResolvedValue({
+          data: { arrayBuffer: async () => new TextEncoder().encode('image-bytes').buffer },
+          error: null
+        }),
+        move: jest.fn().mockResolvedValue({ data: {}, error: null }),
+        remove: jest.fn().mockResolvedValue({ data: [], error: null })
+      }
+      mockSupabase = {
+        ...createSupabaseFake(resolveQuery).client,
+        storage: { from: jest.fn(() => storage) }
+      }
+      scanner = { name: 'stub', scan: jest.fn().mockResolvedValue({ infected: false }) } as any
+    })
+
+    it('marks clean uploads as clean', async () => {
+      const service = new UploadScanService(scanner)
+
+      const result = await service.scanUpload('logo/logo-1.png', mockSupabase, { data: Buffer.from('x'), now })
+
+      expect(result).toEqual({ path: 'logo/logo-1.png', status: 'clean' })
+      expect(storage.download).not.toHaveBeenCalled()
+      expect(updates[0]).toMatchObject({
+        path: 'logo/logo-1.png',
+        values: { virus_scan_status: 'clean', scan_attempts: 1, scanned_at: now.toISOString() }
+      })
+    })
+
+    it('quarantines infected uploads out of the uploads bucket', async () => {
+      scanner.scan.mockResolvedValue({ infected: true, signature: 'Eicar-Test-Signature' })
+      const service = new UploadScanService(scanner)
+
+      const result = await service.scanUpload('logo/logo-1.png', mockSupabase, {
+        data: Buffer.from('x'),
+        derivativePaths: ['logo/logo-1-w160.webp'],
+        now
+      })
+
+      expect(result).toMatchObject({ status: 'infected', quarantined: true, signature: 'Eicar-Test-Signature' })
+      expect(storage.remove).toHaveBeenCalledWith(['logo/logo-1-w160.webp'])
+      expect(storage.move).toHaveBeenCalledWith('logo/logo-1.png', 'logo/logo-1.png', {
+        destinationBucket: QUARANTINE_BUCKET
+      })
+      expect(updates[0].values).toMatchObject({
+        virus_scan_status: 'infected',
+        scan_signature: 'Eicar-Test-Signature',
+        quarantined_at: now.toISOString()
+      })
+    })
+
+    it('deletes infected uploads that cannot be moved to quarantine', async () => {
+      scanner.scan.mockResolvedValue({ infected: true, signature: 'Win.Trojan' })
+      storage.move.mockResolvedValue({ data: null, error: { message: 'Bucket not found' } })
+      const service = new UploadScanService(scanner)
+
+      const result = await service.scanUpload('logo/logo-1.png', mockSupabase, { data: Buffer.from('x'), now })
+
+      expect(result.quarantined).toBe(false)
+      expect(storage.remove).toHaveBeenCalledWith(['logo/logo-1.png'])
+    })
+
+    it('records scanner errors as failed for a later retry', async () => {
+      scanner.scan.mockRejectedValue(new Error('connect ECONNREFUSED'))
+      const service = new UploadScanService(scanner)
+
+      const result = await service.scanUpload('logo/logo-1.png', mockSupabase, { data: Buffer.from('x'), attempts: 2 })
+
+      expect(result).toMatchObject({ status: 'failed', error: 'connect ECONNREFUSED' })
+      expect(updates[0].values).toMatchObject({ virus_scan_status: 'failed', scan_attempts: 3 })
+    })
+
+    it('leaves uploads pending when no scanner is configured', async () => {
+      const service = new UploadScanService(null)
+
+      const result = await service.scanUpload('logo/logo-1.png', mockSupabase)
+
+      expect(result.status).toBe('pending')
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+
+    it('downloads and scans pending uploads in the scheduled run', async () => {
+      pendingUploads = [
+        { id: 'u1', file_path: 'logo/a.png', virus_scan_status: 'pending', scan_attempts: 0 },
+        { id: 'u2', file_path: 'business-asset/b.jpg', virus_scan_status: 'failed', scan_attempts: 1 }
+      ]
+      scanner.scan
+        .mockResolvedValueOnce({ infected: false })
+        .mockResolvedValueOnce({ infected: true, signature: 'Eicar-Test-Signature' })
+      const service = new UploadScanService(scanner)
+
+      const result = await service.scanPending(mockSupabase, { now })
+
+      expect(result).toMatchObject({ scanner: 'stub', due: 2, clean: 1, infected: 1, failed: 0 })
+      expect(storage.download).toHaveBeenCalledTimes(2)
+    })
+
+    it('only lists due uploads in a dry run', async () => {
+      pendingUploads = [{ id: 'u1', file_path: 'logo/a.png', virus_scan_status: 'pending', scan_attempts: 0 }]
+      const service = new UploadScanService(scanner)
+
+      const result = await service.scanPending(mockSupabase, { dryRun: true, now })
+
+      expect(result.details).toEqual([{ path: 'logo/a.png', status: 'pending' }])
+      expect(scanner.scan).not.toHaveBeenCalled()
+    })
+  })
+})
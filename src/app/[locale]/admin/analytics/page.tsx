@@ -0,0 +1,16 @@
+import { cookies } from 'next/headers'
+import { ADMIN_SESSION_COOKIE, verifyAdminSessionToken } from '@/lib/admin-auth'
+import { AdminLogin } from '../components/AdminLogin'
+import { AnalyticsDashboard } from '../components/AnalyticsDashboard'
+
+export const dynamic = 'force-dynamic'
+
+export default async function AdminAnalyticsPage() {
+  const cookieStore = await cookies()
+
+  if (!verifyAdminSessionToken(cookieStore.get(ADMIN_SESSION_COOKIE)?.value)) {
+    return <AdminLogin />
+  }
+
+  return <AnalyticsDashboard />
+}
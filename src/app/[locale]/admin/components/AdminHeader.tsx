@@ -0,0 +1,64 @@
+'use client'
+
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { LogOut } from 'lucide-react'
+import { WhiteBoarLogo } from '@/components/WhiteBoarLogo'
+import { ThemeToggle } from '@/components/ThemeToggle'
+import { Button } from '@/components/ui/button'
+
+interface AdminHeaderProps {
+  locale: string
+  isAuthenticated: boolean
+}
+
+export function AdminHeader({ locale, isAuthenticated }: AdminHeaderProps) {
+  const router = useRouter()
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/admin/auth', { method: 'DELETE' })
+    } catch (error) {
+      console.error('Failed to log out:', error)
+    } finally {
+      router.push(`/${locale}/admin`)
+      router.refresh()
+    }
+  }
+
+  return (
+    <header className="sticky top-0 z-50 w-full bg-white/70 dark:bg-black/70 backdrop-blur-md border-b border-gray-200/20 dark:border-gray-800/20">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex h-16 items-center justify-between">
+          <Link href={`/${locale}/admin`} className="flex items-center gap-3">
+            <WhiteBoarLogo width={120} height={40} className="text-accent dark:text-accent" />
+            <span className="text-sm font-medium text-muted-foreground">Admin</span>
+          </Link>
+
+          <div className="flex items-center space-x-2">
+            {isAuthenticated && (
+              <nav className="flex items-center space-x-1 mr-2">
+                <Button variant="ghost" size="sm" asChild>
+                  <Link href={`/${locale}/admin`}>Submissions</Link>
+                </Button>
+                <Button variant="ghost" size="sm" asChild>
+                  <Link href={`/${locale}/admin/webhooks`}>Webhooks</Link>
+                </Button>
+                <Button variant="ghost" size="sm" asChild>
+                  <Link href={`/${locale}/admin/analytics`}>Analytics</Link>
+                </Button>
+              </nav>
+            )}
+            {isAuthenticated && (
+              <Button variant="ghost" size="sm" onClick={handleLogout} data-testid="admin-logout">
+                <LogOut className="h-4 w-4 mr-1" />
+                <span className="hidden sm:inline">Log out</span>
+              </Button>
+            )}
+            <ThemeToggle />
+          </div>
+        </div>
+      </div>
+    </header>
+  )
+}
@@ -0,0 +1,306 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { locales } from '@/lib/i18n'
+import type { CohortDimension, FunnelDashboard } from '@/services/funnel-dashboard'
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white'
+
+const COHORT_OPTIONS: Array<{ value: CohortDimension; label: string }> = [
+  { value: 'locale', label: 'Locale' },
+  { value: 'device', label: 'Device' },
+  { value: 'businessType', label: 'Business type' }
+]
+
+const formatSeconds = (seconds: number | null) => {
+  if (seconds === null) return '-'
+  return seconds < 90 ? `${seconds}s` : `${Math.round(seconds / 60)} min`
+}
+
+const formatMs = (ms: number | null) => (ms === null ? '-' : `${ms} ms`)
+
+function Stat({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <p className="text-sm text-muted-foreground">{label}</p>
+        <p className="text-2xl font-semibold mt-1">{value}</p>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Internal onboarding funnel dashboard: where sessions stop, which fields
+ * fail validation, how fast the APIs answer and how cohorts compare
+ */
+export function AnalyticsDashboard() {
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [locale, setLocale] = useState('')
+  const [cohortDimension, setCohortDimension] = useState<CohortDimension>('locale')
+  const [dashboard, setDashboard] = useState<FunnelDashboard | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadDashboard = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    const params = new URLSearchParams()
+    if (from) params.set('from', from)
+    if (to) params.set('to', to)
+    if (locale) params.set('locale', locale)
+
+    try {
+      const response = await fetch(`/api/admin/analytics?${params.toString()}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to load analytics')
+        return
+      }
+
+      setDashboard(data)
+    } catch (err) {
+      console.error('Failed to load analytics:', err)
+      setError('Network error - please try again')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [from, to, locale])
+
+  useEffect(() => {
+    loadDashboard()
+  }, [loadDashboard])
+
+  const funnel = dashboard?.funnel
+  const maxReached = Math.max(1, ...(funnel?.steps.map(step => step.reached) || [0]))
+  const maxErrors = Math.max(1, ...(dashboard?.fieldErrors.map(cell => cell.errors) || [0]))
+
+  return (
+    <div className="space-y-6" data-testid="admin-analytics-dashboard">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Onboarding analytics</h1>
+          <p className="text-sm text-muted-foreground">
+            Sessions started in the selected range (default: last 30 days).
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="space-y-1 text-sm">
+            <span className="text-muted-foreground">From</span>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="text-muted-foreground">To</span>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="text-muted-foreground">Locale</span>
+            <select className={selectClassName} value={locale} onChange={(e) => setLocale(e.target.value)}>
+              <option value="">All</option>
+              {locales.map(option => (
+                <option key={option} value={option}>{option.toUpperCase()}</option>
+              ))}
+            </select>
+          </label>
+          <Button variant="outline" onClick={loadDashboard} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">{error}</p>
+      )}
+
+      {!dashboard && isLoading && (
+        <p className="text-muted-foreground">Loading analytics...</p>
+      )}
+
+      {dashboard && funnel && (
+        <>
+          <div className="grid gap-4 grid-cols-2 lg:grid-cols-5">
+            <Stat label="Sessions" value={funnel.totals.sessions} />
+            <Stat label="Submitted" value={funnel.totals.submitted} />
+            <Stat label="Paid" value={funnel.totals.paid} />
+            <Stat label="Drop-off rate" value={`${funnel.dropOffRate}%`} />
+            <Stat label="Median time to submit" value={formatSeconds(funnel.totals.medianCompletionSeconds)} />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Funnel</CardTitle>
+              <CardDescription>
+                Sessions reaching each step, the share that got past it, and where abandoned sessions stopped.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-2" data-testid="admin-analytics-funnel">
+                {funnel.steps.map(step => (
+                  <li key={step.step} className="grid grid-cols-12 items-center gap-3 text-sm">
+                    <span className="col-span-3 truncate">
+                      <span className="text-muted-foreground mr-2">{step.step}.</span>{step.title}
+                    </span>
+                    <div className="col-span-5 h-6 rounded bg-muted">
+                      <div
+                        className="h-6 rounded bg-primary/80"
+                        style={{ width: `${(step.reached / maxReached) * 100}%` }}
+                        title={`${step.reached} sessions`}
+                      />
+                    </div>
+                    <span className="col-span-1 text-right tabular-nums">{step.reached}</span>
+                    <span className="col-span-1 text-right tabular-nums">{step.completionRate}%</span>
+                    <span className="col-span-1 text-right tabular-nums text-destructive">
+                      {step.droppedOff > 0 ? `-${step.droppedOff}` : ''}
+                    </span>
+                    <span className="col-span-1 text-right tabular-nums text-muted-foreground">
+                      {formatSeconds(step.medianSeconds)}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+              <p className="mt-3 text-xs text-muted-foreground">
+                Columns: sessions reached · completed · dropped off here · median time on step
+              </p>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Field errors</CardTitle>
+                <CardDescription>Validation errors per field; darker means more errors.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {dashboard.fieldErrors.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No field errors recorded.</p>
+                ) : (
+                  <table className="w-full text-sm" data-testid="admin-analytics-field-errors">
+                    <thead className="text-muted-foreground">
+                      <tr>
+                        <th className="py-2 text-left font-medium">Step</th>
+                        <th className="py-2 text-left font-medium">Field</th>
+                        <th className="py-2 text-right font-medium">Errors</th>
+                        <th className="py-2 text-right font-medium">Sessions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {dashboard.fieldErrors.map(cell => (
+                        <tr key={`${cell.step}-${cell.field}`} className="border-t">
+                          <td className="py-2">{cell.step}</td>
+                          <td className="py-2"><code className="text-xs">{cell.field}</code></td>
+                          <td className="py-2 text-right">
+                            <span
+                              className="inline-block min-w-12 rounded px-2 py-0.5 tabular-nums"
+                              style={{ backgroundColor: `rgba(239, 68, 68, ${0.15 + 0.85 * (cell.errors / maxErrors)})` }}
+                            >
+                              {cell.errors}
+                            </span>
+                          </td>
+                          <td className="py-2 text-right tabular-nums">{cell.sessions}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>API latency</CardTitle>
+                <CardDescription>Measured in the browser, per operation.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {dashboard.apiLatency.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No API timings recorded.</p>
+                ) : (
+                  <table className="w-full text-sm" data-testid="admin-analytics-api-latency">
+                    <thead className="text-muted-foreground">
+                      <tr>
+                        <th className="py-2 text-left font-medium">Operation</th>
+                        <th className="py-2 text-right font-medium">Calls</th>
+                        <th className="py-2 text-right font-medium">Failed</th>
+                        <th className="py-2 text-right font-medium">p50</th>
+                        <th className="py-2 text-right font-medium">p90</th>
+                        <th className="py-2 text-right font-medium">p95</th>
+                        <th className="py-2 text-right font-medium">p99</th>
+                      </tr>
+                    </thead>
+                    <tbody className="tabular-nums">
+                      {dashboard.apiLatency.map(row => (
+                        <tr key={row.operation} className="border-t">
+                          <td className="py-2"><code className="text-xs">{row.operation}</code></td>
+                          <td className="py-2 text-right">{row.calls}</td>
+                          <td className="py-2 text-right">{row.failures}</td>
+                          <td className="py-2 text-right">{formatMs(row.p50Ms)}</td>
+                          <td className="py-2 text-right">{formatMs(row.p90Ms)}</td>
+                          <td className="py-2 text-right">{formatMs(row.p95Ms)}</td>
+                          <td className="py-2 text-right">{formatMs(row.p99Ms)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle>Cohorts</CardTitle>
+                <CardDescription>
+                  {dashboard.cohortsTruncated
+                    ? 'Based on the most recent sessions only - narrow the range for exact figures.'
+                    : 'Conversion compared across groups of sessions.'}
+                </CardDescription>
+              </div>
+              <select
+                className={`${selectClassName} max-w-48`}
+                value={cohortDimension}
+                onChange={(e) => setCohortDimension(e.target.value as CohortDimension)}
+                aria-label="Compare by"
+              >
+                {COHORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm" data-testid="admin-analytics-cohorts">
+                <thead className="text-muted-foreground">
+                  <tr>
+                    <th className="py-2 text-left font-medium">Cohort</th>
+                    <th className="py-2 text-right font-medium">Sessions</th>
+                    <th className="py-2 text-right font-medium">Submitted</th>
+                    <th className="py-2 text-right font-medium">Paid</th>
+                    <th className="py-2 text-right font-medium">Avg. furthest step</th>
+                  </tr>
+                </thead>
+                <tbody className="tabular-nums">
+                  {dashboard.cohorts[cohortDimension].map(row => (
+                    <tr key={row.cohort} className="border-t">
+                      <td className="py-2 capitalize">{row.cohort}</td>
+                      <td className="py-2 text-right">{row.sessions}</td>
+                      <td className="py-2 text-right">{row.submitted} ({row.submissionRate}%)</td>
+                      <td className="py-2 text-right">{row.paid} ({row.conversionRate}%)</td>
+                      <td className="py-2 text-right">{row.averageFurthestStep}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
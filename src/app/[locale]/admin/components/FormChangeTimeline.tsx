@@ -0,0 +1,216 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { History, RefreshCw, Undo2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { useToast } from '@/hooks/use-toast'
+import type { FormChangeRecord } from '@/types/onboarding'
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-sm'
+
+const SOURCE_LABELS: Record<FormChangeRecord['source'], string> = {
+  save: 'Saved',
+  submit: 'Submitted',
+  revert: 'Reverted'
+}
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? '(empty)' : JSON.stringify(value, null, 2)
+
+// Line-level before/after: lines only on one side are highlighted
+function ValueDiff({ before, after }: { before: unknown; after: unknown }) {
+  const beforeLines = formatValue(before).split('\n')
+  const afterLines = formatValue(after).split('\n')
+
+  const renderSide = (lines: string[], other: string[], highlight: string) => (
+    <pre className="overflow-x-auto rounded-md border bg-muted/30 p-2 text-xs">
+      {lines.map((line, index) => (
+        <span key={index} className={other.includes(line) ? 'block' : `block ${highlight}`}>
+          {line}
+        </span>
+      ))}
+    </pre>
+  )
+
+  return (
+    <div className="grid gap-2 sm:grid-cols-2">
+      <div className="space-y-1">
+        <span className="text-xs text-muted-foreground">Before</span>
+        {renderSide(beforeLines, afterLines, 'bg-red-100 text-red-900 dark:bg-red-950 dark:text-red-200')}
+      </div>
+      <div className="space-y-1">
+        <span className="text-xs text-muted-foreground">After</span>
+        {renderSide(afterLines, beforeLines, 'bg-green-100 text-green-900 dark:bg-green-950 dark:text-green-200')}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Field-level history of what the customer (and admins) entered, newest first.
+ * Reverting puts a field back to its value before the chosen change.
+ */
+export function FormChangeTimeline({
+  submissionId,
+  onReverted
+}: {
+  submissionId: string
+  onReverted: (submission: any) => void
+}) {
+  const { toast } = useToast()
+  const [changes, setChanges] = useState<FormChangeRecord[]>([])
+  const [field, setField] = useState('all')
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [confirmingId, setConfirmingId] = useState<string | null>(null)
+  const [revertingId, setRevertingId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadChanges = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/admin/submissions/${submissionId}/changes`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to load change history')
+        return
+      }
+
+      setChanges(data.changes)
+    } catch (err) {
+      console.error('Failed to load change history:', err)
+      setError('Network error - please try again')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [submissionId])
+
+  useEffect(() => {
+    loadChanges()
+  }, [loadChanges])
+
+  const fields = useMemo(
+    () => Array.from(new Set(changes.map(change => change.field_path))).sort(),
+    [changes]
+  )
+
+  const visibleChanges = useMemo(
+    () => changes.filter(change => field === 'all' || change.field_path === field).reverse(),
+    [changes, field]
+  )
+
+  const handleRevert = async (changeId: string) => {
+    setRevertingId(changeId)
+    setConfirmingId(null)
+
+    try {
+      const response = await fetch(`/api/admin/submissions/${submissionId}/changes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ changeId })
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Revert failed')
+      }
+
+      onReverted(data.submission)
+      toast({ title: 'Field reverted', description: data.change?.field_path })
+    } catch (err) {
+      toast({
+        title: 'Revert failed',
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: 'destructive'
+      })
+    } finally {
+      setRevertingId(null)
+      loadChanges()
+    }
+  }
+
+  return (
+    <Card data-testid="admin-form-change-timeline">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" /> Change history ({changes.length})
+          </CardTitle>
+          <CardDescription>
+            Every field change from the customer&apos;s saves, the final submission and admin reverts.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={loadChanges} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {fields.length > 1 && (
+          <label className="block max-w-xs space-y-1 text-sm">
+            <span className="text-muted-foreground">Field</span>
+            <select className={selectClassName} value={field} onChange={(e) => setField(e.target.value)}>
+              <option value="all">All fields</option>
+              {fields.map(path => (
+                <option key={path} value={path}>{path}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {error && (
+          <p className="text-sm text-destructive" role="alert">{error}</p>
+        )}
+
+        {visibleChanges.length === 0 && !isLoading && !error && (
+          <p className="text-sm text-muted-foreground">No changes recorded.</p>
+        )}
+
+        <ol className="space-y-3">
+          {visibleChanges.map(change => (
+            <li key={change.id} className="rounded-md border p-3 space-y-2" data-testid={`form-change-${change.id}`}>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="text-sm">
+                  <code className="font-medium">{change.field_path}</code>
+                  <span className="text-muted-foreground">
+                    {' · '}{SOURCE_LABELS[change.source]} by {change.actor}
+                    {change.step ? ` on step ${change.step}` : ''}
+                    {' · '}{new Date(change.created_at).toLocaleString()}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setExpandedId(expandedId === change.id ? null : change.id)}
+                  >
+                    {expandedId === change.id ? 'Hide diff' : 'Diff'}
+                  </Button>
+                  <Button
+                    variant={confirmingId === change.id ? 'destructive' : 'outline'}
+                    size="sm"
+                    onClick={() => (confirmingId === change.id ? handleRevert(change.id) : setConfirmingId(change.id))}
+                    disabled={revertingId !== null}
+                    data-testid={`revert-${change.id}`}
+                  >
+                    <Undo2 className="h-4 w-4 mr-1" />
+                    {revertingId === change.id
+                      ? 'Reverting...'
+                      : confirmingId === change.id ? 'Confirm revert' : 'Revert'}
+                  </Button>
+                </div>
+              </div>
+              {expandedId === change.id && (
+                <ValueDiff before={change.old_value} after={change.new_value} />
+              )}
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,22 @@
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+
+const STATUS_STYLES: Record<string, string> = {
+  submitted: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  preview_sent: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+  paid: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  past_due: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
+  completed: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200',
+  cancelled: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200',
+  // Webhook event statuses
+  processing: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+}
+
+export function StatusBadge({ status }: { status: string }) {
+  return (
+    <Badge variant="outline" className={cn('border-transparent', STATUS_STYLES[status])}>
+      {status.replace('_', ' ')}
+    </Badge>
+  )
+}
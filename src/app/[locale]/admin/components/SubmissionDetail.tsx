@@ -0,0 +1,449 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, ExternalLink, Send } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useToast } from '@/hooks/use-toast'
+import { getAssetDerivative, getAssetThumbnailUrl, getAssetUrl } from '@/lib/assets'
+import {
+  OnboardingFormData,
+  SUBMISSION_STATUSES,
+  UploadedFile
+} from '@/types/onboarding'
+import { FormChangeTimeline } from './FormChangeTimeline'
+import { StatusBadge } from './StatusBadge'
+
+interface SubmissionRecord {
+  id: string
+  session_id: string | null
+  email: string
+  business_name: string
+  form_data: Partial<OnboardingFormData>
+  status: string
+  admin_notes: string | null
+  created_at: string
+  preview_url?: string | null
+  preview_sent_at: string | null
+  preview_viewed_at: string | null
+  payment_completed_at: string | null
+  payment_amount?: number | null
+  currency?: string | null
+  discount_code?: string | null
+  stripe_customer_id?: string | null
+  stripe_subscription_id?: string | null
+  completion_time_seconds: number | null
+  onboarding_sessions?: { locale: string } | null
+}
+
+function Field({ label, value }: { label: string; value?: React.ReactNode }) {
+  if (value === undefined || value === null || value === '') {
+    return null
+  }
+
+  return (
+    <div className="grid grid-cols-3 gap-4 py-2 border-b last:border-0">
+      <dt className="text-sm text-muted-foreground">{label}</dt>
+      <dd className="col-span-2 text-sm whitespace-pre-wrap break-words">{value}</dd>
+    </div>
+  )
+}
+
+// Asset URLs are authorized by the admin session cookie
+function ImageGrid({ files }: { files: UploadedFile[] }) {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+      {files.map(file => (
+        <a
+          key={file.id}
+          href={getAssetUrl(file)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="group block rounded-md border overflow-hidden"
+        >
+          <picture>
+            {getAssetDerivative(file, 640, 'avif') && (
+              <source type="image/avif" srcSet={getAssetThumbnailUrl(file, 640, 'avif')} />
+            )}
+            <img
+              src={getAssetThumbnailUrl(file, 640)}
+              alt={file.fileName}
+              loading="lazy"
+              className="h-32 w-full object-cover bg-muted group-hover:opacity-90"
+            />
+          </picture>
+          <span className="block truncate px-2 py-1 text-xs text-muted-foreground">{file.fileName}</span>
+        </a>
+      ))}
+    </div>
+  )
+}
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleString() : undefined)
+
+export function SubmissionDetail({ submissionId, locale }: { submissionId: string; locale: string }) {
+  const { toast } = useToast()
+  const [submission, setSubmission] = useState<SubmissionRecord | null>(null)
+  const [status, setStatus] = useState('')
+  const [adminNotes, setAdminNotes] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [previewUrl, setPreviewUrl] = useState('')
+  const [isSendingPreview, setIsSendingPreview] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const applySubmission = (record: SubmissionRecord) => {
+    setSubmission(record)
+    setStatus(record.status)
+    setAdminNotes(record.admin_notes || '')
+    setPreviewUrl(record.preview_url || '')
+  }
+
+  const loadSubmission = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/admin/submissions/${submissionId}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to load submission')
+        return
+      }
+
+      applySubmission(data.submission)
+    } catch (err) {
+      console.error('Failed to load submission:', err)
+      setError('Network error - please try again')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [submissionId])
+
+  useEffect(() => {
+    loadSubmission()
+  }, [loadSubmission])
+
+  const handleSave = async () => {
+    setIsSaving(true)
+
+    try {
+      const response = await fetch(`/api/admin/submissions/${submissionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, adminNotes })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update submission')
+      }
+
+      applySubmission(data.submission)
+      toast({ title: 'Submission updated' })
+    } catch (err) {
+      toast({
+        title: 'Update failed',
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSendPreview = async () => {
+    setIsSendingPreview(true)
+
+    try {
+      const response = await fetch(`/api/admin/submissions/${submissionId}/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ previewUrl })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send preview')
+      }
+
+      applySubmission(data.submission)
+      toast({
+        title: 'Preview sent',
+        description: data.statusChanged ? 'Status moved to preview sent.' : undefined
+      })
+    } catch (err) {
+      toast({
+        title: 'Preview not sent',
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsSendingPreview(false)
+    }
+  }
+
+  if (isLoading) {
+    return <p className="text-muted-foreground">Loading submission...</p>
+  }
+
+  if (error || !submission) {
+    return (
+      <div className="space-y-4">
+        <p className="text-destructive" role="alert">{error || 'Submission not found'}</p>
+        <Link href={`/${locale}/admin`} className="text-primary hover:underline">Back to submissions</Link>
+      </div>
+    )
+  }
+
+  const form = submission.form_data
+  const isDirty = status !== submission.status || adminNotes !== (submission.admin_notes || '')
+
+  return (
+    <div className="space-y-6" data-testid="admin-submission-detail">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Link
+            href={`/${locale}/admin`}
+            className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" /> Submissions
+          </Link>
+          <h1 className="text-2xl font-bold mt-1">{submission.business_name}</h1>
+          <p className="text-sm text-muted-foreground">{submission.email}</p>
+        </div>
+        <StatusBadge status={submission.status} />
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          <Card>
+            <CardHeader><CardTitle>Contact & business</CardTitle></CardHeader>
+            <CardContent>
+              <dl>
+                <Field label="Name" value={[form.firstName, form.lastName].filter(Boolean).join(' ')} />
+                <Field label="Email" value={form.email} />
+                <Field label="Business email" value={form.businessEmail} />
+                <Field label="Phone" value={form.businessPhone} />
+                <Field
+                  label="Address"
+                  value={[form.businessStreet, form.businessPostalCode, form.businessCity, form.businessProvince, form.businessCountry]
+                    .filter(Boolean)
+                    .join(', ')}
+                />
+                <Field label="Industry" value={form.customIndustry || form.industry} />
+                <Field label="VAT number" value={form.vatNumber} />
+              </dl>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader><CardTitle>Brand & customers</CardTitle></CardHeader>
+            <CardContent>
+              <dl>
+                <Field label="Description" value={form.businessDescription} />
+                <Field
+                  label="Competitors"
+                  value={form.competitorUrls?.length ? form.competitorUrls.join('\n') : undefined}
+                />
+                <Field label="Competitor analysis" value={form.competitorAnalysis} />
+                <Field
+                  label="Customer profile"
+                  value={form.customerProfile
+                    ? Object.entries(form.customerProfile).map(([key, value]) => `${key}: ${value}`).join('\n')
+                    : undefined}
+                />
+                <Field label="Customer problems" value={form.customerProblems} />
+                <Field label="Customer delight" value={form.customerDelight} />
+              </dl>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader><CardTitle>Design & structure</CardTitle></CardHeader>
+            <CardContent>
+              <dl>
+                <Field
+                  label="References"
+                  value={form.websiteReferences?.length ? form.websiteReferences.join('\n') : undefined}
+                />
+                <Field label="Design style" value={form.designStyle} />
+                <Field label="Image style" value={form.imageStyle} />
+                <Field
+                  label="Color palette"
+                  value={form.colorPalette?.length ? (
+                    <span className="flex flex-wrap gap-2">
+                      {form.colorPalette.map(color => (
+                        <span key={color} className="inline-flex items-center gap-1">
+                          <span className="h-4 w-4 rounded border" style={{ backgroundColor: color }} />
+                          <code className="text-xs">{color}</code>
+                        </span>
+                      ))}
+                    </span>
+                  ) : undefined}
+                />
+                <Field label="Sections" value={form.websiteSections?.join(', ')} />
+                <Field label="Primary goal" value={form.primaryGoal} />
+                <Field label="Offering type" value={form.offeringType} />
+                <Field label="Additional languages" value={form.additionalLanguages?.join(', ').toUpperCase()} />
+              </dl>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader><CardTitle>Assets</CardTitle></CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Logo</h3>
+                {form.logoUpload
+                  ? <ImageGrid files={[form.logoUpload]} />
+                  : <p className="text-sm text-muted-foreground">No logo uploaded</p>}
+              </div>
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Business photos</h3>
+                {form.businessPhotos?.length
+                  ? <ImageGrid files={form.businessPhotos} />
+                  : <p className="text-sm text-muted-foreground">No photos uploaded</p>}
+              </div>
+            </CardContent>
+          </Card>
+
+          {form.products && form.products.length > 0 && (
+            <Card>
+              <CardHeader><CardTitle>Products & services ({form.products.length})</CardTitle></CardHeader>
+              <CardContent className="space-y-6">
+                {[...form.products]
+                  .sort((a, b) => a.displayOrder - b.displayOrder)
+                  .map(product => (
+                    <div key={product.id} className="space-y-2 border-b pb-4 last:border-0">
+                      <div className="flex justify-between gap-4">
+                        <h3 className="font-medium">{product.name}</h3>
+                        {product.price !== undefined && (
+                          <span className="text-sm text-muted-foreground">€{product.price.toFixed(2)}</span>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground">{product.description}</p>
+                      {product.photos.length > 0 && <ImageGrid files={product.photos} />}
+                    </div>
+                  ))}
+              </CardContent>
+            </Card>
+          )}
+
+          <FormChangeTimeline submissionId={submission.id} onReverted={applySubmission} />
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader><CardTitle>Manage</CardTitle></CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="submission-status">Status</Label>
+                <select
+                  id="submission-status"
+                  value={status}
+                  onChange={(e) => setStatus(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-sm"
+                >
+                  {SUBMISSION_STATUSES.map(option => (
+                    <option key={option} value={option}>{option.replace('_', ' ')}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="submission-notes">Admin notes</Label>
+                <Textarea
+                  id="submission-notes"
+                  rows={6}
+                  value={adminNotes}
+                  onChange={(e) => setAdminNotes(e.target.value)}
+                />
+              </div>
+              <Button onClick={handleSave} disabled={!isDirty || isSaving} className="w-full">
+                {isSaving ? 'Saving...' : 'Save changes'}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Preview</CardTitle>
+              <CardDescription>
+                The customer receives a tracked link; opening it records the view.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="submission-preview-url">Preview URL</Label>
+                <Input
+                  id="submission-preview-url"
+                  type="url"
+                  placeholder="https://preview.example.com"
+                  value={previewUrl}
+                  onChange={(e) => setPreviewUrl(e.target.value)}
+                />
+              </div>
+              <Button
+                onClick={handleSendPreview}
+                disabled={!previewUrl || isSendingPreview}
+                variant="outline"
+                className="w-full"
+                data-testid="admin-send-preview"
+              >
+                <Send className="h-4 w-4 mr-1" />
+                {isSendingPreview
+                  ? 'Sending...'
+                  : submission.preview_sent_at ? 'Resend preview' : 'Send preview'}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader><CardTitle>Timeline & payment</CardTitle></CardHeader>
+            <CardContent>
+              <dl>
+                <Field label="Locale" value={submission.onboarding_sessions?.locale?.toUpperCase()} />
+                <Field label="Submitted" value={formatDate(submission.created_at)} />
+                <Field
+                  label="Time to complete"
+                  value={submission.completion_time_seconds
+                    ? `${Math.round(submission.completion_time_seconds / 60)} min`
+                    : undefined}
+                />
+                <Field label="Preview sent" value={formatDate(submission.preview_sent_at)} />
+                <Field label="Preview viewed" value={formatDate(submission.preview_viewed_at)} />
+                <Field label="Paid" value={formatDate(submission.payment_completed_at)} />
+                <Field
+                  label="Amount"
+                  value={submission.payment_amount
+                    ? `${(submission.payment_amount / 100).toFixed(2)} ${(submission.currency || 'EUR').toUpperCase()}`
+                    : undefined}
+                />
+                <Field label="Discount" value={submission.discount_code} />
+                <Field
+                  label="Stripe customer"
+                  value={submission.stripe_customer_id ? (
+                    <a
+                      href={`https://dashboard.stripe.com/customers/${submission.stripe_customer_id}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-primary hover:underline"
+                    >
+                      {submission.stripe_customer_id} <ExternalLink className="h-3 w-3" />
+                    </a>
+                  ) : undefined}
+                />
+                <Field label="Subscription" value={submission.stripe_subscription_id} />
+              </dl>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
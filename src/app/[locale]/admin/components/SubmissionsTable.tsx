@@ -0,0 +1,274 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { locales } from '@/lib/i18n'
+import { SUBMISSION_STATUSES, SubmissionSortField } from '@/types/onboarding'
+import { StatusBadge } from './StatusBadge'
+
+const PAGE_SIZE = 25
+
+interface SubmissionRow {
+  id: string
+  email: string
+  business_name: string
+  status: string
+  created_at: string
+  payment_completed_at: string | null
+  payment_amount?: number | null
+  currency?: string | null
+  onboarding_sessions?: { locale: string } | null
+}
+
+interface Filters {
+  status: string
+  startDate: string
+  endDate: string
+  locale: string
+  paid: string
+}
+
+const EMPTY_FILTERS: Filters = { status: '', startDate: '', endDate: '', locale: '', paid: '' }
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white'
+
+export function SubmissionsTable({ locale }: { locale: string }) {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS)
+  const [sortBy, setSortBy] = useState<SubmissionSortField>('created_at')
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
+  const [offset, setOffset] = useState(0)
+  const [submissions, setSubmissions] = useState<SubmissionRow[]>([])
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadSubmissions = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    const params = new URLSearchParams({
+      sortBy,
+      sortOrder,
+      limit: String(PAGE_SIZE),
+      offset: String(offset)
+    })
+    if (filters.status) params.set('status', filters.status)
+    if (filters.locale) params.set('locale', filters.locale)
+    if (filters.paid) params.set('paid', filters.paid)
+    if (filters.startDate) params.set('startDate', new Date(filters.startDate).toISOString())
+    if (filters.endDate) {
+      // Include the whole end day
+      const end = new Date(filters.endDate)
+      end.setHours(23, 59, 59, 999)
+      params.set('endDate', end.toISOString())
+    }
+
+    try {
+      const response = await fetch(`/api/admin/submissions?${params.toString()}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to load submissions')
+        return
+      }
+
+      setSubmissions(data.submissions)
+      setTotal(data.total)
+    } catch (err) {
+      console.error('Failed to load submissions:', err)
+      setError('Network error - please try again')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [filters, sortBy, sortOrder, offset])
+
+  useEffect(() => {
+    loadSubmissions()
+  }, [loadSubmissions])
+
+  const updateFilter = (key: keyof Filters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }))
+    setOffset(0)
+  }
+
+  const toggleSort = (field: SubmissionSortField) => {
+    if (sortBy === field) {
+      setSortOrder(prev => (prev === 'asc' ? 'desc' : 'asc'))
+    } else {
+      setSortBy(field)
+      setSortOrder('desc')
+    }
+    setOffset(0)
+  }
+
+  const SortHeader = ({ field, label }: { field: SubmissionSortField; label: string }) => (
+    <th
+      className="px-4 py-3 text-left font-medium"
+      aria-sort={sortBy === field ? (sortOrder === 'asc' ? 'ascending' : 'descending') : 'none'}
+    >
+      <button
+        type="button"
+        onClick={() => toggleSort(field)}
+        className="inline-flex items-center gap-1 hover:text-foreground"
+      >
+        {label}
+        {sortBy === field && (sortOrder === 'asc'
+          ? <ArrowUp className="h-3 w-3" />
+          : <ArrowDown className="h-3 w-3" />)}
+      </button>
+    </th>
+  )
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Submissions ({total})</CardTitle>
+        <Button variant="outline" size="sm" onClick={loadSubmissions} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Filters */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <label className="space-y-1 text-sm">
+            <span className="text-muted-foreground">Status</span>
+            <select
+              className={selectClassName}
+              value={filters.status}
+              onChange={(e) => updateFilter('status', e.target.value)}
+            >
+              <option value="">All</option>
+              {SUBMISSION_STATUSES.map(status => (
+                <option key={status} value={status}>{status.replace('_', ' ')}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="text-muted-foreground">Payment</span>
+            <select
+              className={selectClassName}
+              value={filters.paid}
+              onChange={(e) => updateFilter('paid', e.target.value)}
+            >
+              <option value="">All</option>
+              <option value="true">Paid</option>
+              <option value="false">Unpaid</option>
+            </select>
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="text-muted-foreground">Locale</span>
+            <select
+              className={selectClassName}
+              value={filters.locale}
+              onChange={(e) => updateFilter('locale', e.target.value)}
+            >
+              <option value="">All</option>
+              {locales.map(code => (
+                <option key={code} value={code}>{code.toUpperCase()}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="text-muted-foreground">From</span>
+            <input
+              type="date"
+              className={selectClassName}
+              value={filters.startDate}
+              onChange={(e) => updateFilter('startDate', e.target.value)}
+            />
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="text-muted-foreground">To</span>
+            <input
+              type="date"
+              className={selectClassName}
+              value={filters.endDate}
+              onChange={(e) => updateFilter('endDate', e.target.value)}
+            />
+          </label>
+        </div>
+
+        {error && (
+          <p className="text-sm text-destructive" role="alert">{error}</p>
+        )}
+
+        {/* Table */}
+        <div className="overflow-x-auto rounded-md border">
+          <table className="w-full text-sm" data-testid="admin-submissions-table">
+            <thead className="bg-muted/50 text-muted-foreground">
+              <tr>
+                <SortHeader field="business_name" label="Business" />
+                <th className="px-4 py-3 text-left font-medium">Email</th>
+                <th className="px-4 py-3 text-left font-medium">Locale</th>
+                <SortHeader field="status" label="Status" />
+                <SortHeader field="payment_completed_at" label="Paid" />
+                <SortHeader field="created_at" label="Submitted" />
+              </tr>
+            </thead>
+            <tbody>
+              {submissions.length === 0 && !isLoading && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-8 text-center text-muted-foreground">
+                    No submissions match these filters.
+                  </td>
+                </tr>
+              )}
+              {submissions.map(submission => (
+                <tr key={submission.id} className="border-t hover:bg-muted/30">
+                  <td className="px-4 py-3 font-medium">
+                    <Link
+                      href={`/${locale}/admin/submissions/${submission.id}`}
+                      className="text-primary hover:underline"
+                    >
+                      {submission.business_name}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3">{submission.email}</td>
+                  <td className="px-4 py-3 uppercase">{submission.onboarding_sessions?.locale || '-'}</td>
+                  <td className="px-4 py-3"><StatusBadge status={submission.status} /></td>
+                  <td className="px-4 py-3">
+                    {submission.payment_completed_at
+                      ? new Date(submission.payment_completed_at).toLocaleDateString()
+                      : '-'}
+                  </td>
+                  <td className="px-4 py-3">{new Date(submission.created_at).toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Pagination */}
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            {total === 0 ? 0 : offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+              disabled={offset === 0 || isLoading}
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= total || isLoading}
+              aria-label="Next page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,203 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { ChevronLeft, ChevronRight, RefreshCw, RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { useToast } from '@/hooks/use-toast'
+import type { WebhookEventFilter, WebhookEventRecord } from '@/services/payment/types'
+import { StatusBadge } from './StatusBadge'
+
+const PAGE_SIZE = 25
+
+const FILTER_OPTIONS: Array<{ value: WebhookEventFilter; label: string }> = [
+  { value: 'all', label: 'Failed or stuck' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'stuck', label: 'Stuck in processing' },
+  { value: 'dead_letter', label: 'Retries exhausted' }
+]
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white'
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '-')
+
+export function WebhookEventsTable() {
+  const { toast } = useToast()
+  const [filter, setFilter] = useState<WebhookEventFilter>('all')
+  const [offset, setOffset] = useState(0)
+  const [events, setEvents] = useState<WebhookEventRecord[]>([])
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [replayingId, setReplayingId] = useState<string | null>(null)
+
+  const loadEvents = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    const params = new URLSearchParams({
+      filter,
+      limit: String(PAGE_SIZE),
+      offset: String(offset)
+    })
+
+    try {
+      const response = await fetch(`/api/admin/webhook-events?${params.toString()}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to load webhook events')
+        return
+      }
+
+      setEvents(data.events)
+      setTotal(data.total)
+    } catch (err) {
+      console.error('Failed to load webhook events:', err)
+      setError('Network error - please try again')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [filter, offset])
+
+  useEffect(() => {
+    loadEvents()
+  }, [loadEvents])
+
+  const handleReplay = async (eventId: string) => {
+    setReplayingId(eventId)
+
+    try {
+      const response = await fetch(`/api/admin/webhook-events/${eventId}/replay`, { method: 'POST' })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Replay failed')
+      }
+
+      toast({ title: 'Event replayed', description: eventId })
+    } catch (err) {
+      toast({
+        title: 'Replay failed',
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: 'destructive'
+      })
+    } finally {
+      setReplayingId(null)
+      loadEvents()
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Webhook Events ({total})</CardTitle>
+        <Button variant="outline" size="sm" onClick={loadEvents} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <label className="space-y-1 text-sm">
+            <span className="text-muted-foreground">Show</span>
+            <select
+              className={selectClassName}
+              value={filter}
+              onChange={(e) => {
+                setFilter(e.target.value as WebhookEventFilter)
+                setOffset(0)
+              }}
+            >
+              {FILTER_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {error && (
+          <p className="text-sm text-destructive" role="alert">{error}</p>
+        )}
+
+        <div className="overflow-x-auto rounded-md border">
+          <table className="w-full text-sm" data-testid="admin-webhook-events-table">
+            <thead className="bg-muted/50 text-muted-foreground">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium">Event</th>
+                <th className="px-4 py-3 text-left font-medium">Status</th>
+                <th className="px-4 py-3 text-left font-medium">Error</th>
+                <th className="px-4 py-3 text-left font-medium">Retries</th>
+                <th className="px-4 py-3 text-left font-medium">Next Retry</th>
+                <th className="px-4 py-3 text-left font-medium">Received</th>
+                <th className="px-4 py-3"><span className="sr-only">Actions</span></th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.length === 0 && !isLoading && (
+                <tr>
+                  <td colSpan={7} className="px-4 py-8 text-center text-muted-foreground">
+                    No failed or stuck events.
+                  </td>
+                </tr>
+              )}
+              {events.map(event => (
+                <tr key={event.id} className="border-t hover:bg-muted/30 align-top">
+                  <td className="px-4 py-3">
+                    <div className="font-medium">{event.event_type}</div>
+                    <div className="font-mono text-xs text-muted-foreground">{event.event_id}</div>
+                  </td>
+                  <td className="px-4 py-3"><StatusBadge status={event.status} /></td>
+                  <td className="px-4 py-3 max-w-xs break-words text-destructive">{event.error_message || '-'}</td>
+                  <td className="px-4 py-3">{event.retry_count}</td>
+                  <td className="px-4 py-3">
+                    {event.status === 'failed' && !event.next_retry_at ? 'Exhausted' : formatDateTime(event.next_retry_at)}
+                  </td>
+                  <td className="px-4 py-3">{formatDateTime(event.created_at)}</td>
+                  <td className="px-4 py-3 text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleReplay(event.event_id)}
+                      disabled={replayingId !== null}
+                      data-testid={`replay-${event.event_id}`}
+                    >
+                      <RotateCcw className={`h-4 w-4 mr-1 ${replayingId === event.event_id ? 'animate-spin' : ''}`} />
+                      Replay
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            {total === 0 ? 0 : offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+              disabled={offset === 0 || isLoading}
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= total || isLoading}
+              aria-label="Next page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
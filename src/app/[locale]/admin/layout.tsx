@@ -0,0 +1,39 @@
+import { Metadata } from 'next'
+import { cookies } from 'next/headers'
+import { ThemeProvider } from '@/components/theme-provider'
+import { Toaster } from '@/components/ui/sonner'
+import { ADMIN_SESSION_COOKIE, verifyAdminSessionToken } from '@/lib/admin-auth'
+import { AdminHeader } from './components/AdminHeader'
+
+export const metadata: Metadata = {
+  title: 'Admin | WhiteBoar',
+  robots: {
+    index: false,
+    follow: false
+  }
+}
+
+interface AdminLayoutProps {
+  children: React.ReactNode
+  params: Promise<{
+    locale: string
+  }>
+}
+
+export default async function AdminLayout({ children, params }: AdminLayoutProps) {
+  const { locale } = await params
+  const cookieStore = await cookies()
+  const isAuthenticated = verifyAdminSessionToken(cookieStore.get(ADMIN_SESSION_COOKIE)?.value)
+
+  return (
+    <ThemeProvider>
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <AdminHeader locale={locale} isAuthenticated={isAuthenticated} />
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {children}
+        </main>
+      </div>
+      <Toaster />
+    </ThemeProvider>
+  )
+}
@@ -0,0 +1,21 @@
+import { cookies } from 'next/headers'
+import { ADMIN_SESSION_COOKIE, verifyAdminSessionToken } from '@/lib/admin-auth'
+import { AdminLogin } from './components/AdminLogin'
+import { SubmissionsTable } from './components/SubmissionsTable'
+
+export const dynamic = 'force-dynamic'
+
+export default async function AdminPage({
+  params
+}: {
+  params: Promise<{ locale: string }>
+}) {
+  const { locale } = await params
+  const cookieStore = await cookies()
+
+  if (!verifyAdminSessionToken(cookieStore.get(ADMIN_SESSION_COOKIE)?.value)) {
+    return <AdminLogin />
+  }
+
+  return <SubmissionsTable locale={locale} />
+}
@@ -0,0 +1,21 @@
+import { cookies } from 'next/headers'
+import { redirect } from 'next/navigation'
+import { ADMIN_SESSION_COOKIE, verifyAdminSessionToken } from '@/lib/admin-auth'
+import { SubmissionDetail } from '../../components/SubmissionDetail'
+
+export const dynamic = 'force-dynamic'
+
+export default async function AdminSubmissionPage({
+  params
+}: {
+  params: Promise<{ locale: string; id: string }>
+}) {
+  const { locale, id } = await params
+  const cookieStore = await cookies()
+
+  if (!verifyAdminSessionToken(cookieStore.get(ADMIN_SESSION_COOKIE)?.value)) {
+    redirect(`/${locale}/admin`)
+  }
+
+  return <SubmissionDetail submissionId={id} locale={locale} />
+}
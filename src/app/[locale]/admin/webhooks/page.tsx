@@ -0,0 +1,16 @@
+import { cookies } from 'next/headers'
+import { ADMIN_SESSION_COOKIE, verifyAdminSessionToken } from '@/lib/admin-auth'
+import { AdminLogin } from '../components/AdminLogin'
+import { WebhookEventsTable } from '../components/WebhookEventsTable'
+
+export const dynamic = 'force-dynamic'
+
+export default async function AdminWebhooksPage() {
+  const cookieStore = await cookies()
+
+  if (!verifyAdminSessionToken(cookieStore.get(ADMIN_SESSION_COOKIE)?.value)) {
+    return <AdminLogin />
+  }
+
+  return <WebhookEventsTable />
+}
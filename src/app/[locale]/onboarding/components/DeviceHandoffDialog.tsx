@@ -0,0 +1,185 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { Copy, Loader2, Mail } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { csrfFetch } from '@/lib/csrf-fetch'
+import { useToast } from '@/hooks/use-toast'
+
+// How often the originating device checks whether the link was used
+const HANDOFF_POLL_MS = 3000
+
+interface HandoffLink {
+  handoffId: string
+  url: string
+  qrCode: string
+  expiresAt: string
+  emailed: boolean
+}
+
+interface DeviceHandoffDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  sessionId: string
+}
+
+/**
+ * "Continue on another device": shows a single-use link as a QR code and tells
+ * this device once the link was opened elsewhere. Polling continues after the
+ * dialog is closed, until the link is used or expires.
+ */
+export function DeviceHandoffDialog({ open, onOpenChange, sessionId }: DeviceHandoffDialogProps) {
+  const t = useTranslations('onboarding.handoff')
+  const { toast } = useToast()
+  const [handoff, setHandoff] = useState<HandoffLink | null>(null)
+  const [isExpired, setIsExpired] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const [copied, setCopied] = useState(false)
+
+  const createHandoff = useCallback(async () => {
+    setIsCreating(true)
+    setIsExpired(false)
+    setCopied(false)
+
+    try {
+      const response = await csrfFetch('/api/onboarding/handoff', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId })
+      })
+      const result = await response.json().catch(() => null)
+
+      if (!response.ok || !result?.data) {
+        throw new Error(result?.error || 'Failed to create handoff link')
+      }
+
+      setHandoff(result.data)
+    } catch (error) {
+      console.error('Failed to create handoff link:', error)
+      toast({
+        title: t('errorTitle'),
+        description: t('errorDescription'),
+        variant: 'destructive',
+      })
+      onOpenChange(false)
+    } finally {
+      setIsCreating(false)
+    }
+  }, [sessionId, toast, t, onOpenChange])
+
+  // A fresh link each time the dialog opens without a usable one
+  useEffect(() => {
+    if (open && !isCreating && (!handoff || isExpired)) {
+      createHandoff()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open])
+
+  useEffect(() => {
+    if (!handoff || isExpired) return
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(
+          `/api/onboarding/handoff/${handoff.handoffId}?sessionId=${encodeURIComponent(sessionId)}`,
+          { cache: 'no-store' }
+        )
+        if (!response.ok) return
+
+        const { data } = await response.json()
+        if (data?.status === 'redeemed') {
+          setHandoff(null)
+          onOpenChange(false)
+          toast({
+            title: t('redeemedTitle'),
+            description: t('redeemedDescription'),
+          })
+        } else if (data?.status === 'expired') {
+          setIsExpired(true)
+        }
+      } catch (error) {
+        console.debug('Handoff status check failed:', error)
+      }
+    }, HANDOFF_POLL_MS)
+
+    return () => clearInterval(interval)
+  }, [handoff, isExpired, sessionId, onOpenChange, toast, t])
+
+  const handleCopy = async () => {
+    if (!handoff) return
+    try {
+      await navigator.clipboard.writeText(handoff.url)
+      setCopied(true)
+    } catch (error) {
+      console.error('Failed to copy handoff link:', error)
+    }
+  }
+
+  const minutesLeft = handoff
+    ? Math.max(1, Math.round((new Date(handoff.expiresAt).getTime() - Date.now()) / 60000))
+    : 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md" data-testid="device-handoff-dialog">
+        <DialogHeader>
+          <DialogTitle>{t('dialogTitle')}</DialogTitle>
+          <DialogDescription>{t('dialogDescription')}</DialogDescription>
+        </DialogHeader>
+
+        {isCreating || !handoff ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-sm text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            {t('generating')}
+          </div>
+        ) : isExpired ? (
+          <div className="py-8 text-center space-y-4">
+            <p className="text-sm text-muted-foreground">{t('expired')}</p>
+            <Button onClick={createHandoff}>{t('newLink')}</Button>
+          </div>
+        ) : (
+          <div className="flex flex-col items-center gap-4 py-2">
+            <img
+              src={handoff.qrCode}
+              alt={t('qrAlt')}
+              width={224}
+              height={224}
+              className="rounded-lg border border-gray-200 bg-white p-2"
+              data-testid="device-handoff-qr"
+            />
+            {handoff.emailed && (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Mail className="h-4 w-4" />
+                {t('emailSent')}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground text-center">
+              {t('expires', { minutes: minutesLeft })}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {handoff && !isExpired && !isCreating && (
+            <Button variant="outline" onClick={handleCopy}>
+              <Copy className="h-4 w-4 mr-2" />
+              {copied ? t('copied') : t('copyLink')}
+            </Button>
+          )}
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            {t('close')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
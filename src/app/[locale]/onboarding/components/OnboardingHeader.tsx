@@ -4,7 +4,7 @@ import { useState } from 'react'
 import { useRouter, useParams } from 'next/navigation'
 import { useTranslations } from 'next-intl'
 import Link from 'next/link'
-import { RotateCcw } from 'lucide-react'
+import { RotateCcw, Smartphone } from 'lucide-react'
 import { ThemeToggle } from '@/components/ThemeToggle'
 import { LanguageSelector } from '@/components/LanguageSelector'
 import { WhiteBoarLogo } from '@/components/WhiteBoarLogo'
@@ -21,12 +21,17 @@ import {
 } from '@/components/ui/alert-dialog'
 import { useOnboardingStore } from '@/stores/onboarding'
 import { useToast } from '@/hooks/use-toast'
+import { DeviceHandoffDialog } from './DeviceHandoffDialog'
 
 export function OnboardingHeader() {
   const t = useTranslations('onboarding.restart')
+  const tHandoff = useTranslations('onboarding.handoff')
   const [showRestartDialog, setShowRestartDialog] = useState(false)
+  const [showHandoffDialog, setShowHandoffDialog] = useState(false)
   const [isRestarting, setIsRestarting] = useState(false)
-  const { clearSession } = useOnboardingStore()
+  const { clearSession, sessionId } = useOnboardingStore()
+  // Handoff links need the session cookie, issued once the email is verified
+  const emailVerified = useOnboardingStore((state) => !!state.formData.emailVerified)
   const router = useRouter()
   const params = useParams<{ locale?: string }>()
   const locale = (params?.locale ?? 'en') as string
@@ -84,8 +89,21 @@ export function OnboardingHeader() {
               </Link>
             </div>
 
-            {/* Controls: Restart, Language, Theme */}
+            {/* Controls: Other device, Restart, Language, Theme */}
             <div className="flex items-center space-x-2">
+              {sessionId && emailVerified && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowHandoffDialog(true)}
+                  data-testid="continue-on-device"
+                  className="text-gray-700 dark:text-white hover:text-gray-900 dark:hover:text-accent"
+                  aria-label={tHandoff('dialogTitle')}
+                >
+                  <Smartphone className="h-4 w-4 mr-1" />
+                  <span className="hidden sm:inline">{tHandoff('button')}</span>
+                </Button>
+              )}
               <Button
                 variant="ghost"
                 size="sm"
@@ -105,6 +123,14 @@ export function OnboardingHeader() {
         </div>
       </header>
 
+      {sessionId && (
+        <DeviceHandoffDialog
+          open={showHandoffDialog}
+          onOpenChange={setShowHandoffDialog}
+          sessionId={sessionId}
+        />
+      )}
+
       {/* Restart Confirmation Dialog */}
       <AlertDialog open={showRestartDialog} onOpenChange={setShowRestartDialog}>
         <AlertDialogContent>
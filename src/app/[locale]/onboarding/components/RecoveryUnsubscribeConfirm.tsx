@@ -0,0 +1,82 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useTranslations } from 'next-intl'
+import { CheckCircle, Loader2, MailX } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { csrfFetch } from '@/lib/csrf-fetch'
+
+interface RecoveryUnsubscribeConfirmProps {
+  sessionId: string
+  token: string
+  locale: string
+}
+
+/**
+ * Confirm step of the recovery unsubscribe link: opening the link only shows
+ * this button, the opt-out itself is a POST
+ */
+export function RecoveryUnsubscribeConfirm({ sessionId, token, locale }: RecoveryUnsubscribeConfirmProps) {
+  const t = useTranslations('onboarding.recoveryUnsubscribe')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [unsubscribed, setUnsubscribed] = useState(false)
+  const [failed, setFailed] = useState(false)
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true)
+    setFailed(false)
+
+    try {
+      const response = await csrfFetch('/api/onboarding/recovery/unsubscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, token })
+      })
+      const result = await response.json().catch(() => null)
+
+      if (!response.ok || !result?.success) {
+        throw new Error(result?.error || 'Failed to unsubscribe')
+      }
+
+      setUnsubscribed(true)
+    } catch (error) {
+      console.error('Recovery unsubscribe failed:', error)
+      setFailed(true)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <>
+      {unsubscribed ? (
+        <CheckCircle className="w-12 h-12 mx-auto text-green-600 dark:text-green-400" />
+      ) : (
+        <MailX className="w-12 h-12 mx-auto text-muted-foreground" />
+      )}
+      <h1 className="text-2xl font-bold">{unsubscribed ? t('title') : t('confirmTitle')}</h1>
+      <p className="text-muted-foreground">
+        {unsubscribed ? t('description') : t('confirmDescription')}
+      </p>
+      {failed && (
+        <p className="text-sm text-destructive" role="alert">{t('failed')}</p>
+      )}
+      <div className="flex flex-col sm:flex-row gap-3 justify-center pt-2">
+        {unsubscribed ? (
+          <Button asChild>
+            <Link href={`/${locale}/onboarding?sessionId=${sessionId}`}>{t('continue')}</Link>
+          </Button>
+        ) : (
+          <Button onClick={handleConfirm} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t('confirm')}
+          </Button>
+        )}
+        <Button asChild variant="outline">
+          <Link href={`/${locale}`}>{t('backHome')}</Link>
+        </Button>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,132 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { cn } from '@/lib/utils'
+import { FormDataField } from '@/lib/session-sync'
+import { useOnboardingStore } from '@/stores/onboarding'
+
+type Choice = 'local' | 'server'
+
+const PREVIEW_LENGTH = 120
+
+/**
+ * Shown when another tab or device saved fields this tab changed too. Saving
+ * is paused until the user picks a value per field, so neither side is lost.
+ */
+export function SaveConflictDialog() {
+  const t = useTranslations('onboarding.conflict')
+  const saveConflict = useOnboardingStore((state) => state.saveConflict)
+  const formData = useOnboardingStore((state) => state.formData)
+  const resolveSaveConflict = useOnboardingStore((state) => state.resolveSaveConflict)
+  const [choices, setChoices] = useState<Partial<Record<FormDataField, Choice>>>({})
+  const [isResolving, setIsResolving] = useState(false)
+
+  // Each new conflict starts from this tab's values
+  useEffect(() => {
+    setChoices({})
+  }, [saveConflict])
+
+  if (!saveConflict) {
+    return null
+  }
+
+  const fieldLabel = (field: FormDataField) =>
+    t.has(`fields.${field}`) ? t(`fields.${field}`) : field
+
+  const formatValue = (value: unknown): string => {
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      return t('empty')
+    }
+    if (typeof value === 'boolean') {
+      return value ? t('yes') : t('no')
+    }
+    if (Array.isArray(value)) {
+      return value.every((item) => typeof item === 'string')
+        ? value.join(', ')
+        : t('items', { count: value.length })
+    }
+    if (typeof value === 'object') {
+      const record = value as Record<string, unknown>
+      // Uploaded files
+      if (typeof record.fileName === 'string') {
+        return record.fileName
+      }
+      return Object.entries(record).map(([key, entry]) => `${key}: ${String(entry)}`).join(', ')
+    }
+
+    const text = String(value)
+    return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text
+  }
+
+  const handleApply = async () => {
+    setIsResolving(true)
+    try {
+      await resolveSaveConflict(choices)
+    } finally {
+      setIsResolving(false)
+    }
+  }
+
+  const renderOption = (field: FormDataField, choice: Choice, value: unknown) => {
+    const selected = (choices[field] ?? 'local') === choice
+
+    return (
+      <button
+        type="button"
+        onClick={() => setChoices((current) => ({ ...current, [field]: choice }))}
+        className={cn(
+          'flex-1 rounded-md border p-3 text-left text-sm transition-colors',
+          selected ? 'border-primary bg-primary/5 ring-1 ring-primary' : 'border-gray-200 hover:bg-muted'
+        )}
+        aria-pressed={selected}
+        data-testid={`save-conflict-${field}-${choice}`}
+      >
+        <span className="block text-xs font-medium text-muted-foreground mb-1">
+          {choice === 'local' ? t('thisTab') : t('savedElsewhere')}
+        </span>
+        <span className="block break-words">{formatValue(value)}</span>
+      </button>
+    )
+  }
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent className="sm:max-w-2xl" data-testid="save-conflict-dialog">
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t('title')}</AlertDialogTitle>
+          <AlertDialogDescription>{t('description')}</AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="max-h-[60vh] space-y-4 overflow-y-auto py-2">
+          {saveConflict.fields.map((field) => (
+            <div key={field} className="space-y-2">
+              <p className="text-sm font-medium">{fieldLabel(field)}</p>
+              <div className="flex flex-col gap-2 sm:flex-row">
+                {renderOption(field, 'local', formData[field])}
+                {renderOption(field, 'server', saveConflict.serverFormData[field])}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <AlertDialogFooter>
+          <Button onClick={handleApply} disabled={isResolving}>
+            {isResolving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t('apply')}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,103 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useRouter, useParams } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import Link from 'next/link'
+import { Loader2, XCircle } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { useOnboardingStore } from '@/stores/onboarding'
+import { csrfFetch } from '@/lib/csrf-fetch'
+import { Locale } from '@/lib/i18n'
+
+/**
+ * Landing page of a "continue on another device" link
+ * Redeems the single-use token with a POST (so link previews and email scanners
+ * cannot use it up), loads the session and moves on to its current step.
+ */
+export default function OnboardingContinue() {
+  const t = useTranslations('onboarding.handoffRedeem')
+  const router = useRouter()
+  const params = useParams<{ locale?: Locale }>()
+  const locale = (params?.locale ?? 'en') as Locale
+  const [failed, setFailed] = useState(false)
+  const redeemedRef = useRef(false)
+
+  useEffect(() => {
+    // Strict mode runs effects twice; the token only works once
+    if (redeemedRef.current) return
+    redeemedRef.current = true
+
+    const redeem = async () => {
+      const token = new URLSearchParams(window.location.search).get('token')
+      // Keep the token out of history and referrers
+      window.history.replaceState(null, '', window.location.pathname)
+
+      if (!token) {
+        setFailed(true)
+        return
+      }
+
+      try {
+        const response = await csrfFetch('/api/onboarding/handoff/redeem', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token })
+        })
+        const result = await response.json().catch(() => null)
+
+        if (!response.ok || !result?.data?.sessionId) {
+          setFailed(true)
+          return
+        }
+
+        const { initSession } = useOnboardingStore.getState()
+        await initSession(result.data.sessionId)
+
+        const { sessionId, currentStep } = useOnboardingStore.getState()
+        if (sessionId !== result.data.sessionId) {
+          setFailed(true)
+          return
+        }
+
+        router.replace(`/${locale}/onboarding/step/${currentStep || 1}`)
+      } catch (error) {
+        console.error('Failed to continue session from handoff link:', error)
+        setFailed(true)
+      }
+    }
+
+    redeem()
+  }, [locale, router])
+
+  return (
+    <div className="container mx-auto px-4 py-16">
+      <Card className="max-w-lg mx-auto">
+        <CardContent className="pt-8 text-center space-y-4">
+          {failed ? (
+            <>
+              <XCircle className="w-12 h-12 mx-auto text-destructive" />
+              <h1 className="text-2xl font-bold">{t('invalidTitle')}</h1>
+              <p className="text-muted-foreground">{t('invalidDescription')}</p>
+              <div className="flex flex-col sm:flex-row gap-3 justify-center pt-2">
+                <Button asChild>
+                  <Link href={`/${locale}/onboarding`}>{t('startOnboarding')}</Link>
+                </Button>
+                <Button asChild variant="outline">
+                  <Link href={`/${locale}`}>{t('backHome')}</Link>
+                </Button>
+              </div>
+            </>
+          ) : (
+            <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground" data-testid="handoff-redeeming">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              {t('loading')}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
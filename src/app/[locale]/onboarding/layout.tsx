@@ -2,6 +2,7 @@ import { Metadata } from 'next'
 import { getTranslations } from 'next-intl/server'
 import { ThemeProvider } from '@/components/theme-provider'
 import { OnboardingHeader } from './components/OnboardingHeader'
+import { SaveConflictDialog } from './components/SaveConflictDialog'
 import { GoogleMapsProvider } from '@/components/onboarding/GoogleMapsProvider'
 
 interface OnboardingLayoutProps {
@@ -74,6 +75,9 @@ export default async function OnboardingLayout({
             {children}
           </main>
 
+          {/* Edits saved from another tab or device */}
+          <SaveConflictDialog />
+
           {/* Footer */}
           <OnboardingFooter secureSSLText={t('footer.secureSSL')} />
         </div>
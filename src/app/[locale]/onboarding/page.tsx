@@ -31,22 +31,9 @@ export default function OnboardingWelcome() {
       const urlSessionId = urlParams.get('sessionId')
 
       if (urlSessionId) {
-        try {
-          // Load session from URL parameter (recovery email scenario)
-          const { initSession } = useOnboardingStore.getState()
-          await initSession(urlSessionId)
-
-          // Get the current step from the loaded session
-          const loadedSession = useOnboardingStore.getState()
-          const step = loadedSession.currentStep || 1
-
-          // Redirect to the appropriate step
-          router.push(`/${locale}/onboarding/step/${step}`)
-          return
-        } catch (error) {
-          console.error('Failed to load session from URL:', error)
-          // Fall through to check localStorage
-        }
+        // The resume page asks for a fresh email verification before loading it
+        router.replace(`/${locale}/onboarding/resume?sessionId=${encodeURIComponent(urlSessionId)}`)
+        return
       }
 
       // PRIORITY 2: Check for existing session in localStorage
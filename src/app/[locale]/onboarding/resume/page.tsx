@@ -0,0 +1,168 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useRouter, useParams } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import Link from 'next/link'
+import { Loader2, XCircle } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { EmailVerification } from '@/components/onboarding/EmailVerification'
+import { useOnboardingStore } from '@/stores/onboarding'
+import { csrfFetch } from '@/lib/csrf-fetch'
+import { Locale } from '@/lib/i18n'
+
+type ResumeState = 'checking' | 'verify' | 'failed'
+
+/**
+ * Landing page for session links (?sessionId=xxx) from recovery emails and
+ * bookmarks, and for stored sessions this browser is not signed in to. A
+ * verified session is only loaded after its email was verified again here.
+ */
+export default function OnboardingResume() {
+  const t = useTranslations('onboarding.resume')
+  const router = useRouter()
+  const params = useParams<{ locale?: Locale }>()
+  const locale = (params?.locale ?? 'en') as Locale
+  const [state, setState] = useState<ResumeState>('checking')
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [maskedEmail, setMaskedEmail] = useState('')
+  const [isVerifying, setIsVerifying] = useState(false)
+  const [verificationError, setVerificationError] = useState('')
+  const startedRef = useRef(false)
+
+  const openSession = useCallback(async (id: string) => {
+    const { initSession } = useOnboardingStore.getState()
+    await initSession(id)
+
+    const { sessionId: loadedSessionId, currentStep } = useOnboardingStore.getState()
+    if (loadedSessionId !== id) {
+      setState('failed')
+      return
+    }
+
+    router.replace(`/${locale}/onboarding/step/${currentStep || 1}`)
+  }, [locale, router])
+
+  // Also sends a new code when the session needs to be verified again
+  const requestResume = useCallback(async (id: string) => {
+    const response = await csrfFetch('/api/onboarding/session', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId: id, locale })
+    })
+    const result = await response.json().catch(() => null)
+
+    if (!response.ok || !result?.success) {
+      throw new Error(result?.error || 'Failed to resume session')
+    }
+    return result as { verificationRequired: boolean; email?: string }
+  }, [locale])
+
+  useEffect(() => {
+    // Strict mode runs effects twice; one verification email is enough
+    if (startedRef.current) return
+    startedRef.current = true
+
+    const resume = async () => {
+      const id = new URLSearchParams(window.location.search).get('sessionId')
+      if (!id) {
+        setState('failed')
+        return
+      }
+      setSessionId(id)
+
+      try {
+        const result = await requestResume(id)
+        if (result.verificationRequired) {
+          setMaskedEmail(result.email || '')
+          setState('verify')
+          return
+        }
+        await openSession(id)
+      } catch (error) {
+        console.error('Failed to resume session:', error)
+        setState('failed')
+      }
+    }
+
+    resume()
+  }, [openSession, requestResume])
+
+  const handleVerificationComplete = async (code: string) => {
+    if (!sessionId) return
+    setIsVerifying(true)
+    setVerificationError('')
+
+    try {
+      const response = await csrfFetch('/api/onboarding/verify-email', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, code })
+      })
+      const result = await response.json().catch(() => null)
+
+      if (!result?.success) {
+        setVerificationError(t('invalidCode'))
+        return
+      }
+
+      await openSession(sessionId)
+    } catch (error) {
+      console.error('Session verification failed:', error)
+      setVerificationError(t('verificationFailed'))
+    } finally {
+      setIsVerifying(false)
+    }
+  }
+
+  const handleResendCode = async () => {
+    if (!sessionId) return
+    await requestResume(sessionId)
+  }
+
+  if (state === 'verify') {
+    return (
+      <div className="container mx-auto px-4 py-16 max-w-md space-y-6">
+        <p className="text-sm text-muted-foreground text-center">{t('notice')}</p>
+        <EmailVerification
+          email={maskedEmail}
+          onVerificationComplete={handleVerificationComplete}
+          onResendCode={handleResendCode}
+          isVerifying={isVerifying}
+          error={verificationError}
+        />
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-16">
+      <Card className="max-w-lg mx-auto">
+        <CardContent className="pt-8 text-center space-y-4">
+          {state === 'failed' ? (
+            <>
+              <XCircle className="w-12 h-12 mx-auto text-destructive" />
+              <h1 className="text-2xl font-bold">{t('invalidTitle')}</h1>
+              <p className="text-muted-foreground">{t('invalidDescription')}</p>
+              <div className="flex flex-col sm:flex-row gap-3 justify-center pt-2">
+                <Button asChild>
+                  <Link href={`/${locale}/onboarding`}>{t('startOnboarding')}</Link>
+                </Button>
+                <Button asChild variant="outline">
+                  <Link href={`/${locale}`}>{t('backHome')}</Link>
+                </Button>
+              </div>
+            </>
+          ) : (
+            <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground" data-testid="session-resuming">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              {t('loading')}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
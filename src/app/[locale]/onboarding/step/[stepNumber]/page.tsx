@@ -24,6 +24,7 @@ export default function OnboardingStep() {
   const router = useRouter()
   const params = useParams<{ stepNumber?: string; locale?: string }>()
   const t = useTranslations('onboarding.steps')
+  const tOffline = useTranslations('onboarding.offline')
 
   const stepNumber = parseInt(params?.stepNumber ?? '1', 10)
   const locale = (params?.locale ?? 'en') as string
@@ -47,25 +48,14 @@ export default function OnboardingStep() {
   // ARCHITECTURE NOTE: Session persistence uses localStorage-first approach
   // - Primary: Session data persisted in localStorage via Zustand
   // - Fallback: URL ?sessionId=xxx parameter (for recovery emails, cross-device, bookmarks)
-  // - URL parameters take priority when present to support session recovery
+  // - URL parameters take priority, through the resume page's email verification
   useEffect(() => {
     const initSession = async () => {
       // Check for session ID in URL params first (recovery email, bookmark, cross-device)
       const urlSessionId = new URLSearchParams(window.location.search).get('sessionId')
 
       if (urlSessionId && urlSessionId !== sessionId) {
-        try {
-          setIsLoading(true)
-          // Load existing session from URL
-          const { initSession: loadExistingSession } = useOnboardingStore.getState()
-          await loadExistingSession(urlSessionId)
-        } catch (error) {
-          console.error('Failed to load session from URL:', error)
-          // If loading session fails, create a new one
-          await initializeSession(locale as Locale)
-        } finally {
-          setIsLoading(false)
-        }
+        router.replace(`/${locale}/onboarding/resume?sessionId=${encodeURIComponent(urlSessionId)}`)
       } else if (!hasExistingSession() && !sessionId) {
         try {
           setIsLoading(true)
@@ -88,7 +78,33 @@ export default function OnboardingStep() {
     }
 
     initSession()
-  }, [hasExistingSession, sessionId, initializeSession, locale, currentStep, stepNumber])
+  }, [hasExistingSession, sessionId, initializeSession, locale, currentStep, stepNumber, router])
+
+  // The API only accepts the session with its cookie. Without it (cookies
+  // cleared, session from before the cookie existed) a verified email has to be
+  // verified again on the resume page; an unverified session starts over.
+  useEffect(() => {
+    if (!sessionId) return
+
+    let cancelled = false
+    fetch('/api/onboarding/session', { cache: 'no-store' })
+      .then(response => (response.ok ? response.json() : null))
+      .then(result => {
+        if (cancelled || !result || result.sessionId === sessionId) return
+
+        if (formData.emailVerified) {
+          router.replace(`/${locale}/onboarding/resume?sessionId=${encodeURIComponent(sessionId)}`)
+        } else {
+          useOnboardingStore.getState().clearSession()
+          router.replace(`/${locale}/onboarding`)
+        }
+      })
+      .catch(error => console.debug('Session cookie check failed:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [sessionId, formData.emailVerified, router, locale])
 
   // Redirect if trying to access a step too far ahead (only if session is loaded)
   useEffect(() => {
@@ -448,6 +464,18 @@ export default function OnboardingStep() {
 
       // Special case: When transitioning from Step 13 to Step 14, create submission first
       if (stepNumber === 13 && nextStepNumber === 14) {
+        // Payment is the one step that needs the server: flush the offline queue first
+        const store = useOnboardingStore.getState()
+        if (store.isOffline) {
+          setError(tOffline('paymentUnavailable'))
+          return
+        }
+        await store.syncOfflineQueue()
+        if (useOnboardingStore.getState().queuedChanges > 0) {
+          setError(tOffline('syncRequired'))
+          return
+        }
+
         try {
           // Calculate completion time if we have session start time
           const startTime = sessionId ? localStorage.getItem(`wb-onboarding-start-${sessionId}`) : null
@@ -456,9 +484,10 @@ export default function OnboardingStep() {
             : undefined
 
           // Submit all onboarding data to Supabase (Step 14 will load this submission)
+          // Read after the sync: replayed uploads were added to the form
           await submitOnboarding(
             sessionId!,
-            { ...formData, ...data } as OnboardingFormData,
+            { ...useOnboardingStore.getState().formData, ...data } as OnboardingFormData,
             completionTimeSeconds
           )
 
@@ -0,0 +1,51 @@
+import Link from 'next/link'
+import { getTranslations } from 'next-intl/server'
+import { XCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { AbandonmentRecoveryService } from '@/services/abandonment-recovery'
+import { RecoveryUnsubscribeConfirm } from '../components/RecoveryUnsubscribeConfirm'
+
+export const dynamic = 'force-dynamic'
+
+interface UnsubscribePageProps {
+  params: Promise<{ locale: string }>
+  searchParams: Promise<{ sessionId?: string; token?: string }>
+}
+
+/**
+ * Opening the link only checks it; mail scanners fetch links too, so the
+ * opt-out waits for the confirm button
+ */
+export default async function RecoveryUnsubscribePage({ params, searchParams }: UnsubscribePageProps) {
+  const { locale } = await params
+  const { sessionId, token } = await searchParams
+  const t = await getTranslations({ locale, namespace: 'onboarding.recoveryUnsubscribe' })
+
+  const valid = Boolean(
+    sessionId && token && AbandonmentRecoveryService.verifyUnsubscribeToken(sessionId, token)
+  )
+
+  return (
+    <div className="container mx-auto px-4 py-16">
+      <Card className="max-w-lg mx-auto">
+        <CardContent className="pt-8 text-center space-y-4">
+          {valid ? (
+            <RecoveryUnsubscribeConfirm sessionId={sessionId!} token={token!} locale={locale} />
+          ) : (
+            <>
+              <XCircle className="w-12 h-12 mx-auto text-destructive" />
+              <h1 className="text-2xl font-bold">{t('invalidTitle')}</h1>
+              <p className="text-muted-foreground">{t('invalidDescription')}</p>
+              <div className="flex flex-col sm:flex-row gap-3 justify-center pt-2">
+                <Button asChild variant="outline">
+                  <Link href={`/${locale}`}>{t('backHome')}</Link>
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,224 @@
+'use client'
+
+import { useState } from 'react'
+import { useFormatter, useTranslations } from 'next-intl'
+import { Languages } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { EUROPEAN_LANGUAGES, getLanguageName } from '@/data/european-languages'
+import { Locale } from '@/lib/i18n'
+import type { LanguageChangePreview } from '@/services/payment/types'
+
+interface LanguageAddOnManagerProps {
+  submissionId: string
+  currentLanguages: string[]
+  locale: string
+  onChanged: () => void
+}
+
+export function LanguageAddOnManager({
+  submissionId,
+  currentLanguages,
+  locale,
+  onChanged
+}: LanguageAddOnManagerProps) {
+  const t = useTranslations('portal.languages')
+  const format = useFormatter()
+  const [open, setOpen] = useState(false)
+  const [selected, setSelected] = useState<string[]>(currentLanguages)
+  const [preview, setPreview] = useState<LanguageChangePreview | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [hostedInvoiceUrl, setHostedInvoiceUrl] = useState<string | null>(null)
+
+  const languageName = (code: string) => getLanguageName(code, locale as Locale)
+
+  const sortedLanguages = [...EUROPEAN_LANGUAGES].sort((a, b) =>
+    languageName(a.code).localeCompare(languageName(b.code), locale)
+  )
+
+  const add = selected.filter(code => !currentLanguages.includes(code))
+  const remove = currentLanguages.filter(code => !selected.includes(code))
+
+  const formatAmount = (amount: number, currency: string) =>
+    format.number(amount / 100, { style: 'currency', currency: currency.toUpperCase() })
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    if (nextOpen) {
+      setSelected(currentLanguages)
+      setPreview(null)
+      setError(null)
+      setHostedInvoiceUrl(null)
+    }
+  }
+
+  const toggleLanguage = (code: string, checked: boolean) => {
+    setPreview(null)
+    setSelected(prev => checked ? [...prev, code] : prev.filter(c => c !== code))
+  }
+
+  const postChange = async (path: string) => {
+    const response = await fetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ submissionId, add, remove })
+    })
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed with status ${response.status}`)
+    }
+    return data
+  }
+
+  const handleReview = async () => {
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const data = await postChange('/api/portal/languages/preview')
+      setPreview(data.data)
+    } catch (err) {
+      console.error('Language change preview failed:', err)
+      setError(t('error'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const data = await postChange('/api/portal/languages')
+      onChanged()
+
+      if (data.paymentRequired && data.hostedInvoiceUrl) {
+        setHostedInvoiceUrl(data.hostedInvoiceUrl)
+        return
+      }
+
+      setOpen(false)
+    } catch (err) {
+      console.error('Language change failed:', err)
+      setError(t('error'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Languages className="w-4 h-4" />
+          {t('manage')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('title')}</DialogTitle>
+          <DialogDescription>{t('description')}</DialogDescription>
+        </DialogHeader>
+
+        {hostedInvoiceUrl ? (
+          <div className="space-y-4">
+            <p className="text-sm text-foreground">{t('paymentRequired')}</p>
+            <DialogFooter>
+              <Button asChild>
+                <a href={hostedInvoiceUrl} target="_blank" rel="noopener noreferrer">
+                  {t('completePayment')}
+                </a>
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : preview ? (
+          <div className="space-y-4">
+            <ul className="space-y-2 text-sm">
+              {preview.lineItems.map(item => (
+                <li key={item.languageCode} className="flex justify-between gap-4">
+                  <span>
+                    {item.amount >= 0 ? t('adding') : t('removing')}: {languageName(item.languageCode)}
+                  </span>
+                  <span className="tabular-nums">{formatAmount(item.amount, preview.currency)}</span>
+                </li>
+              ))}
+            </ul>
+            <div className="border-t pt-3 space-y-1 text-sm">
+              {preview.chargeAmount > 0 && (
+                <p className="flex justify-between font-medium">
+                  <span>{t('charge')}</span>
+                  <span className="tabular-nums">{formatAmount(preview.chargeAmount, preview.currency)}</span>
+                </p>
+              )}
+              {preview.creditAmount > 0 && (
+                <p className="flex justify-between text-muted-foreground">
+                  <span>{t('credit')}</span>
+                  <span className="tabular-nums">{formatAmount(preview.creditAmount, preview.currency)}</span>
+                </p>
+              )}
+            </div>
+
+            {error && (
+              <p className="text-sm text-destructive" role="alert">{error}</p>
+            )}
+
+            <DialogFooter>
+              <Button variant="ghost" onClick={() => setPreview(null)} disabled={isSubmitting}>
+                {t('back')}
+              </Button>
+              <Button onClick={handleConfirm} disabled={isSubmitting}>
+                {isSubmitting ? t('confirming') : t('confirm')}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 max-h-72 overflow-y-auto pr-1">
+              {sortedLanguages.map(language => (
+                <div key={language.code} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`language-${submissionId}-${language.code}`}
+                    checked={selected.includes(language.code)}
+                    onCheckedChange={(checked) => toggleLanguage(language.code, checked === true)}
+                  />
+                  <Label htmlFor={`language-${submissionId}-${language.code}`} className="font-normal">
+                    {languageName(language.code)}
+                  </Label>
+                </div>
+              ))}
+            </div>
+
+            {add.length === 0 && remove.length === 0 && (
+              <p className="text-sm text-muted-foreground">{t('noChanges')}</p>
+            )}
+
+            {error && (
+              <p className="text-sm text-destructive" role="alert">{error}</p>
+            )}
+
+            <DialogFooter>
+              <Button
+                onClick={handleReview}
+                disabled={isSubmitting || (add.length === 0 && remove.length === 0)}
+              >
+                {isSubmitting ? t('reviewing') : t('review')}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,294 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useFormatter, useTranslations } from 'next-intl'
+import { ExternalLink, Loader2, LogOut } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { LanguageAddOnManager } from './LanguageAddOnManager'
+import type { PortalInvoice, PortalOverview, PortalScheduleState, PortalSubmissionSummary } from '@/services/payment/types'
+import type { SubmissionStatus } from '@/types/onboarding'
+
+// Message keys per status; anything else is shown as the API returns it
+const SCHEDULE_STATUS_KEYS = {
+  not_started: 'scheduleStatus.not_started',
+  active: 'scheduleStatus.active',
+  completed: 'scheduleStatus.completed',
+  released: 'scheduleStatus.released',
+  canceled: 'scheduleStatus.canceled'
+} as const satisfies Record<PortalScheduleState['status'], string>
+
+const SUBMISSION_STATUS_KEYS = {
+  submitted: 'status.submitted',
+  preview_sent: 'status.preview_sent',
+  paid: 'status.paid',
+  past_due: 'status.past_due',
+  completed: 'status.completed',
+  cancelled: 'status.cancelled'
+} as const satisfies Record<SubmissionStatus, string>
+
+const INVOICE_STATUS_KEYS = {
+  open: 'invoiceStatuses.open',
+  paid: 'invoiceStatuses.paid',
+  uncollectible: 'invoiceStatuses.uncollectible',
+  void: 'invoiceStatuses.void'
+} as const satisfies Partial<Record<NonNullable<PortalInvoice['status']>, string>>
+
+type StatusMessageKey =
+  | (typeof SUBMISSION_STATUS_KEYS)[keyof typeof SUBMISSION_STATUS_KEYS]
+  | (typeof INVOICE_STATUS_KEYS)[keyof typeof INVOICE_STATUS_KEYS]
+
+interface PortalDashboardProps {
+  email: string
+  locale: string
+}
+
+export function PortalDashboard({ email, locale }: PortalDashboardProps) {
+  const t = useTranslations('portal.dashboard')
+  const format = useFormatter()
+  const router = useRouter()
+  const [overview, setOverview] = useState<PortalOverview | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [billingSubmissionId, setBillingSubmissionId] = useState<string | null>(null)
+
+  // Only the first load shows the spinner so open dialogs survive a refresh
+  const loadOverview = useCallback(async () => {
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/portal/overview?locale=${locale}`)
+
+      if (response.status === 401) {
+        router.refresh()
+        return
+      }
+
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        setError(t('loadError'))
+        return
+      }
+
+      setOverview(data.data)
+    } catch (err) {
+      console.error('Failed to load portal overview:', err)
+      setError(t('loadError'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [locale, router, t])
+
+  useEffect(() => {
+    loadOverview()
+  }, [loadOverview])
+
+  const handleManageBilling = async (submissionId: string) => {
+    setBillingSubmissionId(submissionId)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/portal/billing-portal', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ locale, submissionId })
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.url) {
+        setError(t('billingError'))
+        return
+      }
+
+      window.location.href = data.url
+    } catch (err) {
+      console.error('Failed to open billing portal:', err)
+      setError(t('billingError'))
+    } finally {
+      setBillingSubmissionId(null)
+    }
+  }
+
+  const handleSignOut = async () => {
+    await fetch('/api/portal/session', { method: 'DELETE' }).catch(() => undefined)
+    router.refresh()
+  }
+
+  const formatDate = (value: string | number) =>
+    format.dateTime(typeof value === 'number' ? new Date(value * 1000) : new Date(value), { dateStyle: 'medium' })
+
+  const statusLabel = (keys: Record<string, StatusMessageKey>, status: string | null) =>
+    status && Object.prototype.hasOwnProperty.call(keys, status) ? t(keys[status]) : status
+
+  const renderSchedule = (submission: PortalSubmissionSummary) => {
+    if (!submission.schedule) {
+      return <p className="text-sm text-muted-foreground">{t('noSubscription')}</p>
+    }
+
+    const { status, currentPhaseEnd, commitmentEndsAt } = submission.schedule
+
+    return (
+      <div className="space-y-1 text-sm">
+        <Badge variant="secondary">
+          {t(SCHEDULE_STATUS_KEYS[status])}
+        </Badge>
+        {commitmentEndsAt && (
+          <p className="text-muted-foreground">{t('commitmentEnds', { date: formatDate(commitmentEndsAt) })}</p>
+        )}
+        {currentPhaseEnd && currentPhaseEnd !== commitmentEndsAt && (
+          <p className="text-muted-foreground">{t('currentPeriodEnds', { date: formatDate(currentPhaseEnd) })}</p>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">{t('title')}</h1>
+          <p className="text-muted-foreground">{t('signedInAs', { email })}</p>
+        </div>
+        <Button variant="outline" onClick={handleSignOut}>
+          <LogOut className="w-4 h-4" />
+          {t('signOut')}
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">{error}</p>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" aria-hidden="true" />
+        </div>
+      ) : overview && (
+        <>
+          <section className="space-y-4">
+            <h2 className="text-xl font-semibold text-foreground">{t('websites')}</h2>
+
+            {overview.submissions.length === 0 ? (
+              <p className="text-muted-foreground">{t('noSubmissions')}</p>
+            ) : (
+              overview.submissions.map(submission => (
+                <Card key={submission.id}>
+                  <CardHeader>
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <CardTitle>{submission.businessName}</CardTitle>
+                      <Badge>
+                        {statusLabel(SUBMISSION_STATUS_KEYS, submission.status)}
+                      </Badge>
+                    </div>
+                    <CardDescription>
+                      {t('submittedOn', { date: formatDate(submission.createdAt) })}
+                      {submission.paymentCompletedAt && (
+                        <> · {t('paidOn', { date: formatDate(submission.paymentCompletedAt) })}</>
+                      )}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="grid gap-6 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <h3 className="text-sm font-medium text-foreground">{t('languages')}</h3>
+                      {submission.languages.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">{t('noLanguages')}</p>
+                      ) : (
+                        <div className="flex flex-wrap gap-1">
+                          {submission.languages.map(language => (
+                            <Badge key={language.code} variant="outline">{language.name}</Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      <h3 className="text-sm font-medium text-foreground">{t('subscription')}</h3>
+                      {renderSchedule(submission)}
+                    </div>
+
+                    <div className="flex flex-wrap gap-2 sm:col-span-2">
+                      {submission.canChangeLanguages && (
+                        <LanguageAddOnManager
+                          submissionId={submission.id}
+                          currentLanguages={submission.languages.map(language => language.code)}
+                          locale={locale}
+                          onChanged={loadOverview}
+                        />
+                      )}
+                      {submission.previewUrl && (
+                        <Button variant="outline" asChild>
+                          <a href={submission.previewUrl} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="w-4 h-4" />
+                            {t('viewPreview')}
+                          </a>
+                        </Button>
+                      )}
+                      {submission.hasBillingAccount && (
+                        <Button
+                          onClick={() => handleManageBilling(submission.id)}
+                          disabled={billingSubmissionId !== null}
+                        >
+                          {billingSubmissionId === submission.id ? t('openingBilling') : t('manageBilling')}
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="text-xl font-semibold text-foreground">{t('invoices')}</h2>
+
+            {overview.invoices.length === 0 ? (
+              <p className="text-muted-foreground">{t('noInvoices')}</p>
+            ) : (
+              <div className="overflow-x-auto rounded-md border">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50 text-left">
+                    <tr>
+                      <th scope="col" className="px-4 py-2 font-medium">{t('invoiceNumber')}</th>
+                      <th scope="col" className="px-4 py-2 font-medium">{t('invoiceDate')}</th>
+                      <th scope="col" className="px-4 py-2 font-medium">{t('invoiceAmount')}</th>
+                      <th scope="col" className="px-4 py-2 font-medium">{t('invoiceStatus')}</th>
+                      <th scope="col" className="px-4 py-2"><span className="sr-only">{t('download')}</span></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {overview.invoices.map(invoice => (
+                      <tr key={invoice.id} className="border-t">
+                        <td className="px-4 py-2">{invoice.number || invoice.id}</td>
+                        <td className="px-4 py-2">{formatDate(invoice.created)}</td>
+                        <td className="px-4 py-2">
+                          {format.number(invoice.total / 100, { style: 'currency', currency: invoice.currency.toUpperCase() })}
+                        </td>
+                        <td className="px-4 py-2">
+                          {statusLabel(INVOICE_STATUS_KEYS, invoice.status)}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          {(invoice.hostedInvoiceUrl || invoice.invoicePdf) && (
+                            <a
+                              href={(invoice.hostedInvoiceUrl || invoice.invoicePdf) as string}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-primary underline-offset-4 hover:underline"
+                            >
+                              {t('download')}
+                            </a>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+interface PortalSignInProps {
+  locale: string
+}
+
+export function PortalSignIn({ locale }: PortalSignInProps) {
+  const t = useTranslations('portal.signIn')
+  const router = useRouter()
+  const [email, setEmail] = useState('')
+  const [code, setCode] = useState('')
+  const [codeRequested, setCodeRequested] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleRequestCode = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/portal/request-code', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, locale })
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        setError(data.error || t('errorGeneric'))
+        return
+      }
+
+      setCodeRequested(true)
+    } catch (err) {
+      console.error('Portal code request failed:', err)
+      setError(t('errorGeneric'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/portal/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, code })
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        setError(data.error || t('errorGeneric'))
+        return
+      }
+
+      router.refresh()
+    } catch (err) {
+      console.error('Portal sign-in failed:', err)
+      setError(t('errorGeneric'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleChangeEmail = () => {
+    setCodeRequested(false)
+    setCode('')
+    setError(null)
+  }
+
+  return (
+    <Card className="max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle>{t('title')}</CardTitle>
+        <CardDescription>
+          {codeRequested ? t('codeSent', { email }) : t('description')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!codeRequested ? (
+          <form onSubmit={handleRequestCode} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="portal-email">{t('emailLabel')}</Label>
+              <Input
+                id="portal-email"
+                type="email"
+                autoComplete="email"
+                placeholder={t('emailPlaceholder')}
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+
+            {error && (
+              <p className="text-sm text-destructive" role="alert">{error}</p>
+            )}
+
+            <Button type="submit" className="w-full" disabled={isSubmitting || !email}>
+              {isSubmitting ? t('sending') : t('sendCode')}
+            </Button>
+          </form>
+        ) : (
+          <form onSubmit={handleVerify} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="portal-code">{t('codeLabel')}</Label>
+              <Input
+                id="portal-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={6}
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                required
+              />
+            </div>
+
+            {error && (
+              <p className="text-sm text-destructive" role="alert">{error}</p>
+            )}
+
+            <Button type="submit" className="w-full" disabled={isSubmitting || code.length !== 6}>
+              {isSubmitting ? t('verifying') : t('verify')}
+            </Button>
+            <Button type="button" variant="ghost" className="w-full" onClick={handleChangeEmail}>
+              {t('changeEmail')}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,60 @@
+import { cookies } from 'next/headers'
+import { getTranslations, setRequestLocale } from 'next-intl/server'
+import { ThemeProvider } from '@/components/theme-provider'
+import { Navigation } from '@/components/Navigation'
+import { Footer } from '@/components/Footer'
+import { PORTAL_SESSION_COOKIE, verifyPortalSessionToken } from '@/lib/portal-auth'
+import { PortalSignIn } from './components/PortalSignIn'
+import { PortalDashboard } from './components/PortalDashboard'
+
+export const dynamic = 'force-dynamic'
+
+export async function generateMetadata({
+  params
+}: {
+  params: Promise<{ locale: string }>
+}) {
+  const { locale } = await params
+  const t = await getTranslations({ locale, namespace: 'portal.meta' })
+
+  return {
+    title: t('title'),
+    description: t('description'),
+    robots: {
+      index: false,
+      follow: false
+    }
+  }
+}
+
+export default async function PortalPage({
+  params
+}: {
+  params: Promise<{ locale: string }>
+}) {
+  const { locale } = await params
+  setRequestLocale(locale)
+
+  const cookieStore = await cookies()
+  const email = verifyPortalSessionToken(cookieStore.get(PORTAL_SESSION_COOKIE)?.value)
+
+  return (
+    <ThemeProvider>
+      <div className="min-h-screen flex flex-col">
+        <Navigation />
+        <main className="flex-1 bg-background">
+          <section className="py-16">
+            <div className="max-w-content mx-auto px-4 sm:px-6 lg:px-8">
+              {email ? (
+                <PortalDashboard email={email} locale={locale} />
+              ) : (
+                <PortalSignIn locale={locale} />
+              )}
+            </div>
+          </section>
+        </main>
+        <Footer />
+      </div>
+    </ThemeProvider>
+  )
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { parseAnalyticsRange } from '@/lib/analytics-range'
+import { FunnelDashboardService } from '@/services/funnel-dashboard'
+
+/**
+ * GET /api/admin/analytics[?from=2025-11-01&to=2025-11-30&locale=it]
+ * Funnel, field error heatmap, API latency percentiles and cohorts for the dashboard
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = requireAdmin(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const { filters, error } = parseAnalyticsRange(request.nextUrl.searchParams)
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const dashboard = await FunnelDashboardService.getDashboard(filters)
+
+    return NextResponse.json(dashboard)
+  } catch (error) {
+    console.error('Admin analytics API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
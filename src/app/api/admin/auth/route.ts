@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  ADMIN_SESSION_COOKIE,
+  createAdminSessionToken,
+  verifyAdminPassword
+} from '@/lib/admin-auth'
+import { checkRateLimit, getClientIdentifier, rateLimitExceededResponse } from '@/lib/rate-limit'
+
+/**
+ * POST /api/admin/auth
+ * Exchange the admin password for a signed httpOnly session cookie
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit('adminSignIn', getClientIdentifier(request))
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, {
+        error: 'Too many sign-in attempts. Please try again later.'
+      })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const password = typeof body.password === 'string' ? body.password : ''
+
+    if (!verifyAdminPassword(password)) {
+      return NextResponse.json(
+        { error: 'Invalid credentials' },
+        { status: 401 }
+      )
+    }
+
+    const { token, expiresAt } = createAdminSessionToken()
+    const response = NextResponse.json({ success: true })
+
+    response.cookies.set(ADMIN_SESSION_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      path: '/',
+      expires: new Date(expiresAt)
+    })
+
+    return response
+  } catch (error) {
+    console.error('Admin auth API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/admin/auth
+ * Clear the admin session cookie
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ success: true })
+  response.cookies.delete(ADMIN_SESSION_COOKIE)
+  return response
+}
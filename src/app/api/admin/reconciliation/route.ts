@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { createServiceClient } from '@/lib/supabase'
+import { ReconciliationService } from '@/services/payment/ReconciliationService'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+const MAX_SINCE_DAYS = 365
+
+const parseSinceDays = (value: unknown): number | undefined => {
+  const days = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10)
+  return Number.isFinite(days) && days > 0 ? Math.min(days, MAX_SINCE_DAYS) : undefined
+}
+
+/**
+ * GET /api/admin/reconciliation[?sinceDays=90]
+ * Report mismatches between Stripe and onboarding_submissions without changing anything
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = requireAdmin(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const sinceDays = parseSinceDays(request.nextUrl.searchParams.get('sinceDays'))
+    const report = await new ReconciliationService().run(createServiceClient(), { sinceDays })
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Admin reconciliation API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/reconciliation
+ * Body: { repair?: boolean, sinceDays?: number }
+ * Same report; with `repair: true` the missed webhook handlers are replayed
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = requireAdmin(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const report = await new ReconciliationService().run(createServiceClient(), {
+      repair: body?.repair === true,
+      sinceDays: parseSinceDays(body?.sinceDays)
+    })
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Admin reconciliation API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
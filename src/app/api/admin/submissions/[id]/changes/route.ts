@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { isUUID } from '@/lib/utils'
+import { OnboardingServerService } from '@/services/onboarding-server'
+
+/**
+ * GET /api/admin/submissions/[id]/changes
+ * Field-level form change history, oldest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = requireAdmin(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!isUUID(id)) {
+      return NextResponse.json(
+        { error: 'Submission not found' },
+        { status: 404 }
+      )
+    }
+    const submission: any = await OnboardingServerService.getSubmissionById(id)
+
+    if (!submission) {
+      return NextResponse.json(
+        { error: 'Submission not found' },
+        { status: 404 }
+      )
+    }
+
+    const changes = await OnboardingServerService.getSubmissionFormChanges(id, submission.session_id ?? null)
+
+    return NextResponse.json({ changes })
+  } catch (error) {
+    console.error('Admin form changes API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/submissions/[id]/changes
+ * Revert a field to its value before the given change
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = requireAdmin(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!isUUID(id)) {
+      return NextResponse.json(
+        { error: 'Submission not found' },
+        { status: 404 }
+      )
+    }
+    const body = await request.json().catch(() => ({}))
+    const changeId = typeof body.changeId === 'string' ? body.changeId : ''
+
+    if (!isUUID(changeId)) {
+      return NextResponse.json(
+        { error: 'A valid changeId is required' },
+        { status: 400 }
+      )
+    }
+
+    const reverted = await OnboardingServerService.revertFormChange(id, changeId)
+
+    if (!reverted) {
+      return NextResponse.json(
+        { error: 'Change not found for this submission' },
+        { status: 404 }
+      )
+    }
+
+    const submission = await OnboardingServerService.getSubmissionById(id)
+
+    return NextResponse.json({ success: true, change: reverted, submission })
+  } catch (error) {
+    console.error('Admin form change revert API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
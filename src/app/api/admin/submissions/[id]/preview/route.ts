@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { isUUID } from '@/lib/utils'
+import { OnboardingServerService } from '@/services/onboarding-server'
+import { PreviewDeliveryService } from '@/services/preview-delivery'
+
+/**
+ * POST /api/admin/submissions/[id]/preview
+ * Attach a preview URL and email the customer a tracked link
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = requireAdmin(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!isUUID(id)) {
+      return NextResponse.json(
+        { error: 'Submission not found' },
+        { status: 404 }
+      )
+    }
+    const body = await request.json().catch(() => ({}))
+    const previewUrl = typeof body.previewUrl === 'string' ? body.previewUrl.trim() : ''
+
+    if (!PreviewDeliveryService.isValidPreviewUrl(previewUrl)) {
+      return NextResponse.json(
+        { error: 'Preview URL must be an absolute https URL' },
+        { status: 400 }
+      )
+    }
+
+    const result = await PreviewDeliveryService.sendPreview(id, previewUrl)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === 'Submission not found' ? 404 : 502 }
+      )
+    }
+
+    const submission = await OnboardingServerService.getSubmissionById(id)
+
+    return NextResponse.json({
+      success: true,
+      statusChanged: result.statusChanged,
+      submission
+    })
+  } catch (error) {
+    console.error('Admin preview API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { isUUID } from '@/lib/utils'
+import { OnboardingServerService } from '@/services/onboarding-server'
+import { SUBMISSION_STATUSES, SubmissionStatus } from '@/types/onboarding'
+
+/**
+ * GET /api/admin/submissions/[id]
+ * Full submission detail including form_data
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = requireAdmin(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!isUUID(id)) {
+      return NextResponse.json(
+        { error: 'Submission not found' },
+        { status: 404 }
+      )
+    }
+    const submission = await OnboardingServerService.getSubmissionById(id)
+
+    if (!submission) {
+      return NextResponse.json(
+        { error: 'Submission not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ submission })
+  } catch (error) {
+    console.error('Admin submission API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/admin/submissions/[id]
+ * Update status and/or admin notes
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = requireAdmin(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!isUUID(id)) {
+      return NextResponse.json(
+        { error: 'Submission not found' },
+        { status: 404 }
+      )
+    }
+    const body = await request.json().catch(() => ({}))
+    const { status, adminNotes } = body as { status?: string; adminNotes?: string }
+
+    if (!status || !SUBMISSION_STATUSES.includes(status as SubmissionStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status. Use one of: ${SUBMISSION_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (adminNotes !== undefined && typeof adminNotes !== 'string') {
+      return NextResponse.json(
+        { error: 'Admin notes must be a string' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await OnboardingServerService.getSubmissionById(id)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Submission not found' },
+        { status: 404 }
+      )
+    }
+
+    await OnboardingServerService.updateSubmissionStatus(id, status, adminNotes)
+    const submission = await OnboardingServerService.getSubmissionById(id)
+
+    return NextResponse.json({ success: true, submission })
+  } catch (error) {
+    console.error('Admin submission update API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
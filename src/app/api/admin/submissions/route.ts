@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { OnboardingServerService } from '@/services/onboarding-server'
+import { SubmissionSortField } from '@/types/onboarding'
+
+const SORT_FIELDS: SubmissionSortField[] = ['created_at', 'business_name', 'status', 'payment_completed_at']
+const MAX_PAGE_SIZE = 100
+
+/**
+ * GET /api/admin/submissions
+ * List submissions with filters: status, startDate, endDate, locale, paid, sortBy, sortOrder, limit, offset
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = requireAdmin(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const sortBy = searchParams.get('sortBy') as SubmissionSortField | null
+    const paid = searchParams.get('paid')
+    const limit = Math.min(parseInt(searchParams.get('limit') || '25', 10) || 25, MAX_PAGE_SIZE)
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0)
+
+    if (sortBy && !SORT_FIELDS.includes(sortBy)) {
+      return NextResponse.json(
+        { error: `Invalid sort field. Use one of: ${SORT_FIELDS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { submissions, total } = await OnboardingServerService.getSubmissions({
+      status: searchParams.get('status') || undefined,
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+      locale: searchParams.get('locale') || undefined,
+      paid: paid === 'true' ? true : paid === 'false' ? false : undefined,
+      sortBy: sortBy || undefined,
+      sortOrder: searchParams.get('sortOrder') === 'asc' ? 'asc' : 'desc',
+      limit,
+      offset
+    })
+
+    return NextResponse.json({ submissions, total, limit, offset })
+  } catch (error) {
+    console.error('Admin submissions API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
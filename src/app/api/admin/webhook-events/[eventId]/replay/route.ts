@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { createServiceClient } from '@/lib/supabase'
+import { WebhookEventService } from '@/services/payment/WebhookEventService'
+
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+/**
+ * POST /api/admin/webhook-events/[eventId]/replay
+ * Re-fetch a failed or stuck event from Stripe and process it again
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const auth = requireAdmin(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const { eventId } = await params
+    const result = await new WebhookEventService().replayEvent(eventId, createServiceClient())
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: result.error?.message || 'Replay failed',
+          code: result.error?.code,
+          status: result.status,
+          nextRetryAt: result.nextRetryAt
+        },
+        { status: result.error?.status || 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, status: result.status })
+  } catch (error) {
+    console.error('Admin webhook replay API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
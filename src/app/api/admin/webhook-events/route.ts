@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { createServiceClient } from '@/lib/supabase'
+import { WebhookEventService } from '@/services/payment/WebhookEventService'
+import { WebhookEventFilter } from '@/services/payment/types'
+
+const FILTERS: WebhookEventFilter[] = ['all', 'failed', 'stuck', 'dead_letter']
+const MAX_PAGE_SIZE = 100
+
+/**
+ * GET /api/admin/webhook-events
+ * List failed and stuck Stripe webhook events with filters: filter, limit, offset
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = requireAdmin(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const filter = (searchParams.get('filter') || 'all') as WebhookEventFilter
+    const limit = Math.min(parseInt(searchParams.get('limit') || '25', 10) || 25, MAX_PAGE_SIZE)
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0)
+
+    if (!FILTERS.includes(filter)) {
+      return NextResponse.json(
+        { error: `Invalid filter. Use one of: ${FILTERS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { events, total } = await new WebhookEventService().listEvents(createServiceClient(), {
+      filter,
+      limit,
+      offset
+    })
+
+    return NextResponse.json({ events, total, limit, offset })
+  } catch (error) {
+    console.error('Admin webhook events API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
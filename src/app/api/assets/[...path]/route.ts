@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { verifyAssetToken } from '@/lib/asset-signing'
+import { getOnboardingSessionId } from '@/lib/onboarding-auth'
+import { ASSET_BUCKET, isValidAssetPath } from '@/lib/assets'
+import { createServiceClient } from '@/lib/supabase'
+
+export const runtime = 'nodejs'
+
+// Storage links handed out by this route are short-lived; browsers may reuse
+// the redirect for half that time
+const SIGNED_URL_TTL_SECONDS = 3600
+const REDIRECT_CACHE_SECONDS = 1800
+
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return segment
+  }
+}
+
+/**
+ * GET /api/assets/<storage path>[?token=...]
+ * Serves an onboarding upload by redirecting to a freshly signed storage URL.
+ * Access is granted to admins, to signed links from emails and to the
+ * onboarding session that uploaded the file (by its session cookie).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  try {
+    const { path: segments } = await params
+    const path = segments.map(decodeSegment).join('/')
+
+    if (!isValidAssetPath(path)) {
+      return NextResponse.json({ error: 'Invalid asset path' }, { status: 400 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const token = searchParams.get('token')
+    const sessionId = getOnboardingSessionId(request)
+    const supabase = createServiceClient()
+
+    let authorized = (!!token && verifyAssetToken(path, token)) || requireAdmin(request).authorized
+
+    if (!authorized && sessionId) {
+      const { data: upload } = await supabase
+        .from('onboarding_uploads')
+        .select('id')
+        .eq('session_id', sessionId)
+        .eq('file_path', path)
+        .limit(1)
+        .maybeSingle()
+
+      authorized = !!upload
+    }
+
+    // Derivatives belong to the session that uploaded their original
+    if (!authorized && sessionId) {
+      const { data: upload } = await supabase
+        .from('onboarding_uploads')
+        .select('id')
+        .eq('session_id', sessionId)
+        .contains('derivatives', JSON.stringify([{ path }]))
+        .limit(1)
+        .maybeSingle()
+
+      authorized = !!upload
+    }
+
+    if (!authorized) {
+      // Same response as a missing file, so paths cannot be probed
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
+    }
+
+    const { data, error } = await supabase.storage
+      .from(ASSET_BUCKET)
+      .createSignedUrl(path, SIGNED_URL_TTL_SECONDS)
+
+    if (error || !data?.signedUrl) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
+    }
+
+    const response = NextResponse.redirect(data.signedUrl, 302)
+    response.headers.set('Cache-Control', `private, max-age=${REDIRECT_CACHE_SECONDS}`)
+    return response
+  } catch (error) {
+    console.error('Asset API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyCronRequest } from '@/lib/cron-auth'
+import { AbandonmentRecoveryService } from '@/services/abandonment-recovery'
+
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+/**
+ * GET /api/cron/abandonment-recovery[?dryRun=true]
+ * Sends recovery emails to verified sessions that went inactive before submitting.
+ * Invoked by the scheduler with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = verifyCronRequest(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true'
+    const result = await AbandonmentRecoveryService.run({ dryRun })
+
+    console.log('[Cron] Abandonment recovery run:', {
+      dryRun: result.dryRun,
+      candidates: result.candidates,
+      sent: result.sent,
+      skipped: result.skipped,
+      failed: result.failed
+    })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Abandonment recovery cron error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
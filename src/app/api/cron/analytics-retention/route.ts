@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyCronRequest } from '@/lib/cron-auth'
+import { createServiceClient } from '@/lib/supabase'
+import { AnalyticsRetentionService } from '@/services/analytics-retention'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+/**
+ * GET /api/cron/analytics-retention[?dryRun=true]
+ * Deletes onboarding analytics events older than ANALYTICS_RETENTION_DAYS
+ * (default 395). A dry run only counts them.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = verifyCronRequest(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true'
+    const report = await new AnalyticsRetentionService().run(createServiceClient(), { dryRun })
+
+    console.log('[Cron] Analytics retention run:', report)
+
+    return NextResponse.json({ success: true, ...report })
+  } catch (error) {
+    console.error('Analytics retention cron error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
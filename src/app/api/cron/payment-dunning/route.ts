@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyCronRequest } from '@/lib/cron-auth'
+import { createServiceClient } from '@/lib/supabase'
+import { DunningService } from '@/services/payment/DunningService'
+
+export const runtime = 'nodejs'
+export const maxDuration = 120
+
+/**
+ * GET /api/cron/payment-dunning[?dryRun=true]
+ * Sends day 3/7 payment reminders to past_due customers and warns the admin before
+ * Stripe cancels the subscription. Invoked by the scheduler with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = verifyCronRequest(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true'
+    const result = await new DunningService().sendDueNotices(createServiceClient(), { dryRun })
+
+    console.log('[Cron] Payment dunning run:', {
+      dryRun: result.dryRun,
+      candidates: result.candidates,
+      sent: result.sent,
+      skipped: result.skipped,
+      failed: result.failed
+    })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Payment dunning cron error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyCronRequest } from '@/lib/cron-auth'
+import { createServiceClient } from '@/lib/supabase'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/cron/rate-limit-cleanup
+ * Deletes rate limit hits older than a day. Active keys prune themselves on every
+ * check; this only clears keys that stopped receiving traffic.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = verifyCronRequest(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const { data, error } = await createServiceClient().rpc('cleanup_rate_limit_hits', { max_age_hours: 24 })
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    console.log('[Cron] Rate limit cleanup removed', data, 'hits')
+
+    return NextResponse.json({ success: true, deleted: data ?? 0 })
+  } catch (error) {
+    console.error('Rate limit cleanup cron error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyCronRequest } from '@/lib/cron-auth'
+import { createServiceClient } from '@/lib/supabase'
+import { ReconciliationService } from '@/services/payment/ReconciliationService'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+/**
+ * GET /api/cron/stripe-reconciliation[?repair=true]
+ * Compares Stripe with onboarding_submissions and logs mismatches. Report-only
+ * unless `repair=true`. Invoked by the scheduler with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = verifyCronRequest(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const repair = request.nextUrl.searchParams.get('repair') === 'true'
+    const report = await new ReconciliationService().run(createServiceClient(), { repair })
+
+    console.log('[Cron] Stripe reconciliation run:', {
+      repair: report.repair,
+      checked: report.checked,
+      summary: report.summary,
+      repaired: report.repaired,
+      repairFailed: report.repairFailed
+    })
+
+    return NextResponse.json({ success: true, ...report })
+  } catch (error) {
+    console.error('Stripe reconciliation cron error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
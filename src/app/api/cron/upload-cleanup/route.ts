@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyCronRequest } from '@/lib/cron-auth'
+import { createServiceClient } from '@/lib/supabase'
+import { UploadCleanupService } from '@/services/upload-cleanup'
+import { ResumableUploadService } from '@/services/resumable-upload'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+/**
+ * GET /api/cron/upload-cleanup[?dryRun=true]
+ * Deletes uploads no onboarding session or submission references once the grace
+ * period has passed, purges expired resumable uploads with their chunks, and
+ * reports what was removed. Invoked by the scheduler with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = verifyCronRequest(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true'
+    const supabase = createServiceClient()
+    const report = await new UploadCleanupService().run(supabase, { dryRun })
+    const expiredUploads = await new ResumableUploadService().purgeExpired(supabase, { dryRun })
+
+    console.log('[Cron] Upload cleanup run:', {
+      dryRun: report.dryRun,
+      scanned: report.scanned,
+      orphaned: report.orphaned.length,
+      deleted: report.deleted,
+      bytesFreed: report.bytesFreed,
+      truncated: report.truncated,
+      missingObjects: report.missingObjects.length,
+      errors: report.errors.length,
+      expiredUploads: expiredUploads.expired,
+      chunksRemoved: expiredUploads.chunksRemoved
+    })
+
+    return NextResponse.json({ success: true, ...report, expiredUploads })
+  } catch (error) {
+    console.error('Upload cleanup cron error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyCronRequest } from '@/lib/cron-auth'
+import { createServiceClient } from '@/lib/supabase'
+import { UploadScanService } from '@/services/upload-scan'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+/**
+ * GET /api/cron/upload-scan[?dryRun=true]
+ * Scans uploads left pending (scanner unavailable at upload time) and retries failed
+ * scans, quarantining infected files. Invoked by the scheduler with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = verifyCronRequest(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true'
+    const service = new UploadScanService()
+
+    if (!service.enabled) {
+      console.warn('[Cron] Upload scan skipped: no virus scanner configured')
+    }
+
+    const result = await service.scanPending(createServiceClient(), { dryRun })
+
+    console.log('[Cron] Upload scan run:', {
+      dryRun: result.dryRun,
+      scanner: result.scanner,
+      due: result.due,
+      clean: result.clean,
+      infected: result.infected,
+      failed: result.failed
+    })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Upload scan cron error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
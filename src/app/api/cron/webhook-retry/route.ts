@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyCronRequest } from '@/lib/cron-auth'
+import { createServiceClient } from '@/lib/supabase'
+import { WebhookEventService } from '@/services/payment/WebhookEventService'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+/**
+ * GET /api/cron/webhook-retry[?dryRun=true]
+ * Replays failed Stripe webhook events whose backoff has elapsed and events stuck
+ * in processing. Invoked by the scheduler with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = verifyCronRequest(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true'
+    const result = await new WebhookEventService().retryDueEvents(createServiceClient(), { dryRun })
+
+    console.log('[Cron] Webhook retry run:', {
+      dryRun: result.dryRun,
+      due: result.due,
+      completed: result.completed,
+      failed: result.failed,
+      deadLettered: result.deadLettered
+    })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Webhook retry cron error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
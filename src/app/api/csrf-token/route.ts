@@ -1,60 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { generateCSRFToken } from '@/lib/csrf'
-import { createServiceClient } from '@/lib/supabase'
+import { CSRF_COOKIE_NAME, generateCSRFToken, setCSRFCookie, shouldRefreshCSRFToken, verifyCSRFToken } from '@/lib/csrf'
+
+export const dynamic = 'force-dynamic'
 
 /**
- * GET /api/csrf-token?sessionId=xxx
- * Generate a CSRF token for the given session
+ * GET /api/csrf-token
+ * Return the double-submit CSRF token, issuing a new cookie when the current one
+ * is missing, expiring or signed with a retired key. Pages get the cookie from
+ * the proxy; clients only call this when it is gone or was rejected.
  */
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const sessionId = searchParams.get('sessionId')
-
-    if (!sessionId) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Session ID is required'
-        },
-        { status: 400 }
-      )
-    }
-
-    const supabase = await createServiceClient()
-    const { data: session, error } = await supabase
-      .from('onboarding_sessions')
-      .select('id, expires_at')
-      .eq('id', sessionId)
-      .single()
+    const existing = request.cookies.get(CSRF_COOKIE_NAME)?.value
+    const existingInfo = existing ? verifyCSRFToken(existing) : null
 
-    if (error || !session) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Session not found'
-        },
-        { status: 404 }
-      )
+    if (existing && existingInfo && !shouldRefreshCSRFToken(existing)) {
+      return NextResponse.json({
+        success: true,
+        token: existing,
+        expiresAt: existingInfo.expiresAt
+      })
     }
 
-    if (session.expires_at && new Date(session.expires_at).getTime() < Date.now()) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Session has expired'
-        },
-        { status: 403 }
-      )
-    }
-
-    const csrfToken = generateCSRFToken(sessionId)
-
-    return NextResponse.json({
+    const csrfToken = generateCSRFToken()
+    const response = NextResponse.json({
       success: true,
       token: csrfToken.token,
       expiresAt: csrfToken.expiresAt
     })
+    setCSRFCookie(response, csrfToken)
+
+    return response
   } catch (error) {
     console.error('Failed to generate CSRF token:', error)
     return NextResponse.json(
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { CustomSoftwareFormData } from '@/types/custom-software'
 import { Locale } from '@/lib/i18n'
+import { checkRateLimit, getClientIdentifier, rateLimitExceededResponse } from '@/lib/rate-limit'
 
 // Validation helper functions
 function isValidEmail(email: string): boolean {
@@ -95,6 +96,18 @@ export async function POST(request: NextRequest) {
       locale?: Locale
     }
 
+    const rateLimit = await checkRateLimit('customSoftwareContact', getClientIdentifier(request))
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, {
+        success: false,
+        error: locale === 'it'
+          ? 'Troppe richieste. Riprova più tardi.'
+          : locale === 'pl'
+          ? 'Zbyt wiele prób. Spróbuj ponownie później.'
+          : 'Too many requests. Please try again later.'
+      })
+    }
+
     // Validate required fields
     if (!formData) {
       return NextResponse.json(
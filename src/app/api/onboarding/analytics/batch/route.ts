@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MAX_ANALYTICS_BATCH_BYTES, parseAnalyticsBatch } from '@/lib/analytics-ingestion'
+import { applyAnalyticsPrivacy, getAnalyticsRequestContext } from '@/lib/analytics-privacy'
+import { checkRateLimit, getClientIdentifier, rateLimitExceededResponse } from '@/lib/rate-limit'
+import { OnboardingServerService } from '@/services/onboarding-server'
+
+/**
+ * POST /api/onboarding/analytics/batch
+ * Body: { events: AnalyticsBatchEvent[] } (at most 50)
+ * Sent by fetch, or by navigator.sendBeacon while the page unloads - so the
+ * body may arrive as text/plain and the route is exempt from the CSRF header.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit('analyticsBatch', getClientIdentifier(request))
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, { error: 'Too many analytics requests' })
+    }
+
+    const raw = await request.text()
+    if (raw.length > MAX_ANALYTICS_BATCH_BYTES) {
+      return NextResponse.json(
+        { error: 'Analytics batch too large' },
+        { status: 413 }
+      )
+    }
+
+    let body: unknown
+    try {
+      body = JSON.parse(raw)
+    } catch {
+      body = null
+    }
+
+    const batch = parseAnalyticsBatch(body)
+    if (!batch) {
+      return NextResponse.json(
+        { error: 'Expected { events: [...] } with 1-50 events' },
+        { status: 400 }
+      )
+    }
+
+    // Request context is anonymized without analytics consent
+    const context = getAnalyticsRequestContext(request)
+    const events = batch.events.map(event => ({
+      ...event,
+      metadata: applyAnalyticsPrivacy(event.metadata, context)
+    }))
+
+    const result = events.length > 0
+      ? await OnboardingServerService.trackEventBatch(events)
+      : { stored: 0, duplicates: 0, unknownSessions: 0 }
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      rejected: batch.rejected
+    })
+  } catch (error) {
+    console.error('Analytics batch ingestion error:', error)
+
+    // Don't expose internal errors to client
+    return NextResponse.json(
+      { error: 'Failed to store analytics events' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { parseAnalyticsRange } from '@/lib/analytics-range'
+import { ConversionMetricsService } from '@/services/conversion-metrics'
+
+/**
+ * GET /api/onboarding/analytics/conversion-metrics[?from=2025-11-01&to=2025-11-30&locale=it]
+ * Step completion, drop-off, median time per step and device conversion for
+ * sessions started in the range (default: last 30 days)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = requireAdmin(request)
+    if (!auth.authorized) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const { filters, error } = parseAnalyticsRange(request.nextUrl.searchParams)
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const metrics = await ConversionMetricsService.getConversionMetrics(filters)
+
+    return NextResponse.json(metrics)
+  } catch (error) {
+    console.error('Conversion metrics API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to calculate conversion metrics' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { applyAnalyticsPrivacy, getAnalyticsRequestContext } from '@/lib/analytics-privacy'
 import { OnboardingServerService } from '@/services/onboarding-server'
 import { AnalyticsEventType } from '@/types/onboarding'
 
@@ -29,13 +30,9 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Add request context to metadata
+    // Add request context to metadata (anonymized without analytics consent)
     const enrichedMetadata = {
-      ...metadata,
-      ip_address: request.headers.get('x-forwarded-for') ||
-                  request.headers.get('x-real-ip') ||
-                  'unknown',
-      user_agent: request.headers.get('user-agent') || 'unknown',
+      ...applyAnalyticsPrivacy(metadata, getAnalyticsRequestContext(request)),
       timestamp: new Date().toISOString()
     }
 
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { onboardingAuthErrorResponse, requireOnboardingSession } from '@/lib/onboarding-auth'
 import { createServiceClient } from '@/lib/supabase'
 
 export async function GET(request: NextRequest) {
@@ -15,6 +16,11 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const auth = requireOnboardingSession(request, sessionId)
+    if (!auth.authorized) {
+      return onboardingAuthErrorResponse(auth.error)
+    }
+
     const supabase = createServiceClient()
 
     // If submissionId is provided, fetch that specific submission
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { onboardingAuthErrorResponse, requireOnboardingSession } from '@/lib/onboarding-auth'
+import { createServiceClient } from '@/lib/supabase'
+import { SessionHandoffService } from '@/services/session-handoff'
+
+/**
+ * GET /api/onboarding/handoff/[handoffId]?sessionId=
+ * Polled by the originating device to learn when its handoff link was used.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ handoffId: string }> }
+) {
+  try {
+    const { handoffId } = await params
+    const sessionId = request.nextUrl.searchParams.get('sessionId')
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const auth = requireOnboardingSession(request, sessionId)
+    if (!auth.authorized) {
+      return onboardingAuthErrorResponse(auth.error)
+    }
+
+    const handoff = await new SessionHandoffService().getHandoffStatus(
+      createServiceClient(),
+      handoffId,
+      sessionId
+    )
+
+    if (!handoff) {
+      return NextResponse.json(
+        { error: 'Handoff not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: true, data: handoff },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error) {
+    console.error('Session handoff status API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
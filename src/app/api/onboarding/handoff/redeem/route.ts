@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { setOnboardingSessionCookie } from '@/lib/onboarding-auth'
+import { checkRateLimit, getClientIdentifier, rateLimitExceededResponse } from '@/lib/rate-limit'
+import { createServiceClient } from '@/lib/supabase'
+import { SessionHandoffService } from '@/services/session-handoff'
+
+/**
+ * POST /api/onboarding/handoff/redeem
+ * Uses a handoff token on the new device and returns the session to load. The
+ * session's email verification carries over, so it is not asked for again.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit('handoffRedeem', getClientIdentifier(request))
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, {
+        error: 'Too many attempts. Please try again later.'
+      })
+    }
+
+    const { token } = await request.json()
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json(
+        { error: 'Token is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await new SessionHandoffService().redeemHandoff(createServiceClient(), token, {
+      userAgent: request.headers.get('user-agent')
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 410 }
+      )
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      data: {
+        sessionId: result.sessionId,
+        currentStep: result.currentStep,
+        locale: result.locale
+      }
+    })
+    // The token stands in for the email verification on this device
+    setOnboardingSessionCookie(response, result.sessionId)
+    return response
+  } catch (error) {
+    console.error('Session handoff redeem API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { onboardingAuthErrorResponse, requireOnboardingSession } from '@/lib/onboarding-auth'
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rate-limit'
+import { createServiceClient } from '@/lib/supabase'
+import { SessionHandoffService } from '@/services/session-handoff'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/onboarding/handoff
+ * Mints a single-use link that opens the session on another device, returned with
+ * a QR code and emailed to the verified address unless `sendEmail` is false.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId, sendEmail = true } = await request.json()
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const auth = requireOnboardingSession(request, sessionId)
+    if (!auth.authorized) {
+      return onboardingAuthErrorResponse(auth.error)
+    }
+
+    const rateLimit = await checkRateLimit('handoff', sessionId)
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, {
+        error: 'Too many handoff links requested. Please try again later.'
+      })
+    }
+
+    const handoff = await new SessionHandoffService().createHandoff(createServiceClient(), sessionId, {
+      sendEmail: sendEmail !== false
+    })
+
+    if (!handoff) {
+      return NextResponse.json(
+        { error: 'Session not found or expired' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: true, data: handoff },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error) {
+    console.error('Session handoff API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
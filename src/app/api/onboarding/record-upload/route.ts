@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { OnboardingServerService } from '@/services/onboarding-server'
+import { getAssetPath } from '@/lib/assets'
+import { onboardingAuthErrorResponse, requireOnboardingSession } from '@/lib/onboarding-auth'
 
 export async function POST(request: NextRequest) {
   try {
     const {
       sessionId,
       fileType,
+      filePath: rawFilePath,
       fileUrl,
       fileName,
       fileSize,
@@ -13,18 +16,26 @@ export async function POST(request: NextRequest) {
       dimensions
     } = await request.json()
 
-    if (!sessionId || !fileType || !fileUrl || !fileName || fileSize === undefined || !mimeType) {
+    // fileUrl is accepted from older clients that only knew the signed URL
+    const filePath = getAssetPath({ path: rawFilePath, url: fileUrl })
+
+    if (!sessionId || !fileType || !filePath || !fileName || fileSize === undefined || !mimeType) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       )
     }
 
+    const auth = requireOnboardingSession(request, sessionId)
+    if (!auth.authorized) {
+      return onboardingAuthErrorResponse(auth.error)
+    }
+
     // Record file upload via server service (service role)
     const uploadedFile = await OnboardingServerService.recordFileUpload(
       sessionId,
       fileType,
-      fileUrl,
+      filePath,
       fileName,
       fileSize,
       mimeType,
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AbandonmentRecoveryService } from '@/services/abandonment-recovery'
+
+/**
+ * POST /api/onboarding/recovery/unsubscribe
+ * Stops recovery emails for a session. Sent from the confirm button on the
+ * unsubscribe page, so link scanners opening the email link change nothing.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId, token } = await request.json()
+
+    if (
+      typeof sessionId !== 'string' ||
+      typeof token !== 'string' ||
+      !AbandonmentRecoveryService.verifyUnsubscribeToken(sessionId, token)
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid unsubscribe link' },
+        { status: 400 }
+      )
+    }
+
+    await AbandonmentRecoveryService.unsubscribe(sessionId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Recovery unsubscribe API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { OnboardingServerService } from '@/services/onboarding-server'
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rate-limit'
+import { requireOnboardingSession } from '@/lib/onboarding-auth'
+import { createServiceClient } from '@/lib/supabase'
 
 export async function POST(request: NextRequest) {
   try {
@@ -32,6 +35,38 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const rateLimit = await checkRateLimit('sendVerification', sessionId)
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, {
+        error: 'Too many verification emails requested. Please try again later.'
+      })
+    }
+
+    // Without the session cookie a code only goes to the verified address on
+    // file: the browser that started a session always has its cookie, so
+    // anyone else knowing the id could otherwise verify it with their own email
+    if (!requireOnboardingSession(request, sessionId).authorized) {
+      const { data: session } = await createServiceClient()
+        .from('onboarding_sessions')
+        .select('email, email_verified')
+        .eq('id', sessionId)
+        .maybeSingle()
+
+      if (!session?.email_verified) {
+        return NextResponse.json(
+          { error: 'Please continue this session in the browser that started it' },
+          { status: 401 }
+        )
+      }
+
+      if (session.email !== email.toLowerCase().trim()) {
+        return NextResponse.json(
+          { error: 'Please verify the email address of this session first' },
+          { status: 403 }
+        )
+      }
+    }
+
     // Generate verification code
     const verificationCode = await OnboardingServerService.generateVerificationCode(sessionId, email)
 
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { onboardingAuthErrorResponse, requireOnboardingSession } from '@/lib/onboarding-auth'
+import { OnboardingServerService } from '@/services/onboarding-server'
+
+/**
+ * POST /api/onboarding/session/[sessionId]/refresh
+ * Extends the session's expiration
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params
+
+    const auth = requireOnboardingSession(request, sessionId)
+    if (!auth.authorized) {
+      return onboardingAuthErrorResponse(auth.error)
+    }
+
+    const expiresAt = await OnboardingServerService.refreshSession(sessionId)
+
+    return NextResponse.json({ success: true, expiresAt })
+  } catch (error) {
+    console.error('Session refresh API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { onboardingAuthErrorResponse, requireOnboardingSession } from '@/lib/onboarding-auth'
+import { OnboardingServerService } from '@/services/onboarding-server'
+
+/**
+ * GET /api/onboarding/session/[sessionId]
+ * Loads the session this browser is authenticated for
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params
+
+    const auth = requireOnboardingSession(request, sessionId)
+    if (!auth.authorized) {
+      return onboardingAuthErrorResponse(auth.error)
+    }
+
+    const session = await OnboardingServerService.getSession(sessionId)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found or expired' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: true, data: session },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error) {
+    console.error('Session load API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/onboarding/session/[sessionId]
+ * Saves form progress
+ * Body: { formData, currentStep, baseVersion? }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params
+
+    const auth = requireOnboardingSession(request, sessionId)
+    if (!auth.authorized) {
+      return onboardingAuthErrorResponse(auth.error)
+    }
+
+    const body = await request.json().catch(() => null)
+    if (
+      !body ||
+      typeof body.formData !== 'object' ||
+      body.formData === null ||
+      !Number.isInteger(body.currentStep) ||
+      (body.baseVersion !== undefined && !Number.isInteger(body.baseVersion))
+    ) {
+      return NextResponse.json(
+        { error: 'Form data and current step are required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await OnboardingServerService.saveProgress(
+      sessionId,
+      body.formData,
+      body.currentStep,
+      body.baseVersion
+    )
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    console.error('Session save API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
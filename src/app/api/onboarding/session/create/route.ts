@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { setOnboardingSessionCookie } from '@/lib/onboarding-auth'
+import { Locale, locales } from '@/lib/i18n'
+import { checkRateLimit, getClientIdentifier, rateLimitExceededResponse } from '@/lib/rate-limit'
+import { OnboardingServerService } from '@/services/onboarding-server'
+
+/**
+ * POST /api/onboarding/session/create
+ * Starts a new session and issues its cookie, so this browser can save the
+ * first steps before the email is verified.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit('sessionCreate', getClientIdentifier(request))
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, {
+        error: 'Too many new sessions. Please try again later.'
+      })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const locale: Locale = locales.includes(body.locale) ? body.locale : 'en'
+
+    const session = await OnboardingServerService.createSession(locale)
+    const response = NextResponse.json({ success: true, data: session })
+    setOnboardingSessionCookie(response, session.id)
+
+    return response
+  } catch (error) {
+    console.error('Session create API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getOnboardingSessionId } from '@/lib/onboarding-auth'
+import { Locale, locales } from '@/lib/i18n'
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rate-limit'
+import { createServiceClient } from '@/lib/supabase'
+import { OnboardingServerService } from '@/services/onboarding-server'
+
+// "mario.rossi@example.com" -> "ma***@example.com"
+const maskEmail = (email: string) => {
+  const [local, domain] = email.split('@')
+  return domain ? `${local.slice(0, 2)}***@${domain}` : '***'
+}
+
+/**
+ * GET /api/onboarding/session
+ * The session this browser is authenticated for, so the client can tell
+ * whether its stored session still needs to be verified again.
+ */
+export async function GET(request: NextRequest) {
+  return NextResponse.json(
+    { sessionId: getOnboardingSessionId(request) },
+    { headers: { 'Cache-Control': 'no-store' } }
+  )
+}
+
+/**
+ * POST /api/onboarding/session
+ * Resumes a session opened from a link (recovery emails, bookmarks). Without
+ * the session cookie, a session whose email was verified gets a fresh code at
+ * that address and has to be verified again through /api/onboarding/verify-email.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId, locale } = await request.json()
+
+    if (!sessionId || typeof sessionId !== 'string') {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      )
+    }
+
+    if (getOnboardingSessionId(request) === sessionId) {
+      return NextResponse.json({ success: true, authenticated: true, verificationRequired: false })
+    }
+
+    const { data: session } = await createServiceClient()
+      .from('onboarding_sessions')
+      .select('id, email, email_verified, locale, expires_at, first_name:form_data->>firstName')
+      .eq('id', sessionId)
+      .maybeSingle()
+
+    if (!session || new Date(session.expires_at) <= new Date()) {
+      return NextResponse.json(
+        { error: 'Session not found or expired' },
+        { status: 404 }
+      )
+    }
+
+    // Before step 2 there is no verified address to send a code to, so an
+    // unverified session stays with the browser that started it
+    if (!session.email_verified || !session.email) {
+      return NextResponse.json(
+        { error: 'Session not found or expired' },
+        { status: 404 }
+      )
+    }
+
+    const rateLimit = await checkRateLimit('sendVerification', sessionId)
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, {
+        error: 'Too many verification emails requested. Please try again later.'
+      })
+    }
+
+    // The code only ever goes to the address on file
+    const verificationCode = await OnboardingServerService.generateVerificationCode(sessionId, session.email)
+    const emailLocale: Locale = locales.includes(locale) ? locale : locales.includes(session.locale) ? session.locale : 'en'
+
+    const { EmailService } = await import('@/services/resend')
+    const emailResult = await EmailService.sendVerificationEmail(
+      session.email,
+      session.first_name || 'User',
+      verificationCode,
+      emailLocale
+    )
+
+    if (!emailResult.success) {
+      console.error('Failed to send session verification email:', emailResult.error)
+      return NextResponse.json(
+        { error: 'Failed to send verification email' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      authenticated: false,
+      verificationRequired: true,
+      email: maskEmail(session.email)
+    })
+  } catch (error) {
+    console.error('Session resume API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { onboardingAuthErrorResponse, requireOnboardingSession } from '@/lib/onboarding-auth'
 import { createServiceClient } from '@/lib/supabase'
 
 /**
@@ -17,6 +18,11 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const auth = requireOnboardingSession(request, sessionId)
+    if (!auth.authorized) {
+      return onboardingAuthErrorResponse(auth.error)
+    }
+
     const supabase = createServiceClient()
 
     // Query the onboarding_submissions table for this session
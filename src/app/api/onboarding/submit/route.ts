@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { onboardingAuthErrorResponse, requireOnboardingSession } from '@/lib/onboarding-auth'
 import { OnboardingServerService } from '@/services/onboarding-server'
 
 export async function POST(request: NextRequest) {
@@ -12,6 +13,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const auth = requireOnboardingSession(request, sessionId)
+    if (!auth.authorized) {
+      return onboardingAuthErrorResponse(auth.error)
+    }
+
     // Submit onboarding via server service (service role)
     const submission = await OnboardingServerService.submitOnboarding(
       sessionId,
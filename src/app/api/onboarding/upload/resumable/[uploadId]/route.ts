@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { onboardingAuthErrorResponse, requireOnboardingSession } from '@/lib/onboarding-auth'
+import { checkRateLimit, getClientIdentifier, rateLimitExceededResponse } from '@/lib/rate-limit'
+import { UPLOAD_OFFSET_HEADER } from '@/lib/resumable-upload'
+import { createServiceClient } from '@/lib/supabase'
+import { ResumableUploadService, RESUMABLE_CHUNK_SIZE } from '@/services/resumable-upload'
+
+// The final chunk assembles and processes the whole file
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const notFound = () => NextResponse.json(
+  { error: 'Upload not found or expired' },
+  { status: 404 }
+)
+
+/**
+ * GET /api/onboarding/upload/resumable/[uploadId]
+ * Current offset of the upload, so the client knows where to resume. Completed
+ * uploads include the stored file.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string }> }
+) {
+  try {
+    const auth = requireOnboardingSession(request)
+    if (!auth.authorized) {
+      return onboardingAuthErrorResponse(auth.error)
+    }
+
+    const { uploadId } = await params
+    if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+      return notFound()
+    }
+
+    const upload = await new ResumableUploadService().getUpload(createServiceClient(), uploadId, auth.sessionId)
+    if (!upload) {
+      return notFound()
+    }
+
+    return NextResponse.json(
+      { success: true, data: upload },
+      { headers: { [UPLOAD_OFFSET_HEADER]: String(upload.offset), 'Cache-Control': 'no-store' } }
+    )
+  } catch (error) {
+    console.error('Resumable upload status error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/onboarding/upload/resumable/[uploadId]
+ * Appends the raw request body at the offset given in the Upload-Offset header.
+ * An offset that does not match the stored bytes gets 409 with the current offset.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string }> }
+) {
+  try {
+    const rateLimit = await checkRateLimit('uploadChunk', getClientIdentifier(request))
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, {
+        error: 'Too many uploads. Please try again later.'
+      })
+    }
+
+    const auth = requireOnboardingSession(request)
+    if (!auth.authorized) {
+      return onboardingAuthErrorResponse(auth.error)
+    }
+
+    const { uploadId } = await params
+    if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+      return notFound()
+    }
+
+    const offset = Number(request.headers.get(UPLOAD_OFFSET_HEADER))
+    if (!Number.isInteger(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: `Missing or invalid ${UPLOAD_OFFSET_HEADER} header` },
+        { status: 400 }
+      )
+    }
+
+    // Refuse oversized bodies before buffering them
+    const contentLength = Number(request.headers.get('content-length') || 0)
+    if (contentLength > RESUMABLE_CHUNK_SIZE) {
+      return NextResponse.json(
+        { error: 'Chunk too large' },
+        { status: 413 }
+      )
+    }
+
+    const chunk = Buffer.from(await request.arrayBuffer())
+    if (chunk.length > RESUMABLE_CHUNK_SIZE) {
+      return NextResponse.json(
+        { error: 'Chunk too large' },
+        { status: 413 }
+      )
+    }
+
+    const result = await new ResumableUploadService().appendChunk(
+      createServiceClient(),
+      uploadId,
+      auth.sessionId,
+      offset,
+      chunk
+    )
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, data: result.upload },
+        {
+          status: result.status,
+          headers: result.upload ? { [UPLOAD_OFFSET_HEADER]: String(result.upload.offset) } : undefined
+        }
+      )
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.upload },
+      { headers: { [UPLOAD_OFFSET_HEADER]: String(result.upload.offset) } }
+    )
+  } catch (error) {
+    console.error('Resumable upload chunk error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error during file upload' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/onboarding/upload/resumable/[uploadId]
+ * Cancels the upload and discards the chunks received so far.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string }> }
+) {
+  try {
+    const auth = requireOnboardingSession(request)
+    if (!auth.authorized) {
+      return onboardingAuthErrorResponse(auth.error)
+    }
+
+    const { uploadId } = await params
+    if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+      return notFound()
+    }
+
+    const deleted = await new ResumableUploadService().abortUpload(createServiceClient(), uploadId, auth.sessionId)
+    if (!deleted) {
+      return notFound()
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Resumable upload abort error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { onboardingAuthErrorResponse, requireOnboardingSession } from '@/lib/onboarding-auth'
+import { checkRateLimit, getClientIdentifier, rateLimitExceededResponse } from '@/lib/rate-limit'
+import { createServiceClient } from '@/lib/supabase'
+import { ResumableUploadService } from '@/services/resumable-upload'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/onboarding/upload/resumable
+ * Starts a chunked upload. Body: { sessionId, type, fileName, fileSize, mimeType }.
+ * Responds with the upload id and chunk size; chunks are then sent with PATCH to
+ * /api/onboarding/upload/resumable/[uploadId].
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit('upload', getClientIdentifier(request))
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, {
+        error: 'Too many uploads. Please try again later.'
+      })
+    }
+
+    const { sessionId, type, fileName, fileSize, mimeType } = await request.json()
+
+    if (!sessionId || !type || !fileName || typeof fileSize !== 'number' || !mimeType) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      )
+    }
+
+    const auth = requireOnboardingSession(request, sessionId)
+    if (!auth.authorized) {
+      return onboardingAuthErrorResponse(auth.error)
+    }
+
+    const result = await new ResumableUploadService().createUpload(createServiceClient(), {
+      sessionId,
+      type,
+      fileName,
+      fileSize,
+      mimeType
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.upload },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Resumable upload create error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { checkRateLimit, getClientIdentifier, rateLimitExceededResponse } from '@/lib/rate-limit'
+import { ASSET_BUCKET, isValidAssetPath } from '@/lib/assets'
+import { onboardingAuthErrorResponse, requireOnboardingSession } from '@/lib/onboarding-auth'
+import { storeImageUpload, validateUploadRequest } from '@/services/image-upload'
 
 // Configure route segment to handle larger file uploads
 export const runtime = 'nodejs'
@@ -13,6 +17,14 @@ const supabaseAdmin = createClient(
 
 export async function POST(request: NextRequest) {
   try {
+    // Limit before parsing so rejected requests never buffer the file
+    const rateLimit = await checkRateLimit('upload', getClientIdentifier(request))
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, {
+        error: 'Too many uploads. Please try again later.'
+      })
+    }
+
     // Parse formData with better error handling for incomplete multipart data
     let formData: FormData
     try {
@@ -50,99 +62,38 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Validate file size (10MB limit)
-    const maxSize = 10 * 1024 * 1024 // 10MB
-    if (file.size > maxSize) {
-      return NextResponse.json(
-        { error: 'File size exceeds 10MB limit' },
-        { status: 400 }
-      )
+    const auth = requireOnboardingSession(request, sessionId)
+    if (!auth.authorized) {
+      return onboardingAuthErrorResponse(auth.error)
     }
 
-    // Validate file type (SVG excluded due to XSS risks from embedded scripts)
-    const allowedTypes = [
-      'image/png',
-      'image/jpeg',
-      'image/webp'
-    ]
-
-    if (!allowedTypes.includes(file.type)) {
+    // Reject oversized or disallowed files before reading them
+    const requestError = validateUploadRequest({ type, size: file.size, mimeType: file.type })
+    if (requestError) {
       return NextResponse.json(
-        { error: 'File type not allowed. Only PNG, JPEG, and WebP files are supported.' },
+        { error: requestError },
         { status: 400 }
       )
     }
 
-    // Generate unique filename
-    const timestamp = Date.now()
-    const randomId = Math.random().toString(36).substring(2, 15)
-    const fileExtension = file.name.split('.').pop()
-    const fileName = `${type}-${timestamp}-${randomId}.${fileExtension}`
-    const filePath = `${type}/${fileName}`
-
-    // Convert file to buffer
-    const bytes = await file.arrayBuffer()
-    const buffer = Buffer.from(bytes)
-
-    // Upload to Supabase storage
-    const { data, error } = await supabaseAdmin.storage
-      .from('onboarding-uploads')
-      .upload(filePath, buffer, {
-        contentType: file.type,
-        duplex: 'half'
-      })
-
-    if (error) {
-      console.error('Supabase upload error:', error)
-      return NextResponse.json(
-        { error: 'Failed to upload file to storage' },
-        { status: 500 }
-      )
-    }
-
-    // Create signed URL for private bucket (expires in 7 days)
-    const { data: signedUrlData, error: signedUrlError } = await supabaseAdmin.storage
-      .from('onboarding-uploads')
-      .createSignedUrl(data.path, 604800) // 7 days in seconds
-
-    if (signedUrlError) {
-      console.error('Failed to create signed URL:', signedUrlError)
-      return NextResponse.json(
-        { error: 'Failed to generate access URL for uploaded file' },
-        { status: 500 }
-      )
-    }
-
-    const uploadResponse = {
-      id: data.id,
-      path: data.path,
-      url: signedUrlData.signedUrl,
+    const result = await storeImageUpload(supabaseAdmin, {
+      buffer: Buffer.from(await file.arrayBuffer()),
+      declaredType: file.type,
       fileName: file.name,
-      fileSize: file.size,
-      mimeType: file.type,
-      fullPath: data.fullPath
-    }
+      type,
+      sessionId
+    })
 
-    // Record the upload in the database
-    try {
-      const { OnboardingServerService } = await import('@/services/onboarding-server')
-      await OnboardingServerService.recordFileUpload(
-        sessionId,
-        type === 'business-asset' ? 'photo' : 'logo', // Map type to file_type
-        signedUrlData.signedUrl,
-        file.name,
-        file.size,
-        file.type
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
       )
-    } catch (dbError) {
-      console.error('Failed to record file upload in database:', dbError)
-      // Don't fail the upload if database recording fails
-      // File is already in storage, user can still proceed
     }
 
     return NextResponse.json({
       success: true,
-      data: uploadResponse
+      data: result.data
     })
 
   } catch (error) {
@@ -156,10 +107,16 @@ export async function POST(request: NextRequest) {
 
 /**
  * DELETE handler for removing files from Supabase storage
- * Used when products are deleted to clean up orphaned photos
+ * Used when products are deleted to clean up orphaned photos. Only files
+ * uploaded by the authenticated session are removed.
  */
 export async function DELETE(request: NextRequest) {
   try {
+    const auth = requireOnboardingSession(request)
+    if (!auth.authorized) {
+      return onboardingAuthErrorResponse(auth.error)
+    }
+
     const body = await request.json()
     const { paths } = body as { paths: string[] }
 
@@ -171,11 +128,7 @@ export async function DELETE(request: NextRequest) {
     }
 
     // Validate paths to prevent path traversal attacks
-    const invalidPaths = paths.filter(path =>
-      path.includes('..') ||
-      path.startsWith('/') ||
-      !path.match(/^(product-photo|logo|business-asset)\//)
-    )
+    const invalidPaths = paths.filter(path => !isValidAssetPath(path))
 
     if (invalidPaths.length > 0) {
       return NextResponse.json(
@@ -184,10 +137,29 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
+    // Derivatives go with their original
+    const { data: uploads } = await supabaseAdmin
+      .from('onboarding_uploads')
+      .select('file_path, derivatives')
+      .eq('session_id', auth.sessionId)
+      .in('file_path', paths)
+
+    const ownedPaths = (uploads || []).map(upload => upload.file_path as string)
+    const derivativePaths = (uploads || []).flatMap(upload =>
+      ((upload.derivatives || []) as Array<{ path: string }>).map(derivative => derivative.path)
+    )
+
+    if (ownedPaths.length === 0) {
+      return NextResponse.json({
+        success: true,
+        deleted: 0
+      })
+    }
+
     // Delete files from Supabase storage
     const { data, error } = await supabaseAdmin.storage
-      .from('onboarding-uploads')
-      .remove(paths)
+      .from(ASSET_BUCKET)
+      .remove([...ownedPaths, ...derivativePaths])
 
     if (error) {
       console.error('Supabase delete error:', error)
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { OnboardingServerService } from '@/services/onboarding-server'
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rate-limit'
+import { setOnboardingSessionCookie } from '@/lib/onboarding-auth'
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,15 +14,25 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const rateLimit = await checkRateLimit('verifyEmail', sessionId)
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, {
+        error: 'Too many verification attempts. Please try again later.'
+      })
+    }
+
     // Verify the code
     const result = await OnboardingServerService.verifyEmail(sessionId, code) as any
 
     if (result.success) {
-      return NextResponse.json({
+      const response = NextResponse.json({
         success: true,
         message: 'Email verified successfully',
         attemptsRemaining: result.attemptsRemaining
       })
+      // From here on the API only accepts this session together with the cookie
+      setOnboardingSessionCookie(response, sessionId)
+      return response
     } else {
       return NextResponse.json(
         {
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase'
+import { Locale, locales } from '@/lib/i18n'
+import { getPortalEmail } from '@/lib/portal-auth'
+import { CustomerPortalService } from '@/services/payment/CustomerPortalService'
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://whiteboar.it'
+
+/**
+ * POST /api/portal/billing-portal
+ * Create a Stripe Billing Portal session for the signed-in customer
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const email = getPortalEmail(request)
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const locale: Locale = locales.includes(body.locale) ? body.locale : 'en'
+    const localePrefix = locale === 'en' ? '' : `/${locale}`
+
+    const url = await new CustomerPortalService().createBillingPortalUrl(
+      email,
+      `${APP_URL}${localePrefix}/portal`,
+      locale,
+      createServiceClient(),
+      typeof body.submissionId === 'string' ? body.submissionId : undefined
+    )
+
+    if (!url) {
+      return NextResponse.json(
+        { error: 'No billing account found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, url })
+  } catch (error) {
+    console.error('Portal billing session API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
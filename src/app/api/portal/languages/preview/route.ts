@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase'
+import { getPortalEmail } from '@/lib/portal-auth'
+import { CustomerPortalService } from '@/services/payment/CustomerPortalService'
+import { LanguageAddOnService } from '@/services/payment/LanguageAddOnService'
+
+/**
+ * POST /api/portal/languages/preview
+ * Charge and credit preview for adding or removing language add-ons
+ * Body: { submissionId, add: string[], remove: string[] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const email = getPortalEmail(request)
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    if (typeof body.submissionId !== 'string') {
+      return NextResponse.json(
+        { error: 'Submission ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const submission = await new CustomerPortalService().getCustomerSubmission(
+      email,
+      body.submissionId,
+      createServiceClient()
+    )
+    if (!submission) {
+      return NextResponse.json(
+        { error: 'Submission not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await new LanguageAddOnService().previewChange(submission, body.add, body.remove)
+    if (!result.success || !result.preview) {
+      return NextResponse.json(
+        { error: result.error?.message, code: result.error?.code },
+        { status: result.error?.status || 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: result.preview })
+  } catch (error) {
+    console.error('Portal language preview API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
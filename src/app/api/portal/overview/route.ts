@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase'
+import { Locale, locales } from '@/lib/i18n'
+import { getPortalEmail } from '@/lib/portal-auth'
+import { CustomerPortalService } from '@/services/payment/CustomerPortalService'
+
+/**
+ * GET /api/portal/overview?locale=xx
+ * Submissions, subscription schedule state, invoices and languages for the signed-in customer
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const email = getPortalEmail(request)
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      )
+    }
+
+    const requestedLocale = request.nextUrl.searchParams.get('locale') as Locale
+    const locale: Locale = locales.includes(requestedLocale) ? requestedLocale : 'en'
+
+    const overview = await new CustomerPortalService().getOverview(email, locale, createServiceClient())
+
+    return NextResponse.json({ success: true, data: overview })
+  } catch (error) {
+    console.error('Portal overview API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase'
+import { Locale, locales } from '@/lib/i18n'
+import { checkRateLimit, getClientIdentifier, rateLimitExceededResponse } from '@/lib/rate-limit'
+import { CustomerPortalService } from '@/services/payment/CustomerPortalService'
+import { PortalSignInService } from '@/services/portal-sign-in'
+
+/**
+ * POST /api/portal/request-code
+ * Send a sign-in code to a customer. Portal codes are stored apart from
+ * onboarding verification codes, so a pending onboarding code stays valid.
+ * Always answers the same way so the endpoint can't be used to probe for customers.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const email = typeof body.email === 'string' ? body.email.toLowerCase().trim() : ''
+    const locale: Locale = locales.includes(body.locale) ? body.locale : 'en'
+
+    if (!email || !email.includes('@')) {
+      return NextResponse.json(
+        { error: 'A valid email is required' },
+        { status: 400 }
+      )
+    }
+
+    const rateLimit = await checkRateLimit('portalSignIn', getClientIdentifier(request))
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, {
+        error: 'Too many sign-in attempts. Please try again later.'
+      })
+    }
+
+    const supabase = createServiceClient()
+    const portalService = new CustomerPortalService()
+
+    const [session, submissions] = await Promise.all([
+      portalService.findSessionByEmail(email, supabase),
+      portalService.getCustomerSubmissions(email, supabase)
+    ])
+
+    if (submissions.length > 0) {
+      const code = await new PortalSignInService().createCode(supabase, email)
+
+      const { EmailService } = await import('@/services/resend')
+      const emailResult = await EmailService.sendVerificationEmail(
+        email,
+        session?.form_data?.firstName || submissions[0].business_name || 'User',
+        code,
+        locale
+      )
+
+      if (!emailResult.success) {
+        console.error('Failed to send portal sign-in code:', emailResult.error)
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'If this email belongs to a customer, a sign-in code is on its way'
+    })
+  } catch (error) {
+    console.error('Portal request code API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
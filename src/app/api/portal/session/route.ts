@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server'
+import { PORTAL_SESSION_COOKIE } from '@/lib/portal-auth'
+
+/**
+ * DELETE /api/portal/session
+ * Sign out of the customer portal
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ success: true })
+  response.cookies.delete(PORTAL_SESSION_COOKIE)
+  return response
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase'
+import { Locale, locales } from '@/lib/i18n'
+import { DunningService } from '@/services/payment/DunningService'
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://whiteboar.it'
+
+/**
+ * GET /api/portal/update-payment-method?submissionId=...&token=...&locale=...
+ * Card-update link from dunning emails: redirects to Stripe's payment method
+ * update flow. Expired or invalid links fall back to the customer portal sign-in.
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const localeParam = searchParams.get('locale') as Locale
+  const locale: Locale = locales.includes(localeParam) ? localeParam : 'en'
+  const localePrefix = locale === 'en' ? '' : `/${locale}`
+  const portalUrl = `${APP_URL}${localePrefix}/portal`
+
+  try {
+    const submissionId = searchParams.get('submissionId')
+    const token = searchParams.get('token')
+
+    if (!submissionId || !token) {
+      return NextResponse.redirect(portalUrl, 303)
+    }
+
+    const url = await new DunningService().createCardUpdateUrl(
+      submissionId,
+      token,
+      locale,
+      createServiceClient()
+    )
+
+    return NextResponse.redirect(url || portalUrl, 303)
+  } catch (error) {
+    console.error('Card update link error:', error)
+    return NextResponse.redirect(portalUrl, 303)
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase'
+import { PORTAL_SESSION_COOKIE, createPortalSessionToken } from '@/lib/portal-auth'
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rate-limit'
+import { PortalSignInService } from '@/services/portal-sign-in'
+
+/**
+ * POST /api/portal/verify
+ * Check the emailed code and issue the httpOnly portal session cookie
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const email = typeof body.email === 'string' ? body.email.toLowerCase().trim() : ''
+    const code = typeof body.code === 'string' ? body.code.trim() : ''
+
+    if (!email || !code) {
+      return NextResponse.json(
+        { error: 'Email and verification code are required' },
+        { status: 400 }
+      )
+    }
+
+    const rateLimit = await checkRateLimit('portalSignIn', email)
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, {
+        error: 'Too many sign-in attempts. Please try again later.'
+      })
+    }
+
+    const result = await new PortalSignInService().verifyCode(createServiceClient(), email, code)
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Invalid verification code' },
+        { status: 400 }
+      )
+    }
+
+    const { token, expiresAt } = createPortalSessionToken(email)
+    const response = NextResponse.json({ success: true })
+
+    response.cookies.set(PORTAL_SESSION_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      expires: new Date(expiresAt)
+    })
+
+    return response
+  } catch (error) {
+    console.error('Portal verify API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServiceClient } from '@/lib/supabase'
-import { requireCSRFToken } from '@/lib/csrf'
+import { CONSENT_COOKIE_NAME, parseConsentCookie } from '@/lib/cookie-consent'
+import { onboardingAuthErrorResponse, requireOnboardingSession } from '@/lib/onboarding-auth'
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rate-limit'
 import { CheckoutSessionService } from '@/services/payment/CheckoutSessionService'
+import { parseGaClientId } from '@/services/conversion-tracking'
 
 /**
  * POST /api/stripe/create-checkout-session
@@ -55,25 +58,47 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const csrfKey = session_id || submission_id
+    const supabase = await createServiceClient()
+
+    // Payment is only taken for a submission of the authenticated session
+    const { data: submission } = await supabase
+      .from('onboarding_submissions')
+      .select('session_id')
+      .eq('id', submission_id)
+      .maybeSingle()
 
-    // Validate CSRF token
-    const csrfValidation = requireCSRFToken(request, csrfKey)
-    if (!csrfValidation.valid) {
+    if (!submission?.session_id) {
       return NextResponse.json(
         {
           success: false,
           error: {
-            code: 'CSRF_VALIDATION_FAILED',
-            message: csrfValidation.error
+            code: 'INVALID_SUBMISSION_ID',
+            message: 'Submission not found or not in submitted status'
           }
         },
-        { status: 403 }
+        { status: 400 }
       )
     }
 
+    const auth = requireOnboardingSession(request, submission.session_id)
+    if (!auth.authorized) {
+      return onboardingAuthErrorResponse(auth.error)
+    }
+
+    const rateLimitKey = session_id || submission_id
+
+    const rateLimit = await checkRateLimit('checkout', rateLimitKey)
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, {
+        success: false,
+        error: {
+          code: 'RATE_LIMIT_EXCEEDED',
+          message: 'Too many payment attempts. Please try again later.'
+        }
+      })
+    }
+
     // Initialize services
-    const supabase = await createServiceClient()
     const checkoutService = new CheckoutSessionService()
 
     // Create checkout session using the service
@@ -83,7 +108,12 @@ export async function POST(request: NextRequest) {
         additionalLanguages,
         discountCode,
         successUrl,
-        cancelUrl
+        cancelUrl,
+        // Stored on the invoice for the webhook's server-side purchase event
+        conversion: {
+          gaClientId: parseGaClientId(request.cookies.get('_ga')?.value),
+          marketingConsent: parseConsentCookie(request.cookies.get(CONSENT_COOKIE_NAME)?.value).marketing
+        }
       },
       supabase
     )
@@ -95,8 +125,7 @@ export async function POST(request: NextRequest) {
         discountCode,
         error: result.error
       })
-      const statusCode = result.error?.code === 'RATE_LIMIT_EXCEEDED' ? 429 :
-                        result.error?.code === 'PAYMENT_ALREADY_COMPLETED' ? 409 :
+      const statusCode = result.error?.code === 'PAYMENT_ALREADY_COMPLETED' ? 409 :
                         result.error?.code === 'MISSING_CUSTOMER_EMAIL' ? 400 :
                         result.error?.code === 'INVALID_LANGUAGE_CODE' ? 400 :
                         result.error?.code === 'INVALID_DISCOUNT_CODE' ? 400 :
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { requireCSRFToken } from '@/lib/csrf'
+import { onboardingAuthErrorResponse, requireOnboardingSession } from '@/lib/onboarding-auth'
+import { checkRateLimit, getClientIdentifier, rateLimitExceededResponse } from '@/lib/rate-limit'
 import { StripePaymentService } from '@/services/payment/StripePaymentService'
 
 export async function POST(request: NextRequest) {
@@ -16,16 +17,22 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    // Validate CSRF token
-    const csrfValidation = requireCSRFToken(request, sessionId)
-    if (!csrfValidation.valid) {
-      return NextResponse.json({
+    const auth = requireOnboardingSession(request, sessionId)
+    if (!auth.authorized) {
+      return onboardingAuthErrorResponse(auth.error)
+    }
+
+    // Keyed by IP: new sessions are cheap, so a per-session key would not stop
+    // discount code enumeration
+    const rateLimit = await checkRateLimit('stripe', getClientIdentifier(request))
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, {
         success: false,
         error: {
-          code: 'CSRF_VALIDATION_FAILED',
-          message: csrfValidation.error
+          code: 'RATE_LIMIT_EXCEEDED',
+          message: 'Too many requests. Please try again later.'
         }
-      }, { status: 403 })
+      })
     }
 
     // Get base package price ID
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse, after } from 'next/server'
 import Stripe from 'stripe'
 import { createServiceClient } from '@/lib/supabase'
 import { stripe } from '@/lib/stripe'
-import { WebhookService } from '@/services/payment/WebhookService'
+import { WebhookEventService } from '@/services/payment/WebhookEventService'
 
 const WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET!
 const IS_PRODUCTION = process.env.NODE_ENV === 'production'
@@ -74,7 +74,7 @@ export async function POST(request: NextRequest) {
 
     // Initialize services
     const supabase = await createServiceClient()
-    const webhookService = new WebhookService()
+    const webhookEventService = new WebhookEventService()
 
     // Mark event as processing - use unique constraint for idempotency
     const { error: insertError } = await supabase.from('stripe_webhook_events').insert({
@@ -106,7 +106,7 @@ export async function POST(request: NextRequest) {
         await processWebhookEvent({
           event,
           supabase,
-          webhookService,
+          webhookEventService,
           webhookId
         })
       } catch (error) {
@@ -127,90 +127,20 @@ export async function POST(request: NextRequest) {
 async function processWebhookEvent({
   event,
   supabase,
-  webhookService,
+  webhookEventService,
   webhookId
 }: {
   event: Stripe.Event
   supabase: Awaited<ReturnType<typeof createServiceClient>>
-  webhookService: WebhookService
+  webhookEventService: WebhookEventService
   webhookId: string
 }) {
-  try {
-    let result
-
-    switch (event.type) {
-      case 'invoice.paid':
-      case 'invoice.payment_succeeded':
-      case 'invoice_payment.paid':
-        result = await webhookService.handleInvoicePaid(event, supabase)
-        break
-
-      case 'payment_intent.succeeded':
-        result = await webhookService.handlePaymentIntentSucceeded(event, supabase)
-        break
-
-      case 'setup_intent.succeeded':
-        result = await webhookService.handleSetupIntentSucceeded(event, supabase)
-        break
-
-      case 'customer.subscription.created':
-        result = await webhookService.handleSubscriptionCreated(event, supabase)
-        break
-
-      case 'customer.subscription.updated':
-        result = await webhookService.handleSubscriptionUpdated(event, supabase)
-        break
-
-      case 'customer.subscription.deleted':
-        result = await webhookService.handleSubscriptionDeleted(event, supabase)
-        break
-
-      case 'subscription_schedule.completed':
-        result = await webhookService.handleScheduleCompleted(event, supabase)
-        break
-
-      case 'subscription_schedule.canceled':
-        result = await webhookService.handleScheduleCanceled(event, supabase)
-        break
-
-      case 'charge.refunded':
-        result = await webhookService.handleChargeRefunded(event, supabase)
-        break
-
-      case 'payment_intent.payment_failed':
-        result = await webhookService.handlePaymentFailed(event, supabase)
-        break
-
-      default:
-        debugLog(`[${webhookId}] ⚠️  Unhandled event type: ${event.type}`)
-        result = { success: true }
-    }
-
-    if (result && !result.success) {
-      throw new Error(result.error || 'Handler failed')
-    }
+  // Failures are recorded with a retry time for /api/cron/webhook-retry
+  const result = await webhookEventService.processEvent(event, supabase)
 
-    await supabase
-      .from('stripe_webhook_events')
-      .update({
-        status: 'completed',
-        completed_at: new Date().toISOString()
-      })
-      .eq('event_id', event.id)
-
-    debugLog(`[${webhookId}] ✓ Event processed successfully`)
-  } catch (error) {
-    console.error(`Error processing event ${event.id}:`, error)
-
-    await supabase
-      .from('stripe_webhook_events')
-      .update({
-        status: 'failed',
-        completed_at: new Date().toISOString(),
-        error_message: error instanceof Error ? error.message : 'Unknown error'
-      })
-      .eq('event_id', event.id)
-
-    throw error
+  if (!result.success) {
+    throw new Error(result.error?.message || 'Handler failed')
   }
+
+  debugLog(`[${webhookId}] ✓ Event processed successfully`)
 }
@@ -55,6 +55,9 @@ export async function POST(request: NextRequest) {
       .delete()
       .eq('session_id', sessionId)
 
+    // The history table is append-only; only the purge function may delete from it
+    await supabase.rpc('purge_session_form_changes', { p_session_id: sessionId })
+
     await supabase
       .from('onboarding_sessions')
       .delete()
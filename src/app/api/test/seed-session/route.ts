@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { randomUUID } from 'crypto'
+import { ONBOARDING_SESSION_COOKIE, createOnboardingSessionToken } from '@/lib/onboarding-auth'
 
 /**
  * Test-only API endpoint to seed a pre-filled onboarding session
@@ -225,6 +226,7 @@ export async function POST(request: NextRequest) {
 
     // Return session details
     const localePrefix = locale === 'en' ? '' : `/${locale}`
+    const stepUrl = `${localePrefix}/onboarding/step/${currentStep}`
 
     return NextResponse.json({
       success: true,
@@ -232,7 +234,9 @@ export async function POST(request: NextRequest) {
       submissionId: submission.id,
       email: testEmail,
       formData: formData, // For localStorage injection
-      url: `${localePrefix}/onboarding/step/${currentStep}`
+      // Sets the session cookie on the way, as email verification would
+      url: `/api/test/session-cookie?sessionId=${session.id}&redirect=${encodeURIComponent(stepUrl)}`,
+      sessionCookie: `${ONBOARDING_SESSION_COOKIE}=${createOnboardingSessionToken(session.id).token}`
     })
 
   } catch (error) {
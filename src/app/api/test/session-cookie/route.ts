@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { setOnboardingSessionCookie } from '@/lib/onboarding-auth'
+
+/**
+ * Test-only endpoint that signs the browser into a seeded onboarding session
+ * E2E tests open /api/test/session-cookie?sessionId=...&redirect=/onboarding/step/14
+ * instead of verifying the seeded email.
+ *
+ * SECURITY: Only enabled in test/development environments
+ */
+export async function GET(request: NextRequest) {
+  // Same guard as /api/test/seed-session
+  const isProduction = process.env.VERCEL_ENV === 'production' || (process.env.NODE_ENV === 'production' && !process.env.CI)
+  const hasBypassSecret = !!process.env.VERCEL_AUTOMATION_BYPASS_SECRET
+
+  if (isProduction && !hasBypassSecret) {
+    return NextResponse.json(
+      { error: 'Test endpoints disabled in production' },
+      { status: 403 }
+    )
+  }
+
+  const sessionId = request.nextUrl.searchParams.get('sessionId')
+  const redirect = request.nextUrl.searchParams.get('redirect') || '/onboarding'
+
+  // Same-origin paths only
+  if (!sessionId || !redirect.startsWith('/') || redirect.startsWith('//')) {
+    return NextResponse.json(
+      { error: 'sessionId and a relative redirect are required' },
+      { status: 400 }
+    )
+  }
+
+  const response = NextResponse.redirect(new URL(redirect, request.url))
+  setOnboardingSessionCookie(response, sessionId)
+  return response
+}
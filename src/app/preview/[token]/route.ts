@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PreviewDeliveryService } from '@/services/preview-delivery'
+
+export const dynamic = 'force-dynamic'
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+/**
+ * GET /preview/[token]
+ * Signed tracking link from the preview email. Mail scanners fetch links
+ * before the customer does, so the GET itself records nothing: the page's
+ * script POSTs the view, then forwards to the preview.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const previewUrl = await PreviewDeliveryService.resolvePreview(token)
+
+    if (!previewUrl) {
+      return NextResponse.redirect(new URL('/', request.url))
+    }
+
+    const href = escapeHtml(previewUrl)
+    // JSON inside <script>: keep "</script>" in the URL from closing the tag
+    const target = JSON.stringify(previewUrl).replace(/</g, '\\u003c')
+
+    const html = `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="robots" content="noindex">
+<meta name="referrer" content="no-referrer">
+<title>WhiteBoar preview</title>
+</head>
+<body>
+<p>Opening your preview&hellip; <a href="${href}">Continue</a></p>
+<script>
+fetch(location.pathname, { method: 'POST', keepalive: true })
+  .catch(function () {})
+  .finally(function () { location.replace(${target}) })
+</script>
+</body>
+</html>`
+
+    return new NextResponse(html, {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Preview tracking error:', error)
+    return NextResponse.redirect(new URL('/', request.url))
+  }
+}
+
+/**
+ * POST /preview/[token]
+ * Records the first view; known link scanners are ignored
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    await PreviewDeliveryService.recordView(token, request.headers.get('user-agent'))
+  } catch (error) {
+    console.error('Preview view tracking error:', error)
+  }
+
+  return new NextResponse(null, { status: 204 })
+}
@@ -2,7 +2,7 @@
 
 import { useEffect } from 'react';
 import { updateGtagConsent } from '@/lib/gtag-consent';
-import type { CookieConsent } from '@/lib/cookie-consent';
+import { syncConsentCookie, type CookieConsent } from '@/lib/cookie-consent';
 
 /**
  * Client component that listens for cookie consent changes
@@ -13,6 +13,9 @@ import type { CookieConsent } from '@/lib/cookie-consent';
  */
 export function GtagConsentHandler() {
   useEffect(() => {
+    // Let the server see choices made before the consent cookie existed
+    syncConsentCookie();
+
     const handleConsentChange = (event: CustomEvent<CookieConsent>) => {
       const consent = event.detail;
       updateGtagConsent({
@@ -2,15 +2,31 @@
 
 import React, { useState, useRef, useEffect } from 'react'
 import { useDropzone } from 'react-dropzone'
-import { Upload, X, CheckCircle, AlertCircle, FileImage, Loader2 } from 'lucide-react'
+import { Upload, X, CheckCircle, AlertCircle, FileImage, Loader2, CloudOff } from 'lucide-react'
 import { cn, generateUUID } from '@/lib/utils'
-import { retry } from '@/lib/retry'
+import { csrfFetch } from '@/lib/csrf-fetch'
+import {
+  getUploadFingerprint,
+  RESUMABLE_UPLOAD_ROUTE,
+  RESUMABLE_UPLOAD_TTL_MS,
+  UploadRequestError,
+  uploadFileResumable
+} from '@/lib/resumable-upload'
+import {
+  claimQueuedUpload,
+  getOfflineQueue,
+  isNetworkError,
+  isOffline,
+  OfflineUploadTarget
+} from '@/lib/offline-queue'
+import { useOnboardingStore } from '@/stores/onboarding'
+import { ImageDerivative } from '@/types/onboarding'
 
 export interface FileUploadProgress {
   file: File
   id: string
   progress: number
-  status: 'uploading' | 'completed' | 'error'
+  status: 'uploading' | 'queued' | 'completed' | 'error'
   error?: string
   url?: string
   preview?: string
@@ -21,6 +37,9 @@ export interface FileUploadProgress {
     fileName?: string
     fileSize?: number
     mimeType?: string
+    width?: number
+    height?: number
+    derivatives?: ImageDerivative[]
     url?: string
   }
 }
@@ -37,6 +56,8 @@ interface FileUploadWithProgressProps {
   existingFiles?: FileUploadProgress[]
   sessionId?: string
   uploadType?: 'logo' | 'business-asset'
+  /** Where a file picked offline lands if this field is gone when it uploads; without it offline files are only kept while the field is on screen */
+  offlineTarget?: OfflineUploadTarget
 }
 
 export function FileUploadWithProgress({
@@ -50,11 +71,15 @@ export function FileUploadWithProgress({
   disabled = false,
   existingFiles = [],
   sessionId,
-  uploadType = 'business-asset'
+  uploadType = 'business-asset',
+  offlineTarget
 }: FileUploadWithProgressProps) {
   const [uploadQueue, setUploadQueue] = useState<FileUploadProgress[]>(existingFiles)
   const [isDragActive, setIsDragActive] = useState(false)
   const abortControllersRef = useRef<Map<string, AbortController>>(new Map())
+  // Files picked offline: queue entry and claim on its result, by file id
+  const queuedUploadsRef = useRef<Map<string, { entryId: number; release: () => void }>>(new Map())
+  const pendingUploads = useOnboardingStore((state) => state.pendingUploads)
   const isInitialRender = useRef(true)
 
   // Use effect to notify parent of file changes after state updates
@@ -73,6 +98,14 @@ export function FileUploadWithProgress({
     return () => clearTimeout(timeoutId)
   }, [uploadQueue])
 
+  // Queued files stay queued; the store applies them to offlineTarget once uploaded
+  useEffect(() => {
+    const queuedUploads = queuedUploadsRef.current
+    return () => {
+      queuedUploads.forEach(({ release }) => release())
+    }
+  }, [])
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes'
     const k = 1024
@@ -99,71 +132,154 @@ export function FileUploadWithProgress({
     fileName?: string
     fileSize?: number
     mimeType?: string
+    width?: number
+    height?: number
+    derivatives?: ImageDerivative[]
   }
 
-  const uploadFile = async (fileProgress: FileUploadProgress): Promise<FileUploadProgress> => {
-    const controller = new AbortController()
-    abortControllersRef.current.set(fileProgress.id, controller)
+  const toCompletedUpload = (fileProgress: FileUploadProgress, uploadResult: UploadResponse): FileUploadProgress => {
+    const resolvedFileName = uploadResult?.fileName || fileProgress.file.name
+    const resolvedFileSize = typeof uploadResult?.fileSize === 'number'
+      ? uploadResult.fileSize
+      : fileProgress.file.size
+    const resolvedMimeType = uploadResult?.mimeType || fileProgress.file.type
+
+    return {
+      ...fileProgress,
+      status: 'completed',
+      progress: 100,
+      error: undefined,
+      url: uploadResult.url,
+      uploadedFileMeta: {
+        id: uploadResult?.id,
+        storagePath: uploadResult?.path,
+        fullPath: uploadResult?.fullPath,
+        fileName: resolvedFileName,
+        fileSize: resolvedFileSize,
+        mimeType: resolvedMimeType,
+        width: uploadResult?.width,
+        height: uploadResult?.height,
+        derivatives: uploadResult?.derivatives,
+        url: uploadResult?.url
+      }
+    }
+  }
 
-    try {
-      const result = await retry.fileUpload(async () => {
-        const formData = new FormData()
-        formData.append('file', fileProgress.file)
-        formData.append('type', uploadType)
-        if (sessionId) {
-          formData.append('sessionId', sessionId)
-        }
+  // Keep the file in the offline queue and wait for the store to replay it
+  const queueUpload = async (fileProgress: FileUploadProgress, sessionId: string): Promise<FileUploadProgress> => {
+    const queue = getOfflineQueue()
+    if (!queue) {
+      throw new Error('You are offline. Retry the upload once you are connected.')
+    }
 
-        const response = await fetch('/api/onboarding/upload', {
-          method: 'POST',
-          body: formData,
-          signal: controller.signal
-        })
+    const entryId = await queue.enqueueUpload({
+      sessionId,
+      uploadType,
+      file: fileProgress.file,
+      target: offlineTarget
+    })
 
-        if (!response.ok) {
-          throw new Error(`Upload failed: ${response.statusText}`)
+    const settled = new Promise<UploadResponse>((resolve, reject) => {
+      const release = claimQueuedUpload(entryId, (settlement) => {
+        queuedUploadsRef.current.delete(fileProgress.id)
+        if ('error' in settlement) {
+          reject(settlement.error)
+        } else {
+          resolve(settlement.data)
         }
+      })
+      queuedUploadsRef.current.set(fileProgress.id, { entryId, release })
+    })
 
-        const result = await response.json()
+    setUploadQueue(current =>
+      current.map(item => item.id === fileProgress.id ? { ...item, status: 'queued', progress: 0 } : item)
+    )
+    useOnboardingStore.getState().syncOfflineQueue()
 
-        if (!result.success) {
-          throw new Error(result.error || 'Upload failed')
+    return toCompletedUpload(fileProgress, await settled)
+  }
+
+  const uploadFile = async (fileProgress: FileUploadProgress): Promise<FileUploadProgress> => {
+    if (sessionId && isOffline()) {
+      try {
+        return await queueUpload(fileProgress, sessionId)
+      } catch (error) {
+        return {
+          ...fileProgress,
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Upload failed'
         }
+      }
+    }
 
-        return result.data
-      })
+    const controller = new AbortController()
+    abortControllersRef.current.set(fileProgress.id, controller)
 
-      if (!result.success) {
-        throw result.error || new Error('Upload failed after retries')
+    try {
+      if (!sessionId) {
+        throw new Error('Session ID not provided')
       }
 
-      const uploadResult = result.data as UploadResponse
-      const resolvedFileName = uploadResult?.fileName || fileProgress.file.name
-      const resolvedFileSize = typeof uploadResult?.fileSize === 'number'
-        ? uploadResult.fileSize
-        : fileProgress.file.size
-      const resolvedMimeType = uploadResult?.mimeType || fileProgress.file.type
+      // Progress is kept in the store so a reload can resume the same file
+      const key = getUploadFingerprint(fileProgress.file, sessionId, uploadType)
+      const { pendingUploads, setPendingUpload, clearPendingUpload } = useOnboardingStore.getState()
+
+      let uploadResult: UploadResponse
+      try {
+        uploadResult = await uploadFileResumable<UploadResponse>(fileProgress.file, {
+          sessionId,
+          uploadType,
+          pending: pendingUploads[key],
+          signal: controller.signal,
+          onStart: ({ uploadId, offset }) => {
+            setPendingUpload(key, {
+              uploadId,
+              uploadType,
+              fileName: fileProgress.file.name,
+              fileSize: fileProgress.file.size,
+              offset,
+              updatedAt: new Date().toISOString()
+            })
+          },
+          onProgress: (offset, fileSize) => {
+            // 100% is reserved for the processed upload
+            const progress = Math.min(99, Math.round((offset / fileSize) * 100))
+            setUploadQueue(current =>
+              current.map(item => item.id === fileProgress.id ? { ...item, progress } : item)
+            )
 
-      return {
-        ...fileProgress,
-        status: 'completed',
-        progress: 100,
-        url: uploadResult.url,
-        uploadedFileMeta: {
-          id: uploadResult?.id,
-          storagePath: uploadResult?.path,
-          fullPath: uploadResult?.fullPath,
-          fileName: resolvedFileName,
-          fileSize: resolvedFileSize,
-          mimeType: resolvedMimeType,
-          url: uploadResult?.url
+            const pending = useOnboardingStore.getState().pendingUploads[key]
+            if (pending) {
+              setPendingUpload(key, { ...pending, offset, updatedAt: new Date().toISOString() })
+            }
+          }
+        })
+      } catch (error) {
+        // The server rejected the file itself: resuming it would fail the same way
+        if (error instanceof UploadRequestError && error.status >= 400 && error.status < 500 && error.status !== 429) {
+          clearPendingUpload(key)
         }
+        throw error
       }
+
+      clearPendingUpload(key)
+
+      return toCompletedUpload(fileProgress, uploadResult)
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
         throw error // Don't retry aborted uploads
       }
 
+      // The connection dropped mid-upload: finish it from the offline queue
+      if (sessionId && isNetworkError(error)) {
+        abortControllersRef.current.delete(fileProgress.id)
+        try {
+          return await queueUpload(fileProgress, sessionId)
+        } catch (queueError) {
+          error = queueError
+        }
+      }
+
       return {
         ...fileProgress,
         status: 'error',
@@ -264,6 +380,29 @@ export function FileUploadWithProgress({
       controller.abort()
     }
 
+    // Drop a file still waiting for the connection
+    const queued = queuedUploadsRef.current.get(id)
+    if (queued) {
+      queued.release()
+      queuedUploadsRef.current.delete(id)
+      getOfflineQueue()?.remove(queued.entryId).finally(() => {
+        useOnboardingStore.getState().syncOfflineQueue()
+      })
+    }
+
+    // Discard the chunks of an unfinished upload (fire-and-forget)
+    const removed = uploadQueue.find(item => item.id === id)
+    if (removed && removed.status !== 'completed' && sessionId) {
+      const key = getUploadFingerprint(removed.file, sessionId, uploadType)
+      const pending = useOnboardingStore.getState().pendingUploads[key]
+      if (pending) {
+        useOnboardingStore.getState().clearPendingUpload(key)
+        csrfFetch(`${RESUMABLE_UPLOAD_ROUTE}/${pending.uploadId}`, { method: 'DELETE' }).catch((err) => {
+          console.error('Failed to cancel upload:', err)
+        })
+      }
+    }
+
     setUploadQueue(current => current.filter(item => item.id !== id))
   }
 
@@ -302,6 +441,21 @@ export function FileUploadWithProgress({
 
   const canUploadMore = uploadQueue.length < maxFiles && !disabled
 
+  // Uploads interrupted by a reload, other than those already picked again
+  const activeUploadKeys = new Set(
+    sessionId ? uploadQueue.map(item => getUploadFingerprint(item.file, sessionId, uploadType)) : []
+  )
+  const interruptedUploads = sessionId
+    ? Object.entries(pendingUploads || {})
+        .filter(([key, upload]) =>
+          key.startsWith(`${sessionId}:`) &&
+          upload.uploadType === uploadType &&
+          !activeUploadKeys.has(key) &&
+          Date.now() - new Date(upload.updatedAt).getTime() < RESUMABLE_UPLOAD_TTL_MS
+        )
+        .map(([, upload]) => upload)
+    : []
+
   return (
     <div className={cn('space-y-4', className)}>
       {/* Upload Area */}
@@ -331,6 +485,18 @@ export function FileUploadWithProgress({
         </div>
       )}
 
+      {/* Interrupted Uploads */}
+      {canUploadMore && interruptedUploads.length > 0 && (
+        <div className="space-y-1 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+          {interruptedUploads.map((upload) => (
+            <p key={upload.uploadId} className="text-xs text-amber-800">
+              Upload of {upload.fileName} stopped at {Math.round((upload.offset / upload.fileSize) * 100)}%.
+              Select the file again to resume.
+            </p>
+          ))}
+        </div>
+      )}
+
       {/* File List */}
       {uploadQueue.length > 0 && (
         <div className="space-y-3">
@@ -382,6 +548,12 @@ export function FileUploadWithProgress({
                   </div>
                 )}
 
+                {fileProgress.status === 'queued' && (
+                  <p className="text-xs text-amber-700 mt-1">
+                    Waiting for a connection to upload
+                  </p>
+                )}
+
                 {/* Error Message */}
                 {fileProgress.status === 'error' && fileProgress.error && (
                   <p className="text-xs text-red-600 mt-1">
@@ -395,6 +567,9 @@ export function FileUploadWithProgress({
                 {fileProgress.status === 'uploading' && (
                   <Loader2 className="w-5 h-5 text-blue-500 animate-spin" />
                 )}
+                {fileProgress.status === 'queued' && (
+                  <CloudOff className="w-5 h-5 text-amber-500" />
+                )}
                 {fileProgress.status === 'completed' && (
                   <CheckCircle className="w-5 h-5 text-green-500" />
                 )}
@@ -429,7 +604,10 @@ export function FileUploadWithProgress({
         <div className="text-xs text-gray-500 space-y-1">
           <p>
             Completed: {uploadQueue.filter(f => f.status === 'completed').length} |
-            Uploading: {uploadQueue.filter(f => f.status === 'uploading').length} |
+            Uploading: {uploadQueue.filter(f => f.status === 'uploading').length} |{' '}
+            {uploadQueue.some(f => f.status === 'queued') && (
+              <>Waiting: {uploadQueue.filter(f => f.status === 'queued').length} |{' '}</>
+            )}
             Failed: {uploadQueue.filter(f => f.status === 'error').length}
           </p>
         </div>
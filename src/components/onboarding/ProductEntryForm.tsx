@@ -24,6 +24,7 @@ import { Product, UploadedFile } from '@/types/onboarding'
 import { FileUploadWithProgress, FileUploadProgress } from '@/components/onboarding/FileUploadWithProgress'
 import { useOnboardingStore } from '@/stores/onboarding'
 import { cn } from '@/lib/utils'
+import { getAssetPath, getAssetThumbnailUrl, getAssetUrl } from '@/lib/assets'
 
 // Validation schema for product input (before UUID generation)
 const ProductInputSchema = z.object({
@@ -86,7 +87,7 @@ export function ProductEntryForm({
   // Convert UploadedFile to FileUploadProgress for display (following Step 12 pattern)
   const convertToFileUploadProgress = useCallback((savedFile: UploadedFile): FileUploadProgress | null => {
     try {
-      if (!savedFile || !savedFile.url || !savedFile.fileName) return null
+      if (!savedFile || !getAssetUrl(savedFile) || !savedFile.fileName) return null
 
       // Create a mock File object for display purposes
       const mockFile = new File([], savedFile.fileName, {
@@ -107,7 +108,16 @@ export function ProductEntryForm({
         file: mockFile,
         progress: 100,
         status: 'completed',
-        url: savedFile.url
+        url: getAssetUrl(savedFile),
+        preview: savedFile.derivatives?.length ? getAssetThumbnailUrl(savedFile, 80) : undefined,
+        uploadedFileMeta: {
+          id: savedFile.id,
+          storagePath: getAssetPath(savedFile) || undefined,
+          width: savedFile.width,
+          height: savedFile.height,
+          derivatives: savedFile.derivatives,
+          url: savedFile.url
+        }
       }
     } catch (error) {
       console.error('Failed to convert saved file to progress:', error, savedFile)
@@ -125,13 +135,16 @@ export function ProductEntryForm({
 
   // Merge derived display state with ephemeral upload state (following Step 12 pattern)
   const mergedPhotosState = useMemo(() => {
-    const hasUploadingPhotos = photosUploadState.some(f => f.status === 'uploading')
+    const hasUploadingPhotos = photosUploadState.some(f => f.status === 'uploading' || f.status === 'queued')
     if (hasUploadingPhotos) return photosUploadState
     return photosDisplay
   }, [photosUploadState, photosDisplay])
 
-  // Check if any files are currently uploading
-  const isUploading = photosUploadState.some(f => f.status === 'uploading')
+  // Check if any files are currently uploading. Photos waiting for a connection
+  // only block new products: an existing product receives them once uploaded.
+  const isUploading = photosUploadState.some(f =>
+    f.status === 'uploading' || (f.status === 'queued' && !product)
+  )
 
   // Notify parent of upload state changes
   useEffect(() => {
@@ -278,6 +291,7 @@ export function ProductEntryForm({
           maxFileSize={10 * 1024 * 1024} // 10MB
           sessionId={sessionId || undefined}
           uploadType="business-asset"
+          offlineTarget={product ? { field: 'products', productId: product.id } : undefined}
           existingFiles={mergedPhotosState}
           disabled={disabled}
           onFilesChange={(files: FileUploadProgress[]) => {
@@ -295,10 +309,12 @@ export function ProductEntryForm({
                   fileName: meta?.fileName || f.file.name,
                   fileSize: typeof meta?.fileSize === 'number' ? meta.fileSize : f.file.size,
                   mimeType: meta?.mimeType || f.file.type,
-                  url: meta?.url || f.url || '',
-                  path: meta?.storagePath, // Storage path for deletion
-                  width: undefined,
-                  height: undefined,
+                  path: meta?.storagePath,
+                  // Only photos saved before paths were stored lack one
+                  url: meta?.storagePath ? undefined : meta?.url,
+                  width: meta?.width,
+                  height: meta?.height,
+                  derivatives: meta?.derivatives,
                   uploadedAt: new Date().toISOString()
                 }
               })
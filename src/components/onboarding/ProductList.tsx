@@ -17,6 +17,7 @@ import { motion } from 'framer-motion'
 import { Edit2, Trash2, GripVertical, Euro } from 'lucide-react'
 import Image from 'next/image'
 import { cn } from '@/lib/utils'
+import { getAssetThumbnailUrl } from '@/lib/assets'
 import { Product } from '@/types/onboarding'
 import { ProductPlaceholder } from './ProductPlaceholder'
 import { Button } from '@/components/ui/button'
@@ -86,7 +87,8 @@ export function ProductList({
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
       {products.map((product) => {
-        const firstPhoto = product.photos?.[0]
+        // 80px thumbnail, 160px rendition for high-density screens
+        const firstPhotoUrl = getAssetThumbnailUrl(product.photos?.[0], 160)
         const isDragging = draggedItem === product.id
 
         return (
@@ -105,13 +107,15 @@ export function ProductList({
               <div className="flex gap-4 p-4">
                 {/* Thumbnail */}
                 <div className="flex-shrink-0 relative">
-                  {firstPhoto ? (
+                  {firstPhotoUrl ? (
                     <div className="w-20 h-20 rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700">
                       <Image
-                        src={firstPhoto.url}
+                        src={firstPhotoUrl}
                         alt={product.name}
                         width={80}
                         height={80}
+                        // Served through a redirect to a short-lived signed URL
+                        unoptimized
                         className="object-cover w-full h-full"
                       />
                     </div>
@@ -3,10 +3,11 @@
 import { useTranslations } from 'next-intl'
 import { motion } from 'framer-motion'
 import { useReducedMotion } from 'framer-motion'
-import { CheckCircle2, Circle, Play } from 'lucide-react'
+import { CheckCircle2, Circle, CloudOff, Play, RefreshCw } from 'lucide-react'
 
 import { Progress } from '@/components/ui/progress'
 import { cn } from '@/lib/utils'
+import { useOnboardingStore } from '@/stores/onboarding'
 
 interface ProgressBarProps {
   currentStep: number
@@ -41,8 +42,9 @@ export function ProgressBar({
   return (
     <div className={cn("space-y-3", className)}>
       <div className="flex items-center justify-between text-sm">
-        <span className="font-medium text-foreground">
+        <span className="flex items-center gap-3 font-medium text-foreground">
           {t('progress', { current: currentStep, total: totalSteps })}
+          <SyncStatusIndicator />
         </span>
         <span className="font-medium text-muted-foreground">
           {Math.round(progressPercentage)}%
@@ -196,7 +198,10 @@ function DetailedProgressBar({
           className="h-2"
         />
         <div className="flex justify-between text-sm text-muted-foreground">
-          <span>{t('step')} {currentStep}</span>
+          <span className="flex items-center gap-3">
+            {t('step')} {currentStep}
+            <SyncStatusIndicator />
+          </span>
           <span>{Math.round((currentStep / totalSteps) * 100)}% {t('complete')}</span>
         </div>
       </div>
@@ -204,6 +209,49 @@ function DetailedProgressBar({
   )
 }
 
+/**
+ * Offline / syncing state of the onboarding queue (src/lib/offline-queue.ts).
+ * Renders nothing while every change has reached the server.
+ */
+export function SyncStatusIndicator({ className }: { className?: string }) {
+  const t = useTranslations('onboarding.offline')
+  const isOffline = useOnboardingStore(state => state.isOffline)
+  const isSyncing = useOnboardingStore(state => state.isSyncing)
+  const queuedChanges = useOnboardingStore(state => state.queuedChanges)
+
+  if (!isOffline && !isSyncing && queuedChanges === 0) {
+    return null
+  }
+
+  const label = isOffline
+    ? t('offline')
+    : isSyncing
+      ? t('syncing', { count: queuedChanges })
+      : t('pending', { count: queuedChanges })
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1.5 rounded-full px-2 py-0.5 text-xs font-medium",
+        isOffline
+          ? "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200"
+          : "bg-muted text-muted-foreground",
+        className
+      )}
+      role="status"
+      aria-live="polite"
+      data-testid="sync-status"
+    >
+      {isOffline ? (
+        <CloudOff className="h-3.5 w-3.5" aria-hidden="true" />
+      ) : (
+        <RefreshCw className={cn("h-3.5 w-3.5", isSyncing && "animate-spin")} aria-hidden="true" />
+      )}
+      {label}
+    </span>
+  )
+}
+
 // Simplified mobile progress bar
 export function MobileProgressBar({
   currentStep,
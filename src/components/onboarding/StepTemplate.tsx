@@ -12,6 +12,7 @@ import { Progress } from '@/components/ui/progress'
 import { useOnboardingStore } from '@/stores/onboarding'
 import { cn } from '@/lib/utils'
 import { LiveRegion } from './AccessibilityAnnouncer'
+import { SyncStatusIndicator } from './ProgressBar'
 
 interface StepTemplateProps {
   stepNumber: number
@@ -239,6 +240,7 @@ export function StepTemplate({
                 {tA11y('currentStep', { step: stepNumber, total: 14 })}
               </span>
               {renderAutoSaveIndicator()}
+              <SyncStatusIndicator />
             </div>
             <div className="text-sm font-medium" aria-hidden="true">
               {Math.round(progressPercentage)}%
@@ -14,6 +14,7 @@ import { Button } from '@/components/ui/button'
 import { StepComponentProps } from './index'
 import { useOnboardingStore } from '@/stores/onboarding'
 import { generateUUID } from '@/lib/utils'
+import { getAssetPath, getAssetThumbnailUrl, getAssetUrl } from '@/lib/assets'
 
 /**
  * Error types for upload failures
@@ -100,7 +101,7 @@ export function Step12BusinessAssets({ form, errors, isLoading }: StepComponentP
     try {
       // Validate required fields
       if (!savedFile || typeof savedFile !== 'object') return null
-      if (!savedFile.url || typeof savedFile.url !== 'string') return null
+      if (!getAssetUrl(savedFile)) return null
       if (!savedFile.fileName || typeof savedFile.fileName !== 'string') return null
 
       // Create a mock File object for display purposes with proper size
@@ -122,9 +123,19 @@ export function Step12BusinessAssets({ form, errors, isLoading }: StepComponentP
         file: mockFile,
         progress: 100,
         status: 'completed',
-        url: savedFile.url
-        // Note: preview is intentionally omitted for restored files
-        // The FileUploadWithProgress component will show a file icon instead
+        url: getAssetUrl(savedFile),
+        preview: savedFile.derivatives?.length ? getAssetThumbnailUrl(savedFile, 80) : undefined,
+        // Carry the storage path so re-saving keeps files restored from older form data
+        uploadedFileMeta: {
+          id: savedFile.id,
+          storagePath: getAssetPath(savedFile) || undefined,
+          width: savedFile.width,
+          height: savedFile.height,
+          derivatives: savedFile.derivatives,
+          url: savedFile.url
+        }
+        // Note: restored files without derivatives (older uploads) get no preview;
+        // the FileUploadWithProgress component shows a file icon instead
       }
     } catch (error) {
       console.error('Failed to convert saved file to progress:', error, savedFile)
@@ -168,8 +179,8 @@ export function Step12BusinessAssets({ form, errors, isLoading }: StepComponentP
    * - After navigation: Show persisted data from derived state
    */
   const mergedLogoState = React.useMemo(() => {
-    // If actively uploading, show upload state
-    const hasUploadingLogo = logoUploadState.some(f => f.status === 'uploading')
+    // If actively uploading (or waiting for a connection), show upload state
+    const hasUploadingLogo = logoUploadState.some(f => f.status === 'uploading' || f.status === 'queued')
     if (hasUploadingLogo) return logoUploadState
 
     // Otherwise show persisted data from form
@@ -177,8 +188,8 @@ export function Step12BusinessAssets({ form, errors, isLoading }: StepComponentP
   }, [logoUploadState, logoDisplay])
 
   const mergedPhotosState = React.useMemo(() => {
-    // If actively uploading, show upload state
-    const hasUploadingPhotos = photosUploadState.some(f => f.status === 'uploading')
+    // If actively uploading (or waiting for a connection), show upload state
+    const hasUploadingPhotos = photosUploadState.some(f => f.status === 'uploading' || f.status === 'queued')
     if (hasUploadingPhotos) return photosUploadState
 
     // Otherwise show persisted data from form
@@ -253,6 +264,7 @@ export function Step12BusinessAssets({ form, errors, isLoading }: StepComponentP
                     maxFileSize={2 * 1024 * 1024} // 2MB
                     sessionId={sessionId || undefined}
                     uploadType="logo"
+                    offlineTarget={{ field: 'logoUpload' }}
                     existingFiles={mergedLogoState}
                     onFilesChange={(files: FileUploadProgress[]) => {
                       /**
@@ -289,9 +301,11 @@ export function Step12BusinessAssets({ form, errors, isLoading }: StepComponentP
                           ? meta.fileSize
                           : completedFile.file.size
                         const resolvedMimeType = meta?.mimeType || completedFile.file.type
-                        const resolvedUrl = meta?.url || completedFile.url
+                        const resolvedPath = meta?.storagePath
+                        // Only files saved before paths were stored lack one
+                        const legacyUrl = resolvedPath ? undefined : meta?.url
 
-                        if (!resolvedFileName || !resolvedUrl) {
+                        if (!resolvedFileName || (!resolvedPath && !legacyUrl)) {
                           console.warn('[Step12BusinessAssets] Missing logo upload metadata', {
                             meta,
                             fileId: completedFile.id
@@ -305,7 +319,11 @@ export function Step12BusinessAssets({ form, errors, isLoading }: StepComponentP
                           fileName: resolvedFileName,
                           fileSize: resolvedFileSize,
                           mimeType: resolvedMimeType,
-                          url: resolvedUrl,
+                          path: resolvedPath,
+                          url: legacyUrl,
+                          width: meta?.width,
+                          height: meta?.height,
+                          derivatives: meta?.derivatives,
                           uploadedAt: new Date().toISOString()
                         }
                         field.onChange(newValue)
@@ -448,6 +466,7 @@ export function Step12BusinessAssets({ form, errors, isLoading }: StepComponentP
                     maxFiles={30}
                     maxFileSize={10 * 1024 * 1024} // 10MB per file
                     sessionId={sessionId || undefined}
+                    offlineTarget={{ field: 'businessPhotos' }}
                     existingFiles={mergedPhotosState}
                     onFilesChange={(files: FileUploadProgress[]) => {
                       /**
@@ -480,9 +499,10 @@ export function Step12BusinessAssets({ form, errors, isLoading }: StepComponentP
                             ? meta.fileSize
                             : f.file.size
                           const resolvedMimeType = meta?.mimeType || f.file.type
-                          const resolvedUrl = meta?.url || f.url
+                          const resolvedPath = meta?.storagePath
+                          const legacyUrl = resolvedPath ? undefined : meta?.url
 
-                          if (!resolvedFileName || !resolvedUrl) {
+                          if (!resolvedFileName || (!resolvedPath && !legacyUrl)) {
                             console.warn('[Step12BusinessAssets] Missing metadata for business photo upload', {
                               meta,
                               fileId: f.id
@@ -495,18 +515,15 @@ export function Step12BusinessAssets({ form, errors, isLoading }: StepComponentP
                             fileName: resolvedFileName,
                             fileSize: resolvedFileSize,
                             mimeType: resolvedMimeType,
-                            url: resolvedUrl,
+                            path: resolvedPath,
+                            url: legacyUrl,
+                            width: meta?.width,
+                            height: meta?.height,
+                            derivatives: meta?.derivatives,
                             uploadedAt: new Date().toISOString()
                           }
                         })
-                        .filter((value): value is {
-                          id: string
-                          fileName: string
-                          fileSize: number
-                          mimeType: string
-                          url: string
-                          uploadedAt: string
-                        } => value !== null)
+                        .filter((value): value is NonNullable<typeof value> => value !== null)
 
                       // Check if there are actual changes before updating form
                       const currentFormValue = field.value || []
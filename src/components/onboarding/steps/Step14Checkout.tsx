@@ -10,6 +10,7 @@ import {
   Lock,
   CheckCircle2,
   AlertCircle,
+  CloudOff,
   Loader2,
   ShoppingCart,
   Tag
@@ -35,8 +36,10 @@ import {
   getLanguageName
 } from '@/data/european-languages'
 import { CheckoutSession } from '@/types/onboarding'
-import { trackPurchase } from '@/lib/analytics'
+import { getPurchaseTransactionId, trackPurchase } from '@/lib/analytics'
+import { csrfFetch } from '@/lib/csrf-fetch'
 import { Locale } from '@/lib/i18n'
+import { useOnboardingStore } from '@/stores/onboarding'
 
 // Initialize Stripe
 const STRIPE_KEY = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY!
@@ -123,8 +126,11 @@ function CheckoutForm({
   onZeroPaymentComplete
 }: CheckoutFormProps) {
   const t = useTranslations('onboarding.steps.14')
+  const tOffline = useTranslations('onboarding.offline')
   const locale = useLocale() as Locale
   const { control, watch } = form
+  // Everything else works offline; paying needs a connection
+  const isOffline = useOnboardingStore((state) => state.isOffline)
 
   const [isProcessing, setIsProcessing] = useState(false)
   const [paymentError, setPaymentError] = useState<string | null>(null)
@@ -264,6 +270,10 @@ function CheckoutForm({
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    if (isOffline) {
+      return
+    }
+
     if (effectiveNoPayment) {
       setIsProcessing(true)
       onZeroPaymentComplete()
@@ -314,7 +324,7 @@ function CheckoutForm({
             setupIntentId: setupIntent.id
           })
           // Track purchase event (value is 0 for setup intents)
-          trackPurchase(setupIntent.id, 0, 'EUR')
+          trackPurchase(getPurchaseTransactionId(submissionId), 0, 'EUR')
           window.location.href = `/${locale}/onboarding/thank-you`
           return
         }
@@ -348,7 +358,7 @@ function CheckoutForm({
             paymentIntentId: paymentIntent.id
           })
           // Track purchase event with actual payment amount
-          trackPurchase(paymentIntent.id, totalDueToday, 'EUR')
+          trackPurchase(getPurchaseTransactionId(submissionId), totalDueToday, 'EUR')
           window.location.href = `/${locale}/onboarding/thank-you`
           return
         }
@@ -389,24 +399,14 @@ function CheckoutForm({
       setIsVerifyingDiscount(true)
       setDiscountValidation(null)
 
-      // Fetch CSRF token first
-      const csrfResponse = await fetch(`/api/csrf-token?sessionId=${sessionId}`)
-      const csrfData = await csrfResponse.json()
-
-      if (!csrfResponse.ok || !csrfData.success) {
-        throw new Error('Failed to get CSRF token')
-      }
-
       // Create AbortController with 10-minute timeout (600000ms)
       const controller = new AbortController()
       const timeoutId = setTimeout(() => controller.abort(), 600000)
 
-      const response = await fetch('/api/stripe/validate-discount', {
+      const response = await csrfFetch('/api/stripe/validate-discount', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'X-CSRF-Token': csrfData.token,
-          ...(process.env.NODE_ENV !== 'production' ? { 'X-Test-Mode': 'true' } : {})
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           discountCode: code,
@@ -497,20 +497,10 @@ function CheckoutForm({
   useEffect(() => {
     async function fetchPreview() {
       try {
-        const csrfResponse = await fetch(`/api/csrf-token?sessionId=${sessionId}`)
-        const csrfData = await csrfResponse.json()
-
-        if (!csrfResponse.ok || !csrfData.success) {
-          console.error('Failed to get CSRF token')
-          return
-        }
-
-        const response = await fetch('/api/stripe/preview-invoice', {
+        const response = await csrfFetch('/api/stripe/preview-invoice', {
           method: 'POST',
           headers: {
-            'Content-Type': 'application/json',
-            'X-CSRF-Token': csrfData.token,
-            ...(process.env.NODE_ENV !== 'production' ? { 'X-Test-Mode': 'true' } : {})
+            'Content-Type': 'application/json'
           },
           body: JSON.stringify({
             sessionId,
@@ -892,6 +882,16 @@ function CheckoutForm({
         </motion.div>
       )}
 
+      {isOffline && (
+        <Alert data-testid="checkout-offline">
+          <CloudOff className="w-4 h-4" />
+          <AlertDescription>
+            <p className="font-semibold mb-1">{tOffline('paymentTitle')}</p>
+            <p className="text-sm">{tOffline('paymentDescription')}</p>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Submit Button */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -903,6 +903,7 @@ function CheckoutForm({
           type="submit"
           size="lg"
           disabled={
+            isOffline ||
             isProcessing ||
             isLoading ||
             !acceptTerms ||
@@ -1130,28 +1131,18 @@ function CheckoutFormWrapper(props: CheckoutWrapperProps) {
     requestAbortControllerRef.current = controller
 
     try {
-      const csrfTargetId = sessionId
-      if (!csrfTargetId) {
-        throw new Error('Missing session ID for CSRF token request')
-      }
-
-      const csrfResponse = await fetch(`/api/csrf-token?sessionId=${csrfTargetId}`)
-      const csrfData = await csrfResponse.json()
-
-      if (!csrfResponse.ok || !csrfData.success) {
-        throw new Error('Failed to get CSRF token')
+      if (!sessionId) {
+        throw new Error('Missing session ID for checkout request')
       }
 
-      const response = await fetch('/api/stripe/create-checkout-session', {
+      const response = await csrfFetch('/api/stripe/create-checkout-session', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'X-CSRF-Token': csrfData.token,
-          ...(process.env.NODE_ENV !== 'production' ? { 'X-Test-Mode': 'true' } : {})
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           submission_id: submissionId,
-          session_id: csrfTargetId,
+          session_id: sessionId,
           additionalLanguages: normalizedLanguages,
           discountCode: discountCode ?? undefined,
           successUrl: `${window.location.origin}/${locale}/onboarding/thank-you`,
@@ -1162,7 +1153,7 @@ function CheckoutFormWrapper(props: CheckoutWrapperProps) {
       if (typeof window !== 'undefined') {
         ;(window as any).__wb_lastCheckoutRequest = {
           submission_id: submissionId,
-          session_id: csrfTargetId,
+          session_id: sessionId,
           additionalLanguages: normalizedLanguages,
           discountCode: discountCode ?? null
         }
@@ -1285,7 +1276,7 @@ function CheckoutFormWrapper(props: CheckoutWrapperProps) {
 
     zeroRedirectingRef.current = true
     // Track purchase event for zero payment (100% discount)
-    trackPurchase(`zero_payment_${submissionId}`, 0, 'EUR')
+    trackPurchase(getPurchaseTransactionId(submissionId), 0, 'EUR')
     window.location.href = `${window.location.origin}/${locale}/onboarding/thank-you`
   }, [locale, submissionId])
 
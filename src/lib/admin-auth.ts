@@ -0,0 +1,101 @@
+/**
+ * Admin Authentication Utilities
+ * Stateless, HMAC-signed admin session cookie for the internal dashboard
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { NextRequest } from 'next/server'
+
+export const ADMIN_SESSION_COOKIE = 'wb_admin_session'
+export const ADMIN_SESSION_TTL = 8 * 3600000 // 8 hours in milliseconds
+
+// ADMIN_SESSION_SECRET falls back to SESSION_SECRET so existing deployments keep working
+const getAdminSecret = () => {
+  if (process.env.NODE_ENV === 'test') {
+    return 'test-admin-secret'
+  }
+
+  const secret = process.env.ADMIN_SESSION_SECRET || process.env.SESSION_SECRET
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('ADMIN_SESSION_SECRET environment variable is required in production')
+    }
+    // Development fallback
+    return 'development-admin-secret-change-in-production'
+  }
+  return secret
+}
+
+const sign = (payload: string) =>
+  createHmac('sha256', getAdminSecret()).update(payload).digest('hex')
+
+const safeEqual = (a: string, b: string) => {
+  const bufA = Buffer.from(a)
+  const bufB = Buffer.from(b)
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB)
+}
+
+/**
+ * Check the submitted password against ADMIN_PASSWORD
+ * Always fails when ADMIN_PASSWORD is not configured
+ */
+export function verifyAdminPassword(password: string): boolean {
+  const expected = process.env.ADMIN_PASSWORD
+  if (!expected || !password) {
+    return false
+  }
+  return safeEqual(password, expected)
+}
+
+/**
+ * Create a signed admin session token
+ * Token format: base64("admin|expiresAt.signature")
+ */
+export function createAdminSessionToken(now: number = Date.now()): {
+  token: string
+  expiresAt: number
+} {
+  const expiresAt = now + ADMIN_SESSION_TTL
+  const payload = `admin|${expiresAt}`
+  const token = Buffer.from(`${payload}.${sign(payload)}`).toString('base64')
+
+  return { token, expiresAt }
+}
+
+/**
+ * Validate a signed admin session token
+ */
+export function verifyAdminSessionToken(token: string | undefined | null, now: number = Date.now()): boolean {
+  if (!token) {
+    return false
+  }
+
+  try {
+    const decoded = Buffer.from(token, 'base64').toString('utf-8')
+    const [payload, signature] = decoded.split('.')
+
+    if (!payload || !signature || !safeEqual(signature, sign(payload))) {
+      return false
+    }
+
+    const [role, expiresAt] = payload.split('|')
+    return role === 'admin' && now < parseInt(expiresAt, 10)
+  } catch (error) {
+    console.error('Admin session validation error:', error)
+    return false
+  }
+}
+
+/**
+ * Guard for admin API routes
+ * Use this at the top of every /api/admin/* handler
+ */
+export function requireAdmin(request: NextRequest): { authorized: boolean; error?: string } {
+  const token = request.cookies.get(ADMIN_SESSION_COOKIE)?.value
+
+  if (!verifyAdminSessionToken(token)) {
+    return { authorized: false, error: 'Admin authentication required' }
+  }
+
+  return { authorized: true }
+}
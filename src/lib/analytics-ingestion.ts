@@ -0,0 +1,131 @@
+/**
+ * Batched Analytics Ingestion
+ * Shape and validation of the event batches the browser sends to
+ * /api/onboarding/analytics/batch (by fetch, or sendBeacon while the page unloads).
+ *
+ * The browser tracker and the batch route both use these limits, so a batch the
+ * client builds is never rejected for a rule only the server knows.
+ */
+
+import {
+  ANALYTICS_CATEGORIES,
+  ANALYTICS_EVENT_TYPES,
+  AnalyticsBatchEvent,
+  AnalyticsCategory,
+  AnalyticsEventType,
+  TOTAL_STEPS
+} from '@/types/onboarding'
+
+export const ANALYTICS_BATCH_PATH = '/api/onboarding/analytics/batch'
+export const MAX_ANALYTICS_BATCH_SIZE = 50
+// sendBeacon payloads are capped at 64KB by browsers
+export const MAX_ANALYTICS_BATCH_BYTES = 64 * 1024
+
+const MAX_EVENT_ID_LENGTH = 64
+const MAX_FIELD_NAME_LENGTH = 100
+const MAX_METADATA_BYTES = 4 * 1024
+// Client clocks drift; queued events are at most a day old
+const MAX_FUTURE_SKEW_MS = 5 * 60000
+const MAX_EVENT_AGE_MS = 24 * 3600000
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/** Event ready to insert into onboarding_analytics */
+export interface IngestedAnalyticsEvent {
+  client_event_id: string
+  session_id: string
+  event_type: AnalyticsEventType
+  step_number: number | null
+  field_name: string | null
+  metadata: Record<string, any>
+  category: AnalyticsCategory
+  duration_ms: number | null
+  created_at: string
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Validate one event; returns null when it must be dropped
+ */
+export function normalizeBatchEvent(event: unknown, now: number = Date.now()): IngestedAnalyticsEvent | null {
+  if (!isPlainObject(event)) return null
+
+  const { id, sessionId, eventType, metadata, stepNumber, fieldName, category, durationMs, timestamp } =
+    event as Partial<AnalyticsBatchEvent>
+
+  if (typeof id !== 'string' || id.length === 0 || id.length > MAX_EVENT_ID_LENGTH) return null
+  if (typeof sessionId !== 'string' || !SESSION_ID_PATTERN.test(sessionId)) return null
+  if (!ANALYTICS_EVENT_TYPES.includes(eventType as AnalyticsEventType)) return null
+  if (category !== undefined && !ANALYTICS_CATEGORIES.includes(category)) return null
+
+  if (stepNumber !== undefined && stepNumber !== null &&
+      (!Number.isInteger(stepNumber) || stepNumber < 1 || stepNumber > TOTAL_STEPS)) {
+    return null
+  }
+
+  if (fieldName !== undefined && fieldName !== null &&
+      (typeof fieldName !== 'string' || fieldName.length > MAX_FIELD_NAME_LENGTH)) {
+    return null
+  }
+
+  if (durationMs !== undefined && durationMs !== null &&
+      (typeof durationMs !== 'number' || !Number.isFinite(durationMs) || durationMs < 0)) {
+    return null
+  }
+
+  if (metadata !== undefined && (!isPlainObject(metadata) || JSON.stringify(metadata).length > MAX_METADATA_BYTES)) {
+    return null
+  }
+
+  // Keep when the event happened (queued events arrive late), within reason
+  const happenedAt = typeof timestamp === 'number' &&
+    timestamp <= now + MAX_FUTURE_SKEW_MS &&
+    timestamp >= now - MAX_EVENT_AGE_MS
+    ? timestamp
+    : now
+
+  return {
+    client_event_id: id,
+    session_id: sessionId,
+    event_type: eventType as AnalyticsEventType,
+    step_number: stepNumber ?? null,
+    field_name: fieldName ?? null,
+    metadata: metadata || {},
+    category: category || 'user_action',
+    duration_ms: durationMs === undefined || durationMs === null ? null : Math.round(durationMs),
+    created_at: new Date(happenedAt).toISOString()
+  }
+}
+
+/**
+ * Validate a batch body: `{ events: [...] }`
+ * Invalid events are dropped individually; duplicates within the batch are
+ * collapsed. Returns null when the body itself is malformed.
+ */
+export function parseAnalyticsBatch(
+  body: unknown,
+  now: number = Date.now()
+): { events: IngestedAnalyticsEvent[]; rejected: number } | null {
+  if (!isPlainObject(body) || !Array.isArray(body.events) ||
+      body.events.length === 0 || body.events.length > MAX_ANALYTICS_BATCH_SIZE) {
+    return null
+  }
+
+  const events = new Map<string, IngestedAnalyticsEvent>()
+  let rejected = 0
+
+  body.events.forEach((event: unknown) => {
+    const normalized = normalizeBatchEvent(event, now)
+    if (!normalized) {
+      rejected++
+    } else {
+      // Ids are unique per session, like the table's constraint
+      const key = `${normalized.session_id}:${normalized.client_event_id}`
+      if (!events.has(key)) events.set(key, normalized)
+    }
+  })
+
+  return { events: Array.from(events.values()), rejected }
+}
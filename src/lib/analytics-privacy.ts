@@ -0,0 +1,85 @@
+/**
+ * Consent-aware request context for first-party onboarding analytics
+ * Visitors who have not granted analytics consent are stored with a truncated
+ * IP and without user agent detail (GDPR, Garante and UODO guidance).
+ */
+
+import { NextRequest } from 'next/server'
+import { CONSENT_COOKIE_NAME, parseConsentCookie } from '@/lib/cookie-consent'
+import { getClientIdentifier } from '@/lib/rate-limit'
+
+export interface AnalyticsRequestContext {
+  analyticsConsent: boolean
+  ipAddress: string
+  userAgent: string
+}
+
+// Metadata keys clients may send the user agent under (compatibility issues)
+const USER_AGENT_KEYS = ['user_agent', 'userAgent']
+
+const MOBILE_USER_AGENT = /mobi|android|iphone|ipad|ipod/i
+
+/**
+ * Truncate an IP address to its network
+ * IPv4 keeps the first three octets, IPv6 the first 48 bits.
+ */
+export function anonymizeIp(ip: string): string {
+  const address = ip.trim()
+
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(address)) {
+    return address.replace(/\.\d{1,3}$/, '.0')
+  }
+
+  if (address.includes(':')) {
+    // Expand "::" just enough to find the first three groups
+    const [head] = address.split('::')
+    const groups = head.split(':').filter(Boolean)
+    while (groups.length < 3) groups.push('0')
+    return `${groups.slice(0, 3).join(':')}::`
+  }
+
+  return 'unknown'
+}
+
+/**
+ * Read consent and client details from an analytics request
+ */
+export function getAnalyticsRequestContext(request: NextRequest): AnalyticsRequestContext {
+  return {
+    analyticsConsent: parseConsentCookie(request.cookies.get(CONSENT_COOKIE_NAME)?.value).analytics,
+    ipAddress: getClientIdentifier(request),
+    userAgent: request.headers.get('user-agent') || 'unknown'
+  }
+}
+
+/**
+ * Add request context to event metadata, respecting analytics consent
+ * Without consent only a device class survives from the user agent, so the
+ * funnel can still split mobile from desktop.
+ */
+export function applyAnalyticsPrivacy(
+  metadata: Record<string, any>,
+  context: AnalyticsRequestContext
+): Record<string, any> {
+  if (context.analyticsConsent) {
+    return {
+      ...metadata,
+      ip_address: context.ipAddress,
+      user_agent: context.userAgent,
+      analytics_consent: true
+    }
+  }
+
+  const scrubbed = { ...metadata }
+  USER_AGENT_KEYS.forEach(key => delete scrubbed[key])
+
+  if (typeof scrubbed.is_mobile !== 'boolean' && context.userAgent !== 'unknown') {
+    scrubbed.is_mobile = MOBILE_USER_AGENT.test(context.userAgent)
+  }
+
+  return {
+    ...scrubbed,
+    ip_address: anonymizeIp(context.ipAddress),
+    analytics_consent: false
+  }
+}
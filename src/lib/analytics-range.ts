@@ -0,0 +1,69 @@
+/**
+ * Analytics query filters
+ * Parses the date range and locale shared by the admin analytics endpoints.
+ */
+
+import { Locale, locales } from '@/lib/i18n'
+
+export const DEFAULT_ANALYTICS_RANGE_DAYS = 30
+export const MAX_ANALYTICS_RANGE_DAYS = 366
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export interface AnalyticsRangeFilters {
+  from?: Date
+  to?: Date
+  locale?: Locale
+}
+
+// A bare date as `to` includes that whole day
+const parseDate = (value: string | null, endOfDay: boolean): Date | null | undefined => {
+  if (!value) return undefined
+
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return null
+
+  if (endOfDay && DATE_ONLY_PATTERN.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1)
+  }
+  return date
+}
+
+/**
+ * Read `from`, `to` (ISO dates, `to` exclusive unless a bare date) and `locale`
+ */
+export function parseAnalyticsRange(
+  searchParams: URLSearchParams,
+  now: Date = new Date()
+): { filters: AnalyticsRangeFilters; error?: undefined } | { filters?: undefined; error: string } {
+  const from = parseDate(searchParams.get('from'), false)
+  const to = parseDate(searchParams.get('to'), true)
+  const locale = searchParams.get('locale') || undefined
+
+  if (from === null || to === null) {
+    return { error: 'from and to must be ISO dates' }
+  }
+
+  if (from && to && from >= to) {
+    return { error: 'from must be before to' }
+  }
+
+  if (from && (to || now).getTime() - from.getTime() > MAX_ANALYTICS_RANGE_DAYS * 24 * 3600000) {
+    return { error: `Date range cannot exceed ${MAX_ANALYTICS_RANGE_DAYS} days` }
+  }
+
+  if (locale && !locales.includes(locale as Locale)) {
+    return { error: `Invalid locale. Use one of: ${locales.join(', ')}` }
+  }
+
+  return { filters: { from, to, locale: locale as Locale | undefined } }
+}
+
+/**
+ * Fill in the default range (the last 30 days up to now)
+ */
+export function resolveAnalyticsRange(filters: AnalyticsRangeFilters): { from: Date; to: Date } {
+  const to = filters.to || new Date()
+  const from = filters.from || new Date(to.getTime() - DEFAULT_ANALYTICS_RANGE_DAYS * 24 * 3600000)
+  return { from, to }
+}
@@ -124,6 +124,15 @@ export function trackOnboardingComplete(): void {
   }, 'onboarding_complete')
 }
 
+/**
+ * Transaction id of an onboarding purchase
+ * The payment webhook reports the same id server-side, so GA4 counts the
+ * purchase once when both the browser and the server event arrive.
+ */
+export function getPurchaseTransactionId(submissionId: string): string {
+  return submissionId
+}
+
 /**
  * wb_purchase - Payment success for Fast & Simple
  * Fire only on confirmed payment success
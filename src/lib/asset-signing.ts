@@ -0,0 +1,51 @@
+/**
+ * Signed Asset Links
+ * Long-lived asset URLs for places without a session or admin cookie (emails).
+ * The HMAC covers the storage path, so a link only ever opens that one file.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { getAssetPath, getAssetUrl } from '@/lib/assets'
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://whiteboar.it'
+
+// ASSET_URL_SECRET falls back to SESSION_SECRET so existing deployments keep working
+const getAssetSecret = () => {
+  if (process.env.NODE_ENV === 'test') {
+    return 'test-asset-secret'
+  }
+
+  const secret = process.env.ASSET_URL_SECRET || process.env.SESSION_SECRET
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('ASSET_URL_SECRET environment variable is required in production')
+    }
+    // Development fallback
+    return 'development-asset-secret-change-in-production'
+  }
+  return secret
+}
+
+export function createAssetToken(path: string): string {
+  return createHmac('sha256', getAssetSecret())
+    .update(`asset|${path}`)
+    .digest('hex')
+}
+
+export function verifyAssetToken(path: string, token: string | null | undefined): boolean {
+  const expected = Buffer.from(createAssetToken(path))
+  const received = Buffer.from(token || '')
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+/**
+ * Absolute, signed asset URL; empty when the file has no storage path
+ */
+export function getSignedAssetUrl(file: { path?: string; url?: string } | null | undefined): string {
+  const path = getAssetPath(file)
+  if (!path) {
+    return ''
+  }
+
+  return `${APP_URL}${getAssetUrl({ path })}?token=${createAssetToken(path)}`
+}
@@ -0,0 +1,101 @@
+/**
+ * Uploaded Asset URLs
+ * Uploads are referenced by their storage path only. Every render resolves the
+ * path to the /api/assets route, which checks access and redirects to a
+ * short-lived signed storage URL, so links never expire in saved form data.
+ *
+ * The upload routes and the form components build these paths alike; request
+ * signing lives in asset-signing.ts so the secret never reaches the browser.
+ */
+
+import { ImageDerivative, ImageDerivativeFormat } from '@/types/onboarding'
+
+export const ASSET_BUCKET = 'onboarding-uploads'
+export const ASSET_ROUTE = '/api/assets'
+// Top-level folders of the bucket, one per upload type
+export const ASSET_FOLDERS = ['logo', 'business-asset', 'product-photo'] as const
+
+const ASSET_PATH_PATTERN = new RegExp(`^(${ASSET_FOLDERS.join('|')})/[^/\\\\]+$`)
+// Uploads made before paths were stored only kept a signed (or public) storage URL
+const STORAGE_URL_PATTERN = new RegExp(`/storage/v1/object/(?:sign|public)/${ASSET_BUCKET}/([^?#]+)`)
+
+export interface AssetReference {
+  path?: string
+  /** @deprecated Signed URL saved by older uploads; used only to recover the path */
+  url?: string
+  derivatives?: ImageDerivative[]
+}
+
+/**
+ * Storage paths the upload route can produce (no traversal, known folders)
+ */
+export function isValidAssetPath(path: string | null | undefined): path is string {
+  return !!path && !path.includes('..') && ASSET_PATH_PATTERN.test(path)
+}
+
+/**
+ * Storage path of an uploaded file, recovering it from legacy signed URLs
+ */
+export function getAssetPath(file: AssetReference | null | undefined): string | null {
+  if (!file) {
+    return null
+  }
+
+  if (isValidAssetPath(file.path)) {
+    return file.path
+  }
+
+  const match = file.url?.match(STORAGE_URL_PATTERN)
+  if (!match) {
+    return null
+  }
+
+  try {
+    const path = decodeURIComponent(match[1])
+    return isValidAssetPath(path) ? path : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * URL that serves an uploaded file
+ * Onboarding sessions and admins are authorized by their session cookies.
+ */
+export function getAssetUrl(file: AssetReference | null | undefined): string {
+  const path = getAssetPath(file)
+  if (!path) {
+    // External URLs that never pointed at our bucket are rendered as saved
+    return file?.url || ''
+  }
+
+  return `${ASSET_ROUTE}/${path.split('/').map(encodeURIComponent).join('/')}`
+}
+
+/**
+ * Smallest derivative at least `minWidth` wide (the largest one otherwise)
+ */
+export function getAssetDerivative(
+  file: AssetReference | null | undefined,
+  minWidth: number,
+  format: ImageDerivativeFormat = 'webp'
+): ImageDerivative | null {
+  const candidates = (file?.derivatives || [])
+    .filter(derivative => derivative.format === format && isValidAssetPath(derivative.path))
+    .sort((a, b) => a.width - b.width)
+
+  return candidates.find(derivative => derivative.width >= minWidth) || candidates[candidates.length - 1] || null
+}
+
+/**
+ * URL of a rendition suited to display at `minWidth` CSS pixels
+ * Uploads made before derivatives existed fall back to the original.
+ */
+export function getAssetThumbnailUrl(
+  file: AssetReference | null | undefined,
+  minWidth: number,
+  format: ImageDerivativeFormat = 'webp'
+): string {
+  const derivative = getAssetDerivative(file, minWidth, format)
+  return derivative ? getAssetUrl({ path: derivative.path }) : getAssetUrl(file)
+}
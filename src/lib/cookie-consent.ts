@@ -14,6 +14,33 @@ export interface CookieConsent {
 
 const COOKIE_CONSENT_KEY = 'wb_cookie_consent';
 
+// Mirror of the choice the server can read (first-party analytics, purchase tracking)
+export const CONSENT_COOKIE_NAME = 'wb_consent';
+const CONSENT_COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+/**
+ * Parse the consent cookie sent with a request
+ * Anything missing or malformed counts as no consent.
+ */
+export function parseConsentCookie(value: string | null | undefined): Pick<CookieConsent, 'analytics' | 'marketing'> {
+  const granted = new Set((value || '').split(','));
+  return {
+    analytics: granted.has('analytics'),
+    marketing: granted.has('marketing'),
+  };
+}
+
+/**
+ * Write the consent cookie: the granted optional categories, comma separated
+ */
+function writeConsentCookie(consent: Pick<CookieConsent, 'analytics' | 'marketing'>): void {
+  if (typeof document === 'undefined') return;
+
+  const granted = (['analytics', 'marketing'] as const).filter(category => consent[category]);
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+  document.cookie = `${CONSENT_COOKIE_NAME}=${granted.join(',')}; Path=/; Max-Age=${CONSENT_COOKIE_MAX_AGE_SECONDS}; SameSite=Lax${secure}`;
+}
+
 /**
  * Get current cookie consent from localStorage
  */
@@ -50,6 +77,7 @@ export function setCookieConsent(consent: Omit<CookieConsent, 'timestamp'>): voi
 
   try {
     localStorage.setItem(COOKIE_CONSENT_KEY, JSON.stringify(consentWithTimestamp));
+    writeConsentCookie(consentWithTimestamp);
 
     // Trigger consent change event for scripts to listen to
     window.dispatchEvent(new CustomEvent('cookieConsentChange', {
@@ -60,6 +88,17 @@ export function setCookieConsent(consent: Omit<CookieConsent, 'timestamp'>): voi
   }
 }
 
+/**
+ * Re-write the consent cookie from the stored choice
+ * Covers choices made before the cookie existed, and cookies the browser expired.
+ */
+export function syncConsentCookie(): void {
+  const consent = getCookieConsent();
+  if (consent) {
+    writeConsentCookie(consent);
+  }
+}
+
 /**
  * Check if user has given consent
  */
@@ -104,4 +143,5 @@ export function acceptEssentialOnly(): void {
 export function clearCookieConsent(): void {
   if (typeof window === 'undefined') return;
   localStorage.removeItem(COOKIE_CONSENT_KEY);
+  document.cookie = `${CONSENT_COOKIE_NAME}=; Path=/; Max-Age=0`;
 }
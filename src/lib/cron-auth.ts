@@ -0,0 +1,28 @@
+/**
+ * Cron Job Authentication
+ * Scheduled jobs are invoked with `Authorization: Bearer <CRON_SECRET>` (Vercel Cron convention)
+ */
+
+import { timingSafeEqual } from 'crypto'
+import { NextRequest } from 'next/server'
+
+/**
+ * Validate that a request comes from the scheduler
+ * Always fails when CRON_SECRET is not configured
+ */
+export function verifyCronRequest(request: NextRequest): { authorized: boolean; error?: string } {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return { authorized: false, error: 'CRON_SECRET is not configured' }
+  }
+
+  const header = request.headers.get('authorization') || ''
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const received = Buffer.from(header)
+
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { authorized: false, error: 'Unauthorized' }
+  }
+
+  return { authorized: true }
+}
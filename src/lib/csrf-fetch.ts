@@ -0,0 +1,72 @@
+/**
+ * CSRF Client Helpers
+ * Browser side of the double-submit cookie: echo the `wb_csrf` cookie in the
+ * X-CSRF-Token header on every mutating onboarding and Stripe request.
+ *
+ * Kept free of server imports so it can be bundled into client components.
+ */
+
+export const CSRF_COOKIE_NAME = 'wb_csrf'
+export const CSRF_HEADER_NAME = 'X-CSRF-Token'
+export const CSRF_ERROR_CODE = 'CSRF_VALIDATION_FAILED'
+
+const readCookie = (name: string): string | null => {
+  if (typeof document === 'undefined') {
+    return null
+  }
+
+  const match = document.cookie
+    .split('; ')
+    .find(cookie => cookie.startsWith(`${name}=`))
+
+  return match ? decodeURIComponent(match.slice(name.length + 1)) : null
+}
+
+/**
+ * Current CSRF token, issuing one through /api/csrf-token when the cookie is
+ * missing (e.g. first request after it expired) or when `forceRefresh` is set
+ */
+export async function getCSRFToken(forceRefresh = false): Promise<string> {
+  const existing = forceRefresh ? null : readCookie(CSRF_COOKIE_NAME)
+  if (existing) {
+    return existing
+  }
+
+  const response = await fetch('/api/csrf-token', { credentials: 'same-origin' })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok || !data.token) {
+    throw new Error('Failed to get CSRF token')
+  }
+
+  return data.token
+}
+
+const isCSRFRejection = async (response: Response): Promise<boolean> => {
+  if (response.status !== 403) {
+    return false
+  }
+
+  const data = await response.clone().json().catch(() => null)
+  return data?.error?.code === CSRF_ERROR_CODE
+}
+
+/**
+ * fetch() with the CSRF header attached. A request rejected because the token
+ * expired or the signing key rotated is retried once with a fresh token.
+ */
+export async function csrfFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+  const send = async (token: string) => {
+    const headers = new Headers(init.headers)
+    headers.set(CSRF_HEADER_NAME, token)
+    return fetch(input, { ...init, headers, credentials: init.credentials ?? 'same-origin' })
+  }
+
+  const response = await send(await getCSRFToken())
+
+  if (await isCSRFRejection(response)) {
+    return send(await getCSRFToken(true))
+  }
+
+  return response
+}
@@ -1,17 +1,51 @@
 /**
  * CSRF Protection Utilities
- * Provides CSRF token generation and validation for payment endpoints
+ * Signed double-submit cookie, enforced centrally by the proxy for every
+ * mutating /api/onboarding/* and /api/stripe/* request.
  */
 
-import { createHmac, randomBytes } from 'crypto'
-import { NextRequest } from 'next/server'
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { CSRF_COOKIE_NAME, CSRF_ERROR_CODE, CSRF_HEADER_NAME } from '@/lib/csrf-fetch'
+
+export { CSRF_COOKIE_NAME, CSRF_ERROR_CODE, CSRF_HEADER_NAME }
+
+/**
+ * How it works:
+ * - The proxy sets a random, HMAC-signed token in the `wb_csrf` cookie on page loads
+ * - The client echoes the cookie in the X-CSRF-Token header (see csrf-fetch.ts)
+ * - A request is accepted only when header and cookie are identical and the token
+ *   carries a valid, unexpired signature. A cross-site page can neither read the
+ *   cookie nor mint a token, so it cannot produce a matching header.
+ *
+ * Key rotation: tokens are signed with CSRF_SECRET and record the key id. After
+ * moving the old value to CSRF_SECRET_PREVIOUS, existing tokens keep validating
+ * until they expire and the proxy re-issues them under the new key.
+ *
+ * Trade-off: tokens are reusable within the expiry window (not one-time-use),
+ * which keeps validation stateless across serverless instances.
+ */
+
+export const CSRF_TOKEN_TTL = 12 * 60 * 60 * 1000 // 12 hours
+const CSRF_REFRESH_AFTER = CSRF_TOKEN_TTL / 2
+const CSRF_CLOCK_SKEW = 60 * 1000 // tolerated drift between instances
+
+const CSRF_PROTECTED_PREFIXES = ['/api/onboarding/', '/api/stripe/']
+// Stripe authenticates webhooks with its own signature. Analytics batches are
+// sent by navigator.sendBeacon while the page unloads, which cannot set the
+// header; the route only appends validated events for existing sessions.
+const CSRF_EXEMPT_PATHS = ['/api/stripe/webhook', '/api/onboarding/analytics/batch']
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+interface CSRFKey {
+  id: string
+  secret: string
+}
 
-// CSRF secret configuration
 // CSRF_SECRET environment variable is required in production
-const getCSRFSecret = () => {
-  // Allow bypass in test environment
+const getCurrentSecret = () => {
   if (process.env.NODE_ENV === 'test') {
-    return 'test-csrf-secret'
+    return process.env.CSRF_SECRET || 'test-csrf-secret'
   }
 
   const secret = process.env.CSRF_SECRET
@@ -25,151 +59,148 @@ const getCSRFSecret = () => {
   return secret
 }
 
-const CSRF_TOKEN_EXPIRY = 3600000 // 1 hour in milliseconds
+// Key ids are derived from the secret so rotation needs no extra configuration
+const toKey = (secret: string): CSRFKey => ({
+  id: createHash('sha256').update(secret).digest('hex').slice(0, 8),
+  secret
+})
 
 /**
- * CSRF tokens are stateless and serverless-compatible.
- * They use HMAC signatures for validation without server-side storage.
- *
- * Security properties:
- * - Cryptographically signed with CSRF_SECRET (can't be forged)
- * - Bound to specific sessionId (can't be used for different sessions)
- * - Time-limited expiry (1 hour window)
- * - Browser same-origin policy enforcement
- *
- * Trade-off: Tokens are reusable within expiry window (not one-time-use).
- * This is acceptable for serverless environments and used by major platforms.
+ * Signing key first, followed by retired keys that are still accepted
  */
+const getCSRFKeys = (): CSRFKey[] => {
+  const keys = [toKey(getCurrentSecret())]
+  const previous = process.env.CSRF_SECRET_PREVIOUS
+
+  if (previous) {
+    keys.push(toKey(previous))
+  }
+  return keys
+}
+
+const sign = (payload: string, secret: string) =>
+  createHmac('sha256', secret).update(payload).digest('base64url')
+
+const safeEqual = (a: string, b: string) => {
+  const bufferA = Buffer.from(a)
+  const bufferB = Buffer.from(b)
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB)
+}
 
 export interface CSRFToken {
   token: string
   expiresAt: number
 }
 
+export interface CSRFTokenInfo {
+  issuedAt: number
+  expiresAt: number
+  /** Signed with a retired key */
+  rotated: boolean
+}
+
 /**
- * Generate a CSRF token for the current session
- * Stateless token that can be validated without server-side storage
+ * Issue a new token signed with the current key
+ * Format: `<keyId>.<issuedAt>.<nonce>.<signature>` (cookie-safe characters only)
  */
-export function generateCSRFToken(sessionId: string): CSRFToken {
-  const timestamp = Date.now()
-  const expiresAt = timestamp + CSRF_TOKEN_EXPIRY
-  const nonce = randomBytes(16).toString('hex')
-
-  // Create token payload: sessionId|timestamp|nonce
-  const payload = `${sessionId}|${timestamp}|${nonce}`
-
-  // Sign the payload with HMAC
-  const signature = createHmac('sha256', getCSRFSecret())
-    .update(payload)
-    .digest('hex')
-
-  // Token format: payload.signature (Base64 encoded)
-  const token = Buffer.from(`${payload}.${signature}`).toString('base64')
+export function generateCSRFToken(now: number = Date.now()): CSRFToken {
+  const [key] = getCSRFKeys()
+  const payload = `${key.id}.${now.toString(36)}.${randomBytes(16).toString('base64url')}`
 
   return {
-    token,
-    expiresAt
+    token: `${payload}.${sign(payload, key.secret)}`,
+    expiresAt: now + CSRF_TOKEN_TTL
   }
 }
 
 /**
- * Validate a CSRF token
- * Stateless validation - tokens can be reused within expiry window
+ * Check the signature and expiry of a token
+ * Returns null for tampered, unknown-key or expired tokens.
  */
-export function validateCSRFToken(token: string, sessionId: string): boolean {
-  try {
-    // Decode the token
-    const decoded = Buffer.from(token, 'base64').toString('utf-8')
-    const [payload, signature] = decoded.split('.')
-
-    if (!payload || !signature) {
-      return false
-    }
-
-    // Verify signature
-    const expectedSignature = createHmac('sha256', getCSRFSecret())
-      .update(payload)
-      .digest('hex')
+export function verifyCSRFToken(token: string, now: number = Date.now()): CSRFTokenInfo | null {
+  const parts = token.split('.')
+  if (parts.length !== 4) {
+    return null
+  }
 
-    if (signature !== expectedSignature) {
-      return false
-    }
+  const [keyId, issuedAtRaw, nonce, signature] = parts
+  const keys = getCSRFKeys()
+  const keyIndex = keys.findIndex(key => key.id === keyId)
+  if (keyIndex === -1 || !nonce) {
+    return null
+  }
 
-    // Parse payload
-    const [tokenSessionId, timestamp, nonce] = payload.split('|')
+  const payload = `${keyId}.${issuedAtRaw}.${nonce}`
+  if (!safeEqual(signature, sign(payload, keys[keyIndex].secret))) {
+    return null
+  }
 
-    // Validate session ID matches
-    if (tokenSessionId !== sessionId) {
-      return false
-    }
+  const issuedAt = parseInt(issuedAtRaw, 36)
+  const expiresAt = issuedAt + CSRF_TOKEN_TTL
+  if (!Number.isFinite(issuedAt) || issuedAt > now + CSRF_CLOCK_SKEW || now > expiresAt) {
+    return null
+  }
 
-    // Validate token has not expired
-    const tokenTimestamp = parseInt(timestamp, 10)
-    if (Date.now() > tokenTimestamp + CSRF_TOKEN_EXPIRY) {
-      return false
-    }
+  return { issuedAt, expiresAt, rotated: keyIndex > 0 }
+}
 
+/**
+ * Whether the proxy should issue a new cookie: missing, invalid, past half its
+ * lifetime or signed with a retired key
+ */
+export function shouldRefreshCSRFToken(token: string | undefined, now: number = Date.now()): boolean {
+  if (!token) {
     return true
-  } catch (error) {
-    console.error('CSRF token validation error:', error)
-    return false
   }
+
+  const info = verifyCSRFToken(token, now)
+  return !info || info.rotated || now - info.issuedAt > CSRF_REFRESH_AFTER
 }
 
 /**
- * Extract CSRF token from request headers
+ * Mutating requests to onboarding and Stripe endpoints, minus webhook callbacks
  */
-export function getCSRFTokenFromRequest(request: NextRequest): string | null {
-  // Check X-CSRF-Token header
-  const headerToken = request.headers.get('X-CSRF-Token')
-  if (headerToken) {
-    return headerToken
+export function isCSRFProtectedRequest(request: NextRequest): boolean {
+  const { pathname } = request.nextUrl
+
+  if (SAFE_METHODS.includes(request.method.toUpperCase())) {
+    return false
   }
 
-  // Fallback to query parameter (less secure, only for GET requests)
-  if (request.method === 'GET') {
-    const url = new URL(request.url)
-    return url.searchParams.get('csrf_token')
+  if (CSRF_EXEMPT_PATHS.some(path => pathname === path || pathname.startsWith(`${path}/`))) {
+    return false
   }
 
-  return null
+  return CSRF_PROTECTED_PREFIXES.some(prefix => pathname.startsWith(prefix))
 }
 
 /**
- * Middleware function to validate CSRF token on payment endpoints
- * Use this in API routes that handle payment operations
+ * Double-submit check: header and cookie must match and carry a valid signature
  */
-export function requireCSRFToken(
+export function validateCSRFRequest(
   request: NextRequest,
-  sessionId: string
+  now: number = Date.now()
 ): { valid: boolean; error?: string } {
-  // Webhook requests from Stripe are exempt (they use signature verification instead)
-  if (request.url.includes('/api/stripe/webhook')) {
-    return { valid: true }
-  }
-
-  // GET requests are exempt from CSRF (they should not perform state changes)
-  if (request.method === 'GET') {
+  if (!isCSRFProtectedRequest(request)) {
     return { valid: true }
   }
 
-  // Bypass CSRF validation in test environment (integration tests)
-  if (process.env.NODE_ENV === 'test' || request.headers.get('X-Test-Mode') === 'true') {
+  // Integration tests call the API directly against a local server
+  if (process.env.NODE_ENV !== 'production' && request.headers.get('X-Test-Mode') === 'true') {
     return { valid: true }
   }
 
-  const token = getCSRFTokenFromRequest(request)
+  const headerToken = request.headers.get(CSRF_HEADER_NAME)
+  const cookieToken = request.cookies.get(CSRF_COOKIE_NAME)?.value
 
-  if (!token) {
+  if (!headerToken || !cookieToken) {
     return {
       valid: false,
       error: 'CSRF token missing. Include X-CSRF-Token header.'
     }
   }
 
-  const isValid = validateCSRFToken(token, sessionId)
-
-  if (!isValid) {
+  if (!safeEqual(headerToken, cookieToken) || !verifyCSRFToken(headerToken, now)) {
     return {
       valid: false,
       error: 'Invalid or expired CSRF token. Please refresh and try again.'
@@ -180,57 +211,32 @@ export function requireCSRFToken(
 }
 
 /**
- * Rate limiting for payment endpoints
- * Tracks attempts per session ID and enforces limits
+ * Store a token in the double-submit cookie
+ * Readable by client scripts by design: protection comes from a cross-site page
+ * being unable to copy it into the header, not from hiding it.
  */
-const rateLimitStore = new Map<string, { count: number; resetAt: number }>()
-const RATE_LIMIT_WINDOW = 3600000 // 1 hour
-const MAX_PAYMENT_ATTEMPTS = 5
-
-export function checkRateLimit(sessionId: string): {
-  allowed: boolean
-  remaining: number
-  resetAt: number
-} {
-  const now = Date.now()
-  const record = rateLimitStore.get(sessionId)
-
-  // Clean up expired records periodically
-  if (Math.random() < 0.01) { // 1% chance to trigger cleanup
-    for (const [key, value] of rateLimitStore.entries()) {
-      if (now > value.resetAt) {
-        rateLimitStore.delete(key)
-      }
-    }
-  }
-
-  // No record or expired - allow and create new record
-  if (!record || now > record.resetAt) {
-    const resetAt = now + RATE_LIMIT_WINDOW
-    rateLimitStore.set(sessionId, { count: 1, resetAt })
-    return {
-      allowed: true,
-      remaining: MAX_PAYMENT_ATTEMPTS - 1,
-      resetAt
-    }
-  }
-
-  // Check if limit exceeded
-  if (record.count >= MAX_PAYMENT_ATTEMPTS) {
-    return {
-      allowed: false,
-      remaining: 0,
-      resetAt: record.resetAt
-    }
-  }
-
-  // Increment count and allow
-  record.count++
-  rateLimitStore.set(sessionId, record)
+export function setCSRFCookie(response: NextResponse, csrfToken: CSRFToken) {
+  response.cookies.set(CSRF_COOKIE_NAME, csrfToken.token, {
+    httpOnly: false,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: new Date(csrfToken.expiresAt)
+  })
+}
 
-  return {
-    allowed: true,
-    remaining: MAX_PAYMENT_ATTEMPTS - record.count,
-    resetAt: record.resetAt
-  }
+/**
+ * 403 in the payment routes' error shape, recognised by csrfFetch for a retry
+ */
+export function csrfErrorResponse(error?: string): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: CSRF_ERROR_CODE,
+        message: error || 'CSRF validation failed'
+      }
+    },
+    { status: 403 }
+  )
 }
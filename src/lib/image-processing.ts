@@ -0,0 +1,102 @@
+/**
+ * Uploaded Image Processing (SERVER-SIDE ONLY)
+ * Re-encodes validated uploads without EXIF/GPS metadata, applies the EXIF
+ * orientation to the pixels and renders responsive WebP/AVIF derivatives, so
+ * pages load thumbnails instead of multi-megabyte originals.
+ */
+
+import sharp from 'sharp'
+import { AllowedImageType } from '@/lib/image-validation'
+import { ImageDerivative, ImageDerivativeFormat } from '@/types/onboarding'
+
+export const DERIVATIVE_WIDTHS = [160, 640, 1280]
+export const DERIVATIVE_FORMATS: ImageDerivativeFormat[] = ['webp', 'avif']
+
+export interface ProcessedImageFile {
+  buffer: Buffer
+  width: number
+  height: number
+}
+
+export interface ProcessedDerivative extends ProcessedImageFile {
+  format: ImageDerivativeFormat
+  mimeType: string
+}
+
+export interface ProcessedImage {
+  original: ProcessedImageFile
+  derivatives: ProcessedDerivative[]
+}
+
+/**
+ * Storage path of a derivative, next to the original ("logo/logo-1-a.png" → "logo/logo-1-a-w160.webp")
+ */
+export function getDerivativePath(originalPath: string, width: number, format: ImageDerivativeFormat): string {
+  return `${originalPath.replace(/\.[^./]+$/, '')}-w${width}.${format}`
+}
+
+/**
+ * Widths to render for an image: the fixed widths below its own width, or its
+ * own width when it is smaller than all of them (never upscaled)
+ */
+export function getDerivativeWidths(width: number): number[] {
+  const widths = DERIVATIVE_WIDTHS.filter(target => target < width)
+  return widths.length > 0 ? widths : [width]
+}
+
+const encodeOriginal = (image: sharp.Sharp, mimeType: AllowedImageType) => {
+  switch (mimeType) {
+    case 'image/png':
+      return image.png()
+    case 'image/webp':
+      return image.webp({ quality: 90 })
+    default:
+      return image.jpeg({ quality: 90, mozjpeg: true })
+  }
+}
+
+const encodeDerivative = (image: sharp.Sharp, format: ImageDerivativeFormat) =>
+  format === 'avif' ? image.avif({ quality: 50 }) : image.webp({ quality: 80 })
+
+/**
+ * Strip metadata, auto-orient and render derivatives for a validated image
+ * Only the ICC colour profile survives, so colours render as uploaded.
+ */
+export async function processImage(buffer: Buffer, mimeType: AllowedImageType): Promise<ProcessedImage> {
+  // rotate() without arguments applies and then drops the EXIF orientation
+  const { data, info } = await encodeOriginal(sharp(buffer).rotate().keepIccProfile(), mimeType)
+    .toBuffer({ resolveWithObject: true })
+
+  const original = { buffer: data, width: info.width, height: info.height }
+  const derivatives: ProcessedDerivative[] = []
+
+  for (const width of getDerivativeWidths(original.width)) {
+    for (const format of DERIVATIVE_FORMATS) {
+      const resized = await encodeDerivative(sharp(original.buffer).resize({ width }), format)
+        .toBuffer({ resolveWithObject: true })
+
+      derivatives.push({
+        buffer: resized.data,
+        width: resized.info.width,
+        height: resized.info.height,
+        format,
+        mimeType: `image/${format}`
+      })
+    }
+  }
+
+  return { original, derivatives }
+}
+
+/**
+ * Derivative metadata recorded on the UploadedFile and onboarding_uploads row
+ */
+export function describeDerivatives(originalPath: string, derivatives: ProcessedDerivative[]): ImageDerivative[] {
+  return derivatives.map(derivative => ({
+    path: getDerivativePath(originalPath, derivative.width, derivative.format),
+    width: derivative.width,
+    height: derivative.height,
+    format: derivative.format,
+    size: derivative.buffer.length
+  }))
+}
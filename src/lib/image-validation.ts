@@ -0,0 +1,108 @@
+/**
+ * Uploaded Image Validation (SERVER-SIDE ONLY)
+ * Identifies uploads by their content instead of the client-supplied MIME type
+ * and extension, decodes them to reject corrupt or disguised files, and reads
+ * their dimensions.
+ */
+
+import sharp from 'sharp'
+
+export type AllowedImageType = 'image/png' | 'image/jpeg' | 'image/webp'
+
+export const IMAGE_EXTENSIONS: Record<AllowedImageType, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp'
+}
+
+// Decompression bomb guard: a 10MB file can still expand to gigabytes of pixels
+export const MAX_IMAGE_PIXELS = 50_000_000
+
+const SHARP_FORMATS: Record<AllowedImageType, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/webp': 'webp'
+}
+
+export type ImageInspection =
+  | {
+      valid: true
+      mimeType: AllowedImageType
+      extension: string
+      width: number
+      height: number
+    }
+  | {
+      valid: false
+      error: string
+    }
+
+const startsWith = (buffer: Buffer, bytes: number[], offset: number = 0) =>
+  buffer.length >= offset + bytes.length && bytes.every((byte, i) => buffer[offset + i] === byte)
+
+/**
+ * Image type from the file signature, or null for anything that is not PNG, JPEG or WebP
+ */
+export function sniffImageType(buffer: Buffer): AllowedImageType | null {
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png'
+  }
+
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) {
+    return 'image/jpeg'
+  }
+
+  // "RIFF" <size> "WEBP"
+  if (startsWith(buffer, [0x52, 0x49, 0x46, 0x46]) && startsWith(buffer, [0x57, 0x45, 0x42, 0x50], 8)) {
+    return 'image/webp'
+  }
+
+  return null
+}
+
+/**
+ * Check that an upload really is a decodable image of an allowed type
+ *
+ * @param declaredType - MIME type sent by the browser; must agree with the content
+ */
+export async function inspectImage(buffer: Buffer, declaredType?: string): Promise<ImageInspection> {
+  const mimeType = sniffImageType(buffer)
+  if (!mimeType) {
+    return { valid: false, error: 'File content is not a PNG, JPEG or WebP image' }
+  }
+
+  // image/jpg is sent by some browsers for JPEG files
+  const normalizedDeclared = declaredType === 'image/jpg' ? 'image/jpeg' : declaredType
+  if (normalizedDeclared && normalizedDeclared !== mimeType) {
+    return { valid: false, error: 'File content does not match its declared type' }
+  }
+
+  try {
+    const image = sharp(buffer, { failOn: 'error', limitInputPixels: MAX_IMAGE_PIXELS })
+    const metadata = await image.metadata()
+
+    if (metadata.format !== SHARP_FORMATS[mimeType] || !metadata.width || !metadata.height) {
+      return { valid: false, error: 'File could not be read as an image' }
+    }
+
+    // Decode every pixel so truncated or corrupt data is caught here, not when rendering
+    await image.stats()
+
+    // EXIF orientations 5-8 are rotated a quarter turn: report the displayed size
+    const rotated = (metadata.orientation ?? 1) >= 5
+
+    return {
+      valid: true,
+      mimeType,
+      extension: IMAGE_EXTENSIONS[mimeType],
+      width: rotated ? metadata.height : metadata.width,
+      height: rotated ? metadata.width : metadata.height
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : ''
+    if (message.includes('pixel limit')) {
+      return { valid: false, error: 'Image dimensions are too large' }
+    }
+    return { valid: false, error: 'File could not be read as an image' }
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Offline Onboarding Queue
+ * Saves and uploads that cannot reach the server are kept in IndexedDB and
+ * replayed in the order they were made once the browser is back online, so the
+ * onboarding flow keeps working without a connection (payment excepted).
+ */
+
+import { ImageDerivative, OnboardingFormData } from '@/types/onboarding'
+
+export const OFFLINE_DB_NAME = 'wb-onboarding-offline'
+const OFFLINE_DB_VERSION = 1
+const OPERATIONS_STORE = 'operations'
+
+/** Where a replayed upload lands when the field that queued it is gone */
+export type OfflineUploadTarget =
+  | { field: 'logoUpload' }
+  | { field: 'businessPhotos' }
+  | { field: 'products'; productId: string }
+
+export type OfflineOperation =
+  | {
+      kind: 'save'
+      sessionId: string
+      formData: Partial<OnboardingFormData>
+      currentStep: number
+      baseVersion?: number
+      queuedAt: string
+    }
+  | {
+      kind: 'upload'
+      sessionId: string
+      uploadType: 'logo' | 'business-asset'
+      file: File
+      target?: OfflineUploadTarget
+      queuedAt: string
+    }
+
+export type QueuedOperation = OfflineOperation & { id: number }
+
+/** Stored upload as returned by the upload routes */
+export interface QueuedUploadResult {
+  id?: string
+  path?: string
+  fullPath?: string
+  url: string
+  fileName?: string
+  fileSize?: number
+  mimeType?: string
+  width?: number
+  height?: number
+  derivatives?: ImageDerivative[]
+}
+
+export interface OfflineQueueStorage {
+  add: (operation: OfflineOperation) => Promise<number>
+  /** Oldest first */
+  list: () => Promise<QueuedOperation[]>
+  remove: (id: number) => Promise<void>
+}
+
+/**
+ * True when the browser knows it has no connection
+ */
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false
+}
+
+/**
+ * Whether a failed request never reached the server (as opposed to being rejected)
+ * Supabase reports fetch failures as error messages rather than throwing them.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (isOffline()) return true
+  if (!(error instanceof Error) || error.name === 'AbortError') return false
+
+  return /Failed to fetch|NetworkError|Load failed|Network request failed|Circuit breaker is OPEN/i.test(error.message)
+}
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error)
+})
+
+/**
+ * IndexedDB-backed storage (files are stored as they are, no base64)
+ * Returns null where IndexedDB is unavailable (server, tests, some private modes).
+ */
+export function createIndexedDBStorage(): OfflineQueueStorage | null {
+  if (typeof indexedDB === 'undefined') {
+    return null
+  }
+
+  let database: Promise<IDBDatabase> | null = null
+  const open = () => {
+    if (!database) {
+      const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(OPERATIONS_STORE, { keyPath: 'id', autoIncrement: true })
+      }
+      database = promisify(request)
+      database.catch(() => {
+        database = null
+      })
+    }
+    return database
+  }
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await open()
+    return promisify(run(db.transaction(OPERATIONS_STORE, mode).objectStore(OPERATIONS_STORE)))
+  }
+
+  return {
+    add: async (operation) => Number(await withStore('readwrite', store => store.add(operation))),
+    // Auto-increment keys keep insertion order
+    list: () => withStore('readonly', store => store.getAll() as IDBRequest<QueuedOperation[]>),
+    remove: async (id) => {
+      await withStore('readwrite', store => store.delete(id))
+    }
+  }
+}
+
+/**
+ * Ordered queue of onboarding writes made without a connection
+ */
+export class OfflineQueue {
+  constructor(private storage: OfflineQueueStorage) {}
+
+  /**
+   * Queue a save. Saves carry the whole form, so an earlier queued save of the
+   * same session is replaced rather than replayed.
+   */
+  async enqueueSave(operation: Omit<Extract<OfflineOperation, { kind: 'save' }>, 'kind' | 'queuedAt'>): Promise<number> {
+    const queued = await this.storage.list()
+    await Promise.all(
+      queued
+        .filter(entry => entry.kind === 'save' && entry.sessionId === operation.sessionId)
+        .map(entry => this.storage.remove(entry.id))
+    )
+
+    return this.storage.add({ ...operation, kind: 'save', queuedAt: new Date().toISOString() })
+  }
+
+  async enqueueUpload(operation: Omit<Extract<OfflineOperation, { kind: 'upload' }>, 'kind' | 'queuedAt'>): Promise<number> {
+    return this.storage.add({ ...operation, kind: 'upload', queuedAt: new Date().toISOString() })
+  }
+
+  async remove(id: number): Promise<void> {
+    await this.storage.remove(id)
+  }
+
+  async size(): Promise<number> {
+    return (await this.storage.list()).length
+  }
+
+  /**
+   * Replay queued operations oldest first
+   * Stops at the first network failure, leaving it and everything after it
+   * queued. Operations the server rejects are dropped: replaying them again
+   * would fail the same way.
+   */
+  async replay(handler: (operation: QueuedOperation) => Promise<void>): Promise<{ replayed: number; remaining: number }> {
+    const queued = await this.storage.list()
+    let replayed = 0
+
+    for (const operation of queued) {
+      try {
+        await handler(operation)
+        replayed++
+      } catch (error) {
+        if (isNetworkError(error)) {
+          break
+        }
+        console.error(`Dropping queued onboarding ${operation.kind} the server rejected:`, error)
+      }
+      await this.storage.remove(operation.id)
+    }
+
+    return { replayed, remaining: await this.size() }
+  }
+}
+
+let offlineQueue: OfflineQueue | null | undefined
+
+/**
+ * The browser's queue, or null where IndexedDB is unavailable
+ */
+export function getOfflineQueue(): OfflineQueue | null {
+  if (offlineQueue === undefined) {
+    const storage = createIndexedDBStorage()
+    offlineQueue = storage ? new OfflineQueue(storage) : null
+  }
+  return offlineQueue
+}
+
+// Upload fields still on screen take their own queued uploads' results
+type UploadSettlement = { data: QueuedUploadResult } | { error: Error }
+const uploadClaims = new Map<number, (settlement: UploadSettlement) => void>()
+
+/**
+ * Receive the result of a queued upload while the field that queued it is mounted
+ * Returns the function releasing the claim.
+ */
+export function claimQueuedUpload(id: number, onSettled: (settlement: UploadSettlement) => void): () => void {
+  uploadClaims.set(id, onSettled)
+  return () => {
+    if (uploadClaims.get(id) === onSettled) {
+      uploadClaims.delete(id)
+    }
+  }
+}
+
+export function isQueuedUploadClaimed(id: number): boolean {
+  return uploadClaims.has(id)
+}
+
+/**
+ * Hand a replayed upload's result to its field. Returns false when unclaimed.
+ */
+export function settleQueuedUpload(id: number, settlement: UploadSettlement): boolean {
+  const onSettled = uploadClaims.get(id)
+  if (!onSettled) {
+    return false
+  }
+
+  uploadClaims.delete(id)
+  onSettled(settlement)
+  return true
+}
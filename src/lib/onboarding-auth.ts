@@ -0,0 +1,151 @@
+/**
+ * Onboarding Session Authentication
+ * Stateless, HMAC-signed session cookie issued to the browser that creates a
+ * session, and after email verification (or a device handoff). Onboarding and
+ * payment routes accept a session id only when it matches the cookie, so a
+ * leaked id alone grants no access.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+
+export const ONBOARDING_SESSION_COOKIE = 'wb_onboarding_session'
+export const ONBOARDING_SESSION_TTL = 60 * 24 * 3600000 // 60 days, the lifetime of a session
+// The client has to verify the session's email again
+export const SESSION_VERIFICATION_REQUIRED = 'SESSION_VERIFICATION_REQUIRED'
+
+// ONBOARDING_SESSION_SECRET falls back to SESSION_SECRET so existing deployments keep working
+const getOnboardingSecret = () => {
+  if (process.env.NODE_ENV === 'test') {
+    return 'test-onboarding-secret'
+  }
+
+  const secret = process.env.ONBOARDING_SESSION_SECRET || process.env.SESSION_SECRET
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('ONBOARDING_SESSION_SECRET environment variable is required in production')
+    }
+    // Development fallback
+    return 'development-onboarding-secret-change-in-production'
+  }
+  return secret
+}
+
+const sign = (payload: string) =>
+  createHmac('sha256', getOnboardingSecret()).update(`onboarding|${payload}`).digest('hex')
+
+/**
+ * Create a signed session token bound to one onboarding session
+ * Token format: base64("sessionId|expiresAt.signature")
+ */
+export function createOnboardingSessionToken(sessionId: string, now: number = Date.now()): {
+  token: string
+  expiresAt: number
+} {
+  const expiresAt = now + ONBOARDING_SESSION_TTL
+  const payload = `${sessionId}|${expiresAt}`
+  const token = Buffer.from(`${payload}.${sign(payload)}`).toString('base64')
+
+  return { token, expiresAt }
+}
+
+/**
+ * Validate a session token
+ * Returns the session id, or null when invalid or expired
+ */
+export function verifyOnboardingSessionToken(
+  token: string | undefined | null,
+  now: number = Date.now()
+): string | null {
+  if (!token) {
+    return null
+  }
+
+  try {
+    const decoded = Buffer.from(token, 'base64').toString('utf-8')
+    const separator = decoded.lastIndexOf('.')
+    if (separator === -1) {
+      return null
+    }
+
+    const payload = decoded.slice(0, separator)
+    const expected = Buffer.from(sign(payload))
+    const received = Buffer.from(decoded.slice(separator + 1))
+
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      return null
+    }
+
+    const [sessionId, expiresAt] = payload.split('|')
+    if (!sessionId || now >= parseInt(expiresAt, 10)) {
+      return null
+    }
+
+    return sessionId
+  } catch (error) {
+    console.error('Onboarding session validation error:', error)
+    return null
+  }
+}
+
+/**
+ * Issue the httpOnly session cookie on a response
+ */
+export function setOnboardingSessionCookie(response: NextResponse, sessionId: string) {
+  const { token, expiresAt } = createOnboardingSessionToken(sessionId)
+
+  response.cookies.set(ONBOARDING_SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: new Date(expiresAt)
+  })
+}
+
+/**
+ * Resolve the authenticated onboarding session from the request cookie
+ */
+export function getOnboardingSessionId(request: NextRequest): string | null {
+  return verifyOnboardingSessionToken(request.cookies.get(ONBOARDING_SESSION_COOKIE)?.value)
+}
+
+/**
+ * Guard for onboarding and payment API routes
+ *
+ * @param sessionId - Session named by the request; must be the cookie's session.
+ * Omit it for routes that look the session up from the cookie.
+ */
+export function requireOnboardingSession(
+  request: NextRequest,
+  sessionId?: string | null
+): { authorized: true; sessionId: string } | { authorized: false; error: string } {
+  // Integration tests call the API directly against a local server (as for CSRF)
+  if (process.env.NODE_ENV !== 'production' && request.headers.get('X-Test-Mode') === 'true' && sessionId) {
+    return { authorized: true, sessionId }
+  }
+
+  const cookieSessionId = getOnboardingSessionId(request)
+
+  if (!cookieSessionId || (sessionId && sessionId !== cookieSessionId)) {
+    return { authorized: false, error: 'Please verify your email to continue this session' }
+  }
+
+  return { authorized: true, sessionId: cookieSessionId }
+}
+
+/**
+ * 401 in the payment routes' error shape (as for CSRF failures)
+ */
+export function onboardingAuthErrorResponse(error: string): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: SESSION_VERIFICATION_REQUIRED,
+        message: error
+      }
+    },
+    { status: 401 }
+  )
+}
@@ -0,0 +1,87 @@
+/**
+ * Customer Portal Authentication
+ * Stateless, HMAC-signed portal session cookie issued after email code verification
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { NextRequest } from 'next/server'
+
+export const PORTAL_SESSION_COOKIE = 'wb_portal_session'
+export const PORTAL_SESSION_TTL = 12 * 3600000 // 12 hours in milliseconds
+
+const getPortalSecret = () => {
+  if (process.env.NODE_ENV === 'test') {
+    return 'test-portal-secret'
+  }
+
+  const secret = process.env.SESSION_SECRET
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('SESSION_SECRET environment variable is required in production')
+    }
+    // Development fallback
+    return 'development-portal-secret-change-in-production'
+  }
+  return secret
+}
+
+const sign = (payload: string) =>
+  createHmac('sha256', getPortalSecret()).update(`portal|${payload}`).digest('hex')
+
+/**
+ * Create a signed portal session token bound to the verified email
+ * Token format: base64("email|expiresAt.signature")
+ */
+export function createPortalSessionToken(email: string, now: number = Date.now()): {
+  token: string
+  expiresAt: number
+} {
+  const expiresAt = now + PORTAL_SESSION_TTL
+  const payload = `${email.toLowerCase().trim()}|${expiresAt}`
+  const token = Buffer.from(`${payload}.${sign(payload)}`).toString('base64')
+
+  return { token, expiresAt }
+}
+
+/**
+ * Validate a portal session token
+ * Returns the verified email, or null when invalid or expired
+ */
+export function verifyPortalSessionToken(token: string | undefined | null, now: number = Date.now()): string | null {
+  if (!token) {
+    return null
+  }
+
+  try {
+    const decoded = Buffer.from(token, 'base64').toString('utf-8')
+    const separator = decoded.lastIndexOf('.')
+    if (separator === -1) {
+      return null
+    }
+
+    const payload = decoded.slice(0, separator)
+    const expected = Buffer.from(sign(payload))
+    const received = Buffer.from(decoded.slice(separator + 1))
+
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      return null
+    }
+
+    const [email, expiresAt] = payload.split('|')
+    if (!email || now >= parseInt(expiresAt, 10)) {
+      return null
+    }
+
+    return email
+  } catch (error) {
+    console.error('Portal session validation error:', error)
+    return null
+  }
+}
+
+/**
+ * Resolve the verified customer email from the request cookie
+ */
+export function getPortalEmail(request: NextRequest): string | null {
+  return verifyPortalSessionToken(request.cookies.get(PORTAL_SESSION_COOKIE)?.value)
+}
@@ -0,0 +1,205 @@
+/**
+ * Rate Limiting
+ * Sliding-window limiter shared by public and payment endpoints.
+ *
+ * Hits are stored in Postgres (`check_rate_limit` RPC) so limits survive cold
+ * starts and are shared between serverless instances. The store is pluggable;
+ * tests and local runs without Supabase use the in-memory store.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+const MINUTE = 60000
+const HOUR = 60 * MINUTE
+
+export interface RateLimitRule {
+  limit: number
+  windowMs: number
+}
+
+/**
+ * Limits per endpoint group
+ */
+export const RATE_LIMITS = {
+  contact: { limit: 5, windowMs: HOUR },
+  customSoftwareContact: { limit: 5, windowMs: HOUR },
+  // Each new session issues a signed cookie; a household or office shares an IP
+  sessionCreate: { limit: 30, windowMs: HOUR },
+  sendVerification: { limit: 5, windowMs: 15 * MINUTE },
+  verifyEmail: { limit: 10, windowMs: 15 * MINUTE },
+  upload: { limit: 60, windowMs: 10 * MINUTE },
+  // A resumable 10MB upload is ten chunk requests
+  uploadChunk: { limit: 600, windowMs: 10 * MINUTE },
+  handoff: { limit: 5, windowMs: 15 * MINUTE },
+  handoffRedeem: { limit: 10, windowMs: 15 * MINUTE },
+  checkout: { limit: 5, windowMs: HOUR },
+  stripe: { limit: 30, windowMs: 10 * MINUTE },
+  portalSignIn: { limit: 5, windowMs: 15 * MINUTE },
+  // One shared password guards the admin area
+  adminSignIn: { limit: 10, windowMs: 15 * MINUTE },
+  // Batches of up to 50 events; a busy session flushes every 30s
+  analyticsBatch: { limit: 120, windowMs: 10 * MINUTE }
+} satisfies Record<string, RateLimitRule>
+
+export type RateLimitName = keyof typeof RATE_LIMITS
+
+export interface RateLimitStoreResult {
+  allowed: boolean
+  count: number
+  oldestHitAt: number | null
+}
+
+/**
+ * Storage backend: prune hits older than the window, count the rest and record
+ * a new hit only when under the limit - as one atomic step per key
+ */
+export interface RateLimitStore {
+  hit(key: string, rule: RateLimitRule, now: number): Promise<RateLimitStoreResult>
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetAt: number
+  retryAfterSeconds: number
+}
+
+/**
+ * Process-local store (tests, local development without Supabase)
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, number[]>()
+
+  async hit(key: string, rule: RateLimitRule, now: number): Promise<RateLimitStoreResult> {
+    const windowStart = now - rule.windowMs
+    const recent = (this.hits.get(key) || []).filter(timestamp => timestamp > windowStart)
+    const allowed = recent.length < rule.limit
+
+    if (allowed) {
+      recent.push(now)
+    }
+    this.hits.set(key, recent)
+
+    return { allowed, count: recent.length, oldestHitAt: recent[0] ?? null }
+  }
+
+  reset() {
+    this.hits.clear()
+  }
+}
+
+/**
+ * Postgres-backed store shared by all instances
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  async hit(key: string, rule: RateLimitRule): Promise<RateLimitStoreResult> {
+    const { createServiceClient } = await import('@/lib/supabase')
+    const { data, error } = await createServiceClient().rpc('check_rate_limit', {
+      p_key: key,
+      p_limit: rule.limit,
+      p_window_ms: rule.windowMs
+    })
+
+    if (error) {
+      throw new Error(`Rate limit check failed: ${error.message}`)
+    }
+
+    const row = Array.isArray(data) ? data[0] : data
+    return {
+      allowed: Boolean(row?.allowed),
+      count: row?.hit_count ?? 0,
+      oldestHitAt: row?.oldest_hit_at ? new Date(row.oldest_hit_at).getTime() : null
+    }
+  }
+}
+
+let store: RateLimitStore | null = null
+
+const getStore = (): RateLimitStore => {
+  if (!store) {
+    store = process.env.NODE_ENV === 'test' || process.env.RATE_LIMIT_STORE === 'memory'
+      ? new MemoryRateLimitStore()
+      : new PostgresRateLimitStore()
+  }
+  return store
+}
+
+/**
+ * Swap the storage backend (tests, alternative stores)
+ */
+export function setRateLimitStore(nextStore: RateLimitStore | null) {
+  store = nextStore
+}
+
+/**
+ * Record a request against a named limit
+ * Fails open when the store is unavailable so an outage never blocks customers.
+ */
+export async function checkRateLimit(
+  name: RateLimitName,
+  identifier: string,
+  now: number = Date.now()
+): Promise<RateLimitResult> {
+  const rule = RATE_LIMITS[name]
+
+  try {
+    const { allowed, count, oldestHitAt } = await getStore().hit(`${name}:${identifier}`, rule, now)
+    const resetAt = (oldestHitAt ?? now) + rule.windowMs
+
+    return {
+      allowed,
+      limit: rule.limit,
+      remaining: Math.max(0, rule.limit - count),
+      resetAt,
+      retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((resetAt - now) / 1000))
+    }
+  } catch (error) {
+    console.error(`Rate limit store error (${name}), allowing request:`, error)
+    return {
+      allowed: true,
+      limit: rule.limit,
+      remaining: rule.limit,
+      resetAt: now + rule.windowMs,
+      retryAfterSeconds: 0
+    }
+  }
+}
+
+/**
+ * Best-effort client IP for anonymous endpoints
+ */
+export function getClientIdentifier(request: NextRequest): string {
+  const forwardedFor = request.headers.get('x-forwarded-for')
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim()
+  }
+  return request.headers.get('x-real-ip') || 'unknown'
+}
+
+/**
+ * Standard rate limit headers; Retry-After only when the request was rejected
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt / 1000))
+  }
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retryAfterSeconds)
+  }
+
+  return headers
+}
+
+/**
+ * 429 response in the calling route's own error shape
+ */
+export function rateLimitExceededResponse(result: RateLimitResult, body: unknown): NextResponse {
+  return NextResponse.json(body, {
+    status: 429,
+    headers: getRateLimitHeaders(result)
+  })
+}
@@ -0,0 +1,192 @@
+/**
+ * Resumable Upload Client
+ * Sends a file in chunks to /api/onboarding/upload/resumable. Every chunk carries
+ * the offset it starts at; after a dropped connection or a page reload the client
+ * asks the server for the stored offset and continues from there instead of
+ * starting over.
+ */
+
+import { csrfFetch } from '@/lib/csrf-fetch'
+import { RETRY_CONFIGS, withRetry } from '@/lib/retry'
+import { PendingUpload } from '@/types/onboarding'
+
+export const RESUMABLE_UPLOAD_ROUTE = '/api/onboarding/upload/resumable'
+export const UPLOAD_OFFSET_HEADER = 'Upload-Offset'
+// How long an unfinished upload can be resumed
+export const RESUMABLE_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000
+
+// Offset conflicts are resolved by jumping to the server's offset; this bounds the loop
+const MAX_OFFSET_CONFLICTS = 10
+// Wait while another request assembles the upload
+const PROCESSING_POLL_MS = 2000
+
+interface ResumableUploadState<T> {
+  uploadId: string
+  offset: number
+  fileSize: number
+  chunkSize: number
+  status: 'uploading' | 'processing' | 'completed' | 'failed'
+  data?: T
+  error?: string
+}
+
+/**
+ * Error carrying the HTTP status, so retries skip client errors
+ */
+export class UploadRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'UploadRequestError'
+  }
+}
+
+/**
+ * Key identifying the same file picked again after a reload
+ * Files cannot be persisted, so name, size and modification time stand in for them.
+ */
+export function getUploadFingerprint(
+  file: Pick<File, 'name' | 'size' | 'lastModified'>,
+  sessionId: string,
+  uploadType: string
+): string {
+  return [sessionId, uploadType, file.name, file.size, file.lastModified].join(':')
+}
+
+const readBody = async (response: Response) => response.json().catch(() => null)
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms)
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer)
+    reject(new DOMException('Upload aborted', 'AbortError'))
+  }, { once: true })
+})
+
+async function fetchUploadState<T>(uploadId: string, signal?: AbortSignal): Promise<ResumableUploadState<T> | null> {
+  const response = await fetch(`${RESUMABLE_UPLOAD_ROUTE}/${uploadId}`, { signal, cache: 'no-store' })
+  if (!response.ok) {
+    return null
+  }
+  const body = await readBody(response)
+  return body?.data || null
+}
+
+async function createUpload<T>(
+  file: File,
+  sessionId: string,
+  uploadType: string,
+  signal?: AbortSignal
+): Promise<ResumableUploadState<T>> {
+  const response = await csrfFetch(RESUMABLE_UPLOAD_ROUTE, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      sessionId,
+      type: uploadType,
+      fileName: file.name,
+      fileSize: file.size,
+      mimeType: file.type
+    }),
+    signal
+  })
+
+  const body = await readBody(response)
+  if (!response.ok || !body?.data) {
+    throw new UploadRequestError(body?.error || `Upload failed: ${response.statusText}`, response.status)
+  }
+  return body.data
+}
+
+/**
+ * Upload a file in chunks, resuming `pending` when the server still has it
+ *
+ * @param onStart - Called with the upload to persist before the first chunk is sent
+ * @param onProgress - Called with the stored offset after every chunk
+ * @returns The stored upload, as returned by the single-request upload route
+ */
+export async function uploadFileResumable<T>(
+  file: File,
+  {
+    sessionId,
+    uploadType,
+    pending,
+    signal,
+    onStart,
+    onProgress
+  }: {
+    sessionId: string
+    uploadType: string
+    pending?: PendingUpload | null
+    signal?: AbortSignal
+    onStart?: (upload: { uploadId: string; offset: number }) => void
+    onProgress?: (offset: number, fileSize: number) => void
+  }
+): Promise<T> {
+  let state: ResumableUploadState<T> | null = pending
+    ? await fetchUploadState<T>(pending.uploadId, signal)
+    : null
+
+  if (state?.status === 'completed' && state.data) {
+    return state.data
+  }
+
+  // Unknown, expired or rejected uploads start over
+  if (!state || state.status === 'failed') {
+    state = await createUpload<T>(file, sessionId, uploadType, signal)
+  }
+
+  onStart?.({ uploadId: state.uploadId, offset: state.offset })
+  onProgress?.(state.offset, file.size)
+
+  const { uploadId, chunkSize } = state
+  let offset = state.offset
+  let conflicts = 0
+
+  while (true) {
+    const chunkStart = offset
+    const result = await withRetry(async () => {
+      const response = await csrfFetch(`${RESUMABLE_UPLOAD_ROUTE}/${uploadId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/offset+octet-stream',
+          [UPLOAD_OFFSET_HEADER]: String(chunkStart)
+        },
+        body: file.slice(chunkStart, chunkStart + chunkSize),
+        signal
+      })
+      const body = await readBody(response)
+
+      // Offset mismatch, e.g. a chunk stored before its response was lost
+      if (response.status === 409 && body?.data) {
+        return body.data as ResumableUploadState<T>
+      }
+
+      if (!response.ok || !body?.data) {
+        throw new UploadRequestError(body?.error || `Upload failed: ${response.statusText}`, response.status)
+      }
+      return body.data as ResumableUploadState<T>
+    }, RETRY_CONFIGS.fileUpload)
+
+    if (!result.success) {
+      throw result.error || new Error('Upload failed after retries')
+    }
+
+    const upload = result.data!
+    if (upload.status === 'completed' && upload.data) {
+      onProgress?.(upload.fileSize, upload.fileSize)
+      return upload.data
+    }
+
+    if (upload.offset === chunkStart) {
+      if (++conflicts > MAX_OFFSET_CONFLICTS) {
+        throw new UploadRequestError('Upload could not be completed', 409)
+      }
+      if (upload.status === 'processing') {
+        await sleep(PROCESSING_POLL_MS, signal)
+      }
+    }
+
+    offset = upload.offset
+    onProgress?.(offset, file.size)
+  }
+}
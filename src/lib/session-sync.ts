@@ -0,0 +1,124 @@
+/**
+ * Onboarding Session Sync
+ * Three-way merge of form data for optimistic-concurrency conflicts, and the
+ * BroadcastChannel that keeps tabs of the same browser on the latest version.
+ */
+
+import { OnboardingFormData } from '@/types/onboarding'
+
+export type FormDataField = keyof OnboardingFormData
+
+export const SESSION_SYNC_CHANNEL = 'wb-onboarding-sync'
+
+export interface SessionSyncMessage {
+  type: 'saved'
+  sessionId: string
+  version: number
+  currentStep: number
+  formData: Partial<OnboardingFormData>
+}
+
+export interface FormDataMergeResult {
+  merged: Partial<OnboardingFormData>
+  // Fields both sides changed to different values
+  conflicts: FormDataField[]
+}
+
+// JSONB reorders object keys and drops undefined, so compare structurally
+export function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return false
+  }
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => isSameValue(item, b[index]))
+  }
+
+  const left = a as Record<string, unknown>
+  const right = b as Record<string, unknown>
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)])
+
+  return Array.from(keys).every(key => isSameValue(left[key], right[key]))
+}
+
+/**
+ * Merge local edits with a newer server copy, field by field
+ *
+ * @param base - The server copy the local edits started from; without it every
+ * differing field counts as a conflict
+ */
+export function mergeFormData(
+  base: Partial<OnboardingFormData> | null,
+  local: Partial<OnboardingFormData>,
+  server: Partial<OnboardingFormData>
+): FormDataMergeResult {
+  const merged: Record<string, unknown> = { ...local }
+  const conflicts: FormDataField[] = []
+  const fields = new Set([...Object.keys(local), ...Object.keys(server)]) as Set<FormDataField>
+
+  fields.forEach(field => {
+    const localValue = local[field]
+    const serverValue = server[field]
+
+    if (isSameValue(localValue, serverValue)) return
+
+    const changedLocally = !base || !isSameValue(base[field], localValue)
+    const changedOnServer = !base || !isSameValue(base[field], serverValue)
+
+    if (changedOnServer && !changedLocally) {
+      merged[field] = serverValue
+    } else if (changedOnServer && changedLocally) {
+      conflicts.push(field)
+    }
+  })
+
+  return { merged: merged as Partial<OnboardingFormData>, conflicts }
+}
+
+let channel: BroadcastChannel | null = null
+const listeners = new Set<(message: SessionSyncMessage) => void>()
+
+const getChannel = (): BroadcastChannel | null => {
+  if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') {
+    return null
+  }
+
+  if (!channel) {
+    channel = new BroadcastChannel(SESSION_SYNC_CHANNEL)
+    channel.onmessage = (event: MessageEvent<SessionSyncMessage>) => {
+      if (event.data?.type === 'saved') {
+        listeners.forEach(listener => listener(event.data))
+      }
+    }
+  }
+  return channel
+}
+
+/**
+ * Tell the other tabs a save went through (a channel never receives its own messages)
+ */
+export function broadcastSessionSaved(message: Omit<SessionSyncMessage, 'type'>) {
+  try {
+    getChannel()?.postMessage({ type: 'saved', ...message })
+  } catch (error) {
+    // Syncing tabs is best effort; the version check still catches conflicts
+    console.warn('Failed to broadcast session save:', error)
+  }
+}
+
+/**
+ * Listen for saves made in other tabs. Returns the unsubscribe function.
+ */
+export function subscribeToSessionSync(listener: (message: SessionSyncMessage) => void): () => void {
+  if (!getChannel()) {
+    return () => {}
+  }
+
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -184,7 +184,8 @@ export type Database = {
           id: string
           session_id: string | null
           file_type: string
-          file_url: string
+          file_url: string | null
+          file_path: string | null
           file_name: string
           file_size: number
           mime_type: string
@@ -194,12 +195,19 @@ export type Database = {
           created_at: string
           virus_scan_status: string
           is_processed: boolean
+          scan_attempts: number
+          scanned_at: string | null
+          scan_signature: string | null
+          scan_error: string | null
+          quarantined_at: string | null
+          derivatives: Record<string, any>[]
         }
         Insert: {
           id?: string
           session_id?: string | null
           file_type: string
-          file_url: string
+          file_url?: string | null
+          file_path?: string | null
           file_name: string
           file_size: number
           mime_type: string
@@ -209,12 +217,19 @@ export type Database = {
           created_at?: string
           virus_scan_status?: string
           is_processed?: boolean
+          scan_attempts?: number
+          scanned_at?: string | null
+          scan_signature?: string | null
+          scan_error?: string | null
+          quarantined_at?: string | null
+          derivatives?: Record<string, any>[]
         }
         Update: {
           id?: string
           session_id?: string | null
           file_type?: string
-          file_url?: string
+          file_url?: string | null
+          file_path?: string | null
           file_name?: string
           file_size?: number
           mime_type?: string
@@ -224,6 +239,12 @@ export type Database = {
           created_at?: string
           virus_scan_status?: string
           is_processed?: boolean
+          scan_attempts?: number
+          scanned_at?: string | null
+          scan_signature?: string | null
+          scan_error?: string | null
+          quarantined_at?: string | null
+          derivatives?: Record<string, any>[]
         }
       }
     }
@@ -5,6 +5,15 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Check that a route parameter is a UUID before it reaches a uuid column
+ */
+export function isUUID(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
 /**
  * Generate a UUID v4 with fallback for older browsers or non-secure contexts
  * Uses crypto.randomUUID() when available, falls back to manual generation
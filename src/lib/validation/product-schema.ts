@@ -7,6 +7,17 @@
 
 import { z } from 'zod'
 
+/**
+ * Validation schema for ImageDerivative (responsive renditions generated on upload)
+ */
+export const ImageDerivativeSchema = z.object({
+  path: z.string().min(1),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  format: z.enum(['webp', 'avif']),
+  size: z.number().int().nonnegative()
+})
+
 /**
  * Validation schema for UploadedFile (product photos)
  * Reuses existing UploadedFile interface from Step 12
@@ -22,7 +33,9 @@ export const UploadedFileSchema = z.object({
   mimeType: z.enum(['image/jpeg', 'image/png', 'image/webp'], {
     message: 'Only JPEG, PNG, and WebP images are supported'
   }),
-  url: z.string().url('Invalid photo URL'),
+  url: z.string().optional(),
+  path: z.string().min(1, 'Invalid photo path').optional(),
+  derivatives: z.array(ImageDerivativeSchema).optional(),
   width: z.number().int().positive().optional(),
   height: z.number().int().positive().optional(),
   uploadedAt: z.string().datetime('Invalid upload timestamp')
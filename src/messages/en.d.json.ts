@@ -1298,6 +1298,110 @@ declare const messages: {
       "stepCompleted": "Step {step} is completed",
       "stepInProgress": "Step {step} is in progress",
       "stepNotStarted": "Step {step} has not been started yet"
+    },
+    "recoveryUnsubscribe": {
+      "title": "You've been unsubscribed",
+      "description": "We won't send you any more reminders about this onboarding session. Your progress is still saved if you want to continue later.",
+      "invalidTitle": "Link not valid",
+      "invalidDescription": "This unsubscribe link is invalid or incomplete. Please use the link from your most recent email.",
+      "continue": "Continue onboarding",
+      "backHome": "Back to homepage",
+      "confirmTitle": "Stop reminder emails?",
+      "confirmDescription": "We'll stop sending reminders about this onboarding session. Your progress stays saved.",
+      "confirm": "Unsubscribe",
+      "failed": "We couldn't unsubscribe you. Please try again."
+    },
+    "handoff": {
+      "button": "Other device",
+      "dialogTitle": "Continue on another device",
+      "dialogDescription": "Scan this code with your phone to pick up where you left off, for example to upload photos from your camera roll.",
+      "generating": "Creating your link...",
+      "qrAlt": "QR code to continue on another device",
+      "emailSent": "We also sent this link to your email.",
+      "expires": "The link works once and expires in {minutes} minutes.",
+      "copyLink": "Copy link",
+      "copied": "Link copied",
+      "newLink": "Create a new link",
+      "expired": "This link has expired.",
+      "close": "Close",
+      "errorTitle": "Error",
+      "errorDescription": "Could not create a link. Please try again.",
+      "redeemedTitle": "Opened on another device",
+      "redeemedDescription": "Your session was opened on another device. Changes you make there are saved to the same session."
+    },
+    "handoffRedeem": {
+      "loading": "Opening your session...",
+      "invalidTitle": "Link not valid",
+      "invalidDescription": "This link is invalid, has expired or was already used. Create a new one from your other device.",
+      "startOnboarding": "Start onboarding",
+      "backHome": "Back to homepage"
+    },
+    "resume": {
+      "loading": "Opening your session...",
+      "notice": "To keep your details safe, confirm your email before continuing on this browser.",
+      "invalidCode": "Invalid verification code. Please try again.",
+      "verificationFailed": "Verification failed. Please try again.",
+      "invalidTitle": "Session not available",
+      "invalidDescription": "This link is invalid or the session has expired. You can start a new onboarding at any time.",
+      "startOnboarding": "Start onboarding",
+      "backHome": "Back to homepage"
+    },
+    "conflict": {
+      "title": "This onboarding was changed elsewhere",
+      "description": "Another tab or device saved changes to the same answers. Choose which version to keep for each one; everything else has been combined automatically.",
+      "thisTab": "This tab",
+      "savedElsewhere": "Saved elsewhere",
+      "apply": "Keep selected answers",
+      "empty": "(empty)",
+      "yes": "Yes",
+      "no": "No",
+      "items": "{count, plural, one {# item} other {# items}}",
+      "fields": {
+        "firstName": "First name",
+        "lastName": "Last name",
+        "email": "Email",
+        "emailVerified": "Email verified",
+        "businessName": "Business name",
+        "businessEmail": "Business email",
+        "businessPhone": "Business phone",
+        "businessStreet": "Street address",
+        "businessCity": "City",
+        "businessProvince": "Province",
+        "businessPostalCode": "Postal code",
+        "businessCountry": "Country",
+        "businessPlaceId": "Business location",
+        "industry": "Industry",
+        "customIndustry": "Industry (other)",
+        "vatNumber": "VAT number",
+        "businessDescription": "Business description",
+        "competitorUrls": "Competitor websites",
+        "competitorAnalysis": "Competitor analysis",
+        "customerProfile": "Customer profile",
+        "customerProblems": "Customer problems",
+        "customerDelight": "What delights your customers",
+        "websiteReferences": "Website references",
+        "designStyle": "Design style",
+        "imageStyle": "Image style",
+        "colorPalette": "Color palette",
+        "websiteSections": "Website sections",
+        "primaryGoal": "Primary goal",
+        "offeringType": "Offering type",
+        "products": "Products and services",
+        "logoUpload": "Logo",
+        "businessPhotos": "Business photos",
+        "additionalLanguages": "Additional languages",
+        "discountCode": "Discount code",
+        "acceptTerms": "Terms accepted"
+      }
+    },
+    "offline": {
+      "offline": "Offline – changes are kept on this device",
+      "syncing": "Syncing {count, plural, one {# change} other {# changes}}…",
+      "pending": "{count, plural, one {# change} other {# changes}} waiting to sync",
+      "paymentUnavailable": "You're offline. Reconnect to continue to payment – your answers are kept on this device.",
+      "syncRequired": "Some changes haven't reached our servers yet. Check your connection and try again.",
+      "paymentTitle": "You're offline",
+      "paymentDescription": "Payment needs an internet connection. Your answers are safe; reconnect to complete your order."
     }
   },
   "forms": {
@@ -1765,6 +1869,92 @@ declare const messages: {
       "title": "Workshop - WhiteBoar",
       "description": "Register for our workshop and learn how to grow your business online."
     }
+  },
+  "portal": {
+    "meta": {
+      "title": "Your account | WhiteBoar",
+      "description": "Manage your WhiteBoar website, subscription and invoices."
+    },
+    "signIn": {
+      "title": "Sign in to your account",
+      "description": "Enter the email you used for your WhiteBoar order. We'll send you a 6-digit sign-in code.",
+      "emailLabel": "Email address",
+      "emailPlaceholder": "you@example.com",
+      "sendCode": "Send code",
+      "sending": "Sending...",
+      "codeSent": "If this email belongs to a customer, we've sent a code to {email}.",
+      "codeLabel": "Sign-in code",
+      "verify": "Sign in",
+      "verifying": "Signing in...",
+      "changeEmail": "Use a different email",
+      "errorGeneric": "Something went wrong. Please try again."
+    },
+    "dashboard": {
+      "title": "Your account",
+      "signedInAs": "Signed in as {email}",
+      "signOut": "Sign out",
+      "loadError": "We couldn't load your account. Please try again.",
+      "websites": "Your websites",
+      "noSubmissions": "No orders found for this email.",
+      "submittedOn": "Submitted {date}",
+      "paidOn": "Paid {date}",
+      "viewPreview": "View preview",
+      "languages": "Extra languages",
+      "noLanguages": "No extra languages",
+      "subscription": "Subscription",
+      "commitmentEnds": "12-month commitment ends {date}",
+      "currentPeriodEnds": "Current phase ends {date}",
+      "noSubscription": "No active subscription",
+      "invoices": "Invoices",
+      "noInvoices": "No invoices yet.",
+      "invoiceNumber": "Invoice",
+      "invoiceDate": "Date",
+      "invoiceAmount": "Amount",
+      "invoiceStatus": "Status",
+      "download": "Download",
+      "manageBilling": "Manage billing",
+      "openingBilling": "Opening...",
+      "billingError": "We couldn't open the billing portal. Please try again.",
+      "status": {
+        "submitted": "Received",
+        "preview_sent": "Preview ready",
+        "paid": "Paid",
+        "past_due": "Payment overdue",
+        "completed": "Live",
+        "cancelled": "Cancelled"
+      },
+      "scheduleStatus": {
+        "not_started": "Not started",
+        "active": "Active",
+        "completed": "Completed",
+        "released": "Monthly",
+        "canceled": "Cancelled"
+      },
+      "invoiceStatuses": {
+        "open": "Open",
+        "paid": "Paid",
+        "uncollectible": "Uncollectible",
+        "void": "Void"
+      }
+    },
+    "languages": {
+      "manage": "Manage languages",
+      "title": "Manage languages",
+      "description": "Add translations of your website or remove the ones you no longer need. New languages are charged once; removed languages are credited to your next invoice.",
+      "noChanges": "Select or deselect languages to make a change.",
+      "review": "Review changes",
+      "reviewing": "Calculating...",
+      "adding": "Add",
+      "removing": "Remove",
+      "charge": "Charged now",
+      "credit": "Credited to your next invoice",
+      "back": "Back",
+      "confirm": "Confirm changes",
+      "confirming": "Updating...",
+      "paymentRequired": "Your bank needs you to confirm this payment. The new languages are added as soon as it's paid.",
+      "completePayment": "Complete payment",
+      "error": "We couldn't update your languages. Please try again."
+    }
   }
 };
 export default messages;
\ No newline at end of file
@@ -1,13 +1,35 @@
 import createMiddleware from 'next-intl/middleware';
 import {routing} from './i18n/routing';
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CSRF_COOKIE_NAME,
+  csrfErrorResponse,
+  generateCSRFToken,
+  setCSRFCookie,
+  shouldRefreshCSRFToken,
+  validateCSRFRequest
+} from './lib/csrf';
 
 const intlMiddleware = createMiddleware(routing);
 
 export default function proxy(request: NextRequest) {
+  // API requests only need the CSRF check (mutating onboarding/Stripe calls)
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    const csrfValidation = validateCSRFRequest(request);
+    if (!csrfValidation.valid) {
+      return csrfErrorResponse(csrfValidation.error);
+    }
+    return NextResponse.next();
+  }
+
   // Run intl middleware first
   const response = intlMiddleware(request);
 
+  // Issue (or rotate) the double-submit CSRF cookie on page loads
+  if (shouldRefreshCSRFToken(request.cookies.get(CSRF_COOKIE_NAME)?.value)) {
+    setCSRFCookie(response, generateCSRFToken());
+  }
+
   // Only apply CSP in production
   if (process.env.NODE_ENV === 'production') {
     // Use a permissive CSP that still locks down external domains but avoids nonce/strict-dynamic
@@ -37,6 +59,10 @@ export default function proxy(request: NextRequest) {
 export const config = {
   matcher: [
     // Skip all paths that should not be internationalized
-    '/((?!api|trpc|_next|_vercel|.*\\..*).*)',
+    // (/preview/[token] is a tracking link served by a route handler, not a page)
+    '/((?!api|trpc|_next|_vercel|preview/|.*\\..*).*)',
+    // CSRF enforcement for mutating onboarding and payment API calls
+    '/api/onboarding/:path*',
+    '/api/stripe/:path*',
   ]
 };
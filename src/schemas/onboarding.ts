@@ -289,7 +289,16 @@ const uploadedFileSchema = z.object({
     /^image\/(png|jpg|jpeg)$/,
     'Logo must be PNG or JPG format'
   ),
-  url: z.string().url(),
+  // Older uploads only stored a signed URL; new ones are referenced by storage path
+  url: z.string().optional(),
+  path: z.string().optional(),
+  derivatives: z.array(z.object({
+    path: z.string(),
+    width: z.number(),
+    height: z.number(),
+    format: z.enum(['webp', 'avif']),
+    size: z.number()
+  })).optional(),
   width: z.number().optional(),
   height: z.number().optional(),
   uploadedAt: z.string()
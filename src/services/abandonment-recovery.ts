@@ -0,0 +1,245 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { createServiceClient } from '@/lib/supabase'
+import { Locale, locales } from '@/lib/i18n'
+import { EmailService } from '@/services/resend'
+import { OnboardingServerService } from '@/services/onboarding-server'
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const DEFAULT_THRESHOLDS_HOURS = [24, 72]
+const DEFAULT_MAX_INACTIVE_DAYS = 14
+const BATCH_SIZE = 200
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://whiteboar.it'
+
+const getUnsubscribeSecret = () => {
+  if (process.env.NODE_ENV === 'test') {
+    return 'test-recovery-secret'
+  }
+
+  const secret = process.env.SESSION_SECRET
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('SESSION_SECRET environment variable is required in production')
+    }
+    // Development fallback
+    return 'development-recovery-secret-change-in-production'
+  }
+  return secret
+}
+
+export interface RecoveryRunOptions {
+  dryRun?: boolean
+  now?: Date
+}
+
+export interface RecoveryRunResult {
+  dryRun: boolean
+  thresholdsHours: number[]
+  candidates: number
+  sent: number
+  skipped: number
+  failed: number
+  details: Array<{
+    sessionId: string
+    stage: number
+    outcome: 'sent' | 'would_send' | 'failed' | 'duplicate'
+  }>
+}
+
+// Row returned by get_recovery_candidates
+interface RecoveryCandidate {
+  id: string
+  email: string
+  current_step: number
+  form_data: Record<string, any> | null
+  last_activity: string
+  locale: string | null
+}
+
+/**
+ * Abandoned onboarding recovery (SERVER-SIDE ONLY)
+ * Emails verified users who stopped before submitting, once per inactivity threshold
+ */
+export class AbandonmentRecoveryService {
+  /**
+   * Inactivity thresholds in hours, ascending
+   * Configured via RECOVERY_EMAIL_THRESHOLDS_HOURS (e.g. "24,72")
+   */
+  static getThresholdsHours(): number[] {
+    const raw = process.env.RECOVERY_EMAIL_THRESHOLDS_HOURS
+    const parsed = (raw || '')
+      .split(',')
+      .map(value => parseFloat(value.trim()))
+      .filter(value => Number.isFinite(value) && value > 0)
+
+    return (parsed.length > 0 ? parsed : DEFAULT_THRESHOLDS_HOURS).sort((a, b) => a - b)
+  }
+
+  /**
+   * Sessions idle for longer than this are considered dead and never emailed
+   */
+  static getMaxInactiveDays(): number {
+    const parsed = parseInt(process.env.RECOVERY_EMAIL_MAX_INACTIVE_DAYS || '', 10)
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_INACTIVE_DAYS
+  }
+
+  /**
+   * Stage (1-based) a session is due for given its inactivity, or 0 if none
+   */
+  static getDueStage(lastActivity: Date, now: Date, thresholdsHours: number[]): number {
+    const inactiveHours = (now.getTime() - lastActivity.getTime()) / 3600000
+    let stage = 0
+    thresholdsHours.forEach((threshold, index) => {
+      if (inactiveHours >= threshold) {
+        stage = index + 1
+      }
+    })
+    return stage
+  }
+
+  /**
+   * Signed token so unsubscribe links can't be forged for other sessions
+   */
+  static createUnsubscribeToken(sessionId: string): string {
+    return createHmac('sha256', getUnsubscribeSecret())
+      .update(`recovery-unsubscribe|${sessionId}`)
+      .digest('hex')
+  }
+
+  static verifyUnsubscribeToken(sessionId: string, token: string): boolean {
+    const expected = Buffer.from(this.createUnsubscribeToken(sessionId))
+    const received = Buffer.from(token || '')
+    return expected.length === received.length && timingSafeEqual(expected, received)
+  }
+
+  static getUnsubscribeUrl(sessionId: string, locale: Locale): string {
+    const localePrefix = locale === 'en' ? '' : `/${locale}`
+    const token = this.createUnsubscribeToken(sessionId)
+    return `${APP_URL}${localePrefix}/onboarding/unsubscribe?sessionId=${sessionId}&token=${token}`
+  }
+
+  /**
+   * Opt a session out of further recovery emails
+   */
+  static async unsubscribe(sessionId: string): Promise<boolean> {
+    const serviceClient = createServiceClient()
+
+    const { data, error } = await serviceClient
+      .from('onboarding_sessions')
+      .update({ recovery_unsubscribed_at: new Date().toISOString() })
+      .eq('id', sessionId)
+      .is('recovery_unsubscribed_at', null)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to unsubscribe session: ${error.message}`)
+    }
+
+    return (data?.length || 0) > 0
+  }
+
+  /**
+   * Find due sessions and send one recovery email each
+   */
+  static async run(options: RecoveryRunOptions = {}): Promise<RecoveryRunResult> {
+    const now = options.now || new Date()
+    const dryRun = options.dryRun === true
+    const thresholdsHours = this.getThresholdsHours()
+    const serviceClient = createServiceClient()
+
+    const result: RecoveryRunResult = {
+      dryRun,
+      thresholdsHours,
+      candidates: 0,
+      sent: 0,
+      skipped: 0,
+      failed: 0,
+      details: []
+    }
+
+    // Submitted sessions and stages already sent are excluded in the query, so
+    // they can't fill the batch and starve newer sessions
+    const { data: sessions, error } = await serviceClient.rpc('get_recovery_candidates', {
+      p_now: now.toISOString(),
+      p_thresholds_hours: thresholdsHours,
+      p_max_inactive_days: this.getMaxInactiveDays(),
+      p_limit: BATCH_SIZE
+    })
+
+    if (error) {
+      throw new Error(`Failed to load recovery candidates: ${error.message}`)
+    }
+
+    for (const session of (sessions || []) as RecoveryCandidate[]) {
+      const stage = this.getDueStage(new Date(session.last_activity), now, thresholdsHours)
+      if (stage === 0) {
+        continue
+      }
+
+      result.candidates++
+
+      if (dryRun) {
+        result.details.push({ sessionId: session.id, stage, outcome: 'would_send' })
+        continue
+      }
+
+      const locale: Locale = locales.includes(session.locale as Locale) ? (session.locale as Locale) : 'en'
+
+      // Claim the stage first - the unique (session_id, stage) constraint stops concurrent runs double-sending
+      const { error: claimError } = await serviceClient
+        .from('onboarding_recovery_emails')
+        .insert({
+          session_id: session.id,
+          email: session.email,
+          stage,
+          current_step: session.current_step,
+          locale
+        })
+
+      if (claimError) {
+        result.skipped++
+        result.details.push({ sessionId: session.id, stage, outcome: 'duplicate' })
+        continue
+      }
+
+      const formData = session.form_data || {}
+      const sent = await EmailService.sendAbandonmentRecovery(
+        session.email,
+        formData.firstName || formData.businessName || '',
+        session.id,
+        session.current_step,
+        locale,
+        this.getUnsubscribeUrl(session.id, locale)
+      )
+
+      if (!sent) {
+        // Release the claim so the next run can retry
+        await serviceClient
+          .from('onboarding_recovery_emails')
+          .delete()
+          .eq('session_id', session.id)
+          .eq('stage', stage)
+
+        result.failed++
+        result.details.push({ sessionId: session.id, stage, outcome: 'failed' })
+        continue
+      }
+
+      result.sent++
+      result.details.push({ sessionId: session.id, stage, outcome: 'sent' })
+
+      await OnboardingServerService.trackEvent(
+        session.id,
+        'recovery_email_sent',
+        { stage, locale, current_step: session.current_step },
+        undefined,
+        undefined,
+        'system_event'
+      )
+    }
+
+    return result
+  }
+}
@@ -0,0 +1,76 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+// 13 months: a year-over-year comparison plus the current month
+const DEFAULT_RETENTION_DAYS = 395
+const PURGE_BATCH_SIZE = 10000
+// Upper bound per run; a larger backlog is finished by the next runs
+const MAX_BATCHES_PER_RUN = 50
+
+export interface AnalyticsRetentionReport {
+  dryRun: boolean
+  retentionDays: number
+  cutoff: string
+  /** Events deleted, or that would be deleted on a dry run */
+  purged: number
+  /** More expired events remain than one run deletes */
+  truncated: boolean
+}
+
+/**
+ * How long onboarding analytics events are kept
+ * Configured via ANALYTICS_RETENTION_DAYS.
+ */
+export function getAnalyticsRetentionDays(): number {
+  const days = parseInt(process.env.ANALYTICS_RETENTION_DAYS || '', 10)
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS
+}
+
+/**
+ * Purges onboarding_analytics events older than the retention window
+ */
+export class AnalyticsRetentionService {
+  async run(
+    supabase: SupabaseClient,
+    {
+      dryRun = false,
+      retentionDays = getAnalyticsRetentionDays(),
+      now = new Date()
+    }: { dryRun?: boolean; retentionDays?: number; now?: Date } = {}
+  ): Promise<AnalyticsRetentionReport> {
+    const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000)
+    const report: AnalyticsRetentionReport = {
+      dryRun,
+      retentionDays,
+      cutoff: cutoff.toISOString(),
+      purged: 0,
+      truncated: false
+    }
+
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+      const { data, error } = await supabase.rpc('purge_onboarding_analytics', {
+        p_before: report.cutoff,
+        p_limit: PURGE_BATCH_SIZE,
+        p_dry_run: dryRun
+      })
+
+      if (error) {
+        throw new Error(`Failed to purge analytics events: ${error.message}`)
+      }
+
+      const affected = Number(data) || 0
+      report.purged += affected
+
+      // A dry run counts everything in one call
+      if (dryRun || affected < PURGE_BATCH_SIZE) {
+        return report
+      }
+    }
+
+    report.truncated = true
+    return report
+  }
+}
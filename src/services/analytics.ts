@@ -1,10 +1,15 @@
 import { track } from '@vercel/analytics'
 import {
+  AnalyticsBatchEvent,
   AnalyticsEventType,
   AnalyticsCategory,
   StepNumber,
   OnboardingFormData
 } from '@/types/onboarding'
+import { csrfFetch } from '@/lib/csrf-fetch'
+import { ANALYTICS_BATCH_PATH, MAX_ANALYTICS_BATCH_BYTES, MAX_ANALYTICS_BATCH_SIZE } from '@/lib/analytics-ingestion'
+import { generateUUID } from '@/lib/utils'
+import type { ConversionMetrics, ConversionSummary } from '@/services/conversion-metrics'
 
 // =============================================================================
 // ANALYTICS SERVICE CLASS
@@ -30,7 +35,7 @@ export class AnalyticsService {
   ): Promise<void> {
     try {
       // Don't wait for analytics calls to complete - fire and forget
-      fetch('/api/onboarding/analytics/track', {
+      csrfFetch('/api/onboarding/analytics/track', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -410,18 +415,15 @@ export class AnalyticsService {
     // Track with Vercel Analytics
     track('onboarding_api_performance', performanceData)
 
-    // Track significant slow operations in database
-    if (duration > 2000 || !success) {
-      this.trackEventViaAPI(
-        sessionId,
-        success ? 'auto_save' : 'form_error',
-        performanceData,
-        undefined,
-        undefined,
-        success ? 'performance' : 'error',
-        duration
-      )
-    }
+    // Every call is recorded (batched) so the dashboard can compute latency percentiles
+    this.queueEvent(
+      sessionId,
+      'api_performance',
+      performanceData,
+      undefined,
+      success ? 'performance' : 'error',
+      duration
+    )
   }
 
   /**
@@ -588,13 +590,8 @@ export class AnalyticsService {
   // BATCH TRACKING FOR PERFORMANCE
   // ===========================================================================
 
-  private static eventQueue: Array<{
-    sessionId: string
-    eventType: AnalyticsEventType
-    metadata: Record<string, any>
-    stepNumber?: StepNumber
-    timestamp: number
-  }> = []
+  private static eventQueue: AnalyticsBatchEvent[] = []
+  private static autoFlushInitialized = false
 
   /**
    * Queue event for batch processing
@@ -603,13 +600,18 @@ export class AnalyticsService {
     sessionId: string,
     eventType: AnalyticsEventType,
     metadata: Record<string, any> = {},
-    stepNumber?: StepNumber
+    stepNumber?: StepNumber,
+    category?: AnalyticsCategory,
+    durationMs?: number
   ): void {
     this.eventQueue.push({
+      id: generateUUID(),
       sessionId,
       eventType,
       metadata,
       stepNumber,
+      category,
+      durationMs,
       timestamp: Date.now()
     })
 
@@ -620,48 +622,95 @@ export class AnalyticsService {
   }
 
   /**
-   * Flush queued events to database
+   * Take the queue in batches the ingestion route accepts
+   */
+  private static drainEventQueue(): AnalyticsBatchEvent[][] {
+    const events = this.eventQueue.splice(0, this.eventQueue.length)
+    const batches: AnalyticsBatchEvent[][] = []
+
+    for (let index = 0; index < events.length; index += MAX_ANALYTICS_BATCH_SIZE) {
+      batches.push(events.slice(index, index + MAX_ANALYTICS_BATCH_SIZE))
+    }
+    return batches
+  }
+
+  /**
+   * Flush queued events to database, one request per batch
+   * Failed batches go back on the queue; event ids make a retry of a batch
+   * that was stored after all harmless.
    */
   static async flushEventQueue(): Promise<void> {
-    if (this.eventQueue.length === 0) return
+    const batches = this.drainEventQueue()
+
+    await Promise.all(batches.map(async (events) => {
+      try {
+        const response = await csrfFetch(ANALYTICS_BATCH_PATH, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ events })
+        })
 
-    const events = [...this.eventQueue]
-    this.eventQueue.length = 0 // Clear queue
+        // Rejections (4xx) would fail the same way again
+        if (response.status >= 500 || response.status === 429) {
+          throw new Error(`Analytics batch failed with ${response.status}`)
+        }
+      } catch (error) {
+        console.warn('Failed to flush event queue:', error)
+        this.eventQueue.unshift(...events)
+      }
+    }))
+  }
 
-    try {
-      // Process events in batches
-      await Promise.all(
-        events.map(event =>
-          this.trackEventViaAPI(
-            event.sessionId,
-            event.eventType,
-            { ...event.metadata, queued_at: event.timestamp },
-            event.stepNumber
-          )
-        )
-      )
-    } catch (error) {
-      console.error('Failed to flush event queue:', error)
-      // Re-add events to queue for retry
-      this.eventQueue.unshift(...events)
-    }
+  /**
+   * Flush while the page is being hidden or unloaded
+   * sendBeacon outlives the page; an async fetch from an unload handler is
+   * usually dropped by the browser.
+   */
+  static flushEventQueueWithBeacon(): void {
+    const canBeacon = typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function'
+
+    this.drainEventQueue().forEach(events => {
+      const body = JSON.stringify({ events })
+      const sent = canBeacon && body.length <= MAX_ANALYTICS_BATCH_BYTES &&
+        navigator.sendBeacon(ANALYTICS_BATCH_PATH, new Blob([body], { type: 'application/json' }))
+
+      if (!sent) {
+        // Beacon refused (quota, size): keepalive fetch is the next best thing
+        fetch(ANALYTICS_BATCH_PATH, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body,
+          keepalive: true
+        }).catch(() => {
+          // Page is going away - nothing left to retry with
+        })
+      }
+    })
   }
 
   /**
    * Set up automatic queue flushing
    */
   static initializeAutoFlush(): void {
+    if (this.autoFlushInitialized || typeof window === 'undefined') {
+      return
+    }
+    this.autoFlushInitialized = true
+
     // Flush queue every 30 seconds
     setInterval(() => {
       this.flushEventQueue()
     }, 30000)
 
-    // Flush queue on page unload
-    if (typeof window !== 'undefined') {
-      window.addEventListener('beforeunload', () => {
-        this.flushEventQueue()
-      })
-    }
+    // Hidden is the last reliable moment on mobile, where unload often never fires
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        this.flushEventQueueWithBeacon()
+      }
+    })
+    window.addEventListener('pagehide', () => {
+      this.flushEventQueueWithBeacon()
+    })
   }
 }
 
@@ -897,18 +946,18 @@ export function trackDropOff(
 }
 
 /**
- * Calculate and track conversion rate for Steps 13-14
- * Call this periodically to monitor performance
+ * Fetch conversion metrics (admin session required)
+ * Summary rates for Steps 13-14 plus the per-step funnel, drop-off and device breakdown
  */
-export async function calculateConversionMetrics(): Promise<{
-  step13CompletionRate: number
-  step14CompletionRate: number
-  avgTimeToComplete: number
-  mobileCompletionRate: number
-  dropOffRate: number
-}> {
+export async function calculateConversionMetrics(
+  filters: { from?: string; to?: string; locale?: string } = {}
+): Promise<ConversionSummary & Partial<ConversionMetrics>> {
   try {
-    const response = await fetch('/api/onboarding/analytics/conversion-metrics')
+    const params = new URLSearchParams(
+      Object.entries(filters).filter((entry): entry is [string, string] => Boolean(entry[1]))
+    )
+    const query = params.toString()
+    const response = await fetch(`/api/onboarding/analytics/conversion-metrics${query ? `?${query}` : ''}`)
     if (!response.ok) throw new Error('Failed to fetch conversion metrics')
 
     const data = await response.json()
@@ -0,0 +1,179 @@
+import { createServiceClient } from '@/lib/supabase'
+import { Locale } from '@/lib/i18n'
+import { AnalyticsRangeFilters, resolveAnalyticsRange } from '@/lib/analytics-range'
+import { STEP_CONFIGS } from '@/lib/step-navigation'
+import { StepNumber, TOTAL_STEPS } from '@/types/onboarding'
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+// Sessions idle this long without paying count as dropped off
+const ABANDONED_AFTER_HOURS = 24
+// Longer gaps between step views mean the visitor left and came back
+const MAX_STEP_SECONDS = 2 * 3600
+
+export type ConversionDevice = 'mobile' | 'desktop' | 'unknown'
+
+export interface StepConversion {
+  step: StepNumber
+  title: string
+  reached: number
+  completed: number
+  // Percentage of sessions reaching the step that got past it
+  completionRate: number
+  // Abandoned sessions whose furthest step was this one
+  droppedOff: number
+  medianSeconds: number | null
+  timedSessions: number
+}
+
+export interface DeviceConversion {
+  device: ConversionDevice
+  sessions: number
+  submitted: number
+  paid: number
+  // Percentage of sessions that paid
+  completionRate: number
+}
+
+// Rates are percentages, times in seconds
+export interface ConversionSummary {
+  step13CompletionRate: number
+  step14CompletionRate: number
+  avgTimeToComplete: number
+  mobileCompletionRate: number
+  dropOffRate: number
+}
+
+export interface ConversionMetrics extends ConversionSummary {
+  range: { from: string; to: string; locale: Locale | null }
+  totals: {
+    sessions: number
+    submitted: number
+    paid: number
+    abandoned: number
+    medianCompletionSeconds: number | null
+  }
+  steps: StepConversion[]
+  dropOff: Array<{ step: StepNumber; sessions: number; share: number }>
+  devices: DeviceConversion[]
+}
+
+// Shape returned by the get_conversion_metrics() database function
+export interface RawConversionMetrics {
+  sessions: number
+  submitted: number
+  paid: number
+  abandoned: number
+  avg_completion_seconds: number | null
+  median_completion_seconds: number | null
+  steps: Array<{
+    step: number
+    reached: number
+    completed: number
+    dropped: number
+    median_seconds: number | null
+    timed_samples: number
+  }>
+  devices: Array<{ device: ConversionDevice; sessions: number; submitted: number; paid: number }>
+}
+
+const percentage = (part: number, whole: number) =>
+  whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0
+
+const roundSeconds = (value: number | null | undefined) =>
+  value === null || value === undefined ? null : Math.round(Number(value))
+
+/**
+ * Onboarding conversion metrics (SERVER-SIDE ONLY)
+ * Aggregation runs in the database (onboarding_session_funnel view and
+ * get_conversion_metrics function); this service shapes it into rates.
+ */
+export class ConversionMetricsService {
+  /**
+   * Metrics for sessions started in [from, to), by default the last 30 days
+   */
+  static async getConversionMetrics(filters: AnalyticsRangeFilters = {}): Promise<ConversionMetrics> {
+    const { from, to } = resolveAnalyticsRange(filters)
+
+    const { data, error } = await createServiceClient().rpc('get_conversion_metrics', {
+      p_from: from.toISOString(),
+      p_to: to.toISOString(),
+      p_locale: filters.locale ?? null,
+      p_abandoned_after_hours: ABANDONED_AFTER_HOURS,
+      p_max_step_seconds: MAX_STEP_SECONDS
+    })
+
+    if (error || !data) {
+      throw new Error(`Failed to get conversion metrics: ${error?.message || 'No data'}`)
+    }
+
+    return this.buildMetrics(data as RawConversionMetrics, {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      locale: filters.locale ?? null
+    })
+  }
+
+  /**
+   * Turn the database counts into rates and fill in steps without sessions
+   */
+  static buildMetrics(raw: RawConversionMetrics, range: ConversionMetrics['range']): ConversionMetrics {
+    const rawSteps = new Map((raw.steps || []).map(step => [step.step, step]))
+
+    const steps: StepConversion[] = Array.from({ length: TOTAL_STEPS }, (_, index) => {
+      const step = (index + 1) as StepNumber
+      const counts = rawSteps.get(step)
+      const reached = Number(counts?.reached || 0)
+      const completed = Number(counts?.completed || 0)
+
+      return {
+        step,
+        title: STEP_CONFIGS[step].title,
+        reached,
+        completed,
+        completionRate: percentage(completed, reached),
+        droppedOff: Number(counts?.dropped || 0),
+        medianSeconds: roundSeconds(counts?.median_seconds),
+        timedSessions: Number(counts?.timed_samples || 0)
+      }
+    })
+
+    const abandoned = Number(raw.abandoned || 0)
+    const devices: DeviceConversion[] = (raw.devices || []).map(device => ({
+      device: device.device,
+      sessions: Number(device.sessions),
+      submitted: Number(device.submitted),
+      paid: Number(device.paid),
+      completionRate: percentage(Number(device.paid), Number(device.sessions))
+    }))
+    const mobile = devices.find(device => device.device === 'mobile')
+
+    return {
+      step13CompletionRate: steps[12].completionRate,
+      step14CompletionRate: steps[13].completionRate,
+      avgTimeToComplete: roundSeconds(raw.avg_completion_seconds) ?? 0,
+      mobileCompletionRate: mobile?.completionRate ?? 0,
+      dropOffRate: percentage(abandoned, Number(raw.sessions || 0)),
+
+      range,
+      totals: {
+        sessions: Number(raw.sessions || 0),
+        submitted: Number(raw.submitted || 0),
+        paid: Number(raw.paid || 0),
+        abandoned,
+        medianCompletionSeconds: roundSeconds(raw.median_completion_seconds)
+      },
+      steps,
+      dropOff: steps
+        .filter(step => step.droppedOff > 0)
+        .map(step => ({
+          step: step.step,
+          sessions: step.droppedOff,
+          share: percentage(step.droppedOff, abandoned)
+        })),
+      devices
+    }
+  }
+}
@@ -0,0 +1,265 @@
+import Stripe from 'stripe'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ANALYTICS_ITEMS, getPurchaseTransactionId } from '@/lib/analytics'
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const GA4_COLLECT_URL = 'https://www.google-analytics.com/mp/collect'
+const DEFAULT_SEND_TIMEOUT_MS = 5000
+
+// Stripe invoice metadata written at checkout, read back by the webhook
+export const GA_CLIENT_ID_METADATA_KEY = 'ga_client_id'
+export const MARKETING_CONSENT_METADATA_KEY = 'marketing_consent'
+
+/** What the browser told us at checkout */
+export interface ConversionContext {
+  gaClientId: string | null
+  marketingConsent: boolean
+}
+
+export interface PurchaseItem {
+  item_id: string
+  item_name: string
+  item_category: string
+  price: number
+  quantity: number
+}
+
+export interface PurchaseConversion {
+  clientId: string
+  transactionId: string
+  value: number
+  currency: string
+  coupon?: string
+  items: PurchaseItem[]
+  /** When the invoice was paid, in microseconds */
+  timestampMicros?: number
+}
+
+export type ConversionTrackingResult =
+  | { status: 'sent'; sender: string; transactionId: string }
+  | { status: 'skipped'; reason: 'disabled' | 'renewal' | 'no_consent' | 'already_tracked' }
+  | { status: 'failed'; error: string }
+
+/**
+ * Pluggable conversion sender
+ * Implementations throw when the event could not be delivered.
+ */
+export interface ConversionSender {
+  readonly name: string
+  sendPurchase(purchase: PurchaseConversion): Promise<void>
+}
+
+/**
+ * GA4 Measurement Protocol sender
+ * The collect endpoint answers 2xx even for malformed events; use the
+ * /debug/mp/collect validation endpoint when changing the payload.
+ */
+export class Ga4MeasurementProtocolSender implements ConversionSender {
+  readonly name = 'ga4'
+
+  constructor(
+    private readonly options: { measurementId: string; apiSecret: string; timeoutMs?: number }
+  ) {}
+
+  async sendPurchase(purchase: PurchaseConversion): Promise<void> {
+    const url = `${GA4_COLLECT_URL}?measurement_id=${encodeURIComponent(this.options.measurementId)}` +
+      `&api_secret=${encodeURIComponent(this.options.apiSecret)}`
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        client_id: purchase.clientId,
+        ...(purchase.timestampMicros ? { timestamp_micros: purchase.timestampMicros } : {}),
+        // Only sent with marketing consent, see ConversionTrackingService
+        consent: { ad_user_data: 'GRANTED', ad_personalization: 'GRANTED' },
+        events: [{
+          name: 'purchase',
+          params: {
+            transaction_id: purchase.transactionId,
+            value: purchase.value,
+            currency: purchase.currency,
+            ...(purchase.coupon ? { coupon: purchase.coupon } : {}),
+            items: purchase.items
+          }
+        }]
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_SEND_TIMEOUT_MS)
+    })
+
+    if (!response.ok) {
+      throw new Error(`GA4 Measurement Protocol responded with ${response.status}`)
+    }
+  }
+}
+
+/**
+ * Local test double: keeps purchases in memory instead of sending them
+ * Selected with CONVERSION_SENDER=local so the webhook flow can be exercised
+ * without a GA4 property.
+ */
+export class RecordingConversionSender implements ConversionSender {
+  readonly name = 'local'
+  readonly sent: PurchaseConversion[] = []
+
+  async sendPurchase(purchase: PurchaseConversion): Promise<void> {
+    this.sent.push(purchase)
+    console.log('[Conversion] Recorded purchase (local sender):', purchase.transactionId, purchase.value, purchase.currency)
+  }
+}
+
+/**
+ * Sender configured for this deployment, or null when conversion tracking is disabled
+ * GA4_MEASUREMENT_ID and GA4_API_SECRET enable the Measurement Protocol;
+ * CONVERSION_SENDER=local records purchases in memory instead.
+ */
+export function getConversionSender(): ConversionSender | null {
+  if (process.env.CONVERSION_SENDER === 'local') {
+    return new RecordingConversionSender()
+  }
+
+  if (process.env.GA4_MEASUREMENT_ID && process.env.GA4_API_SECRET) {
+    return new Ga4MeasurementProtocolSender({
+      measurementId: process.env.GA4_MEASUREMENT_ID,
+      apiSecret: process.env.GA4_API_SECRET
+    })
+  }
+
+  return null
+}
+
+/**
+ * GA client id from the _ga cookie: "GA1.1.1234567890.1700000000" → "1234567890.1700000000"
+ */
+export function parseGaClientId(cookie: string | null | undefined): string | null {
+  const match = /^GA\d+\.\d+\.(\d+\.\d+)$/.exec(cookie?.trim() || '')
+  return match ? match[1] : null
+}
+
+/**
+ * Invoice metadata carrying the checkout's consent and GA client id
+ */
+export function getConversionInvoiceMetadata(context: ConversionContext | undefined): Record<string, string> {
+  if (!context) {
+    return {}
+  }
+
+  return {
+    [MARKETING_CONSENT_METADATA_KEY]: context.marketingConsent ? 'granted' : 'denied',
+    ...(context.gaClientId ? { [GA_CLIENT_ID_METADATA_KEY]: context.gaClientId } : {})
+  }
+}
+
+/**
+ * GA4 purchase for a paid checkout invoice: base package plus language add-ons
+ * The transaction id is the submission id, the same one the browser reports,
+ * so GA4 counts the purchase once when both arrive.
+ */
+export function buildPurchaseConversion(
+  invoice: Stripe.Invoice,
+  submission: { id: string; session_id: string | null },
+  coupon?: string | null
+): PurchaseConversion {
+  const base = ANALYTICS_ITEMS.fast_simple
+  const lines = invoice.lines?.data || []
+
+  const items: PurchaseItem[] = lines
+    .filter(line => line.amount >= 0)
+    .map(line => {
+      const quantity = line.quantity || 1
+      const price = line.amount / 100 / quantity
+      const languageCode = line.metadata?.language_code
+
+      return languageCode
+        ? {
+            item_id: `language_addon_${languageCode}`,
+            item_name: line.description || 'Language Add-on',
+            item_category: 'language_addon',
+            price,
+            quantity
+          }
+        : { item_id: base.item_id, item_name: base.item_name, item_category: base.item_category, price, quantity }
+    })
+
+  const paidAt = invoice.status_transitions?.paid_at
+
+  return {
+    // Without a _ga cookie (blocked tag) the conversion still counts, unattributed
+    clientId: invoice.metadata?.[GA_CLIENT_ID_METADATA_KEY] || `${submission.session_id || submission.id}`,
+    transactionId: getPurchaseTransactionId(submission.id),
+    value: invoice.amount_paid / 100,
+    currency: invoice.currency.toUpperCase(),
+    ...(coupon ? { coupon } : {}),
+    items: items.length > 0
+      ? items
+      : [{ item_id: base.item_id, item_name: base.item_name, item_category: base.item_category, price: invoice.amount_paid / 100, quantity: 1 }],
+    ...(paidAt ? { timestampMicros: paidAt * 1_000_000 } : {})
+  }
+}
+
+/**
+ * Server-side purchase conversions (SERVER-SIDE ONLY)
+ * Sent from the invoice webhook, so ad blockers and closed tabs no longer
+ * lose purchases. Only the first paid invoice of a submission counts, and
+ * only when marketing consent was given at checkout.
+ */
+export class ConversionTrackingService {
+  private sender: ConversionSender | null
+
+  constructor(sender: ConversionSender | null = getConversionSender()) {
+    this.sender = sender
+  }
+
+  async trackInvoicePurchase(
+    invoice: Stripe.Invoice,
+    submission: { id: string; session_id: string | null },
+    supabase: SupabaseClient,
+    { coupon = null, now = new Date() }: { coupon?: string | null; now?: Date } = {}
+  ): Promise<ConversionTrackingResult> {
+    if (!this.sender) {
+      return { status: 'skipped', reason: 'disabled' }
+    }
+
+    if (invoice.billing_reason === 'subscription_cycle') {
+      return { status: 'skipped', reason: 'renewal' }
+    }
+
+    if (invoice.metadata?.[MARKETING_CONSENT_METADATA_KEY] !== 'granted') {
+      return { status: 'skipped', reason: 'no_consent' }
+    }
+
+    // Several invoice events arrive for one payment; only the first claim sends
+    const { data: claimed, error: claimError } = await supabase
+      .from('onboarding_submissions')
+      .update({ conversion_tracked_at: now.toISOString() })
+      .eq('id', submission.id)
+      .is('conversion_tracked_at', null)
+      .select('id')
+
+    if (claimError) {
+      return { status: 'failed', error: `Failed to claim conversion: ${claimError.message}` }
+    }
+
+    if (!claimed || claimed.length === 0) {
+      return { status: 'skipped', reason: 'already_tracked' }
+    }
+
+    const purchase = buildPurchaseConversion(invoice, submission, coupon)
+
+    try {
+      await this.sender.sendPurchase(purchase)
+      return { status: 'sent', sender: this.sender.name, transactionId: purchase.transactionId }
+    } catch (error) {
+      // Release the claim so a replayed webhook can send it again
+      await supabase
+        .from('onboarding_submissions')
+        .update({ conversion_tracked_at: null })
+        .eq('id', submission.id)
+
+      return { status: 'failed', error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+}
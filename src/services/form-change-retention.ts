@@ -0,0 +1,92 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+// Two years: covers card dispute windows and the period in which customers
+// usually contest what they entered, without keeping their answers forever
+const DEFAULT_RETENTION_DAYS = 730
+const PURGE_BATCH_SIZE = 10000
+// Upper bound per run; a larger backlog is finished by the next runs
+const MAX_BATCHES_PER_RUN = 50
+
+export interface FormChangeRetentionReport {
+  dryRun: boolean
+  retentionDays: number
+  cutoff: string
+  /** Changes deleted, or that would be deleted on a dry run */
+  purged: number
+  /** More expired changes remain than one run deletes */
+  truncated: boolean
+}
+
+/**
+ * How long field-level form change history is kept
+ * Configured via FORM_CHANGE_RETENTION_DAYS.
+ */
+export function getFormChangeRetentionDays(): number {
+  const days = parseInt(process.env.FORM_CHANGE_RETENTION_DAYS || '', 10)
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS
+}
+
+/**
+ * Purges onboarding_form_changes rows older than the retention window
+ */
+export class FormChangeRetentionService {
+  async run(
+    supabase: SupabaseClient,
+    {
+      dryRun = false,
+      retentionDays = getFormChangeRetentionDays(),
+      now = new Date()
+    }: { dryRun?: boolean; retentionDays?: number; now?: Date } = {}
+  ): Promise<FormChangeRetentionReport> {
+    const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000)
+    const report: FormChangeRetentionReport = {
+      dryRun,
+      retentionDays,
+      cutoff: cutoff.toISOString(),
+      purged: 0,
+      truncated: false
+    }
+
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+      const { data, error } = await supabase.rpc('purge_onboarding_form_changes', {
+        p_before: report.cutoff,
+        p_limit: PURGE_BATCH_SIZE,
+        p_dry_run: dryRun
+      })
+
+      if (error) {
+        throw new Error(`Failed to purge form changes: ${error.message}`)
+      }
+
+      const affected = Number(data) || 0
+      report.purged += affected
+
+      // A dry run counts everything in one call
+      if (dryRun || affected < PURGE_BATCH_SIZE) {
+        return report
+      }
+    }
+
+    report.truncated = true
+    return report
+  }
+
+  /**
+   * Deletes the whole history of one session, e.g. for an erasure request
+   */
+  async purgeSession(supabase: SupabaseClient, sessionId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('purge_session_form_changes', {
+      p_session_id: sessionId
+    })
+
+    if (error) {
+      throw new Error(`Failed to purge form changes for session ${sessionId}: ${error.message}`)
+    }
+
+    return Number(data) || 0
+  }
+}
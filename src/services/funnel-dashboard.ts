@@ -0,0 +1,174 @@
+import { createServiceClient } from '@/lib/supabase'
+import { AnalyticsRangeFilters, resolveAnalyticsRange } from '@/lib/analytics-range'
+import { detectBusinessType } from '@/lib/step-navigation'
+import { OnboardingFormData } from '@/types/onboarding'
+import { ConversionDevice, ConversionMetrics, ConversionMetricsService } from '@/services/conversion-metrics'
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+// Cohorts are built from per-session rows; cap what one request loads
+const MAX_COHORT_SESSIONS = 10000
+
+export type CohortDimension = 'locale' | 'device' | 'businessType'
+
+export interface CohortRow {
+  cohort: string
+  sessions: number
+  submitted: number
+  paid: number
+  // Percentages of the cohort's sessions
+  submissionRate: number
+  conversionRate: number
+  averageFurthestStep: number
+}
+
+export interface FieldErrorCell {
+  step: number
+  field: string
+  errors: number
+  sessions: number
+}
+
+export interface ApiLatencyRow {
+  operation: string
+  calls: number
+  failures: number
+  p50Ms: number | null
+  p90Ms: number | null
+  p95Ms: number | null
+  p99Ms: number | null
+}
+
+export interface FunnelDashboard {
+  funnel: ConversionMetrics
+  fieldErrors: FieldErrorCell[]
+  apiLatency: ApiLatencyRow[]
+  cohorts: Record<CohortDimension, CohortRow[]>
+  // True when the range held more sessions than the cohorts were built from
+  cohortsTruncated: boolean
+}
+
+// onboarding_session_funnel columns used for cohorts
+export interface FunnelSessionRow {
+  locale: string | null
+  device: ConversionDevice
+  furthest_step: number
+  submitted: boolean
+  paid: boolean
+  business_profile: Partial<OnboardingFormData> | null
+}
+
+const percentage = (part: number, whole: number) =>
+  whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0
+
+const roundMs = (value: number | null | undefined) =>
+  value === null || value === undefined ? null : Math.round(Number(value))
+
+/**
+ * Onboarding funnel dashboard (ADMIN ONLY)
+ * Combines the conversion funnel with the field error heatmap, API latency
+ * percentiles and cohort comparisons for one date range and locale.
+ */
+export class FunnelDashboardService {
+  static async getDashboard(filters: AnalyticsRangeFilters = {}): Promise<FunnelDashboard> {
+    const { from, to } = resolveAnalyticsRange(filters)
+    const serviceClient = createServiceClient()
+    const rangeParams = {
+      p_from: from.toISOString(),
+      p_to: to.toISOString(),
+      p_locale: filters.locale ?? null
+    }
+
+    let sessionsQuery = serviceClient
+      .from('onboarding_session_funnel')
+      .select('locale, device, furthest_step, submitted, paid, business_profile', { count: 'exact' })
+      .gte('created_at', rangeParams.p_from)
+      .lt('created_at', rangeParams.p_to)
+
+    if (filters.locale) {
+      sessionsQuery = sessionsQuery.eq('locale', filters.locale)
+    }
+
+    const [funnel, fieldErrors, apiLatency, sessions] = await Promise.all([
+      ConversionMetricsService.getConversionMetrics({ from, to, locale: filters.locale }),
+      serviceClient.rpc('get_field_error_heatmap', rangeParams),
+      serviceClient.rpc('get_api_latency_percentiles', rangeParams),
+      sessionsQuery.order('created_at', { ascending: false }).limit(MAX_COHORT_SESSIONS)
+    ])
+
+    const failed = fieldErrors.error || apiLatency.error || sessions.error
+    if (failed) {
+      throw new Error(`Failed to load funnel dashboard: ${failed.message}`)
+    }
+
+    const rows = (sessions.data || []) as FunnelSessionRow[]
+
+    return {
+      funnel,
+      fieldErrors: (fieldErrors.data || []).map((cell: any) => ({
+        step: Number(cell.step_number),
+        field: cell.field_name,
+        errors: Number(cell.errors),
+        sessions: Number(cell.sessions)
+      })),
+      apiLatency: (apiLatency.data || []).map((row: any) => ({
+        operation: row.operation,
+        calls: Number(row.calls),
+        failures: Number(row.failures),
+        p50Ms: roundMs(row.p50_ms),
+        p90Ms: roundMs(row.p90_ms),
+        p95Ms: roundMs(row.p95_ms),
+        p99Ms: roundMs(row.p99_ms)
+      })),
+      cohorts: this.buildCohorts(rows),
+      cohortsTruncated: (sessions.count ?? rows.length) > rows.length
+    }
+  }
+
+  /**
+   * Group sessions by locale, device and detected business type
+   * Business type needs the form answers, so sessions that never described
+   * their business land in 'general' like they would in the app.
+   */
+  static buildCohorts(rows: FunnelSessionRow[]): Record<CohortDimension, CohortRow[]> {
+    const keys: Record<CohortDimension, (row: FunnelSessionRow) => string> = {
+      locale: row => row.locale || 'unknown',
+      device: row => row.device || 'unknown',
+      businessType: row => detectBusinessType(row.business_profile || {})
+    }
+
+    const group = (dimension: CohortDimension): CohortRow[] => {
+      const cohorts = new Map<string, { sessions: number; submitted: number; paid: number; steps: number }>()
+
+      rows.forEach(row => {
+        const cohort = keys[dimension](row)
+        const totals = cohorts.get(cohort) || { sessions: 0, submitted: 0, paid: 0, steps: 0 }
+        totals.sessions++
+        totals.submitted += row.submitted ? 1 : 0
+        totals.paid += row.paid ? 1 : 0
+        totals.steps += Number(row.furthest_step) || 1
+        cohorts.set(cohort, totals)
+      })
+
+      return Array.from(cohorts.entries())
+        .map(([cohort, totals]) => ({
+          cohort,
+          sessions: totals.sessions,
+          submitted: totals.submitted,
+          paid: totals.paid,
+          submissionRate: percentage(totals.submitted, totals.sessions),
+          conversionRate: percentage(totals.paid, totals.sessions),
+          averageFurthestStep: Math.round((totals.steps / totals.sessions) * 10) / 10
+        }))
+        .sort((a, b) => b.sessions - a.sessions)
+    }
+
+    return {
+      locale: group('locale'),
+      device: group('device'),
+      businessType: group('businessType')
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ASSET_BUCKET, ASSET_FOLDERS, getAssetUrl } from '@/lib/assets'
+import { IMAGE_EXTENSIONS, inspectImage } from '@/lib/image-validation'
+import { describeDerivatives, getDerivativePath, processImage } from '@/lib/image-processing'
+import { UploadScanService } from '@/services/upload-scan'
+import { ImageDerivative } from '@/types/onboarding'
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const MAX_UPLOAD_SIZE = 10 * 1024 * 1024 // 10MB
+
+export interface StoredImageUpload {
+  id: string
+  path: string
+  url: string
+  fileName: string
+  fileSize: number
+  mimeType: string
+  width: number
+  height: number
+  derivatives: ImageDerivative[]
+  fullPath: string
+}
+
+export type ImageUploadResult =
+  | { success: true; data: StoredImageUpload }
+  | { success: false; error: string; status: number }
+
+const rejected = (error: string, status: number = 400): ImageUploadResult => ({
+  success: false,
+  error,
+  status
+})
+
+/**
+ * Checks that can run before any bytes are read: type, declared size and MIME type
+ * Returns an error message, or null when the upload may proceed.
+ */
+export function validateUploadRequest({
+  type,
+  size,
+  mimeType
+}: {
+  type: string
+  size: number
+  mimeType: string
+}): string | null {
+  if (!(ASSET_FOLDERS as readonly string[]).includes(type)) {
+    return 'Invalid upload type'
+  }
+
+  if (!Number.isInteger(size) || size <= 0) {
+    return 'File is empty'
+  }
+
+  if (size > MAX_UPLOAD_SIZE) {
+    return 'File size exceeds 10MB limit'
+  }
+
+  // SVG excluded due to XSS risks from embedded scripts
+  if (!(mimeType in IMAGE_EXTENSIONS)) {
+    return 'File type not allowed. Only PNG, JPEG, and WebP files are supported.'
+  }
+
+  return null
+}
+
+/**
+ * Validate, process, store, record and scan a complete image upload
+ * Shared by the single-request upload route and the resumable upload route once
+ * all chunks have arrived, so both paths apply the same checks.
+ *
+ * @param buffer - The file bytes as received from the browser
+ * @param declaredType - The browser-supplied MIME type (not trusted)
+ */
+export async function storeImageUpload(
+  supabase: SupabaseClient,
+  {
+    buffer,
+    declaredType,
+    fileName,
+    type,
+    sessionId
+  }: {
+    buffer: Buffer
+    declaredType: string
+    fileName: string
+    type: string
+    sessionId: string
+  }
+): Promise<ImageUploadResult> {
+  const requestError = validateUploadRequest({ type, size: buffer.length, mimeType: declaredType })
+  if (requestError) {
+    return rejected(requestError)
+  }
+
+  // The browser-supplied type and name are not trusted: identify and decode the content
+  const image = await inspectImage(buffer, declaredType)
+  if (!image.valid) {
+    return rejected(image.error)
+  }
+
+  // Generate unique filename (extension from the detected type)
+  const timestamp = Date.now()
+  const randomId = Math.random().toString(36).substring(2, 15)
+  const filePath = `${type}/${type}-${timestamp}-${randomId}.${image.extension}`
+
+  // Store an auto-oriented copy without EXIF/GPS metadata, plus responsive derivatives
+  const processed = await processImage(buffer, image.mimeType)
+
+  const { data, error } = await supabase.storage
+    .from(ASSET_BUCKET)
+    .upload(filePath, processed.original.buffer, {
+      contentType: image.mimeType,
+      duplex: 'half'
+    })
+
+  if (error || !data) {
+    console.error('Supabase upload error:', error)
+    return rejected('Failed to upload file to storage', 500)
+  }
+
+  // A missing derivative only costs bandwidth: pages fall back to the original
+  const derivativeUploads = await Promise.all(
+    processed.derivatives.map(derivative =>
+      supabase.storage
+        .from(ASSET_BUCKET)
+        .upload(getDerivativePath(data.path, derivative.width, derivative.format), derivative.buffer, {
+          contentType: derivative.mimeType,
+          duplex: 'half'
+        })
+    )
+  )
+  const derivatives = describeDerivatives(
+    data.path,
+    processed.derivatives.filter((_, index) => !derivativeUploads[index].error)
+  )
+  if (derivatives.length < processed.derivatives.length) {
+    console.error('Failed to store some image derivatives for', data.path)
+  }
+
+  // Record the upload in the database
+  try {
+    const { OnboardingServerService } = await import('@/services/onboarding-server')
+    await OnboardingServerService.recordFileUpload(
+      sessionId,
+      type === 'business-asset' ? 'photo' : 'logo', // Map type to file_type
+      data.path,
+      fileName,
+      processed.original.buffer.length,
+      image.mimeType,
+      { width: processed.original.width, height: processed.original.height },
+      derivatives
+    )
+  } catch (dbError) {
+    console.error('Failed to record file upload in database:', dbError)
+    // Don't fail the upload if database recording fails
+    // File is already in storage, user can still proceed
+  }
+
+  // Scan the bytes as received while still in memory; if the scanner is down the
+  // upload stays pending and the upload-scan job retries it
+  const scan = await new UploadScanService().scanUpload(data.path, supabase, {
+    data: buffer,
+    derivativePaths: derivatives.map(derivative => derivative.path)
+  })
+  if (scan.status === 'infected') {
+    return rejected('File was rejected by the security scan', 422)
+  }
+
+  return {
+    success: true,
+    data: {
+      id: data.id,
+      path: data.path,
+      // Durable URL: the asset route signs a fresh storage URL on every read
+      url: getAssetUrl({ path: data.path }),
+      fileName,
+      fileSize: processed.original.buffer.length,
+      mimeType: image.mimeType,
+      width: processed.original.width,
+      height: processed.original.height,
+      derivatives,
+      fullPath: data.fullPath
+    }
+  }
+}
@@ -1,12 +1,11 @@
-import { supabase, typedSupabase } from '@/lib/supabase'
 import { retry, circuitBreakers } from '@/lib/retry'
+import { csrfFetch } from '@/lib/csrf-fetch'
 import {
   OnboardingSession,
   OnboardingSubmission,
   OnboardingFormData,
-  UploadedFile
+  SaveProgressResult
 } from '@/types/onboarding'
-import { generateUUID } from '@/lib/utils'
 import { Locale } from '@/lib/i18n'
 
 // Transform database response to client interface
@@ -21,17 +20,20 @@ function transformSessionFromDB(dbSession: any): OnboardingSession {
     createdAt: dbSession.created_at,
     updatedAt: dbSession.updated_at,
     emailVerified: dbSession.email_verified,
-    verificationCode: dbSession.verification_code,
     verificationAttempts: dbSession.verification_attempts,
-    verificationLockedUntil: dbSession.verification_locked_until,
-    ipAddress: dbSession.ip_address,
-    userAgent: dbSession.user_agent,
-    locale: dbSession.locale
+    locale: dbSession.locale,
+    version: dbSession.version ?? 1
   }
 }
 
+// Route errors are a string, or { code, message } from the session guard
+const getErrorMessage = (result: any, fallback: string): string =>
+  typeof result?.error === 'string' ? result.error : result?.error?.message || fallback
+
 /**
- * Client-side onboarding service - uses anon key with RLS
+ * Client-side onboarding service
+ * Sessions are read and written through the onboarding API, which only accepts
+ * the session named by this browser's httpOnly session cookie.
  * NO analytics tracking or admin operations (those need service role)
  */
 export class OnboardingClientService {
@@ -43,33 +45,19 @@ export class OnboardingClientService {
   ): Promise<OnboardingSession> {
     return await circuitBreakers.sessionService.execute(async () => {
       const result = await retry.critical(async () => {
-        const expiresAt = new Date()
-        expiresAt.setDate(expiresAt.getDate() + 60) // 60 days from now
-
-        // Generate a unique temporary email as placeholder (required by schema)
-        const sessionId = generateUUID()
-        const tempEmail = `temp-${sessionId}@whiteboar.onboarding`
-
-        const { data, error } = await supabase
-          .from('onboarding_sessions')
-          .insert({
-            email: tempEmail,
-            current_step: 1,
-            form_data: {},
-            expires_at: expiresAt.toISOString(),
-            locale,
-            email_verified: false,
-            verification_attempts: 0
-          })
-          .select()
-          .single()
+        const response = await csrfFetch('/api/onboarding/session/create', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ locale })
+        })
+        const apiResult = await response.json().catch(() => null)
 
-        if (error || !data) {
-          throw new Error(`Failed to create session: ${error?.message || 'Unknown error'}`)
+        if (!response.ok || !apiResult?.data) {
+          throw new Error(`Failed to create session: ${getErrorMessage(apiResult, 'Unknown error')}`)
         }
 
         // NOTE: Analytics tracking moved to API route
-        return transformSessionFromDB(data)
+        return transformSessionFromDB(apiResult.data)
       })
 
       if (!result.success) {
@@ -80,146 +68,66 @@ export class OnboardingClientService {
     })
   }
 
-  /**
-   * Create a new onboarding session with email and name
-   */
-  static async createSessionWithEmail(
-    email: string,
-    name: string,
-    locale: Locale = 'en'
-  ): Promise<OnboardingSession> {
-    const cleanEmail = email.toLowerCase().trim()
-    const expiresAt = new Date()
-    expiresAt.setDate(expiresAt.getDate() + 60)
-
-    const { data, error } = await supabase
-      .from('onboarding_sessions')
-      .insert({
-        email: cleanEmail,
-        current_step: 1,
-        form_data: {
-          personalInfo: {
-            firstName: name.split(' ')[0] || name,
-            lastName: name.split(' ').slice(1).join(' ') || '',
-            email: cleanEmail
-          }
-        },
-        expires_at: expiresAt.toISOString(),
-        locale,
-        email_verified: false,
-        verification_attempts: 0
-      })
-      .select()
-      .single()
-
-    if (error || !data) {
-      throw new Error(`Failed to create session: ${error?.message || 'Unknown error'}`)
-    }
-
-    // NOTE: Analytics tracking moved to API route
-    return transformSessionFromDB(data)
-  }
-
   /**
    * Get an existing onboarding session
    */
   static async getSession(sessionId: string): Promise<OnboardingSession | null> {
-    const { data, error } = await supabase
-      .from('onboarding_sessions')
-      .select('*')
-      .eq('id', sessionId)
-      .single()
+    const response = await fetch(`/api/onboarding/session/${encodeURIComponent(sessionId)}`, {
+      cache: 'no-store'
+    })
+    const result = await response.json().catch(() => null)
 
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return null // Not found
-      }
-      throw new Error(`Failed to get session: ${error.message}`)
+    if (response.status === 404) {
+      return null // Not found or expired
     }
 
-    if (!data) return null
-
-    // Check if session is expired
-    if (new Date(data.expires_at) < new Date()) {
-      // NOTE: Analytics tracking moved to API route
-      return null
+    if (!response.ok || !result?.data) {
+      throw new Error(`Failed to get session: ${getErrorMessage(result, `status ${response.status}`)}`)
     }
 
-    return transformSessionFromDB(data)
+    return transformSessionFromDB(result.data)
   }
 
   /**
-   * Save onboarding progress to database with debouncing
+   * Save onboarding progress
+   *
+   * @param baseVersion - Session version the form data was based on. When another
+   * tab or device saved in between, nothing is written and the server copy is
+   * returned as a conflict. Omit it to overwrite unconditionally.
    */
   static async saveProgress(
     sessionId: string,
     formData: Partial<OnboardingFormData>,
-    currentStep: number
-  ): Promise<OnboardingSession> {
-    const { data, error } = await supabase
-      .from('onboarding_sessions')
-      .update({
-        current_step: currentStep,
-        form_data: formData,
-        last_activity: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', sessionId)
-      .select()
-      .single()
+    currentStep: number,
+    baseVersion?: number
+  ): Promise<SaveProgressResult> {
+    const response = await csrfFetch(`/api/onboarding/session/${encodeURIComponent(sessionId)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ formData, currentStep, baseVersion })
+    })
+    const result = await response.json().catch(() => null)
 
-    if (error || !data) {
-      throw new Error(`Failed to save progress: ${error?.message || 'Unknown error'}`)
+    if (!response.ok || !result?.data) {
+      throw new Error(`Failed to save progress: ${getErrorMessage(result, `status ${response.status}`)}`)
     }
 
     // NOTE: Analytics tracking moved to API route
-    return transformSessionFromDB(data)
+    return { status: result.data.status, session: transformSessionFromDB(result.data.session) }
   }
 
   /**
    * Refresh session expiration time
    */
   static async refreshSession(sessionId: string): Promise<void> {
-    const newExpiresAt = new Date()
-    newExpiresAt.setDate(newExpiresAt.getDate() + 60)
-
-    const { error } = await supabase
-      .from('onboarding_sessions')
-      .update({
-        expires_at: newExpiresAt.toISOString(),
-        last_activity: new Date().toISOString()
-      })
-      .eq('id', sessionId)
-
-    if (error) {
-      throw new Error(`Failed to refresh session: ${error.message}`)
-    }
-  }
-
-  /**
-   * Get uploaded files for a session
-   */
-  static async getUploadedFiles(
-    sessionId: string,
-    fileType?: string
-  ): Promise<UploadedFile[]> {
-    let query = supabase
-      .from('onboarding_uploads')
-      .select('*')
-      .eq('session_id', sessionId)
-      .eq('upload_completed', true)
-
-    if (fileType) {
-      query = query.eq('file_type', fileType)
-    }
-
-    const { data, error } = await query.order('created_at', { ascending: false })
+    const response = await csrfFetch(`/api/onboarding/session/${encodeURIComponent(sessionId)}/refresh`, {
+      method: 'POST'
+    })
 
-    if (error) {
-      throw new Error(`Failed to get uploaded files: ${error.message}`)
+    if (!response.ok) {
+      const result = await response.json().catch(() => null)
+      throw new Error(`Failed to refresh session: ${getErrorMessage(result, `status ${response.status}`)}`)
     }
-
-    return data || []
   }
 }
 
@@ -233,42 +141,6 @@ export type ApiResponse<T> = {
   error?: string
 }
 
-/**
- * Create a new onboarding session via API
- */
-export async function createOnboardingSession(
-  email: string,
-  name: string,
-  locale: Locale = 'en'
-): Promise<ApiResponse<OnboardingSession>> {
-  try {
-    const session = await OnboardingClientService.createSessionWithEmail(email, name, locale)
-
-    // Track session creation via API route
-    try {
-      await fetch('/api/onboarding/analytics/track', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          sessionId: session.id,
-          eventType: 'session_start',
-          metadata: { locale, email: email.toLowerCase().trim() }
-        })
-      })
-    } catch (analyticsError) {
-      // Don't fail the session creation if analytics fails
-      console.warn('Analytics tracking failed:', analyticsError)
-    }
-
-    return { success: true, data: session }
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to create session'
-    }
-  }
-}
-
 /**
  * Continue existing onboarding session
  */
@@ -300,11 +172,11 @@ export async function saveOnboardingProgress(
   currentStep: number
 ): Promise<ApiResponse<OnboardingSession>> {
   try {
-    const session = await OnboardingClientService.saveProgress(sessionId, formData, currentStep)
+    const { session } = await OnboardingClientService.saveProgress(sessionId, formData, currentStep)
 
     // Track progress save via API route
     try {
-      await fetch('/api/onboarding/analytics/track', {
+      await csrfFetch('/api/onboarding/analytics/track', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -340,7 +212,7 @@ export async function submitOnboarding(
 ): Promise<OnboardingSubmission> {
   return await circuitBreakers.submissionService.execute(async () => {
     const result = await retry.critical(async () => {
-      const response = await fetch('/api/onboarding/submit', {
+      const response = await csrfFetch('/api/onboarding/submit', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
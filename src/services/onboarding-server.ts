@@ -1,13 +1,29 @@
+import { randomUUID } from 'crypto'
 import { createServiceClient } from '@/lib/supabase'
+import { Locale } from '@/lib/i18n'
+import { IngestedAnalyticsEvent } from '@/lib/analytics-ingestion'
 import {
   OnboardingSession,
   OnboardingSubmission,
   OnboardingFormData,
   UploadedFile,
+  ImageDerivative,
   AnalyticsEvent,
-  AnalyticsEventType
+  AnalyticsEventType,
+  FormChangeRecord,
+  SubmissionSortField
 } from '@/types/onboarding'
 
+// Session fields the browser gets; never the verification code or request details
+const SESSION_COLUMNS = 'id, email, current_step, form_data, last_activity, expires_at, created_at, updated_at, email_verified, verification_attempts, locale, version'
+const SESSION_LIFETIME_DAYS = 60
+
+const getSessionExpiry = () => {
+  const expiresAt = new Date()
+  expiresAt.setDate(expiresAt.getDate() + SESSION_LIFETIME_DAYS)
+  return expiresAt.toISOString()
+}
+
 /**
  * Server-side onboarding service - uses service role key
  * ONLY for analytics tracking and admin operations
@@ -56,6 +72,50 @@ export class OnboardingServerService {
     }
   }
 
+  /**
+   * Store a batch of client analytics events in one insert (SERVER-SIDE ONLY)
+   * Events of unknown sessions are dropped; events already stored under the
+   * same client event id are skipped, so a retried batch is harmless.
+   */
+  static async trackEventBatch(
+    events: IngestedAnalyticsEvent[]
+  ): Promise<{ stored: number; duplicates: number; unknownSessions: number }> {
+    const serviceClient = createServiceClient()
+    const sessionIds = Array.from(new Set(events.map(event => event.session_id)))
+
+    const { data: sessions, error: sessionsError } = await serviceClient
+      .from('onboarding_sessions')
+      .select('id')
+      .in('id', sessionIds)
+
+    if (sessionsError) {
+      throw new Error(`Failed to look up analytics sessions: ${sessionsError.message}`)
+    }
+
+    const knownSessions = new Set((sessions || []).map(session => session.id))
+    const rows = events.filter(event => knownSessions.has(event.session_id))
+
+    if (rows.length === 0) {
+      return { stored: 0, duplicates: 0, unknownSessions: events.length }
+    }
+
+    const { data, error } = await serviceClient
+      .from('onboarding_analytics')
+      .upsert(rows, { onConflict: 'session_id,client_event_id', ignoreDuplicates: true })
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to store analytics batch: ${error.message}`)
+    }
+
+    const stored = data?.length || 0
+    return {
+      stored,
+      duplicates: rows.length - stored,
+      unknownSessions: events.length - rows.length
+    }
+  }
+
   /**
    * Get analytics for session (ADMIN ONLY)
    */
@@ -80,6 +140,141 @@ export class OnboardingServerService {
     }
   }
 
+  /**
+   * Create a new empty onboarding session (SERVER-SIDE ONLY)
+   * The caller issues the session cookie, so the browser that starts a session
+   * can use it before its email is verified.
+   */
+  static async createSession(locale: Locale = 'en'): Promise<Record<string, any>> {
+    const serviceClient = createServiceClient()
+
+    // Unique placeholder until step 1 collects the email (required by schema)
+    const { data, error } = await serviceClient
+      .from('onboarding_sessions')
+      .insert({
+        email: `temp-${randomUUID()}@whiteboar.onboarding`,
+        current_step: 1,
+        form_data: {},
+        expires_at: getSessionExpiry(),
+        locale,
+        email_verified: false,
+        verification_attempts: 0
+      })
+      .select(SESSION_COLUMNS)
+      .single()
+
+    if (error || !data) {
+      throw new Error(`Failed to create session: ${error?.message || 'Unknown error'}`)
+    }
+
+    return data
+  }
+
+  /**
+   * Load an onboarding session (SERVER-SIDE ONLY)
+   * Returns null when the session does not exist or has expired.
+   */
+  static async getSession(sessionId: string): Promise<Record<string, any> | null> {
+    const serviceClient = createServiceClient()
+
+    const { data, error } = await serviceClient
+      .from('onboarding_sessions')
+      .select(SESSION_COLUMNS)
+      .eq('id', sessionId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to get session: ${error.message}`)
+    }
+
+    if (!data || new Date(data.expires_at) < new Date()) {
+      return null
+    }
+
+    return data
+  }
+
+  /**
+   * Save onboarding progress (SERVER-SIDE ONLY)
+   * Expired and submitted sessions are not written. With a base version, a save
+   * that another tab or device overtook returns the server copy as a conflict.
+   *
+   * @returns null when the session is gone
+   */
+  static async saveProgress(
+    sessionId: string,
+    formData: Partial<OnboardingFormData>,
+    currentStep: number,
+    baseVersion?: number
+  ): Promise<{ status: 'saved' | 'conflict'; session: Record<string, any> } | null> {
+    const serviceClient = createServiceClient()
+    const now = new Date().toISOString()
+
+    const { data: submission, error: submissionError } = await serviceClient
+      .from('onboarding_submissions')
+      .select('id')
+      .eq('session_id', sessionId)
+      .limit(1)
+      .maybeSingle()
+
+    if (submissionError) {
+      throw new Error(`Failed to save progress: ${submissionError.message}`)
+    }
+
+    if (!submission) {
+      let query = serviceClient
+        .from('onboarding_sessions')
+        .update({
+          current_step: currentStep,
+          form_data: formData,
+          last_activity: now,
+          updated_at: now
+        })
+        .eq('id', sessionId)
+        .gt('expires_at', now)
+
+      if (baseVersion !== undefined) {
+        query = query.eq('version', baseVersion)
+      }
+
+      const { data, error } = await query.select(SESSION_COLUMNS)
+
+      if (error) {
+        throw new Error(`Failed to save progress: ${error.message}`)
+      }
+
+      if (data && data.length > 0) {
+        return { status: 'saved', session: data[0] }
+      }
+    }
+
+    // No row written: either the session is gone or its version moved on
+    const current = baseVersion !== undefined ? await this.getSession(sessionId) : null
+    return current ? { status: 'conflict', session: current } : null
+  }
+
+  /**
+   * Extend a session's expiration (SERVER-SIDE ONLY)
+   */
+  static async refreshSession(sessionId: string): Promise<string> {
+    const serviceClient = createServiceClient()
+    const expiresAt = getSessionExpiry()
+
+    const { error } = await serviceClient
+      .from('onboarding_sessions')
+      .update({
+        expires_at: expiresAt,
+        last_activity: new Date().toISOString()
+      })
+      .eq('id', sessionId)
+
+    if (error) {
+      throw new Error(`Failed to refresh session: ${error.message}`)
+    }
+
+    return expiresAt
+  }
+
   /**
    * Submit onboarding form (SERVER-SIDE ONLY)
    */
@@ -134,6 +329,22 @@ export class OnboardingServerService {
         throw new Error(`Failed to submit onboarding: ${error?.message || 'Unknown error'}`)
       }
 
+      // Whatever changed since the last save is only in the submitted payload
+      const { error: historyError } = await serviceClient.rpc('record_form_changes', {
+        p_session_id: sessionId,
+        p_old: session.form_data || {},
+        p_new: formData,
+        p_step: session.current_step,
+        p_actor: 'customer',
+        p_source: 'submit',
+        p_submission_id: data.id
+      })
+
+      if (historyError) {
+        // The submission is already stored - don't fail it over the audit log
+        console.error('Failed to record submitted form changes:', historyError)
+      }
+
       // Track completion
       await this.trackEvent(sessionId, 'form_submit', {
         business_name: formData.businessName,
@@ -154,11 +365,12 @@ export class OnboardingServerService {
   static async recordFileUpload(
     sessionId: string,
     fileType: string,
-    fileUrl: string,
+    filePath: string,
     fileName: string,
     fileSize: number,
     mimeType: string,
-    dimensions?: { width: number; height: number }
+    dimensions?: { width: number; height: number },
+    derivatives?: ImageDerivative[]
   ): Promise<UploadedFile> {
     const serviceClient = createServiceClient()
 
@@ -166,12 +378,12 @@ export class OnboardingServerService {
       const uploadData: any = {
         session_id: sessionId,
         file_type: fileType,
-        file_url: fileUrl,
+        file_path: filePath,
         file_name: fileName,
         file_size: fileSize,
         mime_type: mimeType,
         upload_completed: true,
-        virus_scan_status: 'clean', // Assume clean for now
+        virus_scan_status: 'pending', // Set by UploadScanService
         is_processed: false
       }
 
@@ -180,6 +392,11 @@ export class OnboardingServerService {
         uploadData.height = dimensions.height
       }
 
+      if (derivatives) {
+        uploadData.derivatives = derivatives
+        uploadData.is_processed = true
+      }
+
       const { data, error } = await serviceClient
         .from('onboarding_uploads')
         .insert(uploadData)
@@ -465,15 +682,24 @@ export class OnboardingServerService {
     status?: string
     startDate?: string
     endDate?: string
+    locale?: string
+    paid?: boolean
+    sortBy?: SubmissionSortField
+    sortOrder?: 'asc' | 'desc'
     limit?: number
     offset?: number
   } = {}): Promise<{ submissions: OnboardingSubmission[]; total: number }> {
     const serviceClient = createServiceClient()
 
     try {
+      // Locale lives on the originating session, so join it in (inner join only when filtering)
+      const sessionJoin = filters.locale
+        ? 'onboarding_sessions!inner(locale)'
+        : 'onboarding_sessions(locale)'
+
       let query = serviceClient
         .from('onboarding_submissions')
-        .select('*', { count: 'exact' })
+        .select(`*, ${sessionJoin}`, { count: 'exact' })
 
       if (filters.status) {
         query = query.eq('status', filters.status)
@@ -487,7 +713,20 @@ export class OnboardingServerService {
         query = query.lte('created_at', filters.endDate)
       }
 
-      query = query.order('created_at', { ascending: false })
+      if (filters.locale) {
+        query = query.eq('onboarding_sessions.locale', filters.locale)
+      }
+
+      if (filters.paid === true) {
+        query = query.not('payment_completed_at', 'is', null)
+      } else if (filters.paid === false) {
+        query = query.is('payment_completed_at', null)
+      }
+
+      query = query.order(filters.sortBy || 'created_at', {
+        ascending: filters.sortOrder === 'asc',
+        nullsFirst: false
+      })
 
       if (filters.limit) {
         query = query.limit(filters.limit)
@@ -513,6 +752,97 @@ export class OnboardingServerService {
     }
   }
 
+  /**
+   * Get a single submission with its session locale (ADMIN ONLY)
+   */
+  static async getSubmissionById(submissionId: string): Promise<OnboardingSubmission | null> {
+    const serviceClient = createServiceClient()
+
+    try {
+      const { data, error } = await serviceClient
+        .from('onboarding_submissions')
+        .select('*, onboarding_sessions(locale)')
+        .eq('id', submissionId)
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return null
+        }
+        throw new Error(`Failed to get submission: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error getting submission:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Field-level change history of a submission, oldest first (ADMIN ONLY)
+   * Includes the saves made on its session before it was submitted.
+   */
+  static async getSubmissionFormChanges(
+    submissionId: string,
+    sessionId: string | null
+  ): Promise<FormChangeRecord[]> {
+    const serviceClient = createServiceClient()
+
+    try {
+      let query = serviceClient
+        .from('onboarding_form_changes')
+        .select('*')
+
+      query = sessionId
+        ? query.or(`submission_id.eq.${submissionId},session_id.eq.${sessionId}`)
+        : query.eq('submission_id', submissionId)
+
+      const { data, error } = await query.order('created_at', { ascending: true })
+
+      if (error) {
+        throw new Error(`Failed to get form changes: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error getting form changes:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Put a field back to its value before a logged change (ADMIN ONLY)
+   * Updates the submission and its session (if it still exists) and logs the
+   * revert as an admin change. Returns null when the change does not belong
+   * to the submission.
+   */
+  static async revertFormChange(
+    submissionId: string,
+    changeId: string
+  ): Promise<FormChangeRecord | null> {
+    const serviceClient = createServiceClient()
+
+    try {
+      const { data, error } = await serviceClient.rpc('revert_onboarding_form_change', {
+        p_change_id: changeId,
+        p_submission_id: submissionId
+      })
+
+      if (error) {
+        if (/not found/i.test(error.message)) {
+          return null
+        }
+        throw new Error(`Failed to revert form change: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error reverting form change:', error)
+      throw error
+    }
+  }
+
   /**
    * Update submission status (ADMIN ONLY)
    */
@@ -526,13 +856,21 @@ export class OnboardingServerService {
     try {
       const updateData: any = { status }
 
-      if (adminNotes) {
+      if (adminNotes !== undefined) {
         updateData.admin_notes = adminNotes
       }
 
-      if (status === 'preview_sent') {
+      // Only stamp workflow timestamps on an actual transition (notes-only edits keep them)
+      const { data: current } = await serviceClient
+        .from('onboarding_submissions')
+        .select('status')
+        .eq('id', submissionId)
+        .single()
+      const statusChanged = current?.status !== status
+
+      if (statusChanged && status === 'preview_sent') {
         updateData.preview_sent_at = new Date().toISOString()
-      } else if (status === 'paid') {
+      } else if (statusChanged && status === 'paid') {
         updateData.payment_completed_at = new Date().toISOString()
       }
 
@@ -405,7 +405,7 @@ export class OnboardingService {
     fileName: string,
     fileSize: number,
     mimeType: string,
-    fileUrl: string,
+    filePath: string,
     width?: number,
     height?: number
   ): Promise<UploadedFile> {
@@ -416,7 +416,7 @@ export class OnboardingService {
         file_name: fileName,
         file_size: fileSize,
         mime_type: mimeType,
-        file_url: fileUrl,
+        file_path: filePath,
         width,
         height,
         upload_completed: true
@@ -444,7 +444,7 @@ export class OnboardingService {
         fileName: data.file_name,
         fileSize: data.file_size,
         mimeType: data.mime_type,
-        url: data.file_url,
+        path: data.file_path ?? undefined,
         width: data.width,
         height: data.height,
         uploadedAt: data.created_at
@@ -484,7 +484,7 @@ export class OnboardingService {
         fileName: file.file_name,
         fileSize: file.file_size,
         mimeType: file.mime_type,
-        url: file.file_url,
+        path: file.file_path ?? undefined,
         width: file.width,
         height: file.height,
         uploadedAt: file.created_at
@@ -673,7 +673,8 @@ export class OnboardingService {
       verificationLockedUntil: data.verification_locked_until,
       ipAddress: data.ip_address,
       userAgent: data.user_agent,
-      locale: data.locale || 'en'
+      locale: data.locale || 'en',
+      version: data.version ?? 1
     }
   }
 
@@ -4,14 +4,14 @@
  */
 
 import { SupabaseClient } from '@supabase/supabase-js'
-import { EUROPEAN_LANGUAGES, isValidLanguageCode } from '@/data/european-languages'
+import { isValidLanguageCode } from '@/data/european-languages'
 import { StripePaymentService } from './StripePaymentService'
+import { getConversionInvoiceMetadata } from '@/services/conversion-tracking'
 import {
   CreateSessionParams,
   SubmissionValidationResult,
   CustomerInfo,
-  CheckoutSessionResult,
-  RateLimitResult
+  CheckoutSessionResult
 } from './types'
 import Stripe from 'stripe'
 
@@ -191,36 +191,6 @@ export class CheckoutSessionService {
     return languageCodes.filter(code => !isValidLanguageCode(code))
   }
 
-  /**
-   * Check rate limiting for payment attempts
-   *
-   * @param sessionId - Onboarding session ID
-   * @param supabaseClient - Supabase client
-   * @returns Rate limit status
-   */
-  async checkRateLimit(
-    sessionId: string,
-    supabaseClient: SupabaseClient
-  ): Promise<RateLimitResult> {
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString()
-
-    const { count: recentAttempts } = await supabaseClient
-      .from('onboarding_analytics')
-      .select('*', { count: 'exact', head: true })
-      .eq('session_id', sessionId)
-      .eq('event_type', 'payment_attempt')
-      .gte('created_at', oneHourAgo)
-
-    const maxAttempts = 5
-    const allowed = !recentAttempts || recentAttempts < maxAttempts
-
-    return {
-      allowed,
-      attemptsRemaining: allowed ? maxAttempts - (recentAttempts || 0) : 0,
-      resetAt: new Date(Date.now() + 60 * 60 * 1000) // 1 hour from now
-    }
-  }
-
   /**
    * Log a payment attempt
    *
@@ -287,7 +257,8 @@ export class CheckoutSessionService {
     const {
       submissionId,
       additionalLanguages = [],
-      discountCode
+      discountCode,
+      conversion
     } = params
 
     try {
@@ -337,21 +308,7 @@ export class CheckoutSessionService {
         }
       }
 
-      // 3. Check rate limiting
-      const rateLimitResult = await this.checkRateLimit(submission.session_id, supabaseClient)
-      if (!rateLimitResult.allowed) {
-        return {
-          success: false,
-          paymentRequired: true,
-          clientSecret: null,
-          error: {
-            code: 'RATE_LIMIT_EXCEEDED',
-            message: 'Too many payment attempts. Please try again in 1 hour.'
-          }
-        }
-      }
-
-      // 4. Log payment attempt
+      // 3. Log payment attempt (rate limiting happens in the API route)
       await this.logPaymentAttempt(
         submission.session_id,
         submissionId,
@@ -359,10 +316,10 @@ export class CheckoutSessionService {
         supabaseClient
       )
 
-      // 5. Extract customer information
+      // 4. Extract customer information
       const customerInfo = this.extractCustomerInfo(submission)
 
-      // 6. Create or retrieve Stripe customer
+      // 5. Create or retrieve Stripe customer
       const customer = await this.stripeService.findOrCreateCustomer(
         customerInfo.email,
         customerInfo.businessName,
@@ -372,7 +329,7 @@ export class CheckoutSessionService {
         }
       )
 
-      // 7. Validate discount code if provided
+      // 6. Validate discount code if provided
       let validatedCoupon: Stripe.Coupon | null = null
       if (discountCode) {
         validatedCoupon = await this.stripeService.validateCoupon(discountCode)
@@ -416,7 +373,7 @@ export class CheckoutSessionService {
         submission.form_data = updatedFormData
       }
 
-      // 8. Create subscription schedule with 12-month commitment
+      // 7. Create subscription schedule with 12-month commitment
       const scheduleResult = await this.stripeService.createSubscriptionSchedule({
         customerId: customer.id,
         priceId: process.env.STRIPE_BASE_PACKAGE_PRICE_ID!,
@@ -450,7 +407,7 @@ export class CheckoutSessionService {
         console.error('Failed to update subscription metadata:', metadataError)
       }
 
-      // 9. Add language add-ons as invoice items (use database value)
+      // 8. Add language add-ons as invoice items (use database value)
       const addOnResult = await this.addLanguageAddOns(
         customer.id,
         subscription,
@@ -458,7 +415,8 @@ export class CheckoutSessionService {
         submissionId,
         submission.session_id,
         validatedCoupon?.id ?? null,
-        supabaseClient
+        supabaseClient,
+        getConversionInvoiceMetadata(conversion)
       )
 
       console.log('[CheckoutSessionService] addLanguageAddOns result', {
@@ -471,7 +429,7 @@ export class CheckoutSessionService {
         paymentIntentId: addOnResult.paymentIntentId || null
       })
 
-      // 10. Update submission with Stripe IDs (including payment intent ID for mock webhooks)
+      // 9. Update submission with Stripe IDs (including payment intent ID for mock webhooks)
       const { error: updateError } = await supabaseClient
         .from('onboarding_submissions')
         .update({
@@ -555,7 +513,8 @@ export class CheckoutSessionService {
     submissionId: string,
     sessionId: string,
     couponId: string | null,
-    supabaseClient: SupabaseClient
+    supabaseClient: SupabaseClient,
+    conversionMetadata: Record<string, string> = {}
   ): Promise<{
     paymentRequired: boolean
     clientSecret: string | null
@@ -576,28 +535,8 @@ export class CheckoutSessionService {
       throw new Error('No invoice found for subscription')
     }
 
-    // Fetch language add-on price from Stripe
-    const languageAddonPriceId = process.env.STRIPE_LANGUAGE_ADDON_PRICE_ID!
-    const addonPrice = await stripe.prices.retrieve(languageAddonPriceId)
-
     // Add language add-ons as invoice items
-    const languageAddOnPromises = languageCodes.map((code: string) => {
-      const language = EUROPEAN_LANGUAGES.find(l => l.code === code)
-      return stripe.invoiceItems.create({
-        customer: customerId,
-        invoice: invoiceId,
-        pricing: {
-          price: addonPrice.id
-        },
-        description: `${language?.nameEn} Language Add-on`,
-        metadata: {
-          language_code: code,
-          one_time: 'true'
-        }
-      })
-    })
-
-    await Promise.all(languageAddOnPromises)
+    await this.stripeService.createLanguageAddOnItems(customerId, invoiceId, languageCodes)
 
     if (couponId) {
       try {
@@ -626,7 +565,8 @@ export class CheckoutSessionService {
       await stripe.invoices.update(invoiceId, {
         metadata: {
           submission_id: submissionId,
-          session_id: sessionId
+          session_id: sessionId,
+          ...conversionMetadata
         }
       })
     } catch (invoiceMetadataError) {
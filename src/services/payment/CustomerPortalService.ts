@@ -0,0 +1,214 @@
+/**
+ * Customer Portal Service
+ * Read-only account overview and Stripe billing portal access for verified customers
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import Stripe from 'stripe'
+import { getLanguageName } from '@/data/european-languages'
+import { Locale } from '@/lib/i18n'
+import { PreviewDeliveryService } from '@/services/preview-delivery'
+import { StripePaymentService } from './StripePaymentService'
+import { canChangeLanguages, getSubmissionLanguages } from './LanguageAddOnService'
+import {
+  PortalInvoice,
+  PortalOverview,
+  PortalScheduleState,
+  PortalSubmissionSummary
+} from './types'
+
+const SUBMISSION_COLUMNS = 'id, session_id, email, business_name, status, created_at, payment_completed_at, preview_url, form_data, stripe_customer_id, stripe_subscription_id, stripe_subscription_schedule_id'
+
+export class CustomerPortalService {
+  private stripeService: StripePaymentService
+
+  constructor(stripeService?: StripePaymentService) {
+    this.stripeService = stripeService || new StripePaymentService()
+  }
+
+  /**
+   * Find the onboarding session that owns an email address
+   */
+  async findSessionByEmail(
+    email: string,
+    supabaseClient: SupabaseClient
+  ): Promise<{ id: string; locale: string; form_data: Record<string, any> } | null> {
+    const { data, error } = await supabaseClient
+      .from('onboarding_sessions')
+      .select('id, locale, form_data')
+      .eq('email', email.toLowerCase().trim())
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to look up session: ${error.message}`)
+    }
+
+    return data
+  }
+
+  /**
+   * All submissions belonging to a customer
+   * Matches on the submission email and on the customer's session, since the
+   * submission email may come from the form rather than the verified session
+   */
+  async getCustomerSubmissions(email: string, supabaseClient: SupabaseClient): Promise<any[]> {
+    const normalizedEmail = email.toLowerCase().trim()
+    const session = await this.findSessionByEmail(normalizedEmail, supabaseClient)
+
+    const queries = [
+      supabaseClient
+        .from('onboarding_submissions')
+        .select(SUBMISSION_COLUMNS)
+        .eq('email', normalizedEmail)
+    ]
+
+    if (session) {
+      queries.push(
+        supabaseClient
+          .from('onboarding_submissions')
+          .select(SUBMISSION_COLUMNS)
+          .eq('session_id', session.id)
+      )
+    }
+
+    const results = await Promise.all(queries)
+    const byId = new Map<string, any>()
+
+    for (const { data, error } of results) {
+      if (error) {
+        throw new Error(`Failed to load submissions: ${error.message}`)
+      }
+      for (const submission of data || []) {
+        byId.set(submission.id, submission)
+      }
+    }
+
+    return Array.from(byId.values()).sort(
+      (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+    )
+  }
+
+  /**
+   * A single submission, only if it belongs to the customer
+   */
+  async getCustomerSubmission(
+    email: string,
+    submissionId: string,
+    supabaseClient: SupabaseClient
+  ): Promise<any | null> {
+    const submissions = await this.getCustomerSubmissions(email, supabaseClient)
+    return submissions.find(submission => submission.id === submissionId) ?? null
+  }
+
+  /**
+   * Build the portal overview: submissions, schedule state, invoices, languages bought
+   */
+  async getOverview(
+    email: string,
+    locale: Locale,
+    supabaseClient: SupabaseClient
+  ): Promise<PortalOverview> {
+    const submissions = await this.getCustomerSubmissions(email, supabaseClient)
+
+    const summaries: PortalSubmissionSummary[] = await Promise.all(
+      submissions.map(async (submission): Promise<PortalSubmissionSummary> => ({
+        id: submission.id,
+        businessName: submission.business_name,
+        status: submission.status,
+        createdAt: submission.created_at,
+        paymentCompletedAt: submission.payment_completed_at,
+        previewUrl: submission.preview_url
+          ? PreviewDeliveryService.getTrackingUrl(submission.id)
+          : null,
+        languages: getSubmissionLanguages(submission.form_data).map(code => ({
+          code,
+          name: getLanguageName(code, locale)
+        })),
+        schedule: submission.stripe_subscription_schedule_id
+          ? await this.getScheduleState(submission.stripe_subscription_schedule_id)
+          : null,
+        hasBillingAccount: Boolean(submission.stripe_customer_id),
+        canChangeLanguages: canChangeLanguages(submission)
+      }))
+    )
+
+    const customerIds = Array.from(new Set(
+      submissions.map(submission => submission.stripe_customer_id).filter(Boolean) as string[]
+    ))
+    const invoiceLists = await Promise.all(customerIds.map(id => this.getInvoices(id)))
+    const invoices = invoiceLists.flat().sort((a, b) => b.created - a.created)
+
+    return {
+      email: email.toLowerCase().trim(),
+      submissions: summaries,
+      invoices
+    }
+  }
+
+  /**
+   * Create a billing portal session for the customer's Stripe account
+   * Returns null when the customer has never paid (no Stripe customer)
+   */
+  async createBillingPortalUrl(
+    email: string,
+    returnUrl: string,
+    locale: Locale,
+    supabaseClient: SupabaseClient,
+    submissionId?: string
+  ): Promise<string | null> {
+    const submissions = await this.getCustomerSubmissions(email, supabaseClient)
+    const submission = submissions.find(s =>
+      s.stripe_customer_id && (!submissionId || s.id === submissionId)
+    )
+
+    if (!submission) {
+      return null
+    }
+
+    const portalSession = await this.stripeService.createBillingPortalSession(
+      submission.stripe_customer_id,
+      returnUrl,
+      locale
+    )
+
+    return portalSession.url
+  }
+
+  private async getScheduleState(scheduleId: string): Promise<PortalScheduleState | null> {
+    try {
+      const schedule = await this.stripeService.retrieveSubscriptionSchedule(scheduleId)
+      const lastPhase = schedule.phases[schedule.phases.length - 1]
+
+      return {
+        status: schedule.status,
+        currentPhaseEnd: schedule.current_phase?.end_date ?? null,
+        commitmentEndsAt: lastPhase?.end_date ?? null,
+        endBehavior: schedule.end_behavior
+      }
+    } catch (error) {
+      console.error('Failed to retrieve subscription schedule for portal:', error)
+      return null
+    }
+  }
+
+  private async getInvoices(customerId: string): Promise<PortalInvoice[]> {
+    try {
+      const invoices = await this.stripeService.listInvoices(customerId)
+      return invoices.map((invoice: Stripe.Invoice) => ({
+        id: invoice.id as string,
+        number: invoice.number,
+        status: invoice.status,
+        total: invoice.total,
+        currency: invoice.currency,
+        created: invoice.created,
+        hostedInvoiceUrl: invoice.hosted_invoice_url ?? null,
+        invoicePdf: invoice.invoice_pdf ?? null
+      }))
+    } catch (error) {
+      console.error('Failed to list invoices for portal:', error)
+      return []
+    }
+  }
+}
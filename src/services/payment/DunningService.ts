@@ -0,0 +1,476 @@
+/**
+ * Dunning Service
+ * Escalating reminders for failed recurring payments: tracks consecutive failed
+ * invoices, moves the submission to past_due, emails the customer on day 0/3/7
+ * with a card-update link and warns the admin before Stripe cancels the schedule.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import Stripe from 'stripe'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { Locale, locales } from '@/lib/i18n'
+import { EmailService } from '@/services/resend'
+import { StripePaymentService } from './StripePaymentService'
+import { LANGUAGE_ADDON_INVOICE_PURPOSE } from './LanguageAddOnService'
+import { DunningFailureResult, DunningNotice, DunningRunResult } from './types'
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const DUNNING_REMINDER_DAYS = [0, 3, 7] as const
+// Admin is warned this many days before the expected cancellation
+const ADMIN_WARNING_LEAD_DAYS = 3
+// Should match the "cancel subscription" step of Stripe's retry settings
+const DEFAULT_CANCEL_AFTER_DAYS = 14
+const BATCH_SIZE = 200
+const DAY_MS = 24 * 60 * 60 * 1000
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://whiteboar.it'
+
+const DUNNING_COLUMNS = 'id, session_id, email, business_name, status, payment_completed_at, stripe_subscription_schedule_id, payment_failure_count, dunning_started_at, dunning_invoice_id, last_failed_invoice_id'
+
+// Stripe no longer retries these, so there is nothing left to collect
+const SETTLED_INVOICE_STATUSES: Array<Stripe.Invoice.Status | null> = ['paid', 'void', 'uncollectible']
+
+interface DunningSubmission {
+  id: string
+  session_id: string | null
+  email: string
+  business_name: string
+  status: string
+  payment_completed_at: string | null
+  stripe_subscription_schedule_id: string | null
+  payment_failure_count: number | null
+  dunning_started_at: string | null
+  dunning_invoice_id: string | null
+  last_failed_invoice_id: string | null
+}
+
+const getCardUpdateSecret = () => {
+  if (process.env.NODE_ENV === 'test') {
+    return 'test-dunning-secret'
+  }
+
+  const secret = process.env.SESSION_SECRET
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('SESSION_SECRET environment variable is required in production')
+    }
+    // Development fallback
+    return 'development-dunning-secret-change-in-production'
+  }
+  return secret
+}
+
+/**
+ * Days after the first failure when Stripe cancels the subscription
+ * Configured via DUNNING_CANCEL_AFTER_DAYS
+ */
+export function getCancelAfterDays(): number {
+  const parsed = parseInt(process.env.DUNNING_CANCEL_AFTER_DAYS || '', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_CANCEL_AFTER_DAYS
+}
+
+/**
+ * Latest customer reminder due and whether the admin warning is due
+ * Reminders skipped while the job was down are not sent late; only the newest one is.
+ */
+export function getDueDunningNotices(
+  dunningStartedAt: Date,
+  now: Date,
+  cancelAfterDays: number = getCancelAfterDays()
+): { reminder: DunningNotice | null; adminWarning: boolean } {
+  const elapsedDays = (now.getTime() - dunningStartedAt.getTime()) / DAY_MS
+  const dueDays = DUNNING_REMINDER_DAYS.filter(day => elapsedDays >= day)
+
+  return {
+    reminder: dueDays.length > 0 ? `day_${dueDays[dueDays.length - 1]}` as DunningNotice : null,
+    adminWarning: elapsedDays >= Math.max(cancelAfterDays - ADMIN_WARNING_LEAD_DAYS, 0)
+  }
+}
+
+/**
+ * Signed token for the card-update link, bound to the invoice that opened the
+ * dunning period so old links stop working once the payment is recovered
+ */
+export function createCardUpdateToken(submissionId: string, invoiceId: string): string {
+  return createHmac('sha256', getCardUpdateSecret())
+    .update(`card-update|${submissionId}|${invoiceId}`)
+    .digest('hex')
+}
+
+export function verifyCardUpdateToken(submissionId: string, invoiceId: string, token: string): boolean {
+  const expected = Buffer.from(createCardUpdateToken(submissionId, invoiceId))
+  const received = Buffer.from(token || '')
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+export function getCardUpdateUrl(submissionId: string, invoiceId: string, locale: Locale): string {
+  const token = createCardUpdateToken(submissionId, invoiceId)
+  return `${APP_URL}/api/portal/update-payment-method?submissionId=${submissionId}&token=${token}&locale=${locale}`
+}
+
+/**
+ * Fields that end the dunning period once an invoice is paid
+ * Empty when the submission is not in dunning.
+ */
+export function getDunningResetFields(submission: {
+  status?: string | null
+  payment_failure_count?: number | null
+  status_before_past_due?: string | null
+}): Record<string, unknown> {
+  if (submission.status !== 'past_due' && !submission.payment_failure_count) {
+    return {}
+  }
+
+  return {
+    ...(submission.status === 'past_due' && { status: submission.status_before_past_due || 'paid' }),
+    payment_failure_count: 0,
+    dunning_started_at: null,
+    dunning_invoice_id: null,
+    last_failed_invoice_id: null,
+    last_payment_failed_at: null,
+    status_before_past_due: null
+  }
+}
+
+const getInvoiceSubscriptionId = (invoice: Stripe.Invoice): string | null => {
+  const raw = invoice.parent?.subscription_details?.subscription
+    ?? (invoice as Stripe.Invoice & { subscription?: string | Stripe.Subscription | null }).subscription
+    ?? null
+  return typeof raw === 'string' ? raw : raw?.id ?? null
+}
+
+export class DunningService {
+  private stripeService: StripePaymentService
+
+  constructor(stripeService?: StripePaymentService) {
+    this.stripeService = stripeService || new StripePaymentService()
+  }
+
+  /**
+   * Record a failed recurring invoice (invoice.payment_failed)
+   * Stripe retries of the same invoice only refresh the timestamp; a new failed
+   * invoice increments the consecutive failure count. The day-0 reminder is sent
+   * when the failure opens a dunning period.
+   *
+   * @returns null when the invoice is not a recurring charge of a paid submission
+   */
+  async recordPaymentFailure(
+    invoice: Stripe.Invoice,
+    supabase: SupabaseClient,
+    now: Date = new Date()
+  ): Promise<DunningFailureResult | null> {
+    // One-off add-on invoices are not part of the subscription
+    if (invoice.metadata?.purpose === LANGUAGE_ADDON_INVOICE_PURPOSE) {
+      return null
+    }
+
+    const submission = await this.findSubmissionForInvoice(invoice, supabase)
+
+    // Failed first payments are handled by checkout; cancelled submissions are done
+    if (!submission || !submission.payment_completed_at || submission.status === 'cancelled') {
+      return null
+    }
+
+    const isRetry = submission.last_failed_invoice_id === invoice.id
+    const failureCount = (submission.payment_failure_count || 0) + (isRetry ? 0 : 1)
+    const startedDunning = submission.status !== 'past_due'
+
+    const updateData: Record<string, unknown> = {
+      payment_failure_count: failureCount,
+      last_failed_invoice_id: invoice.id,
+      last_payment_failed_at: now.toISOString(),
+      updated_at: now.toISOString()
+    }
+
+    if (startedDunning) {
+      updateData.status = 'past_due'
+      updateData.status_before_past_due = submission.status
+      updateData.dunning_started_at = now.toISOString()
+      updateData.dunning_invoice_id = invoice.id
+    }
+
+    const { error } = await supabase
+      .from('onboarding_submissions')
+      .update(updateData)
+      .eq('id', submission.id)
+
+    if (error) {
+      throw new Error(`Failed to record payment failure: ${error.message}`)
+    }
+
+    if (startedDunning) {
+      await this.deliverNotice(
+        { ...submission, dunning_invoice_id: invoice.id!, dunning_started_at: now.toISOString(), payment_failure_count: failureCount },
+        'day_0',
+        invoice,
+        supabase
+      )
+    }
+
+    return { submissionId: submission.id, failureCount, startedDunning }
+  }
+
+  /**
+   * Scheduled job: send the day 3/7 reminders and the admin cancellation warning
+   * to past_due submissions, and retry a day-0 reminder that failed in the webhook
+   */
+  async sendDueNotices(
+    supabase: SupabaseClient,
+    { dryRun = false, now = new Date() }: { dryRun?: boolean; now?: Date } = {}
+  ): Promise<DunningRunResult> {
+    const cancelAfterDays = getCancelAfterDays()
+    const result: DunningRunResult = {
+      dryRun,
+      candidates: 0,
+      sent: 0,
+      skipped: 0,
+      failed: 0,
+      details: []
+    }
+
+    const { data: submissions, error } = await supabase
+      .from('onboarding_submissions')
+      .select(DUNNING_COLUMNS)
+      .eq('status', 'past_due')
+      .not('dunning_started_at', 'is', null)
+      .order('dunning_started_at', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    if (error) {
+      throw new Error(`Failed to load past due submissions: ${error.message}`)
+    }
+
+    if (!submissions || submissions.length === 0) {
+      return result
+    }
+
+    const rows = submissions as unknown as DunningSubmission[]
+    const { data: sentNotices, error: sentError } = await supabase
+      .from('payment_dunning_notices')
+      .select('submission_id, invoice_id, notice')
+      .in('submission_id', rows.map(row => row.id))
+
+    if (sentError) {
+      throw new Error(`Failed to load dunning notices: ${sentError.message}`)
+    }
+
+    const sent = new Set((sentNotices || []).map(row => `${row.submission_id}|${row.invoice_id}|${row.notice}`))
+
+    for (const submission of rows) {
+      const invoiceId = submission.dunning_invoice_id
+      if (!invoiceId) {
+        continue
+      }
+
+      const { reminder, adminWarning } = getDueDunningNotices(new Date(submission.dunning_started_at!), now, cancelAfterDays)
+      const reminderDay = reminder ? parseInt(reminder.slice(4), 10) : -1
+      const reminderSent = DUNNING_REMINDER_DAYS.some(day =>
+        day >= reminderDay && sent.has(`${submission.id}|${invoiceId}|day_${day}`)
+      )
+
+      const due: DunningNotice[] = []
+      if (reminder && !reminderSent) due.push(reminder)
+      if (adminWarning && !sent.has(`${submission.id}|${invoiceId}|admin_cancellation_warning`)) {
+        due.push('admin_cancellation_warning')
+      }
+
+      if (due.length === 0) {
+        continue
+      }
+
+      result.candidates++
+
+      if (dryRun) {
+        due.forEach(notice => result.details.push({ submissionId: submission.id, notice, outcome: 'would_send' }))
+        continue
+      }
+
+      // A missed invoice.paid webhook must not keep chasing a customer who paid
+      let invoice: Stripe.Invoice
+      try {
+        invoice = await this.stripeService.getStripeInstance().invoices.retrieve(invoiceId)
+      } catch (error) {
+        // One unreachable invoice must not stop the reminders for everyone else
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        console.error('Failed to retrieve dunning invoice:', { submissionId: submission.id, invoiceId, error: message })
+        result.failed += due.length
+        due.forEach(notice => result.details.push({ submissionId: submission.id, notice, outcome: 'failed', error: message }))
+        continue
+      }
+
+      if (SETTLED_INVOICE_STATUSES.includes(invoice.status)) {
+        result.skipped++
+        due.forEach(notice => result.details.push({ submissionId: submission.id, notice, outcome: 'invoice_settled' }))
+        continue
+      }
+
+      for (const notice of due) {
+        const outcome = await this.deliverNotice(submission, notice, invoice, supabase, cancelAfterDays)
+        if (outcome === 'sent') result.sent++
+        else if (outcome === 'duplicate') result.skipped++
+        else result.failed++
+        result.details.push({ submissionId: submission.id, notice, outcome })
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Billing portal session that opens straight on the payment method update flow
+   * Returns null for invalid links or when the submission is no longer past due.
+   */
+  async createCardUpdateUrl(
+    submissionId: string,
+    token: string,
+    locale: Locale,
+    supabase: SupabaseClient
+  ): Promise<string | null> {
+    const { data: submission } = await supabase
+      .from('onboarding_submissions')
+      .select('id, status, stripe_customer_id, dunning_invoice_id')
+      .eq('id', submissionId)
+      .maybeSingle()
+
+    if (
+      !submission ||
+      submission.status !== 'past_due' ||
+      !submission.stripe_customer_id ||
+      !submission.dunning_invoice_id ||
+      !verifyCardUpdateToken(submission.id, submission.dunning_invoice_id, token)
+    ) {
+      return null
+    }
+
+    const localePrefix = locale === 'en' ? '' : `/${locale}`
+    const returnUrl = `${APP_URL}${localePrefix}/portal`
+    const portalSession = await this.stripeService.createBillingPortalSession(
+      submission.stripe_customer_id,
+      returnUrl,
+      locale,
+      {
+        type: 'payment_method_update',
+        after_completion: {
+          type: 'redirect',
+          redirect: { return_url: returnUrl }
+        }
+      }
+    )
+
+    return portalSession.url
+  }
+
+  /**
+   * Claim a notice in the log, then send it; the claim is released when sending
+   * fails so the next run retries
+   */
+  private async deliverNotice(
+    submission: DunningSubmission,
+    notice: DunningNotice,
+    invoice: Stripe.Invoice,
+    supabase: SupabaseClient,
+    cancelAfterDays: number = getCancelAfterDays()
+  ): Promise<'sent' | 'failed' | 'duplicate'> {
+    const invoiceId = submission.dunning_invoice_id!
+    const isAdminNotice = notice === 'admin_cancellation_warning'
+    const locale = isAdminNotice ? 'en' : await this.getLocale(submission, supabase)
+
+    // The unique (submission_id, invoice_id, notice) constraint stops concurrent runs double-sending
+    const { error: claimError } = await supabase
+      .from('payment_dunning_notices')
+      .insert({
+        submission_id: submission.id,
+        invoice_id: invoiceId,
+        notice,
+        recipient: isAdminNotice ? 'admin' : submission.email,
+        locale
+      })
+
+    if (claimError) {
+      return 'duplicate'
+    }
+
+    const dunningStartedAt = new Date(submission.dunning_started_at!)
+    const delivered = isAdminNotice
+      ? await EmailService.sendDunningCancellationWarning({
+          submissionId: submission.id,
+          businessName: submission.business_name,
+          email: submission.email,
+          scheduleId: submission.stripe_subscription_schedule_id,
+          invoiceId,
+          failureCount: submission.payment_failure_count || 1,
+          dunningStartedAt: dunningStartedAt.toISOString(),
+          expectedCancellationAt: new Date(dunningStartedAt.getTime() + cancelAfterDays * DAY_MS).toISOString()
+        })
+      : await EmailService.sendPaymentFailedReminder(
+          submission.email,
+          submission.business_name,
+          parseInt(notice.slice(4), 10),
+          invoice.amount_due,
+          invoice.currency.toUpperCase(),
+          getCardUpdateUrl(submission.id, invoiceId, locale),
+          locale
+        )
+
+    if (!delivered) {
+      await supabase
+        .from('payment_dunning_notices')
+        .delete()
+        .eq('submission_id', submission.id)
+        .eq('invoice_id', invoiceId)
+        .eq('notice', notice)
+      return 'failed'
+    }
+
+    return 'sent'
+  }
+
+  private async findSubmissionForInvoice(
+    invoice: Stripe.Invoice,
+    supabase: SupabaseClient
+  ): Promise<DunningSubmission | null> {
+    const subscriptionId = getInvoiceSubscriptionId(invoice)
+    const customerId = typeof invoice.customer === 'string' ? invoice.customer : invoice.customer?.id ?? null
+
+    if (subscriptionId) {
+      const { data } = await supabase
+        .from('onboarding_submissions')
+        .select(DUNNING_COLUMNS)
+        .eq('stripe_subscription_id', subscriptionId)
+        .maybeSingle()
+      if (data) {
+        return data as unknown as DunningSubmission
+      }
+    }
+
+    if (customerId) {
+      const { data } = await supabase
+        .from('onboarding_submissions')
+        .select(DUNNING_COLUMNS)
+        .eq('stripe_customer_id', customerId)
+        .maybeSingle()
+      return (data as unknown as DunningSubmission) || null
+    }
+
+    return null
+  }
+
+  /**
+   * Language of the onboarding session the submission came from
+   */
+  private async getLocale(submission: DunningSubmission, supabase: SupabaseClient): Promise<Locale> {
+    if (!submission.session_id) {
+      return 'en'
+    }
+
+    const { data } = await supabase
+      .from('onboarding_sessions')
+      .select('locale')
+      .eq('id', submission.session_id)
+      .maybeSingle()
+
+    return locales.includes(data?.locale as Locale) ? (data!.locale as Locale) : 'en'
+  }
+}
@@ -0,0 +1,434 @@
+/**
+ * Language Add-on Service
+ * Post-purchase changes to language add-ons on an existing subscription
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { isValidLanguageCode } from '@/data/european-languages'
+import { EmailService } from '@/services/resend'
+import { StripePaymentService } from './StripePaymentService'
+import { LanguageChangePreview, LanguageChangeResult } from './types'
+
+/**
+ * Invoice metadata `purpose` for post-purchase add-on invoices
+ * Lets the invoice.paid webhook sync languages instead of treating it as the first payment
+ */
+export const LANGUAGE_ADDON_INVOICE_PURPOSE = 'language_addon'
+
+const CHANGEABLE_STATUSES = ['paid', 'completed']
+// A change that crashed mid-way stops blocking new ones after this long
+const CHANGE_CLAIM_TIMEOUT_MINUTES = 10
+
+const normalizeCodes = (codes: unknown): string[] =>
+  Array.isArray(codes)
+    ? [...new Set(codes.filter((code: unknown): code is string => typeof code === 'string').map(code => code.trim()))]
+    : []
+
+/**
+ * Languages bought for a submission
+ * Step 13 data wins, matching CheckoutSessionService
+ */
+export function getSubmissionLanguages(formData: Record<string, any> | null | undefined): string[] {
+  return normalizeCodes(formData?.step13?.additionalLanguages || formData?.additionalLanguages || [])
+}
+
+/**
+ * Add-ons can only change once the first payment has gone through
+ */
+export function canChangeLanguages(submission: { status: string; stripe_customer_id?: string | null }): boolean {
+  return CHANGEABLE_STATUSES.includes(submission.status) && Boolean(submission.stripe_customer_id)
+}
+
+/**
+ * Apply added and removed languages to form data, keeping step13 in sync when present
+ */
+export function applyLanguageChange(
+  formData: Record<string, any> | null | undefined,
+  add: string[],
+  remove: string[]
+): Record<string, any> {
+  const languages = getSubmissionLanguages(formData)
+    .filter(code => !remove.includes(code))
+    .concat(add.filter(code => !remove.includes(code)))
+  const additionalLanguages = [...new Set(languages)]
+
+  const updated: Record<string, any> = { ...(formData || {}), additionalLanguages }
+  if (updated.step13) {
+    updated.step13 = { ...updated.step13, additionalLanguages }
+  }
+  return updated
+}
+
+export class LanguageAddOnService {
+  private stripeService: StripePaymentService
+
+  constructor(stripeService?: StripePaymentService) {
+    this.stripeService = stripeService || new StripePaymentService()
+  }
+
+  /**
+   * Validate a requested change against the submission's current languages
+   *
+   * @returns Error details, or null when the change is allowed
+   */
+  validateChange(
+    submission: any,
+    add: string[],
+    remove: string[]
+  ): LanguageChangeResult['error'] | null {
+    if (!canChangeLanguages(submission)) {
+      return {
+        code: 'NOT_PAID',
+        message: 'Languages can only be changed after the first payment',
+        status: 409
+      }
+    }
+
+    if (add.length === 0 && remove.length === 0) {
+      return { code: 'NO_CHANGES', message: 'No language changes requested', status: 400 }
+    }
+
+    const invalid = [...add, ...remove].filter(code => !isValidLanguageCode(code))
+    if (invalid.length > 0) {
+      return {
+        code: 'INVALID_LANGUAGE_CODE',
+        message: `Invalid language codes: ${invalid.join(', ')}`,
+        status: 400
+      }
+    }
+
+    const current = getSubmissionLanguages(submission.form_data)
+
+    const alreadyAdded = add.filter(code => current.includes(code))
+    if (alreadyAdded.length > 0) {
+      return {
+        code: 'LANGUAGE_ALREADY_ADDED',
+        message: `Languages already included: ${alreadyAdded.join(', ')}`,
+        status: 400
+      }
+    }
+
+    const notAdded = remove.filter(code => !current.includes(code))
+    if (notAdded.length > 0) {
+      return {
+        code: 'LANGUAGE_NOT_ADDED',
+        message: `Languages not included: ${notAdded.join(', ')}`,
+        status: 400
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Preview the charge for added languages and the credit for removed ones
+   * Added languages are priced through Stripe's invoice preview; removed ones
+   * are credited against the next invoice at the amount last paid for them.
+   */
+  async previewChange(
+    submission: any,
+    addCodes: unknown,
+    removeCodes: unknown
+  ): Promise<LanguageChangeResult> {
+    const add = normalizeCodes(addCodes)
+    const remove = normalizeCodes(removeCodes)
+
+    const error = this.validateChange(submission, add, remove)
+    if (error) {
+      return { success: false, error }
+    }
+
+    // Unpaid add-on invoices aren't in form_data yet; adding again would bill twice
+    const pending = add.length > 0 ? await this.getPendingLanguages(submission) : []
+    const alreadyPending = add.filter(code => pending.includes(code))
+    if (alreadyPending.length > 0) {
+      return {
+        success: false,
+        error: {
+          code: 'LANGUAGE_PAYMENT_PENDING',
+          message: `Payment already pending for languages: ${alreadyPending.join(', ')}`,
+          status: 409
+        }
+      }
+    }
+
+    const addonPrice = await this.stripeService.getLanguageAddOnPrice()
+    const unitAmount = addonPrice.unit_amount ?? 0
+    const lineItems: LanguageChangePreview['lineItems'] = []
+
+    if (add.length > 0) {
+      const invoicePreview = await this.stripeService.previewInvoiceWithDiscount(
+        submission.stripe_customer_id,
+        process.env.STRIPE_BASE_PACKAGE_PRICE_ID!,
+        null,
+        add.length
+      )
+      const addOnLines = invoicePreview.lineItems.filter(line => !line.isRecurring)
+
+      add.forEach((code, index) => {
+        lineItems.push({ languageCode: code, amount: addOnLines[index]?.amount ?? unitAmount })
+      })
+    }
+
+    // Credit what the customer paid, so discounted or free languages can't earn balance
+    const paidAmounts = remove.length > 0 ? await this.getPaidLanguageAmounts(submission, remove) : {}
+    for (const code of remove) {
+      lineItems.push({ languageCode: code, amount: paidAmounts[code] ? -paidAmounts[code] : 0 })
+    }
+
+    const chargeAmount = lineItems.filter(item => item.amount > 0).reduce((sum, item) => sum + item.amount, 0)
+    const creditAmount = lineItems.filter(item => item.amount < 0).reduce((sum, item) => sum - item.amount, 0)
+
+    return {
+      success: true,
+      preview: {
+        currentLanguages: getSubmissionLanguages(submission.form_data),
+        resultingLanguages: applyLanguageChange(submission.form_data, add, remove).additionalLanguages,
+        added: add,
+        removed: remove,
+        chargeAmount,
+        creditAmount,
+        currency: addonPrice.currency,
+        lineItems
+      }
+    }
+  }
+
+  /**
+   * Charge for added languages, credit removed ones and sync form_data.additionalLanguages
+   *
+   * Added languages are only written once their invoice is paid. When the saved card
+   * needs customer action, the hosted invoice URL is returned and the invoice.paid
+   * webhook finishes the sync.
+   */
+  async applyChange(
+    submission: any,
+    addCodes: unknown,
+    removeCodes: unknown,
+    supabaseClient: SupabaseClient
+  ): Promise<LanguageChangeResult> {
+    // One change at a time per submission: concurrent requests would each pass
+    // the pending-invoice check and bill the same language twice
+    const claimedSubmission = await this.claimChange(submission, supabaseClient)
+    if (!claimedSubmission) {
+      return {
+        success: false,
+        error: {
+          code: 'LANGUAGE_CHANGE_IN_PROGRESS',
+          message: 'Another language change is in progress',
+          status: 409
+        }
+      }
+    }
+
+    try {
+      return await this.runChange(claimedSubmission, addCodes, removeCodes, supabaseClient)
+    } finally {
+      const { error: releaseError } = await supabaseClient
+        .from('onboarding_submissions')
+        .update({ language_change_started_at: null })
+        .eq('id', submission.id)
+
+      if (releaseError) {
+        console.error('[LanguageAddOnService] Failed to release language change claim:', releaseError)
+      }
+    }
+  }
+
+  /**
+   * Claim the submission for a language change
+   *
+   * @returns The submission with its current form data, or null when another change holds the claim
+   */
+  private async claimChange(submission: any, supabaseClient: SupabaseClient): Promise<any | null> {
+    const now = new Date()
+    const staleBefore = new Date(now.getTime() - CHANGE_CLAIM_TIMEOUT_MINUTES * 60 * 1000).toISOString()
+
+    const { data, error } = await supabaseClient
+      .from('onboarding_submissions')
+      .update({ language_change_started_at: now.toISOString() })
+      .eq('id', submission.id)
+      .or(`language_change_started_at.is.null,language_change_started_at.lt.${staleBefore}`)
+      .select('id, form_data')
+
+    if (error) {
+      throw new Error(`Failed to claim language change: ${error.message}`)
+    }
+
+    // The previous change may have finished since the submission was loaded
+    return data && data.length > 0 ? { ...submission, form_data: data[0].form_data } : null
+  }
+
+  private async runChange(
+    submission: any,
+    addCodes: unknown,
+    removeCodes: unknown,
+    supabaseClient: SupabaseClient
+  ): Promise<LanguageChangeResult> {
+    const previewResult = await this.previewChange(submission, addCodes, removeCodes)
+    if (!previewResult.success || !previewResult.preview) {
+      return previewResult
+    }
+
+    const preview = previewResult.preview
+    const stripe = this.stripeService.getStripeInstance()
+    const customerId: string = submission.stripe_customer_id
+
+    let invoiceId: string | null = null
+    let hostedInvoiceUrl: string | null = null
+    let paymentRequired = false
+
+    if (preview.added.length > 0) {
+      const invoice = await stripe.invoices.create({
+        customer: customerId,
+        collection_method: 'charge_automatically',
+        auto_advance: false,
+        pending_invoice_items_behavior: 'exclude',
+        description: 'Language add-ons',
+        metadata: {
+          submission_id: submission.id,
+          session_id: submission.session_id,
+          purpose: LANGUAGE_ADDON_INVOICE_PURPOSE,
+          language_codes: preview.added.join(',')
+        }
+      })
+      invoiceId = invoice.id as string
+
+      await this.stripeService.createLanguageAddOnItems(customerId, invoiceId, preview.added, {
+        submission_id: submission.id
+      })
+
+      const finalizedInvoice = await stripe.invoices.finalizeInvoice(invoiceId)
+      hostedInvoiceUrl = finalizedInvoice.hosted_invoice_url ?? null
+
+      try {
+        const paymentMethod = await this.getSubscriptionPaymentMethod(submission.stripe_subscription_id)
+        const paidInvoice = await stripe.invoices.pay(invoiceId, paymentMethod ? { payment_method: paymentMethod } : {})
+        paymentRequired = paidInvoice.status !== 'paid'
+      } catch (payError) {
+        // Declined or needs authentication - the customer completes it on the hosted invoice page
+        console.error('[LanguageAddOnService] Automatic add-on payment failed:', payError)
+        paymentRequired = true
+      }
+    }
+
+    if (preview.removed.length > 0 && preview.creditAmount > 0) {
+      await stripe.customers.createBalanceTransaction(customerId, {
+        amount: -preview.creditAmount,
+        currency: preview.currency,
+        description: `Language add-on removal: ${preview.removed.join(', ')}`,
+        metadata: {
+          submission_id: submission.id,
+          language_codes: preview.removed.join(',')
+        }
+      })
+    }
+
+    const syncedAdd = paymentRequired ? [] : preview.added
+    const formData = applyLanguageChange(submission.form_data, syncedAdd, preview.removed)
+
+    const { error: updateError } = await supabaseClient
+      .from('onboarding_submissions')
+      .update({
+        form_data: formData,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', submission.id)
+
+    if (updateError) {
+      throw new Error(`Failed to sync languages: ${updateError.message}`)
+    }
+
+    if (syncedAdd.length > 0 || preview.removed.length > 0) {
+      await EmailService.sendLanguageChangeNotification(
+        submission.id,
+        submission.business_name,
+        submission.email,
+        syncedAdd,
+        preview.removed,
+        (syncedAdd.length > 0 ? preview.chargeAmount : 0) - preview.creditAmount,
+        preview.currency.toUpperCase()
+      )
+    }
+
+    return {
+      success: true,
+      preview,
+      languages: formData.additionalLanguages,
+      paymentRequired,
+      hostedInvoiceUrl: paymentRequired ? hostedInvoiceUrl : null,
+      invoiceId
+    }
+  }
+
+  /**
+   * Languages on this submission's open add-on invoices, awaiting payment
+   */
+  private async getPendingLanguages(submission: any): Promise<string[]> {
+    const invoices = await this.stripeService.getStripeInstance().invoices.list({
+      customer: submission.stripe_customer_id,
+      status: 'open',
+      limit: 100
+    })
+
+    return invoices.data
+      .filter(invoice =>
+        invoice.metadata?.purpose === LANGUAGE_ADDON_INVOICE_PURPOSE &&
+        invoice.metadata?.submission_id === submission.id
+      )
+      .flatMap(invoice => (invoice.metadata?.language_codes || '').split(',').filter(Boolean))
+  }
+
+  /**
+   * What the customer last paid for each language, net of discounts
+   * Taken from the newest paid invoice line for the language on this submission;
+   * a language with no paid line (e.g. a 100% coupon) maps to 0.
+   */
+  private async getPaidLanguageAmounts(submission: any, codes: string[]): Promise<Record<string, number>> {
+    const stripe = this.stripeService.getStripeInstance()
+    const invoices = await stripe.invoices.list({
+      customer: submission.stripe_customer_id,
+      status: 'paid',
+      limit: 100
+    })
+
+    const amounts: Record<string, number> = {}
+    const submissionInvoices = invoices.data
+      .filter(invoice => invoice.metadata?.submission_id === submission.id)
+      .sort((a, b) => b.created - a.created)
+
+    for (const invoice of submissionInvoices) {
+      const lines = invoice.lines?.has_more
+        ? (await stripe.invoices.listLineItems(invoice.id as string, { limit: 100 })).data
+        : invoice.lines?.data || []
+
+      for (const line of lines) {
+        const code = line.metadata?.language_code
+        if (!code || !codes.includes(code) || code in amounts) continue
+
+        const discount = (line.discount_amounts || []).reduce((sum, item) => sum + item.amount, 0)
+        amounts[code] = Math.max(0, line.amount - discount)
+      }
+    }
+
+    return amounts
+  }
+
+  /**
+   * The card the subscription is billed to, so add-ons are charged the same way
+   */
+  private async getSubscriptionPaymentMethod(subscriptionId: string | null): Promise<string | null> {
+    if (!subscriptionId) {
+      return null
+    }
+
+    try {
+      const subscription = await this.stripeService.retrieveSubscription(subscriptionId)
+      const paymentMethod = subscription.default_payment_method
+      return typeof paymentMethod === 'string' ? paymentMethod : paymentMethod?.id ?? null
+    } catch (error) {
+      console.error('[LanguageAddOnService] Failed to retrieve subscription payment method:', error)
+      return null
+    }
+  }
+}
@@ -0,0 +1,365 @@
+/**
+ * Reconciliation Service
+ * Compares Stripe subscriptions, schedules, refunds and customers with
+ * onboarding_submissions and reports where a missed webhook left them out of sync.
+ * Repairs replay the matching WebhookService handler with the current Stripe object.
+ */
+
+import Stripe from 'stripe'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { WebhookService } from './WebhookService'
+import { ReconciliationIssue, ReconciliationReport } from './types'
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const DEFAULT_SINCE_DAYS = 90
+const SUBSCRIPTION_STATUSES: Stripe.SubscriptionListParams.Status[] = ['active', 'past_due']
+const OPEN_SCHEDULE_STATUSES: Stripe.SubscriptionSchedule.Status[] = ['active', 'not_started']
+const PAGE_SIZE = 100
+
+const SUBMISSION_COLUMNS = [
+  'id',
+  'status',
+  'payment_completed_at',
+  'refunded_at',
+  'stripe_customer_id',
+  'stripe_subscription_id',
+  'stripe_subscription_schedule_id',
+  'stripe_payment_id'
+].join(', ')
+
+interface SubmissionPaymentState {
+  id: string
+  status: string
+  payment_completed_at: string | null
+  refunded_at: string | null
+  stripe_customer_id: string | null
+  stripe_subscription_id: string | null
+  stripe_subscription_schedule_id: string | null
+  stripe_payment_id: string | null
+}
+
+type ReconciliationEventType = Extract<Stripe.Event.Type, 'invoice.paid' | 'charge.refunded'>
+
+const idOf = (value: string | { id: string } | null | undefined): string | null =>
+  typeof value === 'string' ? value : value?.id ?? null
+
+/**
+ * Lookup tables over the submissions that reference Stripe objects
+ */
+class SubmissionIndex {
+  readonly byId = new Map<string, SubmissionPaymentState>()
+  readonly byCustomer = new Map<string, SubmissionPaymentState>()
+  readonly bySubscription = new Map<string, SubmissionPaymentState>()
+  readonly bySchedule = new Map<string, SubmissionPaymentState>()
+  readonly byPaymentIntent = new Map<string, SubmissionPaymentState>()
+
+  add(submission: SubmissionPaymentState) {
+    this.byId.set(submission.id, submission)
+    if (submission.stripe_customer_id) this.byCustomer.set(submission.stripe_customer_id, submission)
+    if (submission.stripe_subscription_id) this.bySubscription.set(submission.stripe_subscription_id, submission)
+    if (submission.stripe_subscription_schedule_id) this.bySchedule.set(submission.stripe_subscription_schedule_id, submission)
+    if (submission.stripe_payment_id) this.byPaymentIntent.set(submission.stripe_payment_id, submission)
+  }
+}
+
+export class ReconciliationService {
+  private stripe: Stripe
+  private webhookService: WebhookService
+
+  constructor(stripeInstance?: Stripe, webhookService?: WebhookService) {
+    if (stripeInstance) {
+      this.stripe = stripeInstance
+    } else {
+      const stripeSecretKey = process.env.STRIPE_SECRET_KEY!
+      this.stripe = new Stripe(stripeSecretKey, {
+        apiVersion: '2025-09-30.clover'
+      })
+    }
+    this.webhookService = webhookService || new WebhookService(this.stripe)
+  }
+
+  /**
+   * Walk Stripe and report mismatches with the database
+   * Active subscriptions and open schedules are always checked in full; refunds and
+   * customers are limited to those created in the last `sinceDays` days.
+   *
+   * @param repair - Replay the webhook handlers for repairable issues
+   */
+  async run(
+    supabase: SupabaseClient,
+    {
+      repair = false,
+      sinceDays = DEFAULT_SINCE_DAYS,
+      now = new Date()
+    }: { repair?: boolean; sinceDays?: number; now?: Date } = {}
+  ): Promise<ReconciliationReport> {
+    const since = new Date(now.getTime() - sinceDays * 24 * 60 * 60 * 1000)
+    const sinceUnix = Math.floor(since.getTime() / 1000)
+    const index = await this.loadSubmissions(supabase)
+
+    const report: ReconciliationReport = {
+      repair,
+      since: since.toISOString(),
+      checked: { subscriptions: 0, schedules: 0, refunds: 0, customers: 0 },
+      issues: [],
+      summary: {
+        paid_not_recorded: 0,
+        refund_not_flagged: 0,
+        orphaned_customer: 0,
+        subscription_without_submission: 0
+      },
+      repaired: 0,
+      repairFailed: 0
+    }
+
+    const addIssue = (issue: ReconciliationIssue) => {
+      report.issues.push(issue)
+      report.summary[issue.type]++
+    }
+
+    // Subscriptions Stripe is billing: the submission must record the payment
+    const reportedSubscriptions = new Set<string>()
+    for (const status of SUBSCRIPTION_STATUSES) {
+      for await (const subscription of this.stripe.subscriptions.list({ status, limit: PAGE_SIZE })) {
+        report.checked.subscriptions++
+        const submission = await this.findSubmissionForSubscription(subscription, index, supabase)
+        const customerId = idOf(subscription.customer)
+
+        if (!submission) {
+          reportedSubscriptions.add(subscription.id)
+          addIssue({
+            type: 'subscription_without_submission',
+            stripeId: subscription.id,
+            submissionId: null,
+            customerId,
+            detail: `Subscription ${subscription.id} (${subscription.status}) has no matching submission`,
+            repairable: false
+          })
+          continue
+        }
+
+        if (submission.payment_completed_at) {
+          continue
+        }
+
+        const invoice = await this.findFirstPaidInvoice(subscription.id)
+        if (invoice) {
+          addIssue({
+            type: 'paid_not_recorded',
+            stripeId: invoice.id!,
+            submissionId: submission.id,
+            customerId,
+            detail: `Invoice ${invoice.id} is paid but submission ${submission.id} is '${submission.status}' without payment_completed_at`,
+            repairable: true
+          })
+        }
+      }
+    }
+
+    // Schedules not yet (or no longer) backed by a subscription found above
+    for await (const schedule of this.stripe.subscriptionSchedules.list({ limit: PAGE_SIZE })) {
+      if (!OPEN_SCHEDULE_STATUSES.includes(schedule.status)) {
+        continue
+      }
+      report.checked.schedules++
+
+      const subscriptionId = idOf(schedule.subscription)
+      if (subscriptionId && reportedSubscriptions.has(subscriptionId)) {
+        continue
+      }
+
+      const submission = index.bySchedule.get(schedule.id)
+        || (subscriptionId ? index.bySubscription.get(subscriptionId) : undefined)
+        || await this.findSubmissionById(schedule.metadata?.submission_id, index, supabase)
+
+      if (!submission) {
+        addIssue({
+          type: 'subscription_without_submission',
+          stripeId: schedule.id,
+          submissionId: null,
+          customerId: idOf(schedule.customer),
+          detail: `Subscription schedule ${schedule.id} (${schedule.status}) has no matching submission`,
+          repairable: false
+        })
+      }
+    }
+
+    // Fully refunded charges the submission does not know about
+    const checkedCharges = new Set<string>()
+    for await (const refund of this.stripe.refunds.list({ created: { gte: sinceUnix }, limit: PAGE_SIZE })) {
+      report.checked.refunds++
+      const chargeId = idOf(refund.charge)
+      const paymentIntentId = idOf(refund.payment_intent)
+
+      if (refund.status !== 'succeeded' || !chargeId || checkedCharges.has(chargeId)) {
+        continue
+      }
+      checkedCharges.add(chargeId)
+
+      const submission = paymentIntentId ? index.byPaymentIntent.get(paymentIntentId) : undefined
+      if (!submission || submission.refunded_at) {
+        continue
+      }
+
+      const charge = await this.stripe.charges.retrieve(chargeId, { expand: ['refunds'] })
+      if (charge.refunded) {
+        addIssue({
+          type: 'refund_not_flagged',
+          stripeId: charge.id,
+          submissionId: submission.id,
+          customerId: idOf(charge.customer),
+          detail: `Charge ${charge.id} is fully refunded but submission ${submission.id} has no refunded_at`,
+          repairable: true
+        })
+      }
+    }
+
+    // Customers no submission points to (e.g. submission deleted after checkout)
+    for await (const customer of this.stripe.customers.list({ created: { gte: sinceUnix }, limit: PAGE_SIZE })) {
+      report.checked.customers++
+      if (!index.byCustomer.has(customer.id)) {
+        addIssue({
+          type: 'orphaned_customer',
+          stripeId: customer.id,
+          submissionId: null,
+          customerId: customer.id,
+          detail: `Customer ${customer.id}${customer.email ? ` (${customer.email})` : ''} is not linked to any submission`,
+          repairable: false
+        })
+      }
+    }
+
+    if (repair) {
+      for (const issue of report.issues.filter(item => item.repairable)) {
+        await this.repairIssue(issue, supabase)
+        if (issue.repaired) {
+          report.repaired++
+        } else {
+          report.repairFailed++
+        }
+      }
+    }
+
+    return report
+  }
+
+  /**
+   * Replay the webhook handler that was missed, with a synthetic event wrapping
+   * the current Stripe object
+   */
+  private async repairIssue(issue: ReconciliationIssue, supabase: SupabaseClient) {
+    try {
+      let result
+      if (issue.type === 'paid_not_recorded') {
+        const invoice = await this.stripe.invoices.retrieve(issue.stripeId)
+        result = await this.webhookService.handleInvoicePaid(
+          this.syntheticEvent('invoice.paid', invoice),
+          supabase
+        )
+      } else if (issue.type === 'refund_not_flagged') {
+        const charge = await this.stripe.charges.retrieve(issue.stripeId, { expand: ['refunds'] })
+        result = await this.webhookService.handleChargeRefunded(
+          this.syntheticEvent('charge.refunded', charge),
+          supabase
+        )
+      } else {
+        return
+      }
+
+      issue.repaired = result.success
+      if (!result.success) {
+        issue.repairError = result.error || 'Handler failed'
+      }
+    } catch (error) {
+      issue.repaired = false
+      issue.repairError = error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+
+  private syntheticEvent(type: ReconciliationEventType, object: Stripe.Invoice | Stripe.Charge): Stripe.Event {
+    return {
+      id: `reconcile_${object.id}`,
+      object: 'event',
+      type,
+      created: Math.floor(Date.now() / 1000),
+      livemode: object.livemode,
+      data: { object }
+    } as unknown as Stripe.Event
+  }
+
+  private async loadSubmissions(supabase: SupabaseClient): Promise<SubmissionIndex> {
+    const { data, error } = await supabase
+      .from('onboarding_submissions')
+      .select(SUBMISSION_COLUMNS)
+      .not('stripe_customer_id', 'is', null)
+
+    if (error) {
+      throw new Error(`Failed to load submissions: ${error.message}`)
+    }
+
+    const index = new SubmissionIndex()
+    for (const submission of (data || []) as unknown as SubmissionPaymentState[]) {
+      index.add(submission)
+    }
+    return index
+  }
+
+  private async findSubmissionForSubscription(
+    subscription: Stripe.Subscription,
+    index: SubmissionIndex,
+    supabase: SupabaseClient
+  ): Promise<SubmissionPaymentState | null> {
+    const scheduleId = idOf(subscription.schedule)
+    const customerId = idOf(subscription.customer)
+
+    return index.bySubscription.get(subscription.id)
+      || (scheduleId ? index.bySchedule.get(scheduleId) : undefined)
+      || await this.findSubmissionById(subscription.metadata?.submission_id, index, supabase)
+      || (customerId ? index.byCustomer.get(customerId) : undefined)
+      || null
+  }
+
+  /**
+   * Submissions that never got a Stripe id written (the webhook that sets them was missed)
+   */
+  private async findSubmissionById(
+    submissionId: string | undefined,
+    index: SubmissionIndex,
+    supabase: SupabaseClient
+  ): Promise<SubmissionPaymentState | null> {
+    if (!submissionId) {
+      return null
+    }
+
+    const cached = index.byId.get(submissionId)
+    if (cached) {
+      return cached
+    }
+
+    const { data } = await supabase
+      .from('onboarding_submissions')
+      .select(SUBMISSION_COLUMNS)
+      .eq('id', submissionId)
+      .maybeSingle()
+
+    if (data) {
+      index.add(data as unknown as SubmissionPaymentState)
+    }
+    return (data as unknown as SubmissionPaymentState) || null
+  }
+
+  /**
+   * The initial payment: Stripe lists invoices newest first
+   */
+  private async findFirstPaidInvoice(subscriptionId: string): Promise<Stripe.Invoice | null> {
+    const invoices = await this.stripe.invoices.list({
+      subscription: subscriptionId,
+      status: 'paid',
+      limit: PAGE_SIZE
+    })
+    return invoices.data[invoices.data.length - 1] || null
+  }
+}
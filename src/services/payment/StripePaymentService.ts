@@ -4,6 +4,7 @@
  */
 
 import Stripe from 'stripe'
+import { EUROPEAN_LANGUAGES } from '@/data/european-languages'
 import { SubscriptionScheduleParams, SubscriptionScheduleResult } from './types'
 
 const BASE_PACKAGE_PRICE_ID = process.env.STRIPE_BASE_PACKAGE_PRICE_ID!
@@ -483,6 +484,103 @@ export class StripePaymentService {
     })
   }
 
+  /**
+   * Retrieve a subscription schedule by ID
+   *
+   * @param scheduleId - Stripe subscription schedule ID
+   * @returns Subscription schedule object
+   */
+  async retrieveSubscriptionSchedule(scheduleId: string): Promise<Stripe.SubscriptionSchedule> {
+    return await this.stripe.subscriptionSchedules.retrieve(scheduleId)
+  }
+
+  /**
+   * List a customer's most recent invoices (drafts excluded)
+   *
+   * @param customerId - Stripe customer ID
+   * @param limit - Maximum number of invoices to return
+   * @returns Invoices, newest first
+   */
+  async listInvoices(customerId: string, limit: number = 24): Promise<Stripe.Invoice[]> {
+    const invoices = await this.stripe.invoices.list({
+      customer: customerId,
+      limit
+    })
+
+    return invoices.data.filter(invoice => invoice.status !== 'draft')
+  }
+
+  /**
+   * Create a Stripe Billing Portal session for self-service card and invoice management
+   *
+   * @param customerId - Stripe customer ID
+   * @param returnUrl - URL the portal links back to
+   * @param locale - Portal UI language
+   * @param flowData - Deep link into a single portal flow (e.g. payment method update)
+   * @returns Billing portal session with URL
+   */
+  async createBillingPortalSession(
+    customerId: string,
+    returnUrl: string,
+    locale?: string,
+    flowData?: Stripe.BillingPortal.SessionCreateParams.FlowData
+  ): Promise<Stripe.BillingPortal.Session> {
+    return await this.stripe.billingPortal.sessions.create({
+      customer: customerId,
+      return_url: returnUrl,
+      ...(locale && { locale: locale as Stripe.BillingPortal.SessionCreateParams.Locale }),
+      ...(flowData && { flow_data: flowData })
+    })
+  }
+
+  /**
+   * Create one-time language add-on invoice items
+   *
+   * @param customerId - Stripe customer ID
+   * @param invoiceId - Invoice the items are attached to
+   * @param languageCodes - ISO 639-1 codes from EUROPEAN_LANGUAGES
+   * @param metadata - Additional metadata stored on each item
+   * @returns Created invoice items
+   */
+  async createLanguageAddOnItems(
+    customerId: string,
+    invoiceId: string,
+    languageCodes: string[],
+    metadata: Record<string, string> = {}
+  ): Promise<Stripe.InvoiceItem[]> {
+    if (languageCodes.length === 0) {
+      return []
+    }
+
+    const addonPrice = await this.getLanguageAddOnPrice()
+
+    return await Promise.all(languageCodes.map(code => {
+      const language = EUROPEAN_LANGUAGES.find(l => l.code === code)
+      return this.stripe.invoiceItems.create({
+        customer: customerId,
+        invoice: invoiceId,
+        pricing: {
+          price: addonPrice.id
+        },
+        description: `${language?.nameEn} Language Add-on`,
+        metadata: {
+          ...metadata,
+          language_code: code,
+          one_time: 'true'
+        }
+      })
+    }))
+  }
+
+  /**
+   * Retrieve the one-time language add-on price
+   *
+   * @returns Stripe Price object
+   */
+  async getLanguageAddOnPrice(): Promise<Stripe.Price> {
+    return await this.stripe.prices.retrieve(process.env.STRIPE_LANGUAGE_ADDON_PRICE_ID!)
+  }
+
   /**
    * Get the Stripe instance (for advanced usage)
    */
@@ -0,0 +1,345 @@
+/**
+ * Webhook Event Service
+ * Records webhook processing outcomes, replays failed or stuck events and retries
+ * them with exponential backoff until they are dead-lettered.
+ */
+
+import Stripe from 'stripe'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { EmailService } from '@/services/resend'
+import { WebhookService } from './WebhookService'
+import {
+  WebhookEventFilter,
+  WebhookEventRecord,
+  WebhookReplayResult,
+  WebhookRetryRunResult
+} from './types'
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const MAX_AUTO_RETRIES = 6
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000 // 5 minutes, doubled per retry
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000
+// Background processing runs inside after(); anything older than this died with the function
+export const STUCK_PROCESSING_MS = 15 * 60 * 1000
+const RETRY_BATCH_SIZE = 25
+
+/**
+ * When a failed event should be retried, or null once automatic retries are exhausted
+ *
+ * @param retryCount - Replays already attempted (0 after the original delivery failed)
+ */
+export function getNextRetryAt(retryCount: number, now: Date = new Date()): Date | null {
+  if (retryCount >= MAX_AUTO_RETRIES) {
+    return null
+  }
+
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** retryCount, RETRY_MAX_DELAY_MS)
+  return new Date(now.getTime() + delay)
+}
+
+const replayError = (code: string, message: string, status: number): WebhookReplayResult => ({
+  success: false,
+  error: { code, message, status }
+})
+
+export class WebhookEventService {
+  private stripe: Stripe
+  private webhookService: WebhookService
+
+  constructor(stripeInstance?: Stripe, webhookService?: WebhookService) {
+    if (stripeInstance) {
+      this.stripe = stripeInstance
+    } else {
+      const stripeSecretKey = process.env.STRIPE_SECRET_KEY!
+      this.stripe = new Stripe(stripeSecretKey, {
+        apiVersion: '2025-09-30.clover'
+      })
+    }
+    this.webhookService = webhookService || new WebhookService(this.stripe)
+  }
+
+  /**
+   * Run an event through its handler and record the outcome
+   * Failures are scheduled for an automatic retry based on how often they were retried.
+   */
+  async processEvent(
+    event: Stripe.Event,
+    supabase: SupabaseClient,
+    retryCount: number = 0,
+    now: Date = new Date()
+  ): Promise<WebhookReplayResult> {
+    try {
+      const result = await this.webhookService.dispatchEvent(event, supabase)
+      if (!result.success) {
+        throw new Error(result.error || 'Handler failed')
+      }
+
+      await supabase
+        .from('stripe_webhook_events')
+        .update({
+          status: 'completed',
+          completed_at: new Date().toISOString(),
+          error_message: null,
+          next_retry_at: null
+        })
+        .eq('event_id', event.id)
+
+      return { success: true, status: 'completed', nextRetryAt: null }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`Error processing event ${event.id}:`, error)
+
+      const nextRetryAt = await this.recordFailure(event.id, message, retryCount, supabase, now)
+      return {
+        success: false,
+        status: 'failed',
+        nextRetryAt,
+        error: { code: 'HANDLER_FAILED', message, status: 502 }
+      }
+    }
+  }
+
+  /**
+   * Failed and stuck events for the admin dashboard, newest first
+   */
+  async listEvents(
+    supabase: SupabaseClient,
+    {
+      filter = 'all',
+      limit = 50,
+      offset = 0,
+      now = new Date()
+    }: { filter?: WebhookEventFilter; limit?: number; offset?: number; now?: Date } = {}
+  ): Promise<{ events: WebhookEventRecord[]; total: number }> {
+    const stuckBefore = new Date(now.getTime() - STUCK_PROCESSING_MS).toISOString()
+
+    let query = supabase
+      .from('stripe_webhook_events')
+      .select('*', { count: 'exact' })
+
+    switch (filter) {
+      case 'failed':
+        query = query.eq('status', 'failed')
+        break
+      case 'dead_letter':
+        query = query.eq('status', 'failed').is('next_retry_at', null)
+        break
+      case 'stuck':
+        query = query.eq('status', 'processing').lt('processed_at', stuckBefore)
+        break
+      default:
+        query = query.or(`status.eq.failed,and(status.eq.processing,processed_at.lt.${stuckBefore})`)
+    }
+
+    const { data, count, error } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      throw new Error(`Failed to list webhook events: ${error.message}`)
+    }
+
+    return { events: (data || []) as WebhookEventRecord[], total: count || 0 }
+  }
+
+  /**
+   * Re-fetch an event from Stripe and run it through WebhookService again
+   * Stripe keeps events for 30 days, so older events can no longer be replayed.
+   */
+  async replayEvent(
+    eventId: string,
+    supabase: SupabaseClient,
+    now: Date = new Date()
+  ): Promise<WebhookReplayResult> {
+    const { data: record, error: fetchError } = await supabase
+      .from('stripe_webhook_events')
+      .select('*')
+      .eq('event_id', eventId)
+      .maybeSingle()
+
+    if (fetchError) {
+      throw new Error(`Failed to load webhook event: ${fetchError.message}`)
+    }
+
+    if (!record) {
+      return replayError('EVENT_NOT_FOUND', 'Webhook event not found', 404)
+    }
+
+    const row = record as WebhookEventRecord
+
+    if (row.status === 'completed') {
+      return replayError('EVENT_ALREADY_COMPLETED', 'Webhook event already completed', 409)
+    }
+
+    if (row.status === 'processing' && now.getTime() - new Date(row.processed_at).getTime() < STUCK_PROCESSING_MS) {
+      return replayError('EVENT_IN_PROGRESS', 'Webhook event is still processing', 409)
+    }
+
+    // Claim the event; the retry_count match makes concurrent replays lose the race
+    const retryCount = (row.retry_count || 0) + 1
+    const { data: claimed, error: claimError } = await supabase
+      .from('stripe_webhook_events')
+      .update({
+        status: 'processing',
+        retry_count: retryCount,
+        processed_at: now.toISOString(),
+        last_retry_at: now.toISOString(),
+        next_retry_at: null
+      })
+      .eq('event_id', eventId)
+      .eq('retry_count', row.retry_count || 0)
+      .select('event_id')
+
+    if (claimError) {
+      throw new Error(`Failed to claim webhook event: ${claimError.message}`)
+    }
+
+    if (!claimed || claimed.length === 0) {
+      return replayError('EVENT_IN_PROGRESS', 'Webhook event is already being replayed', 409)
+    }
+
+    let event: Stripe.Event
+    try {
+      event = await this.stripe.events.retrieve(eventId)
+    } catch (error) {
+      const message = `Failed to fetch event from Stripe: ${error instanceof Error ? error.message : 'Unknown error'}`
+      const nextRetryAt = await this.recordFailure(eventId, message, retryCount, supabase, now)
+      return {
+        success: false,
+        status: 'failed',
+        nextRetryAt,
+        error: { code: 'STRIPE_EVENT_UNAVAILABLE', message, status: 502 }
+      }
+    }
+
+    return this.processEvent(event, supabase, retryCount, now)
+  }
+
+  /**
+   * Scheduled job: replay failed events whose backoff has elapsed and events stuck
+   * in processing. The admin is emailed about events that ran out of retries.
+   */
+  async retryDueEvents(
+    supabase: SupabaseClient,
+    { dryRun = false, now = new Date() }: { dryRun?: boolean; now?: Date } = {}
+  ): Promise<WebhookRetryRunResult> {
+    const stuckBefore = new Date(now.getTime() - STUCK_PROCESSING_MS).toISOString()
+
+    const [failedResult, stuckResult] = await Promise.all([
+      supabase
+        .from('stripe_webhook_events')
+        .select('*')
+        .eq('status', 'failed')
+        .lte('next_retry_at', now.toISOString())
+        .order('next_retry_at', { ascending: true })
+        .limit(RETRY_BATCH_SIZE),
+      supabase
+        .from('stripe_webhook_events')
+        .select('*')
+        .eq('status', 'processing')
+        .lt('processed_at', stuckBefore)
+        .order('processed_at', { ascending: true })
+        .limit(RETRY_BATCH_SIZE)
+    ])
+
+    if (failedResult.error || stuckResult.error) {
+      throw new Error(`Failed to load due webhook events: ${(failedResult.error || stuckResult.error)!.message}`)
+    }
+
+    const dueEvents = [
+      ...(failedResult.data || []),
+      ...(stuckResult.data || [])
+    ].slice(0, RETRY_BATCH_SIZE) as WebhookEventRecord[]
+
+    const result: WebhookRetryRunResult = {
+      dryRun,
+      due: dueEvents.length,
+      completed: 0,
+      failed: 0,
+      deadLettered: 0,
+      details: []
+    }
+
+    const deadLettered: Array<{ eventId: string; eventType: string; retryCount: number; error: string }> = []
+
+    for (const record of dueEvents) {
+      if (dryRun) {
+        result.details.push({ eventId: record.event_id, eventType: record.event_type, outcome: 'would_retry' })
+        continue
+      }
+
+      try {
+        const replay = await this.replayEvent(record.event_id, supabase, now)
+
+        if (replay.success) {
+          result.completed++
+          result.details.push({ eventId: record.event_id, eventType: record.event_type, outcome: 'completed' })
+        } else if (replay.status === 'failed' && !replay.nextRetryAt) {
+          result.deadLettered++
+          result.details.push({
+            eventId: record.event_id,
+            eventType: record.event_type,
+            outcome: 'dead_lettered',
+            error: replay.error?.message
+          })
+          deadLettered.push({
+            eventId: record.event_id,
+            eventType: record.event_type,
+            retryCount: (record.retry_count || 0) + 1,
+            error: replay.error?.message || 'Unknown error'
+          })
+        } else if (replay.status === 'failed') {
+          result.failed++
+          result.details.push({
+            eventId: record.event_id,
+            eventType: record.event_type,
+            outcome: 'failed',
+            error: replay.error?.message
+          })
+        } else {
+          // Claimed by a concurrent replay, or completed in the meantime
+          result.details.push({ eventId: record.event_id, eventType: record.event_type, outcome: 'skipped' })
+        }
+      } catch (error) {
+        result.failed++
+        result.details.push({
+          eventId: record.event_id,
+          eventType: record.event_type,
+          outcome: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    }
+
+    if (deadLettered.length > 0) {
+      await EmailService.sendWebhookDeadLetterNotification(deadLettered)
+    }
+
+    return result
+  }
+
+  private async recordFailure(
+    eventId: string,
+    message: string,
+    retryCount: number,
+    supabase: SupabaseClient,
+    now: Date
+  ): Promise<string | null> {
+    const nextRetryAt = getNextRetryAt(retryCount, now)?.toISOString() ?? null
+
+    await supabase
+      .from('stripe_webhook_events')
+      .update({
+        status: 'failed',
+        completed_at: new Date().toISOString(),
+        error_message: message,
+        next_retry_at: nextRetryAt
+      })
+      .eq('event_id', eventId)
+
+    return nextRetryAt
+  }
+}
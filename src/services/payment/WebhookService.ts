@@ -8,6 +8,10 @@ import { SupabaseClient } from '@supabase/supabase-js'
 import { EmailService } from '@/services/resend'
 import { SubmissionLookupResult, WebhookHandlerResult } from './types'
 import { Locale } from '@/lib/i18n'
+import { LANGUAGE_ADDON_INVOICE_PURPOSE, applyLanguageChange, getSubmissionLanguages } from './LanguageAddOnService'
+import { DunningService, getDunningResetFields } from './DunningService'
+import { StripePaymentService } from './StripePaymentService'
+import { ConversionTrackingService } from '@/services/conversion-tracking'
 
 const ADMIN_EMAIL = process.env.ADMIN_EMAIL || process.env.NOTIFICATION_ADMIN_EMAIL
 const IS_PRODUCTION = process.env.NODE_ENV === 'production'
@@ -25,8 +29,14 @@ function debugLog(message: string, data?: unknown) {
 
 export class WebhookService {
   private stripe: Stripe
-
-  constructor(stripeInstance?: Stripe) {
+  private dunningService: DunningService
+  private conversionTracking: ConversionTrackingService
+
+  constructor(
+    stripeInstance?: Stripe,
+    dunningService?: DunningService,
+    conversionTracking?: ConversionTrackingService
+  ) {
     if (stripeInstance) {
       this.stripe = stripeInstance
     } else {
@@ -35,6 +45,8 @@ export class WebhookService {
         apiVersion: '2025-09-30.clover'
       })
     }
+    this.dunningService = dunningService || new DunningService(new StripePaymentService(this.stripe))
+    this.conversionTracking = conversionTracking || new ConversionTrackingService()
   }
 
   private async getInvoiceFromEvent(event: Stripe.Event): Promise<Stripe.Invoice | null> {
@@ -261,6 +273,56 @@ export class WebhookService {
     return { submission: null }
   }
 
+  /**
+   * Route an event to its handler
+   * Shared by the webhook endpoint and the replay tooling; unknown types are acknowledged.
+   */
+  async dispatchEvent(
+    event: Stripe.Event,
+    supabase: SupabaseClient
+  ): Promise<WebhookHandlerResult> {
+    switch (event.type) {
+      case 'invoice.paid':
+      case 'invoice.payment_succeeded':
+      case 'invoice_payment.paid':
+        return this.handleInvoicePaid(event, supabase)
+
+      case 'payment_intent.succeeded':
+        return this.handlePaymentIntentSucceeded(event, supabase)
+
+      case 'setup_intent.succeeded':
+        return this.handleSetupIntentSucceeded(event, supabase)
+
+      case 'customer.subscription.created':
+        return this.handleSubscriptionCreated(event, supabase)
+
+      case 'customer.subscription.updated':
+        return this.handleSubscriptionUpdated(event, supabase)
+
+      case 'customer.subscription.deleted':
+        return this.handleSubscriptionDeleted(event, supabase)
+
+      case 'subscription_schedule.completed':
+        return this.handleScheduleCompleted(event, supabase)
+
+      case 'subscription_schedule.canceled':
+        return this.handleScheduleCanceled(event, supabase)
+
+      case 'charge.refunded':
+        return this.handleChargeRefunded(event, supabase)
+
+      case 'payment_intent.payment_failed':
+        return this.handlePaymentFailed(event, supabase)
+
+      case 'invoice.payment_failed':
+        return this.handleInvoicePaymentFailed(event, supabase)
+
+      default:
+        debugLog(`⚠️  Unhandled event type: ${event.type}`)
+        return { success: true }
+    }
+  }
+
   /**
    * Handle invoice.paid event - Payment successful
    */
@@ -276,6 +338,11 @@ export class WebhookService {
         return { success: false, error: 'Invoice not found' }
       }
 
+      // Post-purchase language add-on invoices only extend the languages
+      if (invoice.metadata?.purpose === LANGUAGE_ADDON_INVOICE_PURPOSE) {
+        return await this.handleLanguageAddOnInvoicePaid(invoice, supabase)
+      }
+
       let invoiceSubscriptionRaw = (invoice as Stripe.Invoice & { subscription?: string | Stripe.Subscription | null }).subscription ?? null
       let invoiceCustomerRaw = (invoice as Stripe.Invoice & { customer?: string | Stripe.Customer | null }).customer ?? null
 
@@ -407,7 +474,9 @@ export class WebhookService {
           discount_amount: discountAmount,
           coupon_code: couponCode
         },
-        updated_at: new Date().toISOString()
+        updated_at: new Date().toISOString(),
+        // A paid invoice ends any dunning period and restores the previous status
+        ...getDunningResetFields(submission)
       }
 
       // Only update Stripe IDs if webhook has values (don't overwrite with NULL)
@@ -451,6 +520,20 @@ export class WebhookService {
         // Don't throw - analytics is non-critical, continue processing
       }
 
+      // Server-side GA4 purchase; never fails the webhook
+      try {
+        const conversion = await this.conversionTracking.trackInvoicePurchase(invoice, submission, supabase, {
+          coupon: couponCode
+        })
+        if (conversion.status === 'failed') {
+          console.error('[Webhook] Failed to send purchase conversion:', conversion.error)
+        } else {
+          debugLog('[Webhook] Purchase conversion:', conversion)
+        }
+      } catch (conversionError) {
+        console.error('[Webhook] Purchase conversion error:', conversionError)
+      }
+
       // Send admin notification email
       // Note: EmailService.sendPaymentNotification already checks IS_TEST_MODE
       // which includes CI, development, and Vercel preview environments
@@ -506,6 +589,70 @@ export class WebhookService {
     }
   }
 
+  /**
+   * Sync languages bought through a post-purchase add-on invoice
+   * Safe to run twice: languages already on the submission are skipped
+   */
+  async handleLanguageAddOnInvoicePaid(
+    invoice: Stripe.Invoice,
+    supabase: SupabaseClient
+  ): Promise<WebhookHandlerResult> {
+    const submissionId = invoice.metadata?.submission_id
+    const languageCodes = (invoice.metadata?.language_codes || '').split(',').filter(Boolean)
+
+    if (!submissionId || languageCodes.length === 0) {
+      console.error('[Webhook] Language add-on invoice is missing metadata', invoice.id)
+      return { success: false, error: 'Language add-on metadata missing' }
+    }
+
+    const { data: submission, error: fetchError } = await supabase
+      .from('onboarding_submissions')
+      .select('id, email, business_name, form_data')
+      .eq('id', submissionId)
+      .maybeSingle()
+
+    if (fetchError || !submission) {
+      console.error(`Submission not found for language add-on invoice ${invoice.id}`)
+      return { success: false, error: 'Submission not found' }
+    }
+
+    const currentLanguages = getSubmissionLanguages(submission.form_data)
+    const newLanguages = languageCodes.filter(code => !currentLanguages.includes(code))
+
+    if (newLanguages.length === 0) {
+      debugLog('[Webhook] Language add-ons already synced for invoice', invoice.id)
+      return { success: true }
+    }
+
+    const { error: updateError } = await supabase
+      .from('onboarding_submissions')
+      .update({
+        form_data: applyLanguageChange(submission.form_data, newLanguages, []),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', submission.id)
+
+    if (updateError) {
+      throw new Error(`Failed to sync language add-ons: ${updateError.message}`)
+    }
+
+    try {
+      await EmailService.sendLanguageChangeNotification(
+        submission.id,
+        submission.business_name,
+        submission.email,
+        newLanguages,
+        [],
+        invoice.amount_paid,
+        invoice.currency.toUpperCase()
+      )
+    } catch (emailError) {
+      console.error('Failed to send language change notification email:', emailError)
+    }
+
+    return { success: true }
+  }
+
   /**
    * Handle payment_intent.succeeded event - For immediate payments
    */
@@ -1175,6 +1322,55 @@ export class WebhookService {
     try {
       const charge = event.data.object as Stripe.Charge
 
+      // Flag the submission once the charge is fully refunded (partial refunds are only logged)
+      if (charge.refunded) {
+        const paymentIntentId = typeof charge.payment_intent === 'string'
+          ? charge.payment_intent
+          : charge.payment_intent?.id ?? null
+        const customerId = typeof charge.customer === 'string'
+          ? charge.customer
+          : charge.customer?.id ?? null
+
+        let submission: { id: string; refunded_at: string | null } | null = null
+
+        if (paymentIntentId) {
+          const { data } = await supabase
+            .from('onboarding_submissions')
+            .select('id, refunded_at')
+            .eq('stripe_payment_id', paymentIntentId)
+            .maybeSingle()
+          submission = data
+        }
+
+        if (!submission && customerId) {
+          const { data } = await supabase
+            .from('onboarding_submissions')
+            .select('id, refunded_at')
+            .eq('stripe_customer_id', customerId)
+            .maybeSingle()
+          submission = data
+        }
+
+        if (submission && !submission.refunded_at) {
+          const latestRefund = charge.refunds?.data?.[0]
+          const { error: updateError } = await supabase
+            .from('onboarding_submissions')
+            .update({
+              refunded_at: latestRefund?.created
+                ? new Date(latestRefund.created * 1000).toISOString()
+                : new Date().toISOString(),
+              updated_at: new Date().toISOString()
+            })
+            .eq('id', submission.id)
+
+          if (updateError) {
+            throw new Error(`Failed to flag refunded submission: ${updateError.message}`)
+          }
+        } else if (!submission) {
+          console.warn(`[Webhook] No submission found for refunded charge ${charge.id}`)
+        }
+      }
+
       // Log analytics event
       await supabase.from('onboarding_analytics').insert({
         session_id: null,
@@ -1220,4 +1416,45 @@ export class WebhookService {
       return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
     }
   }
+
+  /**
+   * Handle invoice.payment_failed event - Recurring payment failed, start or continue dunning
+   */
+  async handleInvoicePaymentFailed(
+    event: Stripe.Event,
+    supabase: SupabaseClient
+  ): Promise<WebhookHandlerResult> {
+    try {
+      const invoice = await this.getInvoiceFromEvent(event)
+
+      if (!invoice) {
+        console.error('Invoice details not found for event', event.id)
+        return { success: false, error: 'Invoice not found' }
+      }
+
+      const result = await this.dunningService.recordPaymentFailure(invoice, supabase)
+
+      if (!result) {
+        debugLog(`[Webhook] Invoice ${invoice.id} failed outside of dunning (first payment or add-on)`)
+        return { success: true }
+      }
+
+      // Log analytics event
+      await supabase.from('onboarding_analytics').insert({
+        session_id: null,
+        event_type: 'payment_failed',
+        metadata: {
+          submission_id: result.submissionId,
+          invoice_id: invoice.id,
+          failure_count: result.failureCount,
+          started_dunning: result.startedDunning
+        }
+      })
+
+      return { success: true }
+    } catch (error) {
+      console.error('Error handling invoice.payment_failed:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  }
 }
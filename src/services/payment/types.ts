@@ -4,6 +4,7 @@
  */
 
 import Stripe from 'stripe'
+import type { ConversionContext } from '@/services/conversion-tracking'
 
 // =============================================================================
 // CHECKOUT SESSION TYPES
@@ -15,6 +16,8 @@ export interface CreateSessionParams {
   discountCode?: string
   successUrl?: string
   cancelUrl?: string
+  // Consent and GA client id for the server-side purchase conversion
+  conversion?: ConversionContext
 }
 
 export interface SubmissionValidationResult {
@@ -80,11 +83,204 @@ export interface WebhookHandlerResult {
 }
 
 // =============================================================================
-// RATE LIMITING TYPES
+// CUSTOMER PORTAL TYPES
 // =============================================================================
 
-export interface RateLimitResult {
-  allowed: boolean
-  attemptsRemaining?: number
-  resetAt?: Date
+export interface PortalScheduleState {
+  status: Stripe.SubscriptionSchedule.Status
+  currentPhaseEnd: number | null
+  commitmentEndsAt: number | null
+  endBehavior: Stripe.SubscriptionSchedule.EndBehavior
+}
+
+export interface PortalInvoice {
+  id: string
+  number: string | null
+  status: Stripe.Invoice.Status | null
+  total: number
+  currency: string
+  created: number
+  hostedInvoiceUrl: string | null
+  invoicePdf: string | null
+}
+
+export interface PortalSubmissionSummary {
+  id: string
+  businessName: string
+  status: string
+  createdAt: string
+  paymentCompletedAt: string | null
+  previewUrl: string | null
+  languages: Array<{ code: string; name: string }>
+  schedule: PortalScheduleState | null
+  hasBillingAccount: boolean
+  canChangeLanguages: boolean
+}
+
+export interface PortalOverview {
+  email: string
+  submissions: PortalSubmissionSummary[]
+  invoices: PortalInvoice[]
+}
+
+// =============================================================================
+// LANGUAGE ADD-ON TYPES
+// =============================================================================
+
+export interface LanguageChangeParams {
+  submissionId: string
+  add: string[]
+  remove: string[]
+}
+
+export interface LanguageChangePreview {
+  currentLanguages: string[]
+  resultingLanguages: string[]
+  added: string[]
+  removed: string[]
+  chargeAmount: number   // One-time charge for added languages (cents)
+  creditAmount: number   // Account credit for removed languages (cents)
+  currency: string
+  lineItems: Array<{
+    languageCode: string
+    amount: number       // Cents; negative for credits
+  }>
+}
+
+export interface LanguageChangeResult {
+  success: boolean
+  preview?: LanguageChangePreview
+  languages?: string[]
+  paymentRequired?: boolean
+  hostedInvoiceUrl?: string | null
+  invoiceId?: string | null
+  error?: {
+    code: string
+    message: string
+    status: number
+  }
+}
+
+// =============================================================================
+// WEBHOOK EVENT REPLAY TYPES
+// =============================================================================
+
+export type WebhookEventStatus = 'processing' | 'completed' | 'failed'
+
+export interface WebhookEventRecord {
+  id: string
+  event_id: string
+  event_type: string
+  status: WebhookEventStatus
+  processed_at: string
+  completed_at: string | null
+  error_message: string | null
+  retry_count: number
+  next_retry_at: string | null
+  last_retry_at: string | null
+  created_at: string
+}
+
+/**
+ * failed: every failed event; stuck: processing for longer than the stuck threshold;
+ * dead_letter: failed with automatic retries exhausted
+ */
+export type WebhookEventFilter = 'all' | 'failed' | 'stuck' | 'dead_letter'
+
+export interface WebhookReplayResult {
+  success: boolean
+  status?: WebhookEventStatus
+  nextRetryAt?: string | null
+  error?: {
+    code: string
+    message: string
+    status: number
+  }
+}
+
+export interface WebhookRetryRunResult {
+  dryRun: boolean
+  due: number
+  completed: number
+  failed: number
+  deadLettered: number
+  details: Array<{
+    eventId: string
+    eventType: string
+    outcome: 'completed' | 'failed' | 'dead_lettered' | 'would_retry' | 'skipped'
+    error?: string
+  }>
+}
+
+// =============================================================================
+// RECONCILIATION TYPES
+// =============================================================================
+
+/**
+ * paid_not_recorded: Stripe has a paid invoice, the submission has no payment
+ * refund_not_flagged: the charge is fully refunded, the submission has no refunded_at
+ * orphaned_customer: Stripe customer no submission points to
+ * subscription_without_submission: active subscription or schedule with no matching submission
+ */
+export type ReconciliationIssueType =
+  | 'paid_not_recorded'
+  | 'refund_not_flagged'
+  | 'orphaned_customer'
+  | 'subscription_without_submission'
+
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType
+  stripeId: string
+  submissionId: string | null
+  customerId: string | null
+  detail: string
+  repairable: boolean
+  repaired?: boolean
+  repairError?: string
+}
+
+export interface ReconciliationReport {
+  repair: boolean
+  since: string
+  checked: {
+    subscriptions: number
+    schedules: number
+    refunds: number
+    customers: number
+  }
+  issues: ReconciliationIssue[]
+  summary: Record<ReconciliationIssueType, number>
+  repaired: number
+  repairFailed: number
+}
+
+// =============================================================================
+// DUNNING TYPES
+// =============================================================================
+
+/**
+ * Customer reminders on day 0/3/7 of the dunning period, then an admin warning
+ * before Stripe cancels the subscription
+ */
+export type DunningNotice = 'day_0' | 'day_3' | 'day_7' | 'admin_cancellation_warning'
+
+export interface DunningFailureResult {
+  submissionId: string
+  failureCount: number
+  /** The failure opened a new dunning period (moved the submission to past_due) */
+  startedDunning: boolean
+}
+
+export interface DunningRunResult {
+  dryRun: boolean
+  candidates: number
+  sent: number
+  skipped: number
+  failed: number
+  details: Array<{
+    submissionId: string
+    notice: DunningNotice
+    outcome: 'sent' | 'would_send' | 'failed' | 'duplicate' | 'invoice_settled'
+    error?: string
+  }>
 }
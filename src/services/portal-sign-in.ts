@@ -0,0 +1,141 @@
+import { createHash, randomInt, timingSafeEqual } from 'crypto'
+import { SupabaseClient } from '@supabase/supabase-js'
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const PORTAL_CODE_TTL_MINUTES = 15
+const MAX_ATTEMPTS = 5
+const LOCK_MINUTES = 15
+
+export type PortalCodeResult =
+  | { success: true }
+  | { success: false; error: string }
+
+interface PortalCodeRow {
+  code_hash: string
+  expires_at: string
+  attempts: number
+  locked_until: string | null
+}
+
+/**
+ * Codes are stored hashed and bound to the email they were sent to
+ */
+export function hashPortalCode(email: string, code: string): string {
+  return createHash('sha256').update(`${email.toLowerCase().trim()}|${code.trim()}`).digest('hex')
+}
+
+/**
+ * Portal Sign-in Service (SERVER-SIDE ONLY)
+ * Emailed one-time codes for the customer portal. Kept apart from onboarding
+ * email verification: requesting a portal code must not replace a pending
+ * onboarding code, and the portal has no test-environment bypass code.
+ */
+export class PortalSignInService {
+  /**
+   * Issue a new code for an email, replacing any earlier one
+   * An active lock is kept, so requesting codes doesn't reset failed attempts.
+   */
+  async createCode(
+    supabase: SupabaseClient,
+    email: string,
+    { now = new Date() }: { now?: Date } = {}
+  ): Promise<string> {
+    const normalizedEmail = email.toLowerCase().trim()
+    const code = randomInt(100000, 1000000).toString()
+
+    const { error } = await supabase
+      .from('portal_sign_in_codes')
+      .upsert({
+        email: normalizedEmail,
+        code_hash: hashPortalCode(normalizedEmail, code),
+        expires_at: new Date(now.getTime() + PORTAL_CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+        attempts: 0,
+        created_at: now.toISOString()
+      }, { onConflict: 'email' })
+
+    if (error) {
+      throw new Error(`Failed to store portal sign-in code: ${error.message}`)
+    }
+
+    return code
+  }
+
+  /**
+   * Check a code; a correct code is used up, five wrong ones lock the email
+   */
+  async verifyCode(
+    supabase: SupabaseClient,
+    email: string,
+    code: string,
+    { now = new Date() }: { now?: Date } = {}
+  ): Promise<PortalCodeResult> {
+    const normalizedEmail = email.toLowerCase().trim()
+
+    const { data, error } = await supabase
+      .from('portal_sign_in_codes')
+      .select('code_hash, expires_at, attempts, locked_until')
+      .eq('email', normalizedEmail)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load portal sign-in code: ${error.message}`)
+    }
+
+    const row = data as PortalCodeRow | null
+    if (!row) {
+      return { success: false, error: 'Invalid verification code' }
+    }
+
+    if (row.locked_until && new Date(row.locked_until) > now) {
+      return { success: false, error: 'Too many failed attempts. Please try again later.' }
+    }
+
+    if (new Date(row.expires_at) <= now) {
+      return { success: false, error: 'This code has expired. Please request a new one.' }
+    }
+
+    const expected = Buffer.from(row.code_hash)
+    const received = Buffer.from(hashPortalCode(normalizedEmail, code))
+
+    if (expected.length === received.length && timingSafeEqual(expected, received)) {
+      const { error: deleteError } = await supabase
+        .from('portal_sign_in_codes')
+        .delete()
+        .eq('email', normalizedEmail)
+
+      if (deleteError) {
+        throw new Error(`Failed to use portal sign-in code: ${deleteError.message}`)
+      }
+
+      return { success: true }
+    }
+
+    const attempts = (row.attempts || 0) + 1
+    const locked = attempts >= MAX_ATTEMPTS
+
+    // Locking also expires the code; a new one has to be requested afterwards
+    const { error: updateError } = await supabase
+      .from('portal_sign_in_codes')
+      .update(locked
+        ? {
+            attempts: 0,
+            locked_until: new Date(now.getTime() + LOCK_MINUTES * 60 * 1000).toISOString(),
+            expires_at: now.toISOString()
+          }
+        : { attempts })
+      .eq('email', normalizedEmail)
+
+    if (updateError) {
+      throw new Error(`Failed to record portal sign-in attempt: ${updateError.message}`)
+    }
+
+    if (locked) {
+      return { success: false, error: `Too many failed attempts. Sign-in locked for ${LOCK_MINUTES} minutes.` }
+    }
+
+    return { success: false, error: `Invalid code. ${MAX_ATTEMPTS - attempts} attempts remaining.` }
+  }
+}
@@ -0,0 +1,222 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { createServiceClient } from '@/lib/supabase'
+import { Locale, locales } from '@/lib/i18n'
+import { EmailService } from '@/services/resend'
+import { OnboardingServerService } from '@/services/onboarding-server'
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://whiteboar.it'
+
+const getPreviewSecret = () => {
+  if (process.env.NODE_ENV === 'test') {
+    return 'test-preview-secret'
+  }
+
+  const secret = process.env.SESSION_SECRET
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('SESSION_SECRET environment variable is required in production')
+    }
+    // Development fallback
+    return 'development-preview-secret-change-in-production'
+  }
+  return secret
+}
+
+const signSubmissionId = (submissionId: string) =>
+  createHmac('sha256', getPreviewSecret())
+    .update(`preview|${submissionId}`)
+    .digest('base64url')
+
+// Link checkers and mail security gateways (some run scripts in a sandbox)
+const LINK_SCANNER_USER_AGENT = /bot|crawl|spider|preview|scan|safelinks|proofpoint|mimecast|barracuda|headless|python-requests|curl|wget/i
+
+/**
+ * Whether a request looks like an automated link check rather than the customer
+ */
+export function isLikelyLinkScanner(userAgent: string | null): boolean {
+  return !userAgent || LINK_SCANNER_USER_AGENT.test(userAgent)
+}
+
+export interface SendPreviewResult {
+  success: boolean
+  error?: string
+  trackingUrl?: string
+  statusChanged?: boolean
+}
+
+/**
+ * Preview delivery (SERVER-SIDE ONLY)
+ * Admin attaches a preview URL; the customer gets a signed tracking link
+ * that records the first view and forwards to the preview.
+ */
+export class PreviewDeliveryService {
+  /**
+   * Tracking token format: base64url(submissionId).signature
+   */
+  static createTrackingToken(submissionId: string): string {
+    return `${Buffer.from(submissionId).toString('base64url')}.${signSubmissionId(submissionId)}`
+  }
+
+  /**
+   * Returns the submission ID for a valid token, or null
+   */
+  static verifyTrackingToken(token: string): string | null {
+    const [encodedId, signature] = (token || '').split('.')
+    if (!encodedId || !signature) {
+      return null
+    }
+
+    const submissionId = Buffer.from(encodedId, 'base64url').toString('utf-8')
+    const expected = Buffer.from(signSubmissionId(submissionId))
+    const received = Buffer.from(signature)
+
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      return null
+    }
+
+    return submissionId
+  }
+
+  static getTrackingUrl(submissionId: string): string {
+    return `${APP_URL}/preview/${this.createTrackingToken(submissionId)}`
+  }
+
+  /**
+   * Only absolute http(s) URLs can be attached as previews
+   */
+  static isValidPreviewUrl(value: string): boolean {
+    try {
+      const url = new URL(value)
+      return url.protocol === 'https:' || (url.protocol === 'http:' && process.env.NODE_ENV !== 'production')
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Attach a preview URL to a submission and email the customer a tracked link.
+   * Moves `submitted` submissions to `preview_sent` automatically.
+   */
+  static async sendPreview(submissionId: string, previewUrl: string): Promise<SendPreviewResult> {
+    if (!this.isValidPreviewUrl(previewUrl)) {
+      return { success: false, error: 'Preview URL must be an absolute https URL' }
+    }
+
+    const submission: any = await OnboardingServerService.getSubmissionById(submissionId)
+    if (!submission) {
+      return { success: false, error: 'Submission not found' }
+    }
+
+    const sessionLocale = submission.onboarding_sessions?.locale
+    const locale: Locale = locales.includes(sessionLocale) ? sessionLocale : 'en'
+    const trackingUrl = this.getTrackingUrl(submissionId)
+
+    const sent = await EmailService.sendPreviewNotification(
+      submission.email,
+      submission.business_name,
+      trackingUrl,
+      locale
+    )
+
+    if (!sent) {
+      return { success: false, error: 'Failed to send preview email' }
+    }
+
+    const statusChanged = submission.status === 'submitted'
+    const updateData: Record<string, any> = {
+      preview_url: previewUrl,
+      preview_sent_at: new Date().toISOString()
+    }
+    if (statusChanged) {
+      updateData.status = 'preview_sent'
+    }
+
+    const serviceClient = createServiceClient()
+    const { error } = await serviceClient
+      .from('onboarding_submissions')
+      .update(updateData)
+      .eq('id', submissionId)
+
+    if (error) {
+      throw new Error(`Failed to record preview delivery: ${error.message}`)
+    }
+
+    if (submission.session_id) {
+      await OnboardingServerService.trackEvent(
+        submission.session_id,
+        'preview_sent',
+        { submission_id: submissionId, locale, status_changed: statusChanged },
+        undefined,
+        undefined,
+        'system_event'
+      )
+    }
+
+    return { success: true, trackingUrl, statusChanged }
+  }
+
+  /**
+   * Resolve a tracking token to the preview URL (does not count as a view)
+   */
+  static async resolvePreview(token: string): Promise<string | null> {
+    const submissionId = this.verifyTrackingToken(token)
+    if (!submissionId) {
+      return null
+    }
+
+    const serviceClient = createServiceClient()
+    const { data: submission, error } = await serviceClient
+      .from('onboarding_submissions')
+      .select('preview_url')
+      .eq('id', submissionId)
+      .single()
+
+    if (error || !submission?.preview_url) {
+      return null
+    }
+
+    return submission.preview_url
+  }
+
+  /**
+   * Stamp preview_viewed_at on the first view
+   * Called by the tracking page's script rather than the link itself, so mail
+   * scanners that prefetch the link don't count as the customer.
+   */
+  static async recordView(token: string, userAgent: string | null = null): Promise<boolean> {
+    const submissionId = this.verifyTrackingToken(token)
+    if (!submissionId || isLikelyLinkScanner(userAgent)) {
+      return false
+    }
+
+    const serviceClient = createServiceClient()
+    const { data: submission, error } = await serviceClient
+      .from('onboarding_submissions')
+      .select('id, session_id, preview_url, preview_viewed_at')
+      .eq('id', submissionId)
+      .single()
+
+    if (error || !submission?.preview_url || submission.preview_viewed_at) {
+      return false
+    }
+
+    await serviceClient
+      .from('onboarding_submissions')
+      .update({ preview_viewed_at: new Date().toISOString() })
+      .eq('id', submissionId)
+      .is('preview_viewed_at', null)
+
+    if (submission.session_id) {
+      await OnboardingServerService.trackEvent(
+        submission.session_id,
+        'preview_viewed',
+        { submission_id: submissionId },
+        undefined,
+        undefined,
+        'user_action'
+      )
+    }
+
+    return true
+  }
+}
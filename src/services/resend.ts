@@ -1,8 +1,10 @@
 import { Resend } from 'resend'
-import { OnboardingFormData, EmailVerificationResponse } from '@/types/onboarding'
+import { OnboardingFormData, EmailVerificationResponse, TOTAL_STEPS } from '@/types/onboarding'
 import { CustomSoftwareFormData } from '@/types/custom-software'
 import { ContactFormData } from '@/types/contact'
 import { Locale } from '@/lib/i18n'
+import { getLanguageName } from '@/data/european-languages'
+import { getSignedAssetUrl } from '@/lib/asset-signing'
 
 // =============================================================================
 // RESEND EMAIL SERVICE CONFIGURATION
@@ -318,7 +320,8 @@ export class EmailService {
     name: string,
     sessionId: string,
     currentStep: number,
-    locale: Locale = 'en'
+    locale: Locale = 'en',
+    unsubscribeUrl?: string
   ): Promise<boolean> {
     try {
       const subject = locale === 'it'
@@ -327,10 +330,12 @@ export class EmailService {
         ? 'Nie strać swojej kreacji WhiteBoar'
         : "Don't lose your WhiteBoar creation"
 
-      const recoveryUrl = `${APP_URL}/onboarding?sessionId=${sessionId}`
+      // Default locale has no URL prefix (localePrefix: 'as-needed')
+      const localePrefix = locale === 'en' ? '' : `/${locale}`
+      const recoveryUrl = `${APP_URL}${localePrefix}/onboarding?sessionId=${sessionId}`
 
-      const htmlContent = this.generateRecoveryEmailHTML(name, recoveryUrl, currentStep, locale)
-      const textContent = this.generateRecoveryEmailText(name, recoveryUrl, currentStep, locale)
+      const htmlContent = this.generateRecoveryEmailHTML(name, recoveryUrl, currentStep, locale, unsubscribeUrl)
+      const textContent = this.generateRecoveryEmailText(name, recoveryUrl, currentStep, locale, unsubscribeUrl)
 
       // Skip sending emails in test mode
       if (IS_TEST_MODE) {
@@ -349,6 +354,9 @@ export class EmailService {
         subject,
         html: htmlContent,
         text: textContent,
+        ...(unsubscribeUrl && {
+          headers: { 'List-Unsubscribe': `<${unsubscribeUrl}>` }
+        }),
         tags: [
           { name: 'category', value: 'abandonment_recovery' },
           { name: 'locale', value: locale },
@@ -369,6 +377,60 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send a single-use link that opens the onboarding session on another device
+   */
+  static async sendSessionHandoff(
+    email: string,
+    name: string,
+    handoffUrl: string,
+    expiresInMinutes: number,
+    locale: Locale = 'en'
+  ): Promise<boolean> {
+    try {
+      const subject = locale === 'it'
+        ? 'Continua la creazione su un altro dispositivo'
+        : locale === 'pl'
+        ? 'Kontynuuj tworzenie na innym urządzeniu'
+        : 'Continue on another device'
+
+      const htmlContent = this.generateHandoffEmailHTML(name, handoffUrl, expiresInMinutes, locale)
+      const textContent = this.generateHandoffEmailText(name, handoffUrl, expiresInMinutes, locale)
+
+      // Skip sending emails in test mode
+      if (IS_TEST_MODE) {
+        console.log('[TEST MODE] Skipping session handoff email:', {
+          to: email,
+          subject
+        })
+        return true
+      }
+
+      const { data, error } = await resend.emails.send({
+        from: `${FROM_NAME} <${FROM_EMAIL}>`,
+        to: [email],
+        subject,
+        html: htmlContent,
+        text: textContent,
+        tags: [
+          { name: 'category', value: 'session_handoff' },
+          { name: 'locale', value: locale }
+        ]
+      })
+
+      if (error) {
+        console.error('Failed to send session handoff:', error)
+        return false
+      }
+
+      console.log('Session handoff email sent:', data)
+      return true
+    } catch (error) {
+      console.error('Send session handoff error:', error)
+      return false
+    }
+  }
+
   // ===========================================================================
   // HTML EMAIL TEMPLATES
   // ===========================================================================
@@ -389,22 +451,25 @@ export class EmailService {
   /**
    * Generate common email footer with branding
    */
-  private static generateEmailFooter(locale: Locale = 'en'): string {
+  private static generateEmailFooter(locale: Locale = 'en', unsubscribeUrl?: string): string {
     const content = locale === 'it' ? {
       support: 'Hai bisogno di aiuto?',
       contactUs: 'Contattaci',
       copyright: '© 2025 WhiteBoar. Tutti i diritti riservati.',
-      unsubscribe: 'Non vuoi più ricevere queste email?'
+      unsubscribe: 'Non vuoi più ricevere queste email?',
+      unsubscribeLink: 'Annulla iscrizione'
     } : locale === 'pl' ? {
       support: 'Potrzebujesz pomocy?',
       contactUs: 'Skontaktuj sie z nami',
       copyright: '© 2025 WhiteBoar. Wszelkie prawa zastrzezone.',
-      unsubscribe: 'Nie chcesz otrzymywac tych emaili?'
+      unsubscribe: 'Nie chcesz otrzymywac tych emaili?',
+      unsubscribeLink: 'Wypisz sie'
     } : {
       support: 'Need help?',
       contactUs: 'Contact us',
       copyright: '© 2025 WhiteBoar. All rights reserved.',
-      unsubscribe: 'Don\'t want to receive these emails?'
+      unsubscribe: 'Don\'t want to receive these emails?',
+      unsubscribeLink: 'Unsubscribe'
     }
 
     return `
@@ -416,6 +481,11 @@ export class EmailService {
         <p style="margin: 0; color: #999; font-size: 12px;">
           ${content.copyright}
         </p>
+        ${unsubscribeUrl ? `
+        <p style="margin: 10px 0 0 0; color: #999; font-size: 12px;">
+          ${content.unsubscribe} <a href="${unsubscribeUrl}" style="color: #999;">${content.unsubscribeLink}</a>
+        </p>
+        ` : ''}
       </div>
     `
   }
@@ -579,6 +649,7 @@ export class EmailService {
     submissionId: string
   ): string {
     const adminUrl = `${APP_URL}/admin/submissions/${submissionId}`
+    const assetLinks = this.getAdminAssetLinks(formData)
 
     return `
       <!DOCTYPE html>
@@ -637,6 +708,13 @@ export class EmailService {
                 ${formData.businessDescription}
               </div>
 
+              ${assetLinks.length > 0 ? `
+              <p><strong>Uploaded Assets:</strong></p>
+              <ul>
+                ${assetLinks.map(asset => `<li>${asset.label}: <a href="${asset.url}">${asset.fileName}</a></li>`).join('')}
+              </ul>
+              ` : ''}
+
               <p><strong>Next Steps:</strong></p>
               <ol>
                 <li>Review the complete submission in the admin panel</li>
@@ -659,6 +737,25 @@ export class EmailService {
     `
   }
 
+  /**
+   * Signed links to the submission's uploads; they do not expire, unlike storage URLs
+   */
+  private static getAdminAssetLinks(
+    formData: OnboardingFormData
+  ): Array<{ label: string; fileName: string; url: string }> {
+    const files = [
+      ...(formData.logoUpload ? [{ label: 'Logo', file: formData.logoUpload }] : []),
+      ...(formData.businessPhotos || []).map(file => ({ label: 'Business photo', file })),
+      ...(formData.products || []).flatMap(product =>
+        (product.photos || []).map(file => ({ label: `Product: ${product.name}`, file }))
+      )
+    ]
+
+    return files
+      .map(({ label, file }) => ({ label, fileName: file.fileName, url: getSignedAssetUrl(file) }))
+      .filter(asset => asset.url)
+  }
+
   // ===========================================================================
   // TEXT EMAIL TEMPLATES (Fallback for HTML)
   // ===========================================================================
@@ -686,7 +783,12 @@ export class EmailService {
     formData: OnboardingFormData,
     submissionId: string
   ): string {
-    return `New Onboarding Submission\n\nBusiness: ${formData.businessName}\nEmail: ${formData.businessEmail}\nPhone: ${formData.businessPhone}\nIndustry: ${formData.industry}\nLocation: ${formData.businessCity || 'N/A'}, ${formData.businessProvince || 'N/A'}\n\nOffer: ${formData.businessDescription}\n\nView full submission: ${APP_URL}/admin/submissions/${submissionId}\n\nSubmission ID: ${submissionId}`
+    const assetLinks = this.getAdminAssetLinks(formData)
+    const assetsText = assetLinks.length > 0
+      ? `Uploaded assets:\n${assetLinks.map(asset => `- ${asset.label}: ${asset.fileName} ${asset.url}`).join('\n')}\n\n`
+      : ''
+
+    return `New Onboarding Submission\n\nBusiness: ${formData.businessName}\nEmail: ${formData.businessEmail}\nPhone: ${formData.businessPhone}\nIndustry: ${formData.industry}\nLocation: ${formData.businessCity || 'N/A'}, ${formData.businessProvince || 'N/A'}\n\nOffer: ${formData.businessDescription}\n\n${assetsText}View full submission: ${APP_URL}/admin/submissions/${submissionId}\n\nSubmission ID: ${submissionId}`
   }
 
   private static generatePreviewEmailHTML(
@@ -754,18 +856,25 @@ export class EmailService {
     name: string,
     recoveryUrl: string,
     currentStep: number,
-    locale: Locale
+    locale: Locale,
+    unsubscribeUrl?: string
   ): string {
     const content = locale === 'it' ? {
       title: 'Non perdere la tua creazione',
       message: `Ciao ${name}, hai iniziato a creare il tuo sito web WhiteBoar ma non hai completato il processo.`,
-      progress: `Sei arrivato al passo ${currentStep} di 12.`,
+      progress: `Sei arrivato al passo ${currentStep} di ${TOTAL_STEPS}.`,
       cta: 'Continua la Creazione',
       urgency: 'La tua sessione scadrà presto. Completa ora per non perdere i tuoi progressi.'
+    } : locale === 'pl' ? {
+      title: 'Nie strać swojej kreacji',
+      message: `Cześć ${name}, Twoja strona WhiteBoar czeka na dokończenie.`,
+      progress: `Zatrzymano się na kroku ${currentStep} z ${TOTAL_STEPS}.`,
+      cta: 'Kontynuuj tworzenie',
+      urgency: 'Twoja sesja wkrótce wygaśnie. Dokończ teraz, aby nie stracić postępów.'
     } : {
       title: 'Don\'t lose your creation',
       message: `Hello ${name}, you started creating your WhiteBoar website but haven\'t finished the process.`,
-      progress: `You made it to step ${currentStep} of 12.`,
+      progress: `You made it to step ${currentStep} of ${TOTAL_STEPS}.`,
       cta: 'Continue Creating',
       urgency: 'Your session will expire soon. Complete now to avoid losing your progress.'
     }
@@ -795,7 +904,7 @@ export class EmailService {
               </div>
               <p style="color: #dc2626;"><em>${content.urgency}</em></p>
             </div>
-            ${this.generateEmailFooter(locale)}
+            ${this.generateEmailFooter(locale, unsubscribeUrl)}
           </div>
         </body>
       </html>
@@ -806,11 +915,98 @@ export class EmailService {
     name: string,
     recoveryUrl: string,
     currentStep: number,
+    locale: Locale,
+    unsubscribeUrl?: string
+  ): string {
+    const body = locale === 'it'
+      ? `Ciao ${name},\n\nHai iniziato a creare il tuo sito WhiteBoar ma non hai completato il processo. Sei arrivato al passo ${currentStep} di ${TOTAL_STEPS}.\n\nContinua qui: ${recoveryUrl}\n\nLa tua sessione scadrà presto - completa ora per non perdere i progressi!`
+      : locale === 'pl'
+      ? `Cześć ${name},\n\nTwoja strona WhiteBoar czeka na dokończenie. Zatrzymano się na kroku ${currentStep} z ${TOTAL_STEPS}.\n\nKontynuuj tutaj: ${recoveryUrl}\n\nTwoja sesja wkrótce wygaśnie - dokończ teraz, aby nie stracić postępów!`
+      : `Hello ${name},\n\nYou started creating your WhiteBoar website but haven't finished. You made it to step ${currentStep} of ${TOTAL_STEPS}.\n\nContinue here: ${recoveryUrl}\n\nYour session will expire soon - complete now to avoid losing progress!`
+
+    if (!unsubscribeUrl) {
+      return body
+    }
+
+    const unsubscribe = locale === 'it'
+      ? 'Annulla iscrizione'
+      : locale === 'pl'
+      ? 'Wypisz się'
+      : 'Unsubscribe'
+
+    return `${body}\n\n${unsubscribe}: ${unsubscribeUrl}`
+  }
+
+
+  private static generateHandoffEmailHTML(
+    name: string,
+    handoffUrl: string,
+    expiresInMinutes: number,
+    locale: Locale
+  ): string {
+    const content = locale === 'it' ? {
+      title: 'Continua su un altro dispositivo',
+      message: `Ciao ${name}, apri questo link sul dispositivo con cui vuoi continuare, ad esempio il telefono per caricare le foto.`,
+      cta: 'Continua la Creazione',
+      expiry: `Il link funziona una sola volta e scade tra ${expiresInMinutes} minuti.`,
+      ignore: 'Se non hai richiesto questo link, ignora questa email.'
+    } : locale === 'pl' ? {
+      title: 'Kontynuuj na innym urządzeniu',
+      message: `Cześć ${name}, otwórz ten link na urządzeniu, na którym chcesz kontynuować, na przykład na telefonie, aby przesłać zdjęcia.`,
+      cta: 'Kontynuuj tworzenie',
+      expiry: `Link działa tylko raz i wygasa za ${expiresInMinutes} minut.`,
+      ignore: 'Jeśli nie prosiłeś o ten link, zignoruj tę wiadomość.'
+    } : {
+      title: 'Continue on another device',
+      message: `Hello ${name}, open this link on the device you want to continue on, for example your phone to upload photos.`,
+      cta: 'Continue Creating',
+      expiry: `The link works once and expires in ${expiresInMinutes} minutes.`,
+      ignore: 'If you did not request this link, you can ignore this email.'
+    }
+
+    return `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${content.title}</title>
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 20px; background-color: #f4f4f4; }
+            .container { max-width: 600px; margin: 0 auto; background: white; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
+            .content { padding: 40px; }
+            .button { display: inline-block; background: #f59e0b; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-size: 18px; font-weight: bold; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            ${this.generateEmailHeader(locale)}
+            <div class="content">
+              <p>${content.message}</p>
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${handoffUrl}" class="button">${content.cta}</a>
+              </div>
+              <p><strong>${content.expiry}</strong></p>
+              <p style="color: #666; font-size: 14px;">${content.ignore}</p>
+            </div>
+            ${this.generateEmailFooter(locale)}
+          </div>
+        </body>
+      </html>
+    `
+  }
+
+  private static generateHandoffEmailText(
+    name: string,
+    handoffUrl: string,
+    expiresInMinutes: number,
     locale: Locale
   ): string {
     return locale === 'it'
-      ? `Ciao ${name},\n\nHai iniziato a creare il tuo sito WhiteBoar ma non hai completato il processo. Sei arrivato al passo ${currentStep} di 12.\n\nContinua qui: ${recoveryUrl}\n\nLa tua sessione scadrà presto - completa ora per non perdere i progressi!`
-      : `Hello ${name},\n\nYou started creating your WhiteBoar website but haven't finished. You made it to step ${currentStep} of 12.\n\nContinue here: ${recoveryUrl}\n\nYour session will expire soon - complete now to avoid losing progress!`
+      ? `Ciao ${name},\n\nApri questo link sul dispositivo con cui vuoi continuare: ${handoffUrl}\n\nIl link funziona una sola volta e scade tra ${expiresInMinutes} minuti. Se non hai richiesto questo link, ignora questa email.`
+      : locale === 'pl'
+      ? `Cześć ${name},\n\nOtwórz ten link na urządzeniu, na którym chcesz kontynuować: ${handoffUrl}\n\nLink działa tylko raz i wygasa za ${expiresInMinutes} minut. Jeśli nie prosiłeś o ten link, zignoruj tę wiadomość.`
+      : `Hello ${name},\n\nOpen this link on the device you want to continue on: ${handoffUrl}\n\nThe link works once and expires in ${expiresInMinutes} minutes. If you did not request this link, you can ignore this email.`
   }
 
   // ===========================================================================
@@ -1084,6 +1280,248 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send language add-on change notification to admin
+   */
+  static async sendLanguageChangeNotification(
+    submissionId: string,
+    businessName: string,
+    email: string,
+    addedLanguages: string[],
+    removedLanguages: string[],
+    amount: number,
+    currency: string
+  ): Promise<boolean> {
+    try {
+      const subject = `🌍 Languages Changed: ${businessName}`
+
+      const htmlContent = this.generateLanguageChangeNotificationHTML(
+        submissionId,
+        businessName,
+        email,
+        addedLanguages,
+        removedLanguages,
+        amount,
+        currency
+      )
+
+      const textContent = this.generateLanguageChangeNotificationText(
+        submissionId,
+        businessName,
+        email,
+        addedLanguages,
+        removedLanguages,
+        amount,
+        currency
+      )
+
+      // Skip sending emails in test mode
+      if (IS_TEST_MODE) {
+        console.log('[TEST MODE] Skipping language change notification email:', {
+          to: ADMIN_EMAIL,
+          subject,
+          submissionId,
+          addedLanguages,
+          removedLanguages
+        })
+        return true
+      }
+
+      const { data, error } = await resend.emails.send({
+        from: `${FROM_NAME} <${FROM_EMAIL}>`,
+        to: [ADMIN_EMAIL],
+        subject,
+        html: htmlContent,
+        text: textContent,
+        tags: [
+          { name: 'category', value: 'language_change_notification' },
+          { name: 'business_name', value: sanitizeTagValue(businessName) }
+        ]
+      })
+
+      if (error) {
+        console.error('Failed to send language change notification:', error)
+        return false
+      }
+
+      console.log('Language change notification sent:', data)
+      return true
+    } catch (error) {
+      console.error('Send language change notification error:', error)
+      return false
+    }
+  }
+
+  /**
+   * Alert the admin about Stripe webhook events that exhausted their automatic retries
+   */
+  static async sendWebhookDeadLetterNotification(
+    events: Array<{ eventId: string; eventType: string; retryCount: number; error: string }>
+  ): Promise<boolean> {
+    try {
+      const subject = `⚠️ ${events.length} Stripe webhook event${events.length === 1 ? '' : 's'} need attention`
+
+      const htmlContent = this.generateWebhookDeadLetterHTML(events)
+      const textContent = this.generateWebhookDeadLetterText(events)
+
+      // Skip sending emails in test mode
+      if (IS_TEST_MODE) {
+        console.log('[TEST MODE] Skipping webhook dead-letter notification email:', {
+          to: ADMIN_EMAIL,
+          subject,
+          eventIds: events.map(event => event.eventId)
+        })
+        return true
+      }
+
+      const { data, error } = await resend.emails.send({
+        from: `${FROM_NAME} <${FROM_EMAIL}>`,
+        to: [ADMIN_EMAIL],
+        subject,
+        html: htmlContent,
+        text: textContent,
+        tags: [
+          { name: 'category', value: 'webhook_dead_letter' }
+        ]
+      })
+
+      if (error) {
+        console.error('Failed to send webhook dead-letter notification:', error)
+        return false
+      }
+
+      console.log('Webhook dead-letter notification sent:', data)
+      return true
+    } catch (error) {
+      console.error('Send webhook dead-letter notification error:', error)
+      return false
+    }
+  }
+
+  /**
+   * Remind a customer that a recurring payment failed (dunning day 0/3/7)
+   * The tone escalates with the reminder day; every email links to the card update flow.
+   */
+  static async sendPaymentFailedReminder(
+    email: string,
+    businessName: string,
+    reminderDay: number,
+    amountDue: number,
+    currency: string,
+    cardUpdateUrl: string,
+    locale: Locale = 'en'
+  ): Promise<boolean> {
+    try {
+      const stage = reminderDay >= 7 ? 'final' : reminderDay >= 3 ? 'reminder' : 'failed'
+      const subjects = locale === 'it' ? {
+        failed: 'Il tuo pagamento WhiteBoar non è andato a buon fine',
+        reminder: 'Promemoria: aggiorna il tuo metodo di pagamento',
+        final: 'Ultimo avviso: il tuo sito WhiteBoar è a rischio'
+      } : locale === 'pl' ? {
+        failed: 'Twoja płatność dla WhiteBoar nie powiodła się',
+        reminder: 'Przypomnienie: zaktualizuj metodę płatności',
+        final: 'Ostatnie przypomnienie: Twoja strona WhiteBoar jest zagrożona'
+      } : {
+        failed: 'Your WhiteBoar payment didn\'t go through',
+        reminder: 'Reminder: please update your payment method',
+        final: 'Final notice: your WhiteBoar website is at risk'
+      }
+      const subject = subjects[stage]
+
+      const htmlContent = this.generatePaymentFailedReminderHTML(businessName, stage, amountDue, currency, cardUpdateUrl, locale)
+      const textContent = this.generatePaymentFailedReminderText(businessName, stage, amountDue, currency, cardUpdateUrl, locale)
+
+      // Skip sending emails in test mode
+      if (IS_TEST_MODE) {
+        console.log('[TEST MODE] Skipping payment failed reminder email:', {
+          to: email,
+          subject,
+          reminderDay
+        })
+        return true
+      }
+
+      const { data, error } = await resend.emails.send({
+        from: `${FROM_NAME} <${FROM_EMAIL}>`,
+        to: [email],
+        subject,
+        html: htmlContent,
+        text: textContent,
+        tags: [
+          { name: 'category', value: 'payment_dunning' },
+          { name: 'locale', value: locale },
+          { name: 'reminder_day', value: reminderDay.toString() }
+        ]
+      })
+
+      if (error) {
+        console.error('Failed to send payment failed reminder:', error)
+        return false
+      }
+
+      console.log('Payment failed reminder sent:', data)
+      return true
+    } catch (error) {
+      console.error('Send payment failed reminder error:', error)
+      return false
+    }
+  }
+
+  /**
+   * Warn the admin that an unpaid subscription is about to be cancelled, ending
+   * the 12-month schedule early
+   */
+  static async sendDunningCancellationWarning(details: {
+    submissionId: string
+    businessName: string
+    email: string
+    scheduleId: string | null
+    invoiceId: string
+    failureCount: number
+    dunningStartedAt: string
+    expectedCancellationAt: string
+  }): Promise<boolean> {
+    try {
+      const subject = `⚠️ Subscription at risk: ${details.businessName} - payment overdue`
+
+      const htmlContent = this.generateDunningCancellationWarningHTML(details)
+      const textContent = this.generateDunningCancellationWarningText(details)
+
+      // Skip sending emails in test mode
+      if (IS_TEST_MODE) {
+        console.log('[TEST MODE] Skipping dunning cancellation warning email:', {
+          to: ADMIN_EMAIL,
+          subject,
+          submissionId: details.submissionId
+        })
+        return true
+      }
+
+      const { data, error } = await resend.emails.send({
+        from: `${FROM_NAME} <${FROM_EMAIL}>`,
+        to: [ADMIN_EMAIL],
+        subject,
+        html: htmlContent,
+        text: textContent,
+        tags: [
+          { name: 'category', value: 'dunning_cancellation_warning' },
+          { name: 'submission_id', value: details.submissionId }
+        ]
+      })
+
+      if (error) {
+        console.error('Failed to send dunning cancellation warning:', error)
+        return false
+      }
+
+      console.log('Dunning cancellation warning sent:', data)
+      return true
+    } catch (error) {
+      console.error('Send dunning cancellation warning error:', error)
+      return false
+    }
+  }
+
   /**
    * Send custom software inquiry notification to admin
    */
@@ -2237,6 +2675,381 @@ WhiteBoar Admin Panel
 Cancellation processed at ${new Date().toLocaleString('en-US')}
     `.trim()
   }
+  private static generateLanguageChangeNotificationHTML(
+    submissionId: string,
+    businessName: string,
+    email: string,
+    addedLanguages: string[],
+    removedLanguages: string[],
+    amount: number,
+    currency: string
+  ): string {
+    const adminUrl = `${APP_URL}/admin/submissions/${submissionId}`
+    const formatLanguages = (codes: string[]) =>
+      codes.length > 0 ? codes.map(code => getLanguageName(code, 'en')).join(', ') : '—'
+
+    return `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Languages Changed</title>
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 20px; background-color: #f4f4f4; }
+            .container { max-width: 700px; margin: 0 auto; background: white; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
+            .content { padding: 30px; }
+            .info-grid { display: grid; grid-template-columns: 1fr 1fr; gap: 20px; margin: 20px 0; }
+            .info-item { background: #f8f9fa; padding: 15px; border-radius: 4px; }
+            .info-label { font-weight: bold; color: #374151; font-size: 12px; text-transform: uppercase; margin-bottom: 5px; }
+            .info-value { color: #1f2937; font-size: 16px; }
+            .button { display: inline-block; background: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; margin: 10px 5px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            ${this.generateEmailHeader('en')}
+            <div style="background: linear-gradient(135deg, #3b82f6 0%, #2563eb 100%); color: white; padding: 30px; text-align: center;">
+              <h1 style="margin: 0; font-size: 24px;">🌍 Languages Changed</h1>
+              <p style="margin: 10px 0 0; opacity: 0.9;">A customer updated their language add-ons</p>
+            </div>
+            <div class="content">
+              <div class="info-grid">
+                <div class="info-item">
+                  <div class="info-label">Business Name</div>
+                  <div class="info-value">${businessName}</div>
+                </div>
+                <div class="info-item">
+                  <div class="info-label">Email</div>
+                  <div class="info-value"><a href="mailto:${email}">${email}</a></div>
+                </div>
+                <div class="info-item">
+                  <div class="info-label">Added</div>
+                  <div class="info-value">${formatLanguages(addedLanguages)}</div>
+                </div>
+                <div class="info-item">
+                  <div class="info-label">Removed</div>
+                  <div class="info-value">${formatLanguages(removedLanguages)}</div>
+                </div>
+                <div class="info-item">
+                  <div class="info-label">Amount</div>
+                  <div class="info-value">${currency} ${(amount / 100).toFixed(2)}</div>
+                </div>
+              </div>
+
+              <p style="text-align: center; margin-top: 30px;">
+                <a href="${adminUrl}" class="button">View Submission</a>
+              </p>
+            </div>
+            ${this.generateEmailFooter('en')}
+          </div>
+        </body>
+      </html>
+    `
+  }
+
+  private static generateLanguageChangeNotificationText(
+    submissionId: string,
+    businessName: string,
+    email: string,
+    addedLanguages: string[],
+    removedLanguages: string[],
+    amount: number,
+    currency: string
+  ): string {
+    const adminUrl = `${APP_URL}/admin/submissions/${submissionId}`
+    const formatLanguages = (codes: string[]) =>
+      codes.length > 0 ? codes.map(code => getLanguageName(code, 'en')).join(', ') : '—'
+
+    return `
+🌍 LANGUAGES CHANGED
+${'='.repeat(50)}
+
+Business Name: ${businessName}
+Email: ${email}
+Added: ${formatLanguages(addedLanguages)}
+Removed: ${formatLanguages(removedLanguages)}
+Amount: ${currency} ${(amount / 100).toFixed(2)}
+
+View Submission: ${adminUrl}
+    `.trim()
+  }
+
+  private static generateWebhookDeadLetterHTML(
+    events: Array<{ eventId: string; eventType: string; retryCount: number; error: string }>
+  ): string {
+    const adminUrl = `${APP_URL}/admin/webhooks`
+    const rows = events.map(event => `
+                  <tr>
+                    <td style="padding: 8px; border-top: 1px solid #e5e7eb; font-family: monospace;">${event.eventId}</td>
+                    <td style="padding: 8px; border-top: 1px solid #e5e7eb;">${event.eventType}</td>
+                    <td style="padding: 8px; border-top: 1px solid #e5e7eb;">${event.retryCount}</td>
+                    <td style="padding: 8px; border-top: 1px solid #e5e7eb; color: #b91c1c;">${event.error}</td>
+                  </tr>`).join('')
+
+    return `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Webhook Events Need Attention</title>
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 20px; background-color: #f4f4f4; }
+            .container { max-width: 700px; margin: 0 auto; background: white; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
+            .content { padding: 30px; }
+            .button { display: inline-block; background: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; margin: 10px 5px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            ${this.generateEmailHeader('en')}
+            <div style="background: linear-gradient(135deg, #f59e0b 0%, #d97706 100%); color: white; padding: 30px; text-align: center;">
+              <h1 style="margin: 0; font-size: 24px;">⚠️ Webhook Events Need Attention</h1>
+              <p style="margin: 10px 0 0; opacity: 0.9;">Automatic retries are exhausted - replay these events manually once the cause is fixed</p>
+            </div>
+            <div class="content">
+              <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+                <thead>
+                  <tr style="text-align: left; color: #374151;">
+                    <th style="padding: 8px;">Event</th>
+                    <th style="padding: 8px;">Type</th>
+                    <th style="padding: 8px;">Retries</th>
+                    <th style="padding: 8px;">Last Error</th>
+                  </tr>
+                </thead>
+                <tbody>${rows}
+                </tbody>
+              </table>
+
+              <p style="text-align: center; margin-top: 30px;">
+                <a href="${adminUrl}" class="button">Open Webhook Events</a>
+              </p>
+            </div>
+            ${this.generateEmailFooter('en')}
+          </div>
+        </body>
+      </html>
+    `
+  }
+
+  private static generateWebhookDeadLetterText(
+    events: Array<{ eventId: string; eventType: string; retryCount: number; error: string }>
+  ): string {
+    const adminUrl = `${APP_URL}/admin/webhooks`
+
+    return `
+⚠️ WEBHOOK EVENTS NEED ATTENTION
+${'='.repeat(50)}
+
+Automatic retries are exhausted - replay these events manually once the cause is fixed.
+
+${events.map(event => `${event.eventId} (${event.eventType}) - ${event.retryCount} retries - ${event.error}`).join('\n')}
+
+Open Webhook Events: ${adminUrl}
+    `.trim()
+  }
+
+  private static generatePaymentFailedReminderHTML(
+    businessName: string,
+    stage: 'failed' | 'reminder' | 'final',
+    amountDue: number,
+    currency: string,
+    cardUpdateUrl: string,
+    locale: Locale
+  ): string {
+    const amount = `${currency} ${(amountDue / 100).toFixed(2)}`
+    const content = locale === 'it' ? {
+      title: stage === 'final' ? 'Ultimo avviso di pagamento' : 'Pagamento non riuscito',
+      greeting: `Ciao ${businessName},`,
+      message: stage === 'failed'
+        ? `non siamo riusciti ad addebitare il tuo abbonamento mensile WhiteBoar (${amount}). Succede spesso quando una carta scade o viene sostituita.`
+        : `il pagamento del tuo abbonamento WhiteBoar (${amount}) è ancora in sospeso.`,
+      action: 'Aggiorna la tua carta per mantenere il tuo sito online. Riproveremo automaticamente l\'addebito.',
+      warning: stage === 'final'
+        ? 'Se il pagamento non va a buon fine nei prossimi giorni, il tuo abbonamento verrà annullato e il sito potrebbe andare offline.'
+        : '',
+      cta: 'Aggiorna metodo di pagamento'
+    } : locale === 'pl' ? {
+      title: stage === 'final' ? 'Ostatnie przypomnienie o płatności' : 'Płatność nie powiodła się',
+      greeting: `Cześć ${businessName},`,
+      message: stage === 'failed'
+        ? `nie udało nam się pobrać miesięcznej opłaty za subskrypcję WhiteBoar (${amount}). Zwykle dzieje się tak, gdy karta wygasła lub została wymieniona.`
+        : `płatność za Twoją subskrypcję WhiteBoar (${amount}) jest nadal zaległa.`,
+      action: 'Zaktualizuj kartę, aby Twoja strona pozostała online. Ponowimy płatność automatycznie.',
+      warning: stage === 'final'
+        ? 'Jeśli płatność nie powiedzie się w ciągu kilku najbliższych dni, subskrypcja zostanie anulowana, a strona może zostać wyłączona.'
+        : '',
+      cta: 'Zaktualizuj metodę płatności'
+    } : {
+      title: stage === 'final' ? 'Final payment notice' : 'Payment failed',
+      greeting: `Hello ${businessName},`,
+      message: stage === 'failed'
+        ? `we couldn't collect your monthly WhiteBoar subscription payment (${amount}). This usually happens when a card expires or is replaced.`
+        : `the payment for your WhiteBoar subscription (${amount}) is still outstanding.`,
+      action: 'Update your card to keep your website online. We will retry the payment automatically.',
+      warning: stage === 'final'
+        ? 'If the payment does not go through in the next few days, your subscription will be cancelled and your website may go offline.'
+        : '',
+      cta: 'Update payment method'
+    }
+
+    return `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${content.title}</title>
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 20px; background-color: #f4f4f4; }
+            .container { max-width: 600px; margin: 0 auto; background: white; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
+            .content { padding: 40px; }
+            .button { display: inline-block; background: #f59e0b; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-size: 18px; font-weight: bold; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            ${this.generateEmailHeader(locale)}
+            <div class="content">
+              <h1 style="font-size: 22px; margin-top: 0;">${content.title}</h1>
+              <p>${content.greeting}</p>
+              <p>${content.message}</p>
+              <p>${content.action}</p>
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${cardUpdateUrl}" class="button">${content.cta}</a>
+              </div>
+              ${content.warning ? `<p style="color: #dc2626;"><em>${content.warning}</em></p>` : ''}
+            </div>
+            ${this.generateEmailFooter(locale)}
+          </div>
+        </body>
+      </html>
+    `
+  }
+
+  private static generatePaymentFailedReminderText(
+    businessName: string,
+    stage: 'failed' | 'reminder' | 'final',
+    amountDue: number,
+    currency: string,
+    cardUpdateUrl: string,
+    locale: Locale
+  ): string {
+    const amount = `${currency} ${(amountDue / 100).toFixed(2)}`
+
+    if (locale === 'it') {
+      const intro = stage === 'failed'
+        ? `non siamo riusciti ad addebitare il tuo abbonamento mensile WhiteBoar (${amount}).`
+        : `il pagamento del tuo abbonamento WhiteBoar (${amount}) è ancora in sospeso.`
+      const warning = stage === 'final' ? '\n\nSe il pagamento non va a buon fine nei prossimi giorni, il tuo abbonamento verrà annullato.' : ''
+      return `Ciao ${businessName},\n\n${intro}\n\nAggiorna la tua carta qui: ${cardUpdateUrl}${warning}`
+    }
+
+    if (locale === 'pl') {
+      const intro = stage === 'failed'
+        ? `nie udało nam się pobrać miesięcznej opłaty za subskrypcję WhiteBoar (${amount}).`
+        : `płatność za Twoją subskrypcję WhiteBoar (${amount}) jest nadal zaległa.`
+      const warning = stage === 'final' ? '\n\nJeśli płatność nie powiedzie się w ciągu kilku najbliższych dni, subskrypcja zostanie anulowana.' : ''
+      return `Cześć ${businessName},\n\n${intro}\n\nZaktualizuj kartę tutaj: ${cardUpdateUrl}${warning}`
+    }
+
+    const intro = stage === 'failed'
+      ? `we couldn't collect your monthly WhiteBoar subscription payment (${amount}).`
+      : `the payment for your WhiteBoar subscription (${amount}) is still outstanding.`
+    const warning = stage === 'final' ? '\n\nIf the payment does not go through in the next few days, your subscription will be cancelled.' : ''
+    return `Hello ${businessName},\n\n${intro}\n\nUpdate your card here: ${cardUpdateUrl}${warning}`
+  }
+
+  private static generateDunningCancellationWarningHTML(details: {
+    submissionId: string
+    businessName: string
+    email: string
+    scheduleId: string | null
+    invoiceId: string
+    failureCount: number
+    dunningStartedAt: string
+    expectedCancellationAt: string
+  }): string {
+    const adminUrl = `${APP_URL}/admin/submissions/${details.submissionId}`
+    const stripeUrl = `https://dashboard.stripe.com/invoices/${details.invoiceId}`
+
+    return `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Subscription At Risk</title>
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 20px; background-color: #f4f4f4; }
+            .container { max-width: 700px; margin: 0 auto; background: white; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
+            .content { padding: 30px; }
+            .button { display: inline-block; background: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; margin: 10px 5px; }
+            .button-stripe { background: #635bff; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            ${this.generateEmailHeader('en')}
+            <div style="background: linear-gradient(135deg, #f59e0b 0%, #d97706 100%); color: white; padding: 30px; text-align: center;">
+              <h1 style="margin: 0; font-size: 24px;">⚠️ Subscription At Risk</h1>
+              <p style="margin: 10px 0 0; opacity: 0.9;">Stripe will cancel this subscription around ${new Date(details.expectedCancellationAt).toUTCString()} unless the payment is recovered</p>
+            </div>
+            <div class="content">
+              <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+                <tr><td style="padding: 8px; font-weight: bold;">Business</td><td style="padding: 8px;">${details.businessName}</td></tr>
+                <tr><td style="padding: 8px; font-weight: bold;">Email</td><td style="padding: 8px;"><a href="mailto:${details.email}">${details.email}</a></td></tr>
+                <tr><td style="padding: 8px; font-weight: bold;">Consecutive failed invoices</td><td style="padding: 8px;">${details.failureCount}</td></tr>
+                <tr><td style="padding: 8px; font-weight: bold;">Overdue since</td><td style="padding: 8px;">${new Date(details.dunningStartedAt).toUTCString()}</td></tr>
+                <tr><td style="padding: 8px; font-weight: bold;">Subscription schedule</td><td style="padding: 8px; font-family: monospace;">${details.scheduleId || 'n/a'}</td></tr>
+                <tr><td style="padding: 8px; font-weight: bold;">Submission ID</td><td style="padding: 8px; font-family: monospace;">${details.submissionId}</td></tr>
+              </table>
+
+              <p>The customer has been sent payment reminders with a card update link. Cancelling ends the 12-month commitment early - reach out or pause collection in Stripe if the customer should be kept.</p>
+
+              <p style="text-align: center; margin-top: 30px;">
+                <a href="${adminUrl}" class="button">View Submission</a>
+                <a href="${stripeUrl}" class="button button-stripe">Open Invoice in Stripe</a>
+              </p>
+            </div>
+            ${this.generateEmailFooter('en')}
+          </div>
+        </body>
+      </html>
+    `
+  }
+
+  private static generateDunningCancellationWarningText(details: {
+    submissionId: string
+    businessName: string
+    email: string
+    scheduleId: string | null
+    invoiceId: string
+    failureCount: number
+    dunningStartedAt: string
+    expectedCancellationAt: string
+  }): string {
+    const adminUrl = `${APP_URL}/admin/submissions/${details.submissionId}`
+    const stripeUrl = `https://dashboard.stripe.com/invoices/${details.invoiceId}`
+
+    return `
+⚠️ SUBSCRIPTION AT RISK
+${'='.repeat(50)}
+
+Stripe will cancel this subscription around ${new Date(details.expectedCancellationAt).toUTCString()} unless the payment is recovered. Cancelling ends the 12-month commitment early.
+
+Business: ${details.businessName}
+Email: ${details.email}
+Consecutive failed invoices: ${details.failureCount}
+Overdue since: ${new Date(details.dunningStartedAt).toUTCString()}
+Subscription schedule: ${details.scheduleId || 'n/a'}
+Submission ID: ${details.submissionId}
+
+View Submission: ${adminUrl}
+Open Invoice in Stripe: ${stripeUrl}
+    `.trim()
+  }
 }
 
 // =============================================================================
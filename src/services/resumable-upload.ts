@@ -0,0 +1,446 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { RESUMABLE_UPLOAD_TTL_MS } from '@/lib/resumable-upload'
+import { StoredImageUpload, storeImageUpload, validateUploadRequest } from '@/services/image-upload'
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const CHUNK_BUCKET = 'upload-chunks'
+// Small enough to finish on a weak mobile connection, well under the request body limit
+export const RESUMABLE_CHUNK_SIZE = 1024 * 1024
+// Assembly runs inside a single request; a claim older than this died with the function
+const PROCESSING_TIMEOUT_MS = 2 * 60 * 1000
+const PURGE_BATCH_SIZE = 500
+
+export type ResumableUploadStatus = 'uploading' | 'processing' | 'completed' | 'failed'
+
+interface UploadSessionRow {
+  id: string
+  session_id: string
+  upload_type: string
+  file_name: string
+  mime_type: string
+  file_size: number
+  chunk_size: number
+  received_bytes: number
+  status: ResumableUploadStatus
+  result: StoredImageUpload | null
+  error_message: string | null
+  expires_at: string
+  updated_at: string
+}
+
+/**
+ * What the client needs to continue an upload
+ */
+export interface ResumableUploadState {
+  uploadId: string
+  offset: number
+  fileSize: number
+  chunkSize: number
+  status: ResumableUploadStatus
+  expiresAt: string
+  /** The stored upload, once all chunks were assembled */
+  data?: StoredImageUpload
+  error?: string
+}
+
+export type ResumableUploadResult =
+  | { success: true; upload: ResumableUploadState }
+  | { success: false; error: string; status: number; upload?: ResumableUploadState }
+
+export interface ResumableUploadPurgeResult {
+  dryRun: boolean
+  expired: number
+  chunksRemoved: number
+  errors: string[]
+}
+
+/**
+ * Storage path of the chunk starting at `offset`
+ */
+export function getChunkPath(uploadId: string, offset: number): string {
+  return `${uploadId}/${offset}`
+}
+
+/**
+ * Paths of every chunk an upload can have; chunks are fixed-size except the last
+ */
+export function getChunkPaths(uploadId: string, fileSize: number, chunkSize: number): string[] {
+  const paths: string[] = []
+  for (let offset = 0; offset < fileSize; offset += chunkSize) {
+    paths.push(getChunkPath(uploadId, offset))
+  }
+  return paths
+}
+
+const toState = (row: UploadSessionRow): ResumableUploadState => ({
+  uploadId: row.id,
+  offset: row.received_bytes,
+  fileSize: row.file_size,
+  chunkSize: row.chunk_size,
+  status: row.status,
+  expiresAt: row.expires_at,
+  ...(row.result ? { data: row.result } : {}),
+  ...(row.error_message ? { error: row.error_message } : {})
+})
+
+const failure = (
+  error: string,
+  status: number,
+  row?: UploadSessionRow
+): ResumableUploadResult => ({
+  success: false,
+  error,
+  status,
+  ...(row ? { upload: toState(row) } : {})
+})
+
+/**
+ * Resumable Upload Service (SERVER-SIDE ONLY)
+ * Chunked uploads with offsets: each chunk must start where the stored bytes end,
+ * so a client that lost its connection asks for the offset and continues from
+ * there. The last chunk assembles the file and runs it through the same
+ * validation, processing and recordFileUpload step as a single-request upload.
+ */
+export class ResumableUploadService {
+  /**
+   * Start an upload after checking the declared size and type
+   */
+  async createUpload(
+    supabase: SupabaseClient,
+    {
+      sessionId,
+      type,
+      fileName,
+      fileSize,
+      mimeType
+    }: { sessionId: string; type: string; fileName: string; fileSize: number; mimeType: string },
+    now: Date = new Date()
+  ): Promise<ResumableUploadResult> {
+    const requestError = validateUploadRequest({ type, size: fileSize, mimeType })
+    if (requestError) {
+      return failure(requestError, 400)
+    }
+
+    const { data, error } = await supabase
+      .from('onboarding_upload_sessions')
+      .insert({
+        session_id: sessionId,
+        upload_type: type,
+        file_name: fileName.slice(0, 255),
+        mime_type: mimeType,
+        file_size: fileSize,
+        chunk_size: RESUMABLE_CHUNK_SIZE,
+        expires_at: new Date(now.getTime() + RESUMABLE_UPLOAD_TTL_MS).toISOString()
+      })
+      .select('*')
+      .single()
+
+    if (error) {
+      // Foreign key violation: the onboarding session does not exist
+      if (error.code === '23503') {
+        return failure('Session not found', 404)
+      }
+      throw new Error(`Failed to create upload: ${error.message}`)
+    }
+
+    return { success: true, upload: toState(data as UploadSessionRow) }
+  }
+
+  /**
+   * Current offset of a session's upload, or null once it is unknown or expired
+   */
+  async getUpload(
+    supabase: SupabaseClient,
+    uploadId: string,
+    sessionId: string,
+    now: Date = new Date()
+  ): Promise<ResumableUploadState | null> {
+    const row = await this.loadUpload(supabase, uploadId, sessionId, now)
+    return row ? toState(row) : null
+  }
+
+  /**
+   * Store the chunk starting at `offset`; the final chunk completes the upload
+   * A chunk for a completed upload returns the stored result, so a client that
+   * lost the final response can safely send it again.
+   */
+  async appendChunk(
+    supabase: SupabaseClient,
+    uploadId: string,
+    sessionId: string,
+    offset: number,
+    chunk: Buffer,
+    now: Date = new Date()
+  ): Promise<ResumableUploadResult> {
+    const row = await this.loadUpload(supabase, uploadId, sessionId, now)
+    if (!row) {
+      return failure('Upload not found or expired', 404)
+    }
+
+    if (row.status === 'completed') {
+      return { success: true, upload: toState(row) }
+    }
+
+    if (row.status === 'failed') {
+      return failure(row.error_message || 'Upload failed', 410, row)
+    }
+
+    if (row.status === 'processing' && !this.isStale(row, now)) {
+      return failure('Upload is being processed', 409, row)
+    }
+
+    if (offset !== row.received_bytes) {
+      return failure('Chunk offset does not match the upload offset', 409, row)
+    }
+
+    const expectedLength = Math.min(row.chunk_size, row.file_size - offset)
+    if (chunk.length !== expectedLength) {
+      return failure(`Chunk must be ${expectedLength} bytes`, 400, row)
+    }
+
+    // Overwrites a chunk stored by an attempt whose response was lost
+    const { error: storeError } = await supabase.storage
+      .from(CHUNK_BUCKET)
+      .upload(getChunkPath(row.id, offset), chunk, {
+        contentType: 'application/octet-stream',
+        upsert: true
+      })
+
+    if (storeError) {
+      console.error('Failed to store upload chunk:', storeError)
+      return failure('Failed to store chunk', 500, row)
+    }
+
+    const nextOffset = offset + chunk.length
+    if (nextOffset < row.file_size) {
+      // The offset match makes a concurrent request for the same chunk lose the race
+      const { data: advanced, error: updateError } = await supabase
+        .from('onboarding_upload_sessions')
+        .update({ received_bytes: nextOffset, updated_at: now.toISOString() })
+        .eq('id', row.id)
+        .eq('received_bytes', offset)
+        .select('id')
+
+      if (updateError) {
+        throw new Error(`Failed to advance upload offset: ${updateError.message}`)
+      }
+
+      if (!advanced || advanced.length === 0) {
+        return failure('Chunk offset does not match the upload offset', 409, row)
+      }
+
+      return { success: true, upload: toState({ ...row, received_bytes: nextOffset }) }
+    }
+
+    return this.completeUpload(supabase, row, chunk, now)
+  }
+
+  /**
+   * Cancel an upload and discard its chunks
+   */
+  async abortUpload(supabase: SupabaseClient, uploadId: string, sessionId: string): Promise<boolean> {
+    const { data: row } = await supabase
+      .from('onboarding_upload_sessions')
+      .select('*')
+      .eq('id', uploadId)
+      .eq('session_id', sessionId)
+      .maybeSingle()
+
+    if (!row) {
+      return false
+    }
+
+    const upload = row as UploadSessionRow
+    await supabase.storage
+      .from(CHUNK_BUCKET)
+      .remove(getChunkPaths(upload.id, upload.file_size, upload.chunk_size))
+
+    await supabase
+      .from('onboarding_upload_sessions')
+      .delete()
+      .eq('id', upload.id)
+
+    return true
+  }
+
+  /**
+   * Scheduled job: delete expired uploads and any chunks they left behind
+   */
+  async purgeExpired(
+    supabase: SupabaseClient,
+    { dryRun = false, now = new Date() }: { dryRun?: boolean; now?: Date } = {}
+  ): Promise<ResumableUploadPurgeResult> {
+    const { data, error } = await supabase
+      .from('onboarding_upload_sessions')
+      .select('id, file_size, chunk_size')
+      .lt('expires_at', now.toISOString())
+      .limit(PURGE_BATCH_SIZE)
+
+    if (error) {
+      throw new Error(`Failed to load expired uploads: ${error.message}`)
+    }
+
+    const rows = (data || []) as Array<Pick<UploadSessionRow, 'id' | 'file_size' | 'chunk_size'>>
+    const result: ResumableUploadPurgeResult = {
+      dryRun,
+      expired: rows.length,
+      chunksRemoved: 0,
+      errors: []
+    }
+
+    if (dryRun || rows.length === 0) {
+      return result
+    }
+
+    const chunkPaths = rows.flatMap(row => getChunkPaths(row.id, row.file_size, row.chunk_size))
+    const { data: removed, error: removeError } = await supabase.storage
+      .from(CHUNK_BUCKET)
+      .remove(chunkPaths)
+
+    if (removeError) {
+      // Keep the rows so the next run retries the chunks
+      result.errors.push(`Failed to remove chunks: ${removeError.message}`)
+      return result
+    }
+    result.chunksRemoved = removed?.length || 0
+
+    const { error: deleteError } = await supabase
+      .from('onboarding_upload_sessions')
+      .delete()
+      .in('id', rows.map(row => row.id))
+
+    if (deleteError) {
+      result.errors.push(`Failed to delete expired uploads: ${deleteError.message}`)
+    }
+
+    return result
+  }
+
+  /**
+   * Assemble the chunks with the final one and store the file
+   * Validation failures end the upload; server errors release the claim so the
+   * client can send the final chunk again.
+   */
+  private async completeUpload(
+    supabase: SupabaseClient,
+    row: UploadSessionRow,
+    finalChunk: Buffer,
+    now: Date
+  ): Promise<ResumableUploadResult> {
+    const offset = row.received_bytes
+
+    let claim = supabase
+      .from('onboarding_upload_sessions')
+      .update({ status: 'processing', updated_at: now.toISOString() })
+      .eq('id', row.id)
+      .eq('received_bytes', offset)
+    claim = row.status === 'processing'
+      ? claim.eq('status', 'processing').lt('updated_at', new Date(now.getTime() - PROCESSING_TIMEOUT_MS).toISOString())
+      : claim.eq('status', 'uploading')
+
+    const { data: claimed, error: claimError } = await claim.select('id')
+    if (claimError) {
+      throw new Error(`Failed to claim upload: ${claimError.message}`)
+    }
+
+    if (!claimed || claimed.length === 0) {
+      return failure('Upload is being processed', 409, row)
+    }
+
+    const chunkPaths = getChunkPaths(row.id, row.file_size, row.chunk_size)
+    const release = () => supabase
+      .from('onboarding_upload_sessions')
+      .update({ status: 'uploading', updated_at: new Date().toISOString() })
+      .eq('id', row.id)
+
+    try {
+      const parts: Buffer[] = []
+      for (const path of chunkPaths.slice(0, -1)) {
+        const { data, error } = await supabase.storage.from(CHUNK_BUCKET).download(path)
+        if (error || !data) {
+          throw new Error(`Missing chunk ${path}: ${error?.message || 'not found'}`)
+        }
+        parts.push(Buffer.from(await data.arrayBuffer()))
+      }
+      parts.push(finalChunk)
+
+      const buffer = Buffer.concat(parts)
+      if (buffer.length !== row.file_size) {
+        throw new Error(`Assembled ${buffer.length} of ${row.file_size} bytes`)
+      }
+
+      const stored = await storeImageUpload(supabase, {
+        buffer,
+        declaredType: row.mime_type,
+        fileName: row.file_name,
+        type: row.upload_type,
+        sessionId: row.session_id
+      })
+
+      if (!stored.success && stored.status >= 500) {
+        await release()
+        return failure(stored.error, stored.status, row)
+      }
+
+      const finished: UploadSessionRow = stored.success
+        ? { ...row, status: 'completed', received_bytes: row.file_size, result: stored.data }
+        : { ...row, status: 'failed', received_bytes: row.file_size, error_message: stored.error }
+
+      await supabase
+        .from('onboarding_upload_sessions')
+        .update({
+          status: finished.status,
+          received_bytes: finished.received_bytes,
+          result: finished.result,
+          error_message: finished.error_message,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', row.id)
+
+      const { error: removeError } = await supabase.storage.from(CHUNK_BUCKET).remove(chunkPaths)
+      if (removeError) {
+        // The upload-cleanup job removes them when the upload expires
+        console.error('Failed to remove assembled chunks:', removeError)
+      }
+
+      return stored.success
+        ? { success: true, upload: toState(finished) }
+        : failure(stored.error, stored.status, finished)
+    } catch (error) {
+      console.error('Failed to assemble upload:', error)
+      await release()
+      return failure('Failed to assemble upload', 500, row)
+    }
+  }
+
+  private async loadUpload(
+    supabase: SupabaseClient,
+    uploadId: string,
+    sessionId: string,
+    now: Date
+  ): Promise<UploadSessionRow | null> {
+    const { data, error } = await supabase
+      .from('onboarding_upload_sessions')
+      .select('*')
+      .eq('id', uploadId)
+      .eq('session_id', sessionId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load upload: ${error.message}`)
+    }
+
+    const row = data as UploadSessionRow | null
+    if (!row || new Date(row.expires_at).getTime() <= now.getTime()) {
+      return null
+    }
+    return row
+  }
+
+  private isStale(row: UploadSessionRow, now: Date): boolean {
+    return now.getTime() - new Date(row.updated_at).getTime() >= PROCESSING_TIMEOUT_MS
+  }
+}
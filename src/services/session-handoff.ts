@@ -0,0 +1,214 @@
+import { createHash, randomBytes } from 'crypto'
+import { SupabaseClient } from '@supabase/supabase-js'
+import QRCode from 'qrcode'
+import { Locale, locales } from '@/lib/i18n'
+import { EmailService } from '@/services/resend'
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const HANDOFF_TTL_MINUTES = 15
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://whiteboar.it'
+
+export type HandoffStatus = 'pending' | 'redeemed' | 'expired'
+
+export interface HandoffLink {
+  handoffId: string
+  url: string
+  /** PNG data URL of the link, for scanning with a phone */
+  qrCode: string
+  expiresAt: string
+  emailed: boolean
+}
+
+export type HandoffRedeemResult =
+  | { success: true; sessionId: string; currentStep: number; locale: Locale }
+  | { success: false; error: string }
+
+interface HandoffTokenRow {
+  id: string
+  session_id: string
+  expires_at: string
+  redeemed_at: string | null
+}
+
+/**
+ * Tokens are stored hashed, so a database leak cannot be replayed as links
+ */
+export function hashHandoffToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Link that redeems a handoff token on the other device
+ * Default locale has no URL prefix (localePrefix: 'as-needed').
+ */
+export function getHandoffUrl(token: string, locale: Locale = 'en'): string {
+  const localePrefix = locale === 'en' ? '' : `/${locale}`
+  return `${APP_URL}${localePrefix}/onboarding/continue?token=${encodeURIComponent(token)}`
+}
+
+const toLocale = (value: string | null | undefined): Locale =>
+  locales.includes(value as Locale) ? (value as Locale) : 'en'
+
+/**
+ * Session Handoff Service (SERVER-SIDE ONLY)
+ * Moves an onboarding session to another device with a short-lived, single-use
+ * link. The link is shown as a QR code and emailed to the verified address; the
+ * originating device polls the handoff to learn when it was used.
+ */
+export class SessionHandoffService {
+  /**
+   * Mint a handoff link for a session, replacing any unused earlier link
+   *
+   * @param sendEmail - Also email the link when the session's address is verified
+   */
+  async createHandoff(
+    supabase: SupabaseClient,
+    sessionId: string,
+    { sendEmail = true, now = new Date() }: { sendEmail?: boolean; now?: Date } = {}
+  ): Promise<HandoffLink | null> {
+    const { data: session, error: sessionError } = await supabase
+      .from('onboarding_sessions')
+      .select('id, email, email_verified, locale, expires_at, first_name:form_data->>firstName')
+      .eq('id', sessionId)
+      .maybeSingle()
+
+    if (sessionError) {
+      throw new Error(`Failed to load session: ${sessionError.message}`)
+    }
+
+    if (!session || new Date(session.expires_at) <= now) {
+      return null
+    }
+
+    // Only the newest link stays valid
+    await supabase
+      .from('onboarding_handoff_tokens')
+      .update({ expires_at: now.toISOString() })
+      .eq('session_id', sessionId)
+      .is('redeemed_at', null)
+      .gt('expires_at', now.toISOString())
+
+    const token = randomBytes(32).toString('base64url')
+    const expiresAt = new Date(now.getTime() + HANDOFF_TTL_MINUTES * 60 * 1000).toISOString()
+
+    const { data: handoff, error: insertError } = await supabase
+      .from('onboarding_handoff_tokens')
+      .insert({
+        session_id: sessionId,
+        token_hash: hashHandoffToken(token),
+        expires_at: expiresAt
+      })
+      .select('id')
+      .single()
+
+    if (insertError) {
+      throw new Error(`Failed to create handoff: ${insertError.message}`)
+    }
+
+    const locale = toLocale(session.locale)
+    const url = getHandoffUrl(token, locale)
+    const qrCode = await QRCode.toDataURL(url, { margin: 1, width: 256 })
+
+    let emailed = false
+    if (sendEmail && session.email_verified && session.email) {
+      emailed = await EmailService.sendSessionHandoff(
+        session.email,
+        session.first_name || '',
+        url,
+        HANDOFF_TTL_MINUTES,
+        locale
+      )
+
+      if (emailed) {
+        await supabase
+          .from('onboarding_handoff_tokens')
+          .update({ emailed_at: now.toISOString() })
+          .eq('id', handoff.id)
+      }
+    }
+
+    return { handoffId: handoff.id, url, qrCode, expiresAt, emailed }
+  }
+
+  /**
+   * Use a handoff token. Unknown, used and expired tokens are indistinguishable.
+   */
+  async redeemHandoff(
+    supabase: SupabaseClient,
+    token: string,
+    { userAgent = null, now = new Date() }: { userAgent?: string | null; now?: Date } = {}
+  ): Promise<HandoffRedeemResult> {
+    // Claiming only unused, unexpired tokens makes redemption single-use under races
+    const { data: claimed, error: claimError } = await supabase
+      .from('onboarding_handoff_tokens')
+      .update({
+        redeemed_at: now.toISOString(),
+        redeemed_user_agent: userAgent?.slice(0, 500) ?? null
+      })
+      .eq('token_hash', hashHandoffToken(token))
+      .is('redeemed_at', null)
+      .gt('expires_at', now.toISOString())
+      .select('id, session_id')
+
+    if (claimError) {
+      throw new Error(`Failed to redeem handoff: ${claimError.message}`)
+    }
+
+    const handoff = claimed?.[0] as Pick<HandoffTokenRow, 'id' | 'session_id'> | undefined
+    if (!handoff) {
+      return { success: false, error: 'This link is invalid, expired or was already used' }
+    }
+
+    const { data: session } = await supabase
+      .from('onboarding_sessions')
+      .select('id, current_step, locale, expires_at')
+      .eq('id', handoff.session_id)
+      .maybeSingle()
+
+    if (!session || new Date(session.expires_at) <= now) {
+      return { success: false, error: 'This onboarding session has expired' }
+    }
+
+    return {
+      success: true,
+      sessionId: session.id,
+      currentStep: session.current_step || 1,
+      locale: toLocale(session.locale)
+    }
+  }
+
+  /**
+   * Whether a handoff of this session was used yet, or null if it is unknown
+   */
+  async getHandoffStatus(
+    supabase: SupabaseClient,
+    handoffId: string,
+    sessionId: string,
+    now: Date = new Date()
+  ): Promise<{ status: HandoffStatus; redeemedAt: string | null } | null> {
+    const { data, error } = await supabase
+      .from('onboarding_handoff_tokens')
+      .select('id, session_id, expires_at, redeemed_at')
+      .eq('id', handoffId)
+      .eq('session_id', sessionId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load handoff: ${error.message}`)
+    }
+
+    if (!data) {
+      return null
+    }
+
+    const row = data as HandoffTokenRow
+    const status: HandoffStatus = row.redeemed_at
+      ? 'redeemed'
+      : new Date(row.expires_at) <= now ? 'expired' : 'pending'
+
+    return { status, redeemedAt: row.redeemed_at }
+  }
+}
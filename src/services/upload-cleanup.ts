@@ -0,0 +1,309 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ASSET_BUCKET, ASSET_FOLDERS, AssetReference, getAssetPath } from '@/lib/assets'
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+// Uploads are referenced by the next autosave; see getGraceDays
+const DEFAULT_GRACE_DAYS = 14
+const LIST_PAGE_SIZE = 1000
+const FORM_DATA_PAGE_SIZE = 500
+const DELETE_BATCH_SIZE = 100
+// Upper bound per run, so a bug in reference collection cannot empty the bucket
+const MAX_DELETIONS_PER_RUN = 1000
+
+// Only the asset fields of form_data are fetched
+const FORM_ASSET_COLUMNS = [
+  'logo:form_data->logoUpload',
+  'photos:form_data->businessPhotos',
+  'products:form_data->products'
+].join(', ')
+
+// "logo/logo-1-a-w160.webp" → "logo/logo-1-a"
+const DERIVATIVE_SUFFIX = /-w\d+\.(webp|avif)$/
+
+export type OrphanReason = 'session_deleted' | 'unreferenced' | 'untracked'
+
+export interface OrphanedUpload {
+  path: string
+  reason: OrphanReason
+  size: number | null
+  createdAt: string
+}
+
+export interface UploadCleanupReport {
+  dryRun: boolean
+  graceDays: number
+  cutoff: string
+  scanned: number
+  referenced: number
+  withinGracePeriod: number
+  orphaned: OrphanedUpload[]
+  deleted: number
+  bytesFreed: number
+  truncated: boolean
+  /** onboarding_uploads rows whose storage object no longer exists */
+  missingObjects: string[]
+  errors: string[]
+}
+
+interface StoredObject {
+  path: string
+  size: number | null
+  createdAt: string
+}
+
+interface FormAssetRow {
+  logo: AssetReference | null
+  photos: AssetReference[] | null
+  products: Array<{ photos?: AssetReference[] | null }> | null
+}
+
+interface UploadRow {
+  file_path: string
+  session_id: string | null
+  derivatives: Array<{ path: string }> | null
+}
+
+/**
+ * Grace period before an unreferenced upload is deleted
+ * Configured via UPLOAD_GC_GRACE_DAYS. A fresh upload becomes referenced on the
+ * client's next autosave (seconds later, or when queued offline saves replay on
+ * reconnect), not at the end of the 60-day session. Two weeks covers a device
+ * that stays offline for days; an upload still unreferenced after that was
+ * replaced or belongs to a save that never arrived.
+ */
+export function getGraceDays(): number {
+  const days = parseInt(process.env.UPLOAD_GC_GRACE_DAYS || '', 10)
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_GRACE_DAYS
+}
+
+/**
+ * Storage paths an onboarding form references: logo, business photos and
+ * product photos, including their derivatives
+ */
+export function collectReferencedPaths(row: FormAssetRow, into: Set<string> = new Set()): Set<string> {
+  const files: Array<AssetReference | null | undefined> = [
+    row.logo,
+    ...(Array.isArray(row.photos) ? row.photos : []),
+    ...(Array.isArray(row.products) ? row.products : []).flatMap(product =>
+      Array.isArray(product?.photos) ? product.photos : []
+    )
+  ]
+
+  for (const file of files) {
+    const path = getAssetPath(file)
+    if (path) {
+      into.add(path)
+    }
+    for (const derivative of file?.derivatives || []) {
+      into.add(derivative.path)
+    }
+  }
+
+  return into
+}
+
+const stripExtension = (path: string) => path.replace(/\.[^./]+$/, '')
+
+/**
+ * Orphaned upload garbage collection (SERVER-SIDE ONLY)
+ * Deletes objects in the onboarding-uploads bucket that no session or submission
+ * references any more (removed photos, deleted sessions) once they are older
+ * than the grace period, together with their onboarding_uploads rows.
+ */
+export class UploadCleanupService {
+  async run(
+    supabase: SupabaseClient,
+    {
+      dryRun = false,
+      graceDays = getGraceDays(),
+      now = new Date()
+    }: { dryRun?: boolean; graceDays?: number; now?: Date } = {}
+  ): Promise<UploadCleanupReport> {
+    const cutoff = new Date(now.getTime() - graceDays * 24 * 60 * 60 * 1000)
+
+    const referenced = await this.loadReferencedPaths(supabase)
+    const uploads = await this.loadUploadRows(supabase)
+    const objects = await this.listObjects(supabase)
+
+    // Derivatives of a referenced original are kept even if form_data predates them
+    const referencedBases = new Set([...referenced].map(stripExtension))
+    const isReferenced = (path: string) =>
+      referenced.has(path) ||
+      (DERIVATIVE_SUFFIX.test(path) && referencedBases.has(path.replace(DERIVATIVE_SUFFIX, '')))
+
+    const uploadsByPath = new Map<string, UploadRow>()
+    for (const upload of uploads) {
+      uploadsByPath.set(upload.file_path, upload)
+      for (const derivative of upload.derivatives || []) {
+        uploadsByPath.set(derivative.path, upload)
+      }
+    }
+
+    const report: UploadCleanupReport = {
+      dryRun,
+      graceDays,
+      cutoff: cutoff.toISOString(),
+      scanned: objects.length,
+      referenced: 0,
+      withinGracePeriod: 0,
+      orphaned: [],
+      deleted: 0,
+      bytesFreed: 0,
+      truncated: false,
+      missingObjects: [],
+      errors: []
+    }
+
+    for (const object of objects) {
+      if (isReferenced(object.path)) {
+        report.referenced++
+        continue
+      }
+
+      if (new Date(object.createdAt) > cutoff) {
+        report.withinGracePeriod++
+        continue
+      }
+
+      if (report.orphaned.length >= MAX_DELETIONS_PER_RUN) {
+        report.truncated = true
+        break
+      }
+
+      const upload = uploadsByPath.get(object.path)
+      report.orphaned.push({
+        path: object.path,
+        reason: !upload ? 'untracked' : upload.session_id ? 'unreferenced' : 'session_deleted',
+        size: object.size,
+        createdAt: object.createdAt
+      })
+    }
+
+    const storedPaths = new Set(objects.map(object => object.path))
+    report.missingObjects = uploads
+      .map(upload => upload.file_path)
+      .filter(path => !storedPaths.has(path))
+
+    if (!dryRun) {
+      await this.deleteOrphans(report, supabase)
+    }
+
+    return report
+  }
+
+  private async deleteOrphans(report: UploadCleanupReport, supabase: SupabaseClient) {
+    for (let i = 0; i < report.orphaned.length; i += DELETE_BATCH_SIZE) {
+      const batch = report.orphaned.slice(i, i + DELETE_BATCH_SIZE)
+      const paths = batch.map(orphan => orphan.path)
+
+      const { error } = await supabase.storage.from(ASSET_BUCKET).remove(paths)
+      if (error) {
+        report.errors.push(`Failed to delete ${paths.length} objects: ${error.message}`)
+        continue
+      }
+
+      report.deleted += batch.length
+      report.bytesFreed += batch.reduce((total, orphan) => total + (orphan.size || 0), 0)
+
+      const { error: rowError } = await supabase
+        .from('onboarding_uploads')
+        .delete()
+        .in('file_path', paths)
+
+      if (rowError) {
+        report.errors.push(`Failed to delete upload records: ${rowError.message}`)
+      }
+    }
+  }
+
+  /**
+   * Paths referenced by any onboarding session or submission
+   * Throws on any read error: deleting against partial references would remove live files.
+   */
+  private async loadReferencedPaths(supabase: SupabaseClient): Promise<Set<string>> {
+    const referenced = new Set<string>()
+
+    for (const table of ['onboarding_sessions', 'onboarding_submissions']) {
+      for (let offset = 0; ; offset += FORM_DATA_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from(table)
+          .select(FORM_ASSET_COLUMNS)
+          .order('id', { ascending: true })
+          .range(offset, offset + FORM_DATA_PAGE_SIZE - 1)
+
+        if (error) {
+          throw new Error(`Failed to load ${table} form data: ${error.message}`)
+        }
+
+        for (const row of (data || []) as unknown as FormAssetRow[]) {
+          collectReferencedPaths(row, referenced)
+        }
+
+        if (!data || data.length < FORM_DATA_PAGE_SIZE) {
+          break
+        }
+      }
+    }
+
+    return referenced
+  }
+
+  private async loadUploadRows(supabase: SupabaseClient): Promise<UploadRow[]> {
+    const rows: UploadRow[] = []
+
+    for (let offset = 0; ; offset += FORM_DATA_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('onboarding_uploads')
+        .select('file_path, session_id, derivatives')
+        .not('file_path', 'is', null)
+        .order('id', { ascending: true })
+        .range(offset, offset + FORM_DATA_PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to load upload records: ${error.message}`)
+      }
+
+      rows.push(...((data || []) as UploadRow[]))
+
+      if (!data || data.length < FORM_DATA_PAGE_SIZE) {
+        return rows
+      }
+    }
+  }
+
+  private async listObjects(supabase: SupabaseClient): Promise<StoredObject[]> {
+    const objects: StoredObject[] = []
+
+    for (const folder of ASSET_FOLDERS) {
+      for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+        const { data, error } = await supabase.storage
+          .from(ASSET_BUCKET)
+          .list(folder, { limit: LIST_PAGE_SIZE, offset, sortBy: { column: 'name', order: 'asc' } })
+
+        if (error) {
+          throw new Error(`Failed to list ${folder}: ${error.message}`)
+        }
+
+        for (const item of data || []) {
+          // Entries without an id are sub-folders, which the upload route never creates
+          if (item.id) {
+            objects.push({
+              path: `${folder}/${item.name}`,
+              size: typeof item.metadata?.size === 'number' ? item.metadata.size : null,
+              createdAt: item.created_at
+            })
+          }
+        }
+
+        if (!data || data.length < LIST_PAGE_SIZE) {
+          break
+        }
+      }
+    }
+
+    return objects
+  }
+}
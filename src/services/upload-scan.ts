@@ -0,0 +1,326 @@
+import { connect, Socket } from 'net'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ASSET_BUCKET } from '@/lib/assets'
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const QUARANTINE_BUCKET = 'upload-quarantine'
+// Scanner errors are retried by the scheduled job until this many attempts
+export const MAX_SCAN_ATTEMPTS = 5
+const SCAN_BATCH_SIZE = 25
+const DEFAULT_SCAN_TIMEOUT_MS = 30_000
+const CLAMD_CHUNK_SIZE = 64 * 1024
+
+export type VirusScanStatus = 'pending' | 'clean' | 'infected' | 'failed'
+
+export interface VirusScanVerdict {
+  infected: boolean
+  /** Signature name reported by the scanner for infected files */
+  signature?: string
+}
+
+/**
+ * Pluggable virus scanner
+ * Implementations throw when the file could not be scanned.
+ */
+export interface VirusScanner {
+  readonly name: string
+  scan(data: Buffer): Promise<VirusScanVerdict>
+}
+
+export interface UploadScanResult {
+  path: string
+  status: VirusScanStatus
+  signature?: string
+  quarantined?: boolean
+  error?: string
+}
+
+export interface UploadScanRunResult {
+  dryRun: boolean
+  scanner: string | null
+  due: number
+  clean: number
+  infected: number
+  failed: number
+  details: UploadScanResult[]
+}
+
+interface PendingUpload {
+  id: string
+  file_path: string
+  virus_scan_status: VirusScanStatus
+  scan_attempts: number | null
+  derivatives: Array<{ path: string }> | null
+}
+
+/**
+ * Parse a clamd reply: "stream: OK", "stream: <signature> FOUND" or "... ERROR"
+ */
+export function parseClamdResponse(response: string): VirusScanVerdict {
+  const reply = response.replace(/\0/g, '').trim()
+
+  if (reply.endsWith(' OK')) {
+    return { infected: false }
+  }
+
+  const found = reply.match(/^[^:]*:\s*(.+)\s+FOUND$/)
+  if (found) {
+    return { infected: true, signature: found[1] }
+  }
+
+  throw new Error(`Unexpected clamd response: ${reply || '(empty)'}`)
+}
+
+/**
+ * ClamAV daemon over a unix socket or TCP, using the INSTREAM command
+ */
+export class ClamAVScanner implements VirusScanner {
+  readonly name = 'clamav'
+
+  constructor(
+    private readonly options: { socketPath?: string; host?: string; port?: number; timeoutMs?: number }
+  ) {}
+
+  scan(data: Buffer): Promise<VirusScanVerdict> {
+    return new Promise((resolve, reject) => {
+      const { socketPath, host = '127.0.0.1', port = 3310, timeoutMs = DEFAULT_SCAN_TIMEOUT_MS } = this.options
+      const socket: Socket = socketPath ? connect(socketPath) : connect(port, host)
+      const chunks: Buffer[] = []
+
+      socket.setTimeout(timeoutMs, () => {
+        socket.destroy(new Error(`clamd did not answer within ${timeoutMs}ms`))
+      })
+
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0')
+        for (let offset = 0; offset < data.length; offset += CLAMD_CHUNK_SIZE) {
+          const chunk = data.subarray(offset, offset + CLAMD_CHUNK_SIZE)
+          const size = Buffer.alloc(4)
+          size.writeUInt32BE(chunk.length)
+          socket.write(size)
+          socket.write(chunk)
+        }
+        // Zero-length chunk ends the stream
+        socket.write(Buffer.alloc(4))
+      })
+
+      socket.on('data', chunk => chunks.push(chunk))
+      socket.on('error', reject)
+      socket.on('close', hadError => {
+        if (hadError) {
+          return
+        }
+        try {
+          resolve(parseClamdResponse(Buffer.concat(chunks).toString('utf-8')))
+        } catch (error) {
+          reject(error)
+        }
+      })
+    })
+  }
+}
+
+/**
+ * Scanner configured for this deployment, or null when scanning is disabled
+ * CLAMAV_SOCKET (unix socket path) takes precedence over CLAMAV_HOST/CLAMAV_PORT.
+ */
+export function getVirusScanner(): VirusScanner | null {
+  const timeoutMs = parseInt(process.env.UPLOAD_SCAN_TIMEOUT_MS || '', 10) || DEFAULT_SCAN_TIMEOUT_MS
+
+  if (process.env.CLAMAV_SOCKET) {
+    return new ClamAVScanner({ socketPath: process.env.CLAMAV_SOCKET, timeoutMs })
+  }
+
+  if (process.env.CLAMAV_HOST) {
+    return new ClamAVScanner({
+      host: process.env.CLAMAV_HOST,
+      port: parseInt(process.env.CLAMAV_PORT || '', 10) || undefined,
+      timeoutMs
+    })
+  }
+
+  return null
+}
+
+/**
+ * Upload virus scanning (SERVER-SIDE ONLY)
+ * Moves onboarding_uploads through pending → clean/infected. Infected files are
+ * moved out of the onboarding-uploads bucket into the quarantine bucket, so the
+ * asset route can no longer serve them.
+ */
+export class UploadScanService {
+  private scanner: VirusScanner | null
+
+  constructor(scanner?: VirusScanner | null) {
+    this.scanner = scanner === undefined ? getVirusScanner() : scanner
+  }
+
+  get enabled(): boolean {
+    return this.scanner !== null
+  }
+
+  /**
+   * Scan one stored upload and record the verdict on its onboarding_uploads row
+   *
+   * @param data - File contents when already in memory; downloaded from storage otherwise
+   * @param derivativePaths - Renditions of the file, deleted along with an infected original
+   */
+  async scanUpload(
+    path: string,
+    supabase: SupabaseClient,
+    {
+      data,
+      derivativePaths = [],
+      attempts = 0,
+      now = new Date()
+    }: { data?: Buffer; derivativePaths?: string[]; attempts?: number; now?: Date } = {}
+  ): Promise<UploadScanResult> {
+    if (!this.scanner) {
+      return { path, status: 'pending' }
+    }
+
+    let verdict: VirusScanVerdict
+    try {
+      verdict = await this.scanner.scan(data ?? await this.download(path, supabase))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`Virus scan failed for ${path}:`, error)
+      await this.recordResult(path, supabase, {
+        virus_scan_status: 'failed',
+        scan_attempts: attempts + 1,
+        scan_error: message
+      })
+      return { path, status: 'failed', error: message }
+    }
+
+    if (!verdict.infected) {
+      await this.recordResult(path, supabase, {
+        virus_scan_status: 'clean',
+        scan_attempts: attempts + 1,
+        scanned_at: now.toISOString(),
+        scan_error: null
+      })
+      return { path, status: 'clean' }
+    }
+
+    console.warn(`Infected upload quarantined: ${path} (${verdict.signature || 'unknown signature'})`)
+    const quarantined = await this.quarantine(path, derivativePaths, supabase)
+    await this.recordResult(path, supabase, {
+      virus_scan_status: 'infected',
+      scan_attempts: attempts + 1,
+      scanned_at: now.toISOString(),
+      scan_signature: verdict.signature || null,
+      quarantined_at: quarantined ? now.toISOString() : null,
+      scan_error: quarantined ? null : 'Failed to move file to quarantine'
+    })
+
+    return { path, status: 'infected', signature: verdict.signature, quarantined }
+  }
+
+  /**
+   * Scheduled job: scan uploads still pending (scanner was down or disabled at
+   * upload time) and retry failed scans
+   */
+  async scanPending(
+    supabase: SupabaseClient,
+    { dryRun = false, now = new Date() }: { dryRun?: boolean; now?: Date } = {}
+  ): Promise<UploadScanRunResult> {
+    const result: UploadScanRunResult = {
+      dryRun,
+      scanner: this.scanner?.name ?? null,
+      due: 0,
+      clean: 0,
+      infected: 0,
+      failed: 0,
+      details: []
+    }
+
+    if (!this.scanner) {
+      return result
+    }
+
+    const { data, error } = await supabase
+      .from('onboarding_uploads')
+      .select('id, file_path, virus_scan_status, scan_attempts, derivatives')
+      .in('virus_scan_status', ['pending', 'failed'])
+      .lt('scan_attempts', MAX_SCAN_ATTEMPTS)
+      .not('file_path', 'is', null)
+      .order('created_at', { ascending: true })
+      .limit(SCAN_BATCH_SIZE)
+
+    if (error) {
+      throw new Error(`Failed to load pending uploads: ${error.message}`)
+    }
+
+    const uploads = (data || []) as PendingUpload[]
+    result.due = uploads.length
+
+    for (const upload of uploads) {
+      if (dryRun) {
+        result.details.push({ path: upload.file_path, status: upload.virus_scan_status })
+        continue
+      }
+
+      const scan = await this.scanUpload(upload.file_path, supabase, {
+        derivativePaths: (upload.derivatives || []).map(derivative => derivative.path),
+        attempts: upload.scan_attempts || 0,
+        now
+      })
+      result.details.push(scan)
+
+      if (scan.status === 'clean') result.clean++
+      else if (scan.status === 'infected') result.infected++
+      else result.failed++
+    }
+
+    return result
+  }
+
+  private async download(path: string, supabase: SupabaseClient): Promise<Buffer> {
+    const { data, error } = await supabase.storage.from(ASSET_BUCKET).download(path)
+    if (error || !data) {
+      throw new Error(`Failed to download ${path}: ${error?.message || 'File not found'}`)
+    }
+    return Buffer.from(await data.arrayBuffer())
+  }
+
+  private async quarantine(path: string, derivativePaths: string[], supabase: SupabaseClient): Promise<boolean> {
+    // Renditions were re-encoded from the infected file: delete them rather than keep copies
+    if (derivativePaths.length > 0) {
+      const { error: derivativeError } = await supabase.storage.from(ASSET_BUCKET).remove(derivativePaths)
+      if (derivativeError) {
+        console.error(`Failed to delete derivatives of infected upload ${path}:`, derivativeError)
+      }
+    }
+
+    const { error } = await supabase.storage
+      .from(ASSET_BUCKET)
+      .move(path, path, { destinationBucket: QUARANTINE_BUCKET })
+
+    if (!error) {
+      return true
+    }
+
+    // Never leave an infected file servable: delete it when the move fails
+    console.error(`Failed to quarantine ${path}, deleting it instead:`, error)
+    const { error: removeError } = await supabase.storage.from(ASSET_BUCKET).remove([path])
+    if (removeError) {
+      console.error(`Failed to delete infected upload ${path}:`, removeError)
+    }
+    return false
+  }
+
+  private async recordResult(path: string, supabase: SupabaseClient, update: Record<string, unknown>) {
+    const { error } = await supabase
+      .from('onboarding_uploads')
+      .update(update)
+      .eq('file_path', path)
+
+    if (error) {
+      console.error(`Failed to record scan result for ${path}:`, error)
+    }
+  }
+}
@@ -8,10 +8,23 @@ import {
   ValidationError,
   StepValidationResult,
   OnboardingSession,
+  UploadedFile,
   TOTAL_STEPS
 } from '@/types/onboarding'
 import { Locale } from '@/lib/i18n'
 import { generateUUID } from '@/lib/utils'
+import { csrfFetch } from '@/lib/csrf-fetch'
+import { broadcastSessionSaved, mergeFormData, subscribeToSessionSync } from '@/lib/session-sync'
+import {
+  getOfflineQueue,
+  isNetworkError,
+  isOffline,
+  isQueuedUploadClaimed,
+  QueuedOperation,
+  QueuedUploadResult,
+  settleQueuedUpload
+} from '@/lib/offline-queue'
+import { getUploadFingerprint, uploadFileResumable } from '@/lib/resumable-upload'
 
 /**
  * ONBOARDING SESSION MANAGEMENT ARCHITECTURE
@@ -24,9 +37,19 @@ import { generateUUID } from '@/lib/utils'
  * - Fastest access for normal user flow
  *
  * FALLBACK: URL ?sessionId=xxx parameter
- * - Used for recovery emails (future feature - not yet automated)
+ * - Used by abandonment recovery emails (sent by /api/cron/abandonment-recovery)
  * - Enables cross-device continuation via email links
  * - Supports bookmarking and direct session URLs
+ * - Opened through /onboarding/resume, which re-verifies the email first
+ *
+ * AUTHENTICATION: httpOnly wb_onboarding_session cookie (src/lib/onboarding-auth.ts)
+ * - Issued on session creation, by /api/onboarding/verify-email and by handoff redemption
+ * - Onboarding and Stripe API routes only accept the cookie's session
+ * - Sessions are loaded and saved through /api/onboarding/session/[sessionId]
+ *
+ * CROSS-DEVICE: /onboarding/continue?token=xxx
+ * - "Continue on another device" in the onboarding header (QR code + email)
+ * - Single-use, 15-minute handoff token redeemed by /api/onboarding/handoff/redeem
  *
  * PRIORITY: URL parameters override localStorage when present
  * - Allows session recovery even if localStorage is cleared
@@ -36,6 +59,17 @@ import { generateUUID } from '@/lib/utils'
  * - Server-side source of truth
  * - Auto-save on form changes (debounced 1.5s)
  * - Session expiration: 60 days
+ *
+ * CONCURRENCY: onboarding_sessions.version (src/lib/session-sync.ts)
+ * - Saves only apply to the version they were based on
+ * - A rejected save merges the server copy field by field; fields changed on
+ *   both sides are resolved in SaveConflictDialog
+ * - Tabs of the same browser announce saves over BroadcastChannel
+ *
+ * OFFLINE: IndexedDB queue (src/lib/offline-queue.ts)
+ * - Saves and uploads that cannot reach the server are queued
+ * - Replayed in order when the browser comes back online
+ * - Only Step 14 (payment) needs a connection
  */
 
 // Initial form data structure
@@ -92,28 +126,127 @@ export const useOnboardingStore = create<OnboardingStore>()(
       (set, get) => {
         // Create debounced save function with access to store state
         
-        const saveProgressToServer = async () => {
+        // Take in a newer server copy (from a rejected save or another tab). Edits
+        // on different fields merge silently; fields both sides changed wait for
+        // the merge dialog. Returns whether local edits still need saving.
+        const applyServerState = (server: {
+          formData: Partial<OnboardingFormData>
+          version: number
+          currentStep: number
+        }): boolean => {
+          const { formData, syncedFormData, isDirty, currentStep } = get()
+          const serverFormData = { ...initialFormData, ...server.formData }
+          const step = Math.max(currentStep, server.currentStep || 1)
+
+          if (!isDirty) {
+            set({
+              formData: serverFormData,
+              syncedFormData: serverFormData,
+              sessionVersion: server.version,
+              currentStep: step
+            })
+            return false
+          }
+
+          const { merged, conflicts } = mergeFormData(syncedFormData, formData, serverFormData)
+
+          if (conflicts.length > 0) {
+            set({
+              saveConflict: {
+                fields: conflicts,
+                serverFormData,
+                serverVersion: server.version,
+                serverStep: server.currentStep
+              }
+            })
+            return false
+          }
+
+          set({
+            formData: merged,
+            syncedFormData: serverFormData,
+            sessionVersion: server.version,
+            currentStep: step
+          })
+          return true
+        }
+
+        // Writes the current form; throws when the server cannot be reached
+        const persistProgress = async (): Promise<void> => {
+          const state = get()
+          // Saving would overwrite the other side until the user picks per field
+          if (!state.sessionId || state.saveConflict) return
+
+          // Import dynamically to avoid circular dependencies
+          const { OnboardingClientService } = await import('@/services/onboarding-client')
+
+          const result = await OnboardingClientService.saveProgress(
+            state.sessionId,
+            state.formData,
+            state.currentStep,
+            state.sessionVersion ?? undefined
+          )
+
+          if (result.status === 'conflict') {
+            if (applyServerState(result.session)) {
+              await persistProgress()
+            }
+            return
+          }
+
+          set({
+            lastSaved: new Date(),
+            isDirty: false,
+            sessionVersion: result.session.version,
+            syncedFormData: state.formData
+          })
+
+          broadcastSessionSaved({
+            sessionId: state.sessionId,
+            version: result.session.version,
+            currentStep: state.currentStep,
+            formData: state.formData
+          })
+        }
+
+        // Keep the save for replay; the form itself is already in localStorage
+        const queueSave = async (): Promise<boolean> => {
           const state = get()
-          if (!state.sessionId) return
+          const queue = getOfflineQueue()
+          if (!state.sessionId || !queue) return false
+
+          await queue.enqueueSave({
+            sessionId: state.sessionId,
+            formData: state.formData,
+            currentStep: state.currentStep,
+            baseVersion: state.sessionVersion ?? undefined
+          })
+          set({ isLoading: false, queuedChanges: await queue.size() })
+          return true
+        }
+
+        const saveProgressToServer = async (): Promise<void> => {
+          const state = get()
+          if (!state.sessionId || state.saveConflict) return
 
           try {
             set({ isLoading: true, error: null })
-            
-            // Import dynamically to avoid circular dependencies
-            const { OnboardingClientService } = await import('@/services/onboarding-client')
 
-            await OnboardingClientService.saveProgress(
-              state.sessionId,
-              state.formData,
-              state.currentStep
-            )
-            
-            set({ 
-              lastSaved: new Date(),
-              isDirty: false,
-              isLoading: false 
-            })
+            // Queued uploads and saves go first, in order
+            if (isOffline() || state.queuedChanges > 0) {
+              if (await queueSave()) {
+                await get().syncOfflineQueue()
+                return
+              }
+            }
+
+            await persistProgress()
+            set({ isLoading: false })
           } catch (error) {
+            if (isNetworkError(error) && await queueSave().catch(() => false)) {
+              return
+            }
+
             console.error('Failed to save progress:', error)
             set({ 
               error: error instanceof Error ? error.message : 'Failed to save progress',
@@ -122,9 +255,100 @@ export const useOnboardingStore = create<OnboardingStore>()(
           }
         }
 
+        // A replayed upload whose field is no longer on screen goes straight into the form
+        const applyQueuedUpload = (
+          operation: Extract<QueuedOperation, { kind: 'upload' }>,
+          upload: QueuedUploadResult
+        ) => {
+          const { formData, updateFormData, addProductPhoto } = get()
+          const uploadedFile: UploadedFile = {
+            id: upload.id || generateUUID(),
+            fileName: upload.fileName || operation.file.name,
+            fileSize: typeof upload.fileSize === 'number' ? upload.fileSize : operation.file.size,
+            mimeType: upload.mimeType || operation.file.type,
+            path: upload.path,
+            width: upload.width,
+            height: upload.height,
+            derivatives: upload.derivatives,
+            uploadedAt: new Date().toISOString()
+          }
+
+          switch (operation.target?.field) {
+            case 'logoUpload':
+              updateFormData({ logoUpload: uploadedFile })
+              break
+            case 'businessPhotos':
+              updateFormData({ businessPhotos: [...(formData.businessPhotos || []), uploadedFile] })
+              break
+            case 'products': {
+              const { productId } = operation.target
+              if (formData.products?.some(product => product.id === productId)) {
+                addProductPhoto(productId, uploadedFile)
+              }
+              break
+            }
+          }
+        }
+
+        const replayQueuedUpload = async (operation: Extract<QueuedOperation, { kind: 'upload' }>) => {
+          const { sessionId, pendingUploads, clearPendingUpload } = get()
+          const claimed = isQueuedUploadClaimed(operation.id)
+
+          // Nobody is left to take the file (another session, or an unsaved product form)
+          if (!claimed && (operation.sessionId !== sessionId || !operation.target)) return
+
+          // An upload interrupted before going offline continues where it stopped
+          const key = getUploadFingerprint(operation.file, operation.sessionId, operation.uploadType)
+
+          try {
+            const upload = await uploadFileResumable<QueuedUploadResult>(operation.file, {
+              sessionId: operation.sessionId,
+              uploadType: operation.uploadType,
+              pending: pendingUploads[key]
+            })
+            clearPendingUpload(key)
+
+            if (!settleQueuedUpload(operation.id, { data: upload })) {
+              applyQueuedUpload(operation, upload)
+            }
+          } catch (error) {
+            if (!isNetworkError(error)) {
+              settleQueuedUpload(operation.id, {
+                error: error instanceof Error ? error : new Error('Upload failed')
+              })
+            }
+            throw error
+          }
+        }
+
         // Initialize debounced save
         const debouncedSaveProgress = createDebouncedSave(saveProgressToServer)
 
+        // Other tabs of this browser announce their saves, so this one rarely
+        // has to learn about them from a rejected save
+        subscribeToSessionSync((message) => {
+          const { sessionId, sessionVersion } = get()
+          if (message.sessionId !== sessionId || message.version <= (sessionVersion ?? 0)) return
+
+          if (applyServerState(message)) {
+            debouncedSaveProgress()
+          }
+        })
+
+        if (typeof window !== 'undefined') {
+          window.addEventListener('online', () => {
+            set({ isOffline: false })
+            get().syncOfflineQueue()
+          })
+          window.addEventListener('offline', () => set({ isOffline: true }))
+
+          // After the store exists: pick up what an earlier visit left queued
+          setTimeout(() => {
+            set({ isOffline: isOffline() })
+            get().syncOfflineQueue()
+          }, 0)
+        }
+
         return {
           // Initial State
           sessionId: null,
@@ -139,6 +363,13 @@ export const useOnboardingStore = create<OnboardingStore>()(
           isDirty: false,
           isSessionExpired: false,
           sessionExpiresAt: null,
+          pendingUploads: {},
+          sessionVersion: null,
+          syncedFormData: null,
+          saveConflict: null,
+          isOffline: false,
+          isSyncing: false,
+          queuedChanges: 0,
 
           // Session Management Actions
           initSession: async (sessionId: string) => {
@@ -159,6 +390,9 @@ export const useOnboardingStore = create<OnboardingStore>()(
                 sessionId: session.id,
                 currentStep: session.currentStep && session.currentStep >= 1 ? session.currentStep : 1,
                 formData: { ...initialFormData, ...session.formData },
+                syncedFormData: { ...initialFormData, ...session.formData },
+                sessionVersion: session.version,
+                saveConflict: null,
                 sessionExpiresAt: session.expiresAt,
                 isSessionExpired: isExpired,
                 lastSaved: new Date(session.updatedAt),
@@ -384,7 +618,11 @@ export const useOnboardingStore = create<OnboardingStore>()(
               stepErrors: {},
               isDirty: false,
               isSessionExpired: false,
-              sessionExpiresAt: null
+              sessionExpiresAt: null,
+              pendingUploads: {},
+              sessionVersion: null,
+              syncedFormData: null,
+              saveConflict: null
             })
 
             // Clear localStorage again after state update to ensure it's really gone
@@ -411,6 +649,9 @@ export const useOnboardingStore = create<OnboardingStore>()(
                 sessionId: session.id,
                 currentStep: session.currentStep && session.currentStep >= 1 ? session.currentStep : 1,
                 formData: { ...initialFormData, ...session.formData },
+                syncedFormData: { ...initialFormData, ...session.formData },
+                sessionVersion: session.version,
+                saveConflict: null,
                 sessionExpiresAt: session.expiresAt,
                 isSessionExpired: false,
                 lastSaved: new Date(session.createdAt),
@@ -541,7 +782,7 @@ export const useOnboardingStore = create<OnboardingStore>()(
 
             // Delete associated photos from Supabase Storage (async, fire-and-forget)
             if (photoPaths.length > 0) {
-              fetch('/api/onboarding/upload', {
+              csrfFetch('/api/onboarding/upload', {
                 method: 'DELETE',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ paths: photoPaths })
@@ -668,7 +909,7 @@ export const useOnboardingStore = create<OnboardingStore>()(
 
             // Delete photo from Supabase Storage (async, fire-and-forget)
             if (photoPath) {
-              fetch('/api/onboarding/upload', {
+              csrfFetch('/api/onboarding/upload', {
                 method: 'DELETE',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ paths: [photoPath] })
@@ -710,6 +951,87 @@ export const useOnboardingStore = create<OnboardingStore>()(
             debouncedSaveProgress()
           },
 
+          // Resumable upload progress survives reloads; the file itself is picked again
+          setPendingUpload: (key, upload) => {
+            set((state) => ({
+              pendingUploads: { ...state.pendingUploads, [key]: upload }
+            }))
+          },
+
+          clearPendingUpload: (key) => {
+            set((state) => {
+              const pendingUploads = { ...state.pendingUploads }
+              delete pendingUploads[key]
+              return { pendingUploads }
+            })
+          },
+
+          resolveSaveConflict: async (choices) => {
+            const { saveConflict, syncedFormData, formData, currentStep } = get()
+            if (!saveConflict) return
+
+            // Recomputed, so edits made while the dialog was open are kept
+            const { merged, conflicts } = mergeFormData(syncedFormData, formData, saveConflict.serverFormData)
+            const resolved: Record<string, unknown> = { ...merged }
+            conflicts.forEach((field) => {
+              resolved[field] = choices[field] === 'server'
+                ? saveConflict.serverFormData[field]
+                : formData[field]
+            })
+
+            set({
+              formData: resolved as Partial<OnboardingFormData>,
+              syncedFormData: saveConflict.serverFormData,
+              sessionVersion: saveConflict.serverVersion,
+              currentStep: Math.max(currentStep, saveConflict.serverStep || 1),
+              saveConflict: null,
+              isDirty: true
+            })
+
+            await saveProgressToServer()
+          },
+
+          syncOfflineQueue: async () => {
+            const queue = getOfflineQueue()
+            if (!queue || get().isSyncing) return
+
+            if (isOffline()) {
+              set({ isOffline: true, queuedChanges: await queue.size() })
+              return
+            }
+
+            set({ isSyncing: true })
+            try {
+              const { replayed, remaining } = await queue.replay(async (operation) => {
+                if (operation.kind === 'upload') {
+                  await replayQueuedUpload(operation)
+                } else if (operation.sessionId === get().sessionId) {
+                  // The store holds the newest form, including edits made after this save was queued
+                  await persistProgress()
+                } else {
+                  const { OnboardingClientService } = await import('@/services/onboarding-client')
+                  await OnboardingClientService.saveProgress(
+                    operation.sessionId,
+                    operation.formData,
+                    operation.currentStep,
+                    operation.baseVersion
+                  )
+                }
+              })
+              set({ isOffline: remaining > 0 && isOffline(), queuedChanges: remaining })
+
+              // Changes queued while this replay ran
+              if (remaining > 0 && replayed > 0 && !isOffline()) {
+                setTimeout(() => get().syncOfflineQueue(), 0)
+              }
+            } catch (error) {
+              console.error('Failed to sync offline changes:', error)
+              set({ queuedChanges: await queue.size().catch(() => get().queuedChanges) })
+            } finally {
+              set({ isSyncing: false })
+            }
+          },
+
           // Email Verification Methods
           verifyEmail: async (email: string, code: string): Promise<boolean> => {
             const { sessionId } = get()
@@ -718,7 +1040,7 @@ export const useOnboardingStore = create<OnboardingStore>()(
             }
 
             try {
-              const response = await fetch('/api/onboarding/verify-email', {
+              const response = await csrfFetch('/api/onboarding/verify-email', {
                 method: 'POST',
                 headers: {
                   'Content-Type': 'application/json',
@@ -749,7 +1071,7 @@ export const useOnboardingStore = create<OnboardingStore>()(
             }
 
             try {
-              const response = await fetch('/api/onboarding/send-verification', {
+              const response = await csrfFetch('/api/onboarding/send-verification', {
                 method: 'POST',
                 headers: {
                   'Content-Type': 'application/json',
@@ -783,7 +1105,10 @@ export const useOnboardingStore = create<OnboardingStore>()(
           completedSteps: state.completedSteps,
           sessionExpiresAt: state.sessionExpiresAt,
           formData: state.formData, // Persist form data to prevent loss on refresh
-          isSessionExpired: state.isSessionExpired
+          isSessionExpired: state.isSessionExpired,
+          pendingUploads: state.pendingUploads,
+          sessionVersion: state.sessionVersion,
+          syncedFormData: state.syncedFormData
         }),
         // CRITICAL: Custom merge to properly handle formData with file uploads
         // Default shallow merge would overwrite formData, losing uploaded files
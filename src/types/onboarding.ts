@@ -121,19 +121,44 @@ export type PrimaryGoal =
   | 'download'
   | 'other'
 
+export type ImageDerivativeFormat = 'webp' | 'avif'
+
+/** Resized, metadata-free rendition of an uploaded image */
+export interface ImageDerivative {
+  path: string
+  width: number
+  height: number
+  format: ImageDerivativeFormat
+  size: number
+}
+
 export interface UploadedFile {
   id: string
   fileName: string
   fileSize: number
   mimeType: string
-  url: string
-  /** Storage path for file deletion (e.g., "product-photo/file.jpg") */
+  /** @deprecated Signed URL saved by older uploads; render files with getAssetUrl() */
+  url?: string
+  /** Storage path in the onboarding-uploads bucket (e.g., "product-photo/file.jpg") */
   path?: string
   width?: number
   height?: number
+  /** Responsive WebP/AVIF renditions generated on upload */
+  derivatives?: ImageDerivative[]
   uploadedAt: string
 }
 
+/** Chunked upload that has not finished yet; resumed when the same file is picked again */
+export interface PendingUpload {
+  uploadId: string
+  uploadType: string
+  fileName: string
+  fileSize: number
+  /** Bytes the server has stored */
+  offset: number
+  updatedAt: string
+}
+
 // =============================================================================
 // PRODUCT TYPES - For Step 11 Enhanced Products & Services
 // =============================================================================
@@ -184,6 +209,21 @@ export interface OnboardingSession {
   ipAddress?: string
   userAgent?: string
   locale: Locale
+  // Bumped by the database on every form_data/current_step change
+  version: number
+}
+
+// A save only applies to the version it was based on; otherwise the server copy comes back
+export type SaveProgressResult =
+  | { status: 'saved'; session: OnboardingSession }
+  | { status: 'conflict'; session: OnboardingSession }
+
+// Another tab or device saved fields this tab changed too
+export interface SaveConflict {
+  fields: (keyof OnboardingFormData)[]
+  serverFormData: Partial<OnboardingFormData>
+  serverVersion: number
+  serverStep: number
 }
 
 export interface OnboardingSubmission {
@@ -192,6 +232,7 @@ export interface OnboardingSubmission {
   email: string
   businessName: string
   formData: OnboardingFormData
+  previewUrl?: string
   previewSentAt?: string
   previewViewedAt?: string
   paymentCompletedAt?: string
@@ -205,9 +246,39 @@ export type SubmissionStatus =
   | 'submitted'
   | 'preview_sent'
   | 'paid'
+  | 'past_due'
   | 'completed'
   | 'cancelled'
 
+export type FormChangeActor = 'customer' | 'admin'
+
+export type FormChangeSource = 'save' | 'submit' | 'revert'
+
+/**
+ * One field-level change to a session's form data (onboarding_form_changes row)
+ * Append-only; a revert is logged as a new change.
+ */
+export interface FormChangeRecord {
+  id: string
+  session_id: string
+  submission_id: string | null
+  step: number | null
+  // Dot-separated path into form_data, e.g. customerProfile.budget
+  field_path: string
+  // null when the field was added or removed
+  old_value: unknown
+  new_value: unknown
+  actor: FormChangeActor
+  source: FormChangeSource
+  created_at: string
+}
+
+export type SubmissionSortField =
+  | 'created_at'
+  | 'business_name'
+  | 'status'
+  | 'payment_completed_at'
+
 // =============================================================================
 // ANALYTICS & TRACKING TYPES
 // =============================================================================
@@ -248,12 +319,16 @@ export type AnalyticsEventType =
   | 'manual_save'
   | 'session_expired'
   | 'session_recovered'
+  | 'recovery_email_sent'
+  | 'preview_sent'
+  | 'preview_viewed'
   | 'payment_initiated'
   | 'payment_completed'
   | 'payment_failed'
   | 'payment_processing'
   | 'drop_off'
   | 'performance_warning'
+  | 'api_performance'
   | 'stripe_session_created'
   | 'stripe_session_failed'
 
@@ -262,6 +337,24 @@ export type AnalyticsCategory =
   | 'system_event'
   | 'error'
   | 'performance'
+  | 'conversion'
+
+/**
+ * Client-side event as sent to the batch ingestion route
+ * `id` is generated in the browser so retried batches are not stored twice.
+ */
+export interface AnalyticsBatchEvent {
+  id: string
+  sessionId: string
+  eventType: AnalyticsEventType
+  metadata?: Record<string, any>
+  stepNumber?: number
+  fieldName?: string
+  category?: AnalyticsCategory
+  durationMs?: number
+  // Epoch milliseconds when the event happened
+  timestamp?: number
+}
 
 // =============================================================================
 // VALIDATION TYPES
@@ -331,6 +424,19 @@ export interface OnboardingStore {
   // Session management
   isSessionExpired: boolean
   sessionExpiresAt: string | null
+
+  // Unfinished chunked uploads, keyed by getUploadFingerprint()
+  pendingUploads: Record<string, PendingUpload>
+
+  // Optimistic concurrency: the server version and copy local edits are based on
+  sessionVersion: number | null
+  syncedFormData: Partial<OnboardingFormData> | null
+  saveConflict: SaveConflict | null
+
+  // Offline support: saves and uploads wait in an IndexedDB queue (src/lib/offline-queue.ts)
+  isOffline: boolean
+  isSyncing: boolean
+  queuedChanges: number
   
   // Actions
   initSession: (sessionId: string) => Promise<void>
@@ -363,6 +469,16 @@ export interface OnboardingStore {
   deleteProductPhoto: (productId: string, photoId: string) => void
   reorderProductPhotos: (productId: string, fromIndex: number, toIndex: number) => void
 
+  // Resumable uploads
+  setPendingUpload: (key: string, upload: PendingUpload) => void
+  clearPendingUpload: (key: string) => void
+
+  // Multi-tab conflicts: keep this tab's ('local') or the saved ('server') value per field
+  resolveSaveConflict: (choices: Partial<Record<keyof OnboardingFormData, 'local' | 'server'>>) => Promise<void>
+
+  // Replays the offline queue; also refreshes queuedChanges
+  syncOfflineQueue: () => Promise<void>
+
   // Email verification (Step 2)
   verifyEmail: (email: string, code: string) => Promise<boolean>
   resendVerificationCode: (email: string, locale?: Locale) => Promise<void>
@@ -504,4 +620,58 @@ export const SESSION_DURATION_DAYS = 7 as const
 export const BASE_PACKAGE_PRICE = 35 // €35/month
 export const LANGUAGE_ADDON_PRICE = 75 // €75 one-time per language
 export const MAX_PAYMENT_ATTEMPTS = 5
-export const PAYMENT_ATTEMPT_WINDOW_HOURS = 1
\ No newline at end of file
+export const PAYMENT_ATTEMPT_WINDOW_HOURS = 1
+// Admin dashboard constants
+export const SUBMISSION_STATUSES: readonly SubmissionStatus[] = [
+  'submitted',
+  'preview_sent',
+  'paid',
+  'past_due',
+  'completed',
+  'cancelled'
+] as const
+
+// Analytics constants (validated server-side on ingestion)
+export const ANALYTICS_EVENT_TYPES: readonly AnalyticsEventType[] = [
+  'step_view',
+  'step_complete',
+  'field_error',
+  'field_blur',
+  'field_focus',
+  'form_submit',
+  'form_error',
+  'session_start',
+  'session_abandon',
+  'email_verification_sent',
+  'email_verification_success',
+  'email_verification_failed',
+  'file_upload_start',
+  'file_upload_success',
+  'file_upload_error',
+  'navigation_back',
+  'navigation_forward',
+  'auto_save',
+  'manual_save',
+  'session_expired',
+  'session_recovered',
+  'recovery_email_sent',
+  'preview_sent',
+  'preview_viewed',
+  'payment_initiated',
+  'payment_completed',
+  'payment_failed',
+  'payment_processing',
+  'drop_off',
+  'performance_warning',
+  'api_performance',
+  'stripe_session_created',
+  'stripe_session_failed'
+] as const
+
+export const ANALYTICS_CATEGORIES: readonly AnalyticsCategory[] = [
+  'user_action',
+  'system_event',
+  'error',
+  'performance',
+  'conversion'
+] as const
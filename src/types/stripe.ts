@@ -24,6 +24,7 @@ export type StripeWebhookEventType =
   | 'charge.refunded'
   | 'payment_intent.succeeded'
   | 'payment_intent.payment_failed'
+  | 'invoice.payment_failed'
 
 /**
  * Webhook event payload structure
@@ -0,0 +1,46 @@
+-- Migration: Abandoned onboarding recovery emails
+-- Feature: Automated abandonment recovery job (cron)
+-- Date: 2025-12-01
+
+-- Per-session opt-out for recovery emails
+ALTER TABLE onboarding_sessions
+  ADD COLUMN IF NOT EXISTS recovery_unsubscribed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN onboarding_sessions.recovery_unsubscribed_at IS 'Set when the user opts out of abandonment recovery emails; the recovery job skips these sessions';
+
+-- One row per recovery email sent, so the job never sends the same stage twice
+CREATE TABLE IF NOT EXISTS onboarding_recovery_emails (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES onboarding_sessions(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  stage INTEGER NOT NULL CHECK (stage >= 1),
+  current_step INTEGER,
+  locale TEXT,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (session_id, stage)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recovery_emails_session ON onboarding_recovery_emails(session_id);
+CREATE INDEX IF NOT EXISTS idx_recovery_emails_sent ON onboarding_recovery_emails(sent_at);
+
+-- Candidate lookup: verified sessions ordered by inactivity
+CREATE INDEX IF NOT EXISTS idx_sessions_verified_activity
+  ON onboarding_sessions(email_verified, last_activity)
+  WHERE recovery_unsubscribed_at IS NULL;
+
+COMMENT ON TABLE onboarding_recovery_emails IS 'Log of abandonment recovery emails (one row per session and stage) used for deduplication';
+COMMENT ON COLUMN onboarding_recovery_emails.stage IS '1-based index into the configured inactivity thresholds (RECOVERY_EMAIL_THRESHOLDS_HOURS)';
+
+-- Internal table: service role only
+ALTER TABLE onboarding_recovery_emails ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON onboarding_recovery_emails TO service_role;
+
+CREATE POLICY "Service role can manage recovery emails"
+  ON onboarding_recovery_emails
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,11 @@
+-- Migration: Preview delivery pipeline
+-- Feature: Admin attaches a preview URL, customer receives a tracked link
+-- Date: 2025-12-02
+
+ALTER TABLE onboarding_submissions
+  ADD COLUMN IF NOT EXISTS preview_url TEXT;
+
+COMMENT ON COLUMN onboarding_submissions.preview_url IS 'Website preview URL attached by an admin. Customers reach it through the signed /preview/[token] tracking link';
+COMMENT ON COLUMN onboarding_submissions.preview_viewed_at IS 'First time the customer opened the preview tracking link';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,78 @@
+-- Migration: Persistent rate limiting
+-- Feature: Shared sliding-window rate limiter for public and payment endpoints
+-- Date: 2025-12-03
+
+-- One row per accepted request; the window is the rows younger than window_ms
+CREATE TABLE IF NOT EXISTS rate_limit_hits (
+  id BIGSERIAL PRIMARY KEY,
+  key TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_key_created ON rate_limit_hits(key, created_at);
+
+COMMENT ON TABLE rate_limit_hits IS 'Sliding-window log used by src/lib/rate-limit.ts; rows older than the longest window can be deleted at any time';
+COMMENT ON COLUMN rate_limit_hits.key IS 'Limiter name and identifier, e.g. "contact:203.0.113.7"';
+
+-- Atomically prune, count and (when allowed) record a hit for one key.
+-- The advisory lock serializes concurrent requests for the same key so two
+-- instances cannot both take the last slot.
+CREATE OR REPLACE FUNCTION check_rate_limit(p_key TEXT, p_limit INTEGER, p_window_ms INTEGER)
+RETURNS TABLE (allowed BOOLEAN, hit_count INTEGER, oldest_hit_at TIMESTAMPTZ) AS $$
+DECLARE
+  window_start TIMESTAMPTZ := NOW() - make_interval(secs => p_window_ms / 1000.0);
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_key));
+
+  DELETE FROM rate_limit_hits
+  WHERE key = p_key AND created_at <= window_start;
+
+  SELECT COUNT(*)::INTEGER, MIN(created_at)
+  INTO hit_count, oldest_hit_at
+  FROM rate_limit_hits
+  WHERE key = p_key;
+
+  allowed := hit_count < p_limit;
+
+  IF allowed THEN
+    INSERT INTO rate_limit_hits (key) VALUES (p_key);
+    hit_count := hit_count + 1;
+    oldest_hit_at := COALESCE(oldest_hit_at, NOW());
+  END IF;
+
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+-- Housekeeping for keys that stopped receiving traffic
+CREATE OR REPLACE FUNCTION cleanup_rate_limit_hits(max_age_hours INTEGER DEFAULT 24)
+RETURNS INTEGER AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  DELETE FROM rate_limit_hits
+  WHERE created_at < NOW() - make_interval(hours => max_age_hours);
+
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+-- Internal table: service role only
+ALTER TABLE rate_limit_hits ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON rate_limit_hits TO service_role;
+GRANT USAGE, SELECT ON SEQUENCE rate_limit_hits_id_seq TO service_role;
+GRANT EXECUTE ON FUNCTION check_rate_limit(TEXT, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION cleanup_rate_limit_hits(INTEGER) TO service_role;
+
+CREATE POLICY "Service role can manage rate limit hits"
+  ON rate_limit_hits
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,19 @@
+-- Migration: Webhook event retries
+-- Feature: Replay and dead-letter handling for failed Stripe webhook events
+-- Date: 2025-12-04
+
+ALTER TABLE stripe_webhook_events
+  ADD COLUMN IF NOT EXISTS retry_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_retry_at TIMESTAMPTZ;
+
+-- Scheduled retry job looks up failed events that are due
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_retry
+  ON stripe_webhook_events(status, next_retry_at)
+  WHERE status IN ('processing', 'failed');
+
+COMMENT ON COLUMN stripe_webhook_events.retry_count IS 'Number of replays after the original delivery (manual and automatic)';
+COMMENT ON COLUMN stripe_webhook_events.next_retry_at IS 'When the scheduled job retries a failed event; NULL once retries are exhausted (dead letter) or the event completed';
+COMMENT ON COLUMN stripe_webhook_events.last_retry_at IS 'Start of the most recent replay';
+
+NOTIFY pgrst, 'reload schema';
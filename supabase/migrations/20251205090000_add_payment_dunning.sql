@@ -0,0 +1,61 @@
+-- Migration: Dunning for failed recurring payments
+-- Feature: past_due status, consecutive failure tracking and reminder log
+-- Date: 2025-12-05
+
+-- New status while a recurring invoice is unpaid
+ALTER TABLE onboarding_submissions
+  DROP CONSTRAINT IF EXISTS onboarding_submissions_status_check;
+
+ALTER TABLE onboarding_submissions
+  ADD CONSTRAINT onboarding_submissions_status_check
+  CHECK (status IN ('submitted', 'preview_sent', 'paid', 'past_due', 'completed', 'cancelled'));
+
+ALTER TABLE onboarding_submissions
+  ADD COLUMN IF NOT EXISTS payment_failure_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS dunning_started_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS dunning_invoice_id TEXT,
+  ADD COLUMN IF NOT EXISTS last_failed_invoice_id TEXT,
+  ADD COLUMN IF NOT EXISTS last_payment_failed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS status_before_past_due TEXT;
+
+COMMENT ON COLUMN onboarding_submissions.payment_failure_count IS 'Consecutive recurring invoices that failed; reset when an invoice is paid';
+COMMENT ON COLUMN onboarding_submissions.dunning_started_at IS 'First failure of the current dunning period; reminder days are counted from here';
+COMMENT ON COLUMN onboarding_submissions.dunning_invoice_id IS 'Invoice that opened the current dunning period (reminder deduplication key)';
+COMMENT ON COLUMN onboarding_submissions.last_failed_invoice_id IS 'Most recent failed invoice, so Stripe retries of the same invoice are not counted twice';
+COMMENT ON COLUMN onboarding_submissions.status_before_past_due IS 'Status restored once the overdue invoice is paid';
+
+-- Dunning job looks up overdue submissions
+CREATE INDEX IF NOT EXISTS idx_submissions_dunning
+  ON onboarding_submissions(dunning_started_at)
+  WHERE status = 'past_due';
+
+-- One row per dunning notice sent, so the job never sends the same notice twice
+CREATE TABLE IF NOT EXISTS payment_dunning_notices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id UUID NOT NULL REFERENCES onboarding_submissions(id) ON DELETE CASCADE,
+  invoice_id TEXT NOT NULL,
+  notice TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  locale TEXT,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (submission_id, invoice_id, notice)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dunning_notices_submission ON payment_dunning_notices(submission_id);
+
+COMMENT ON TABLE payment_dunning_notices IS 'Log of dunning emails (customer reminders and admin cancellation warnings) used for deduplication';
+COMMENT ON COLUMN payment_dunning_notices.notice IS 'day_0, day_3, day_7 (customer reminders) or admin_cancellation_warning';
+
+-- Internal table: service role only
+ALTER TABLE payment_dunning_notices ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON payment_dunning_notices TO service_role;
+
+CREATE POLICY "Service role can manage dunning notices"
+  ON payment_dunning_notices
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,25 @@
+-- Migration: Store uploads by storage path
+-- Feature: durable asset URLs served through /api/assets instead of 7-day signed URLs
+-- Date: 2025-12-06
+
+ALTER TABLE onboarding_uploads
+  ADD COLUMN IF NOT EXISTS file_path TEXT;
+
+COMMENT ON COLUMN onboarding_uploads.file_path IS 'Path in the onboarding-uploads bucket; URLs are signed on read';
+COMMENT ON COLUMN onboarding_uploads.file_url IS 'Deprecated: signed URL recorded by uploads made before file_path existed';
+
+-- Recover the path from the signed URLs recorded so far
+UPDATE onboarding_uploads
+SET file_path = substring(file_url FROM '/object/(?:sign|public)/onboarding-uploads/([^?]+)')
+WHERE file_path IS NULL
+  AND file_url IS NOT NULL;
+
+ALTER TABLE onboarding_uploads
+  ALTER COLUMN file_url DROP NOT NULL;
+
+-- The asset route checks that a session owns the requested path
+CREATE INDEX IF NOT EXISTS idx_onboarding_uploads_session_path
+  ON onboarding_uploads(session_id, file_path);
+
+-- Form data saved before this migration still holds signed URLs; the application
+-- recovers the storage path from them on read, so form_data is left untouched.
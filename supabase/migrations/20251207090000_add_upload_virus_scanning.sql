@@ -0,0 +1,46 @@
+-- Migration: Upload virus scanning and quarantine
+-- Feature: uploads move pending → clean/infected; infected files leave the onboarding-uploads bucket
+-- Date: 2025-12-07
+
+ALTER TABLE onboarding_uploads
+  ALTER COLUMN virus_scan_status SET DEFAULT 'pending';
+
+ALTER TABLE onboarding_uploads
+  ADD COLUMN IF NOT EXISTS scan_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS scanned_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS scan_signature TEXT,
+  ADD COLUMN IF NOT EXISTS scan_error TEXT,
+  ADD COLUMN IF NOT EXISTS quarantined_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN onboarding_uploads.scan_attempts IS 'Scans attempted; failed scans are retried by the upload-scan job up to a limit';
+COMMENT ON COLUMN onboarding_uploads.scan_signature IS 'Signature reported by the scanner for infected files';
+COMMENT ON COLUMN onboarding_uploads.quarantined_at IS 'When an infected file was moved to the upload-quarantine bucket';
+
+-- Uploads recorded before scanning existed were marked clean without a scan
+UPDATE onboarding_uploads
+SET virus_scan_status = 'pending'
+WHERE virus_scan_status = 'clean'
+  AND scanned_at IS NULL;
+
+-- Scan job picks up pending and failed uploads, oldest first
+CREATE INDEX IF NOT EXISTS idx_onboarding_uploads_scan_due
+  ON onboarding_uploads(created_at)
+  WHERE virus_scan_status IN ('pending', 'failed');
+
+-- Private bucket for infected files; only the service role can reach it
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES (
+  'upload-quarantine',
+  'upload-quarantine',
+  false,
+  10485760
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Service role quarantine access" ON storage.objects;
+
+CREATE POLICY "Service role quarantine access" ON storage.objects
+FOR ALL USING (
+  bucket_id = 'upload-quarantine'
+  AND auth.role() = 'service_role'
+);
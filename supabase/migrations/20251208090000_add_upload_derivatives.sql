@@ -0,0 +1,13 @@
+-- Migration: Responsive image derivatives
+-- Feature: uploads are stored without EXIF metadata, with WebP/AVIF renditions at fixed widths
+-- Date: 2025-12-08
+
+ALTER TABLE onboarding_uploads
+  ADD COLUMN IF NOT EXISTS derivatives JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN onboarding_uploads.derivatives IS 'Renditions of the upload: [{path, width, height, format, size}]';
+COMMENT ON COLUMN onboarding_uploads.is_processed IS 'Whether metadata was stripped and derivatives were generated';
+
+-- The asset route authorizes derivative paths through their original upload
+CREATE INDEX IF NOT EXISTS idx_onboarding_uploads_derivatives
+  ON onboarding_uploads USING GIN (derivatives jsonb_path_ops);
@@ -0,0 +1,61 @@
+-- Migration: Resumable chunked uploads
+-- Feature: large photos are sent in chunks with offsets, so an interrupted upload resumes where it stopped
+-- Date: 2025-12-09
+
+CREATE TABLE IF NOT EXISTS onboarding_upload_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES onboarding_sessions(id) ON DELETE CASCADE,
+  upload_type TEXT NOT NULL CHECK (upload_type IN ('logo', 'business-asset', 'product-photo')),
+  file_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  file_size INTEGER NOT NULL CHECK (file_size > 0),
+  chunk_size INTEGER NOT NULL CHECK (chunk_size > 0),
+  received_bytes INTEGER NOT NULL DEFAULT 0 CHECK (received_bytes >= 0 AND received_bytes <= file_size),
+  status TEXT NOT NULL DEFAULT 'uploading' CHECK (status IN ('uploading', 'processing', 'completed', 'failed')),
+  result JSONB,
+  error_message TEXT,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE onboarding_upload_sessions IS 'In-progress chunked uploads; chunks live under <id>/ in the upload-chunks bucket until assembled';
+COMMENT ON COLUMN onboarding_upload_sessions.received_bytes IS 'Upload offset: bytes stored so far, the next chunk must start here';
+COMMENT ON COLUMN onboarding_upload_sessions.result IS 'Upload response once assembled, so a client that lost the final response can fetch it';
+
+CREATE INDEX IF NOT EXISTS idx_onboarding_upload_sessions_session
+  ON onboarding_upload_sessions(session_id);
+
+-- The upload-cleanup job purges expired uploads and their chunks
+CREATE INDEX IF NOT EXISTS idx_onboarding_upload_sessions_expires
+  ON onboarding_upload_sessions(expires_at);
+
+-- Internal table: service role only
+ALTER TABLE onboarding_upload_sessions ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON onboarding_upload_sessions TO service_role;
+
+CREATE POLICY "Service role can manage upload sessions"
+  ON onboarding_upload_sessions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Private bucket for raw chunks; onboarding-uploads only accepts image types
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES (
+  'upload-chunks',
+  'upload-chunks',
+  false,
+  4194304
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Service role chunk access" ON storage.objects;
+
+CREATE POLICY "Service role chunk access" ON storage.objects
+FOR ALL USING (
+  bucket_id = 'upload-chunks'
+  AND auth.role() = 'service_role'
+);
@@ -0,0 +1,33 @@
+-- Migration: Cross-device session handoff
+-- Feature: "Continue on another device" mints a short-lived, single-use link shown as a QR code and emailed
+-- Date: 2025-12-10
+
+CREATE TABLE IF NOT EXISTS onboarding_handoff_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES onboarding_sessions(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  redeemed_at TIMESTAMPTZ,
+  redeemed_user_agent TEXT,
+  emailed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE onboarding_handoff_tokens IS 'Single-use links that open an onboarding session on another device';
+COMMENT ON COLUMN onboarding_handoff_tokens.token_hash IS 'SHA-256 of the token; the token itself only exists in the link';
+COMMENT ON COLUMN onboarding_handoff_tokens.redeemed_at IS 'When the link was used; the originating device polls for this';
+
+CREATE INDEX IF NOT EXISTS idx_onboarding_handoff_tokens_session
+  ON onboarding_handoff_tokens(session_id, created_at DESC);
+
+-- Internal table: service role only
+ALTER TABLE onboarding_handoff_tokens ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON onboarding_handoff_tokens TO service_role;
+
+CREATE POLICY "Service role can manage handoff tokens"
+  ON onboarding_handoff_tokens
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
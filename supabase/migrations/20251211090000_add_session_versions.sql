@@ -0,0 +1,28 @@
+-- Migration: Session versions for optimistic concurrency
+-- Feature: Saves from a second tab or device no longer silently overwrite each other's form data
+-- Date: 2025-12-11
+
+ALTER TABLE onboarding_sessions
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN onboarding_sessions.version IS 'Bumped on every form_data/current_step change; saves only apply to the version they were based on';
+
+-- Bump the version in the database so every writer (client saves, server routes) invalidates stale copies
+CREATE OR REPLACE FUNCTION bump_onboarding_session_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.form_data IS DISTINCT FROM OLD.form_data OR NEW.current_step IS DISTINCT FROM OLD.current_step THEN
+    NEW.version = OLD.version + 1;
+  ELSE
+    NEW.version = OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+DROP TRIGGER IF EXISTS bump_sessions_version ON onboarding_sessions;
+
+CREATE TRIGGER bump_sessions_version
+  BEFORE UPDATE ON onboarding_sessions
+  FOR EACH ROW EXECUTE FUNCTION bump_onboarding_session_version();
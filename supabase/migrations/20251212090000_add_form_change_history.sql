@@ -0,0 +1,266 @@
+-- Migration: Field-level form change history
+-- Feature: Append-only log of every form_data change (saves, submission, admin reverts) so disputes can be settled from what the customer actually entered; purged after FORM_CHANGE_RETENTION_DAYS or on erasure
+-- Date: 2025-12-12
+
+CREATE TABLE IF NOT EXISTS onboarding_form_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- No foreign keys: the history has to outlive expired sessions
+  session_id UUID NOT NULL,
+  submission_id UUID,
+  step INTEGER,
+  -- Dot-separated path into form_data, e.g. customerProfile.budget
+  field_path TEXT NOT NULL,
+  -- NULL when the field was added/removed
+  old_value JSONB,
+  new_value JSONB,
+  actor TEXT NOT NULL CHECK (actor IN ('customer', 'admin')),
+  source TEXT NOT NULL CHECK (source IN ('save', 'submit', 'revert')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_form_changes_session ON onboarding_form_changes(session_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_form_changes_submission ON onboarding_form_changes(submission_id, created_at)
+  WHERE submission_id IS NOT NULL;
+
+COMMENT ON TABLE onboarding_form_changes IS 'Append-only field-level history of onboarding form_data';
+
+-- Append-only: rows can be inserted and read, never rewritten. Deleting is
+-- only possible through the purge functions below (retention and erasure).
+CREATE OR REPLACE FUNCTION prevent_form_change_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND current_setting('app.purge_form_changes', true) = 'on' THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'onboarding_form_changes is append-only';
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+DROP TRIGGER IF EXISTS form_changes_append_only ON onboarding_form_changes;
+
+CREATE TRIGGER form_changes_append_only
+  BEFORE UPDATE OR DELETE ON onboarding_form_changes
+  FOR EACH ROW EXECUTE FUNCTION prevent_form_change_mutation();
+
+-- Leaf-level differences between two form_data documents. Nested objects are
+-- walked (customerProfile.budget); arrays are compared as a whole.
+CREATE OR REPLACE FUNCTION diff_form_data(p_old JSONB, p_new JSONB, p_prefix TEXT DEFAULT NULL)
+RETURNS TABLE (field_path TEXT, old_value JSONB, new_value JSONB) AS $$
+DECLARE
+  v_key TEXT;
+  v_path TEXT;
+  v_old JSONB;
+  v_new JSONB;
+BEGIN
+  FOR v_key IN
+    SELECT jsonb_object_keys(COALESCE(p_old, '{}'::jsonb))
+    UNION
+    SELECT jsonb_object_keys(COALESCE(p_new, '{}'::jsonb))
+  LOOP
+    v_old := p_old -> v_key;
+    v_new := p_new -> v_key;
+    CONTINUE WHEN v_old IS NOT DISTINCT FROM v_new;
+
+    v_path := CASE WHEN p_prefix IS NULL THEN v_key ELSE p_prefix || '.' || v_key END;
+
+    IF jsonb_typeof(v_old) = 'object' AND jsonb_typeof(v_new) = 'object' THEN
+      RETURN QUERY SELECT * FROM diff_form_data(v_old, v_new, v_path);
+    ELSE
+      field_path := v_path;
+      old_value := v_old;
+      new_value := v_new;
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE
+SET search_path = public;
+
+-- Log the difference between two form_data documents; returns the number of fields logged
+CREATE OR REPLACE FUNCTION record_form_changes(
+  p_session_id UUID,
+  p_old JSONB,
+  p_new JSONB,
+  p_step INTEGER,
+  p_actor TEXT,
+  p_source TEXT,
+  p_submission_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  logged_count INTEGER;
+BEGIN
+  INSERT INTO onboarding_form_changes (session_id, submission_id, step, field_path, old_value, new_value, actor, source)
+  SELECT p_session_id, p_submission_id, p_step, d.field_path, d.old_value, d.new_value, p_actor, p_source
+  FROM diff_form_data(p_old, p_new) d;
+
+  GET DIAGNOSTICS logged_count = ROW_COUNT;
+  RETURN logged_count;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+-- Customer saves reach onboarding_sessions through several API routes, so they
+-- are logged here rather than in each of them. The step is the one the
+-- customer was on when they made the edit.
+CREATE OR REPLACE FUNCTION log_session_form_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Admin reverts log themselves
+  IF current_setting('app.skip_form_change_log', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM record_form_changes(NEW.id, OLD.form_data, NEW.form_data, OLD.current_step, 'customer', 'save');
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_sessions_form_changes ON onboarding_sessions;
+
+CREATE TRIGGER log_sessions_form_changes
+  AFTER UPDATE OF form_data ON onboarding_sessions
+  FOR EACH ROW
+  WHEN (NEW.form_data IS DISTINCT FROM OLD.form_data)
+  EXECUTE FUNCTION log_session_form_changes();
+
+-- Put a field back to the value it had before a logged change, on the
+-- submission and (while it still exists) the session, and log the revert
+CREATE OR REPLACE FUNCTION revert_onboarding_form_change(p_change_id UUID, p_submission_id UUID)
+RETURNS onboarding_form_changes AS $$
+DECLARE
+  change onboarding_form_changes;
+  submission onboarding_submissions;
+  path TEXT[];
+  current_value JSONB;
+  reverted onboarding_form_changes;
+BEGIN
+  SELECT * INTO submission FROM onboarding_submissions WHERE id = p_submission_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  SELECT * INTO change FROM onboarding_form_changes
+  WHERE id = p_change_id
+    AND (submission_id = p_submission_id OR session_id = submission.session_id);
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Form change not found';
+  END IF;
+
+  path := string_to_array(change.field_path, '.');
+  current_value := submission.form_data #> path;
+
+  PERFORM set_config('app.skip_form_change_log', 'on', true);
+
+  UPDATE onboarding_submissions
+  SET form_data = CASE
+    WHEN change.old_value IS NULL THEN form_data #- path
+    ELSE jsonb_set(form_data, path, change.old_value, true)
+  END
+  WHERE id = p_submission_id;
+
+  UPDATE onboarding_sessions
+  SET form_data = CASE
+    WHEN change.old_value IS NULL THEN form_data #- path
+    ELSE jsonb_set(form_data, path, change.old_value, true)
+  END
+  WHERE id = change.session_id;
+
+  PERFORM set_config('app.skip_form_change_log', 'off', true);
+
+  INSERT INTO onboarding_form_changes (session_id, submission_id, step, field_path, old_value, new_value, actor, source)
+  VALUES (change.session_id, p_submission_id, change.step, change.field_path, current_value, change.old_value, 'admin', 'revert')
+  RETURNING * INTO reverted;
+
+  RETURN reverted;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+-- Erasure: removes the whole history of one session (right to be forgotten)
+CREATE OR REPLACE FUNCTION purge_session_form_changes(p_session_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  affected_count INTEGER;
+BEGIN
+  PERFORM set_config('app.purge_form_changes', 'on', true);
+
+  DELETE FROM onboarding_form_changes WHERE session_id = p_session_id;
+  GET DIAGNOSTICS affected_count = ROW_COUNT;
+
+  PERFORM set_config('app.purge_form_changes', 'off', true);
+  RETURN affected_count;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+-- Retention: deletes at most p_limit changes older than p_before per call
+-- (uses idx_form_changes_created); the job calls it repeatedly so a large
+-- backlog is removed in short transactions. With p_dry_run only counts.
+CREATE INDEX IF NOT EXISTS idx_form_changes_created ON onboarding_form_changes(created_at);
+
+CREATE OR REPLACE FUNCTION purge_onboarding_form_changes(
+  p_before TIMESTAMPTZ,
+  p_limit INTEGER DEFAULT 10000,
+  p_dry_run BOOLEAN DEFAULT FALSE
+)
+RETURNS INTEGER AS $$
+DECLARE
+  affected_count INTEGER;
+BEGIN
+  IF p_dry_run THEN
+    SELECT COUNT(*) INTO affected_count
+    FROM onboarding_form_changes
+    WHERE created_at < p_before;
+
+    RETURN affected_count;
+  END IF;
+
+  PERFORM set_config('app.purge_form_changes', 'on', true);
+
+  DELETE FROM onboarding_form_changes
+  WHERE id IN (
+    SELECT id
+    FROM onboarding_form_changes
+    WHERE created_at < p_before
+    LIMIT p_limit
+  );
+  GET DIAGNOSTICS affected_count = ROW_COUNT;
+
+  PERFORM set_config('app.purge_form_changes', 'off', true);
+  RETURN affected_count;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+COMMENT ON FUNCTION purge_session_form_changes IS 'Deletes the form change history of one session (erasure requests, test cleanup)';
+COMMENT ON FUNCTION purge_onboarding_form_changes IS 'Deletes (or counts) form changes created before the retention cutoff';
+
+-- Internal table: service role only, and even it cannot rewrite history
+ALTER TABLE onboarding_form_changes ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT ON onboarding_form_changes TO service_role;
+REVOKE EXECUTE ON FUNCTION record_form_changes(UUID, JSONB, JSONB, INTEGER, TEXT, TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_form_changes(UUID, JSONB, JSONB, INTEGER, TEXT, TEXT, UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION revert_onboarding_form_change(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION revert_onboarding_form_change(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION purge_session_form_changes(UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION purge_session_form_changes(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION purge_onboarding_form_changes(TIMESTAMPTZ, INTEGER, BOOLEAN) TO service_role;
+REVOKE EXECUTE ON FUNCTION purge_onboarding_form_changes(TIMESTAMPTZ, INTEGER, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+CREATE POLICY "Service role can read and append form changes"
+  ON onboarding_form_changes
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,185 @@
+-- Migration: Conversion metrics aggregation
+-- Feature: Step completion, drop-off, time per step and device conversion computed in the database for the analytics API
+-- Date: 2025-12-13
+
+-- Step 14 events and the 'conversion' category are sent by the client but were rejected by the original constraints
+ALTER TABLE onboarding_analytics
+  DROP CONSTRAINT IF EXISTS onboarding_analytics_step_number_check;
+
+ALTER TABLE onboarding_analytics
+  ADD CONSTRAINT onboarding_analytics_step_number_check
+  CHECK (step_number >= 1 AND step_number <= 14);
+
+ALTER TABLE onboarding_analytics
+  DROP CONSTRAINT IF EXISTS onboarding_analytics_category_check;
+
+ALTER TABLE onboarding_analytics
+  ADD CONSTRAINT onboarding_analytics_category_check
+  CHECK (category IN ('user_action', 'system_event', 'error', 'performance', 'conversion'));
+
+CREATE INDEX IF NOT EXISTS idx_sessions_created_locale ON onboarding_sessions(created_at, locale);
+CREATE INDEX IF NOT EXISTS idx_submissions_session ON onboarding_submissions(session_id);
+
+-- Mobile/desktop from a user agent string, NULL when unknown
+CREATE OR REPLACE FUNCTION classify_device(user_agent TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN user_agent IS NULL OR user_agent = '' OR user_agent = 'unknown' THEN NULL
+    WHEN user_agent ~* '(mobi|android|iphone|ipad|ipod)' THEN 'mobile'
+    ELSE 'desktop'
+  END;
+$$ LANGUAGE sql IMMUTABLE
+SET search_path = public;
+
+-- One row per session: how far it got, on which device, and whether it converted.
+-- Submitting happens on the way from step 13 to 14, so a submission counts as
+-- reaching step 14; paying completes it.
+CREATE OR REPLACE VIEW onboarding_session_funnel
+WITH (security_invoker = true) AS
+SELECT
+  s.id AS session_id,
+  s.locale,
+  s.created_at,
+  s.last_activity,
+  GREATEST(
+    COALESCE(s.current_step, 1),
+    COALESCE(events.max_step, 1),
+    CASE WHEN submission.id IS NOT NULL THEN 14 ELSE 1 END
+  ) AS furthest_step,
+  COALESCE(
+    CASE events.is_mobile WHEN TRUE THEN 'mobile' WHEN FALSE THEN 'desktop' END,
+    classify_device(s.user_agent),
+    'unknown'
+  ) AS device,
+  submission.id IS NOT NULL AS submitted,
+  COALESCE(submission.payment_completed_at IS NOT NULL, FALSE) AS paid
+FROM onboarding_sessions s
+LEFT JOIN LATERAL (
+  SELECT
+    MAX(a.step_number) FILTER (WHERE a.event_type IN ('step_view', 'step_complete')) AS max_step,
+    BOOL_OR(
+      CASE
+        WHEN jsonb_typeof(a.metadata -> 'is_mobile') = 'boolean' THEN (a.metadata ->> 'is_mobile')::BOOLEAN
+        ELSE classify_device(COALESCE(a.user_agent, a.metadata ->> 'user_agent')) = 'mobile'
+      END
+    ) AS is_mobile
+  FROM onboarding_analytics a
+  WHERE a.session_id = s.id
+) events ON TRUE
+LEFT JOIN LATERAL (
+  SELECT sub.id, sub.payment_completed_at
+  FROM onboarding_submissions sub
+  WHERE sub.session_id = s.id
+  ORDER BY sub.created_at DESC
+  LIMIT 1
+) submission ON TRUE;
+
+COMMENT ON VIEW onboarding_session_funnel IS 'Per-session funnel position, device and conversion for analytics';
+
+-- All conversion metrics for sessions started in [p_from, p_to), optionally one locale.
+-- Time per step comes from step_complete durations where tracked, otherwise the
+-- gap until the session first viewed its next step (gaps over p_max_step_seconds
+-- are treated as the visitor leaving and ignored).
+CREATE OR REPLACE FUNCTION get_conversion_metrics(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_locale TEXT DEFAULT NULL,
+  p_abandoned_after_hours INTEGER DEFAULT 24,
+  p_max_step_seconds INTEGER DEFAULT 7200
+)
+RETURNS JSONB AS $$
+  WITH sessions AS (
+    SELECT *
+    FROM onboarding_session_funnel f
+    WHERE f.created_at >= p_from
+      AND f.created_at < p_to
+      AND (p_locale IS NULL OR f.locale = p_locale)
+  ),
+  abandoned AS (
+    SELECT *
+    FROM sessions
+    WHERE NOT paid
+      AND last_activity < NOW() - make_interval(hours => p_abandoned_after_hours)
+  ),
+  step_events AS (
+    SELECT a.session_id, a.step_number, a.event_type, a.duration_ms, a.created_at
+    FROM onboarding_analytics a
+    JOIN sessions s ON s.session_id = a.session_id
+    WHERE a.step_number IS NOT NULL
+      AND a.event_type IN ('step_view', 'step_complete')
+  ),
+  completions AS (
+    SELECT session_id, step_number, MAX(duration_ms) / 1000.0 AS seconds
+    FROM step_events
+    WHERE event_type = 'step_complete' AND duration_ms IS NOT NULL
+    GROUP BY session_id, step_number
+  ),
+  view_gaps AS (
+    SELECT
+      session_id,
+      step_number,
+      EXTRACT(EPOCH FROM LEAD(viewed_at) OVER (PARTITION BY session_id ORDER BY viewed_at) - viewed_at) AS seconds
+    FROM (
+      SELECT session_id, step_number, MIN(created_at) AS viewed_at
+      FROM step_events
+      WHERE event_type = 'step_view'
+      GROUP BY session_id, step_number
+    ) first_views
+  ),
+  step_times AS (
+    SELECT step_number, seconds FROM completions
+    UNION ALL
+    SELECT g.step_number, g.seconds
+    FROM view_gaps g
+    WHERE g.seconds IS NOT NULL
+      AND g.seconds <= p_max_step_seconds
+      AND NOT EXISTS (
+        SELECT 1 FROM completions c
+        WHERE c.session_id = g.session_id AND c.step_number = g.step_number
+      )
+  ),
+  steps AS (
+    SELECT
+      n AS step,
+      (SELECT COUNT(*) FROM sessions WHERE furthest_step >= n) AS reached,
+      (SELECT COUNT(*) FROM sessions WHERE CASE WHEN n = 14 THEN paid ELSE furthest_step > n END) AS completed,
+      (SELECT COUNT(*) FROM abandoned WHERE furthest_step = n) AS dropped,
+      (SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY seconds) FROM step_times WHERE step_number = n) AS median_seconds,
+      (SELECT COUNT(*) FROM step_times WHERE step_number = n) AS timed_samples
+    FROM generate_series(1, 14) AS n
+  ),
+  devices AS (
+    SELECT
+      device,
+      COUNT(*) AS sessions,
+      COUNT(*) FILTER (WHERE submitted) AS submitted,
+      COUNT(*) FILTER (WHERE paid) AS paid
+    FROM sessions
+    GROUP BY device
+  ),
+  completion_times AS (
+    SELECT sub.completion_time_seconds AS seconds
+    FROM onboarding_submissions sub
+    JOIN sessions s ON s.session_id = sub.session_id
+    WHERE sub.completion_time_seconds IS NOT NULL
+  )
+  SELECT jsonb_build_object(
+    'sessions', (SELECT COUNT(*) FROM sessions),
+    'submitted', (SELECT COUNT(*) FROM sessions WHERE submitted),
+    'paid', (SELECT COUNT(*) FROM sessions WHERE paid),
+    'abandoned', (SELECT COUNT(*) FROM abandoned),
+    'avg_completion_seconds', (SELECT AVG(seconds) FROM completion_times),
+    'median_completion_seconds', (SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY seconds) FROM completion_times),
+    'steps', (SELECT jsonb_agg(to_jsonb(steps) ORDER BY step) FROM steps),
+    'devices', COALESCE((SELECT jsonb_agg(to_jsonb(devices) ORDER BY device) FROM devices), '[]'::jsonb)
+  );
+$$ LANGUAGE sql STABLE
+SET search_path = public;
+
+-- Reporting only: no access from the browser roles Supabase grants by default
+REVOKE ALL ON onboarding_session_funnel FROM PUBLIC, anon, authenticated;
+GRANT SELECT ON onboarding_session_funnel TO service_role;
+REVOKE EXECUTE ON FUNCTION get_conversion_metrics(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_conversion_metrics(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, INTEGER, INTEGER) TO service_role;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,134 @@
+-- Migration: Funnel analytics dashboard
+-- Feature: Field error heatmap, API latency percentiles and business-type cohorts for the admin dashboard
+-- Date: 2025-12-14
+
+CREATE INDEX IF NOT EXISTS idx_analytics_event_created ON onboarding_analytics(event_type, created_at);
+
+-- Same funnel rows, plus the form fields business types are detected from
+CREATE OR REPLACE VIEW onboarding_session_funnel
+WITH (security_invoker = true) AS
+SELECT
+  s.id AS session_id,
+  s.locale,
+  s.created_at,
+  s.last_activity,
+  GREATEST(
+    COALESCE(s.current_step, 1),
+    COALESCE(events.max_step, 1),
+    CASE WHEN submission.id IS NOT NULL THEN 14 ELSE 1 END
+  ) AS furthest_step,
+  COALESCE(
+    CASE events.is_mobile WHEN TRUE THEN 'mobile' WHEN FALSE THEN 'desktop' END,
+    classify_device(s.user_agent),
+    'unknown'
+  ) AS device,
+  submission.id IS NOT NULL AS submitted,
+  COALESCE(submission.payment_completed_at IS NOT NULL, FALSE) AS paid,
+  jsonb_strip_nulls(jsonb_build_object(
+    'industry', s.form_data -> 'industry',
+    'businessDescription', s.form_data -> 'businessDescription',
+    'offeringType', s.form_data -> 'offeringType',
+    'primaryGoal', s.form_data -> 'primaryGoal',
+    'websiteSections', s.form_data -> 'websiteSections'
+  )) AS business_profile
+FROM onboarding_sessions s
+LEFT JOIN LATERAL (
+  SELECT
+    MAX(a.step_number) FILTER (WHERE a.event_type IN ('step_view', 'step_complete')) AS max_step,
+    BOOL_OR(
+      CASE
+        WHEN jsonb_typeof(a.metadata -> 'is_mobile') = 'boolean' THEN (a.metadata ->> 'is_mobile')::BOOLEAN
+        ELSE classify_device(COALESCE(a.user_agent, a.metadata ->> 'user_agent')) = 'mobile'
+      END
+    ) AS is_mobile
+  FROM onboarding_analytics a
+  WHERE a.session_id = s.id
+) events ON TRUE
+LEFT JOIN LATERAL (
+  SELECT sub.id, sub.payment_completed_at
+  FROM onboarding_submissions sub
+  WHERE sub.session_id = s.id
+  ORDER BY sub.created_at DESC
+  LIMIT 1
+) submission ON TRUE;
+
+-- Validation errors per step and field, for sessions started in [p_from, p_to)
+CREATE OR REPLACE FUNCTION get_field_error_heatmap(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_locale TEXT DEFAULT NULL
+)
+RETURNS TABLE (step_number INTEGER, field_name TEXT, errors BIGINT, sessions BIGINT) AS $$
+  SELECT
+    a.step_number,
+    COALESCE(a.field_name, a.metadata ->> 'field_name') AS field_name,
+    COUNT(*) AS errors,
+    COUNT(DISTINCT a.session_id) AS sessions
+  FROM onboarding_analytics a
+  JOIN onboarding_sessions s ON s.id = a.session_id
+  WHERE a.event_type = 'field_error'
+    AND a.step_number IS NOT NULL
+    AND COALESCE(a.field_name, a.metadata ->> 'field_name') IS NOT NULL
+    AND s.created_at >= p_from
+    AND s.created_at < p_to
+    AND (p_locale IS NULL OR s.locale = p_locale)
+  GROUP BY 1, 2
+  ORDER BY 1, 3 DESC;
+$$ LANGUAGE sql STABLE
+SET search_path = public;
+
+-- Client-measured API latency per operation, from api_performance events in [p_from, p_to)
+CREATE OR REPLACE FUNCTION get_api_latency_percentiles(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_locale TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  operation TEXT,
+  calls BIGINT,
+  failures BIGINT,
+  p50_ms DOUBLE PRECISION,
+  p90_ms DOUBLE PRECISION,
+  p95_ms DOUBLE PRECISION,
+  p99_ms DOUBLE PRECISION
+) AS $$
+  WITH samples AS (
+    SELECT
+      a.metadata ->> 'operation' AS operation,
+      -- Metadata comes from the browser: values of the wrong JSON type are ignored, not cast
+      COALESCE(
+        a.duration_ms,
+        CASE WHEN jsonb_typeof(a.metadata -> 'duration_ms') = 'number' THEN (a.metadata ->> 'duration_ms')::DOUBLE PRECISION END
+      ) AS duration_ms,
+      CASE WHEN jsonb_typeof(a.metadata -> 'success') = 'boolean' THEN (a.metadata ->> 'success')::BOOLEAN ELSE TRUE END AS success
+    FROM onboarding_analytics a
+    LEFT JOIN onboarding_sessions s ON s.id = a.session_id
+    WHERE a.event_type = 'api_performance'
+      AND a.metadata ? 'operation'
+      AND a.created_at >= p_from
+      AND a.created_at < p_to
+      AND (p_locale IS NULL OR s.locale = p_locale)
+  )
+  SELECT
+    operation,
+    COUNT(*) AS calls,
+    COUNT(*) FILTER (WHERE NOT success) AS failures,
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY duration_ms),
+    percentile_cont(0.9) WITHIN GROUP (ORDER BY duration_ms),
+    percentile_cont(0.95) WITHIN GROUP (ORDER BY duration_ms),
+    percentile_cont(0.99) WITHIN GROUP (ORDER BY duration_ms)
+  FROM samples
+  WHERE duration_ms IS NOT NULL
+  GROUP BY operation
+  ORDER BY calls DESC;
+$$ LANGUAGE sql STABLE
+SET search_path = public;
+
+REVOKE ALL ON onboarding_session_funnel FROM PUBLIC, anon, authenticated;
+GRANT SELECT ON onboarding_session_funnel TO service_role;
+REVOKE EXECUTE ON FUNCTION get_field_error_heatmap(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_field_error_heatmap(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION get_api_latency_percentiles(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_api_latency_percentiles(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO service_role;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,19 @@
+-- Migration: Client event ids for batched analytics ingestion
+-- Feature: Events are sent in batches (and by sendBeacon on unload); retried batches must not be stored twice
+-- Date: 2025-12-15
+
+ALTER TABLE onboarding_analytics
+  ADD COLUMN IF NOT EXISTS client_event_id TEXT;
+
+-- Plain unique constraint (NULLs stay distinct) so inserts can skip duplicates with ON CONFLICT.
+-- Scoped to the session: ids come from the browser, so one session must not be
+-- able to suppress another session's events by reusing their ids.
+ALTER TABLE onboarding_analytics
+  DROP CONSTRAINT IF EXISTS onboarding_analytics_client_event_id_key;
+
+ALTER TABLE onboarding_analytics
+  ADD CONSTRAINT onboarding_analytics_client_event_id_key UNIQUE (session_id, client_event_id);
+
+COMMENT ON COLUMN onboarding_analytics.client_event_id IS 'Browser-generated event id, unique per session, used to drop duplicate deliveries; NULL for server-side events';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,44 @@
+-- Migration: Retention window for onboarding analytics
+-- Feature: Analytics events older than ANALYTICS_RETENTION_DAYS are purged by a scheduled job
+-- Date: 2025-12-16
+
+-- Deletes at most p_limit events per call (uses idx_analytics_created); the job
+-- calls it repeatedly so a large backlog is removed in short transactions.
+-- With p_dry_run only counts what would be deleted.
+CREATE OR REPLACE FUNCTION purge_onboarding_analytics(
+  p_before TIMESTAMPTZ,
+  p_limit INTEGER DEFAULT 10000,
+  p_dry_run BOOLEAN DEFAULT FALSE
+)
+RETURNS INTEGER AS $$
+DECLARE
+  affected_count INTEGER;
+BEGIN
+  IF p_dry_run THEN
+    SELECT COUNT(*) INTO affected_count
+    FROM onboarding_analytics
+    WHERE created_at < p_before;
+
+    RETURN affected_count;
+  END IF;
+
+  DELETE FROM onboarding_analytics
+  WHERE id IN (
+    SELECT id
+    FROM onboarding_analytics
+    WHERE created_at < p_before
+    LIMIT p_limit
+  );
+
+  GET DIAGNOSTICS affected_count = ROW_COUNT;
+  RETURN affected_count;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+COMMENT ON FUNCTION purge_onboarding_analytics IS 'Deletes (or counts) onboarding analytics events created before the retention cutoff';
+
+GRANT EXECUTE ON FUNCTION purge_onboarding_analytics(TIMESTAMPTZ, INTEGER, BOOLEAN) TO service_role;
+REVOKE EXECUTE ON FUNCTION purge_onboarding_analytics(TIMESTAMPTZ, INTEGER, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+NOTIFY pgrst, 'reload schema';
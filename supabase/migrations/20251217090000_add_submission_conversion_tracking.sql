@@ -0,0 +1,10 @@
+-- Migration: Server-side purchase conversion tracking
+-- Feature: The invoice webhook sends a GA4 purchase once per submission; the column records the claim
+-- Date: 2025-12-17
+
+ALTER TABLE onboarding_submissions
+  ADD COLUMN IF NOT EXISTS conversion_tracked_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN onboarding_submissions.conversion_tracked_at IS 'When the purchase conversion was sent to GA4 (NULL = not sent)';
+
+NOTIFY pgrst, 'reload schema';
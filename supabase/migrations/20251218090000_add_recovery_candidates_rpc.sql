@@ -0,0 +1,51 @@
+-- Migration: Recovery candidates filtered in the database
+-- Feature: Submitted sessions and stages already emailed no longer fill the job's batch
+-- Date: 2025-12-18
+
+-- Sessions due for a recovery email stage they have not been sent yet. The due
+-- stage is the number of (ascending) thresholds the inactivity has passed, the
+-- same rule as AbandonmentRecoveryService.getDueStage.
+CREATE OR REPLACE FUNCTION get_recovery_candidates(
+  p_now TIMESTAMPTZ,
+  p_thresholds_hours FLOAT8[],
+  p_max_inactive_days INTEGER,
+  p_limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+  id UUID,
+  email TEXT,
+  current_step INTEGER,
+  form_data JSONB,
+  last_activity TIMESTAMPTZ,
+  locale TEXT
+) AS $$
+  SELECT s.id, s.email, s.current_step, s.form_data, s.last_activity, s.locale
+  FROM onboarding_sessions s
+  CROSS JOIN LATERAL (
+    SELECT COUNT(*)::INTEGER AS stage
+    FROM unnest(p_thresholds_hours) AS threshold
+    WHERE s.last_activity <= p_now - make_interval(secs => threshold * 3600)
+  ) due
+  WHERE s.email_verified = TRUE
+    AND s.recovery_unsubscribed_at IS NULL
+    AND s.last_activity <= p_now - make_interval(secs => (SELECT MIN(t) FROM unnest(p_thresholds_hours) AS t) * 3600)
+    AND s.last_activity >= p_now - make_interval(days => p_max_inactive_days)
+    AND s.expires_at > p_now
+    AND NOT EXISTS (
+      SELECT 1 FROM onboarding_submissions sub WHERE sub.session_id = s.id
+    )
+    AND due.stage > COALESCE(
+      (SELECT MAX(e.stage) FROM onboarding_recovery_emails e WHERE e.session_id = s.id),
+      0
+    )
+  ORDER BY s.last_activity ASC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE
+SET search_path = public;
+
+COMMENT ON FUNCTION get_recovery_candidates IS 'Unsubmitted, opted-in sessions due for a recovery email stage not yet sent';
+
+GRANT EXECUTE ON FUNCTION get_recovery_candidates(TIMESTAMPTZ, FLOAT8[], INTEGER, INTEGER) TO service_role;
+REVOKE EXECUTE ON FUNCTION get_recovery_candidates(TIMESTAMPTZ, FLOAT8[], INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,30 @@
+-- Migration: Customer portal sign-in codes
+-- Feature: Portal codes get their own table instead of reusing the onboarding session's verification code
+-- Date: 2025-12-19
+
+CREATE TABLE IF NOT EXISTS portal_sign_in_codes (
+  email TEXT PRIMARY KEY,
+  code_hash TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE portal_sign_in_codes IS 'Pending customer portal sign-in code, one per email';
+COMMENT ON COLUMN portal_sign_in_codes.code_hash IS 'SHA-256 of email and code; the code itself only exists in the email';
+COMMENT ON COLUMN portal_sign_in_codes.locked_until IS 'Set after too many wrong codes; survives new code requests';
+
+-- Internal table: service role only
+ALTER TABLE portal_sign_in_codes ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON portal_sign_in_codes TO service_role;
+
+CREATE POLICY "Service role can manage portal sign-in codes"
+  ON portal_sign_in_codes
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+NOTIFY pgrst, 'reload schema';
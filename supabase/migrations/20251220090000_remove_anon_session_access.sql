@@ -0,0 +1,24 @@
+-- Migration: Remove anon access to onboarding sessions and uploads
+-- Feature: Sessions are loaded, saved and created through API routes that check the httpOnly session cookie
+-- Date: 2025-12-20
+
+-- With the anon key and a session id, the browser could read any session
+-- (verification code included) and overwrite its form data. The API routes use
+-- the service role, so anon needs no access to these tables.
+
+DROP POLICY IF EXISTS "anon_can_create_unverified_sessions" ON onboarding_sessions;
+DROP POLICY IF EXISTS "anon_can_read_sessions" ON onboarding_sessions;
+DROP POLICY IF EXISTS "anon_can_update_active_sessions" ON onboarding_sessions;
+
+DROP POLICY IF EXISTS "anon_can_insert_uploads" ON onboarding_uploads;
+DROP POLICY IF EXISTS "anon_can_read_uploads" ON onboarding_uploads;
+DROP POLICY IF EXISTS "anon_can_update_uploads" ON onboarding_uploads;
+DROP POLICY IF EXISTS "anon_can_delete_uploads" ON onboarding_uploads;
+
+REVOKE ALL ON onboarding_sessions FROM anon;
+REVOKE ALL ON onboarding_uploads FROM anon;
+
+-- Only the dropped session UPDATE policy needed this (its NOT EXISTS check)
+REVOKE SELECT ON onboarding_submissions FROM anon;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,10 @@
+-- Migration: Language add-on change claim
+-- Feature: Portal language changes run one at a time per submission, so concurrent requests can't bill a language twice
+-- Date: 2025-12-21
+
+ALTER TABLE onboarding_submissions
+  ADD COLUMN IF NOT EXISTS language_change_started_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN onboarding_submissions.language_change_started_at IS 'When the running language add-on change started (NULL = none running)';
+
+NOTIFY pgrst, 'reload schema';